@@ -0,0 +1,344 @@
+/**
+ * REST Read API for PredEx
+ *
+ * Serves markets, bets, the observations used for resolution and the
+ * evidence behind each resolution from the market indexer and the resolver store. Amounts are returned as decimal
+ * strings (wei) since they do not fit in a JSON number.
+ */
+
+import { Router, Request, Response } from 'express'
+import type { MarketFilter, MarketIndex } from './marketIndexer'
+import type { StoredObservation } from './resolverStore'
+import type { EventStore } from './eventStore'
+import type { getMarketResolverInfo } from './resolverService'
+import type { ShadowDecision } from './shadowReport'
+import { hashEvidence, serializeEvidence, serializeVerification, type EvidenceVerification, type ResolutionEvidence } from './resolutionEvidence'
+import { calculateClaimable } from '@predex/shared/payouts'
+import { buildOddsHistory } from './oddsHistory'
+import { selectDecidingObservations } from './resolutionCriteria'
+import { serializeBet, serializeMarket, serializeObservation, serializeOddsPoint } from './serialize'
+import { MarketStatus, type Bet } from '@predex/shared/types'
+import { createLogger } from './logger'
+
+const logger = createLogger({ component: 'api' })
+
+// ===== CONFIGURATION =====
+
+const DEFAULT_PAGE_SIZE = 20
+const MAX_PAGE_SIZE = 100
+
+// Names accepted by the ?type= and ?status= filters
+const MARKET_TYPES: Record<string, number> = { block: 0, transfer: 1, game: 2 }
+const MARKET_STATUSES: Record<string, number> = { active: 0, locked: 1, resolved: 2, cancelled: 3 }
+
+export interface ApiDependencies {
+  index: MarketIndex
+  events: EventStore
+  getObservations: (marketId: `0x${string}`) => Promise<StoredObservation[]>
+  getResolverInfo: typeof getMarketResolverInfo
+  getEvidence: (marketId: `0x${string}`) => Promise<ResolutionEvidence | null>
+  // Re-fetches the evidence sources from chain
+  verifyEvidence: (evidence: ResolutionEvidence) => Promise<EvidenceVerification>
+  // Only set when the resolver runs in shadow mode
+  getShadowDecisions?: () => ShadowDecision[]
+}
+
+class BadRequestError extends Error {}
+
+// ===== PARSING =====
+
+function parseEnum(value: unknown, names: Record<string, number>, field: string): number | undefined {
+  if (value === undefined) return undefined
+  const text = String(value).toLowerCase()
+  if (text in names) return names[text]
+
+  const number = Number(text)
+  if (Number.isInteger(number) && Object.values(names).includes(number)) return number
+  throw new BadRequestError(`Invalid ${field}: ${value} (expected one of ${Object.keys(names).join(', ')})`)
+}
+
+function parseInteger(value: unknown, fallback: number, field: string): number {
+  if (value === undefined) return fallback
+  const number = Number(value)
+  if (!Number.isInteger(number) || number < 0) {
+    throw new BadRequestError(`Invalid ${field}: ${value}`)
+  }
+  return number
+}
+
+function parseHex(value: unknown, bytes: number, field: string): `0x${string}` {
+  const text = String(value)
+  if (!new RegExp(`^0x[0-9a-fA-F]{${bytes * 2}}$`).test(text)) {
+    throw new BadRequestError(`Invalid ${field}: ${text}`)
+  }
+  return text.toLowerCase() as `0x${string}`
+}
+
+// Wrap an async handler so errors become JSON responses
+function handle(fn: (req: Request, res: Response) => Promise<void>) {
+  return async (req: Request, res: Response) => {
+    try {
+      await fn(req, res)
+    } catch (error) {
+      if (error instanceof BadRequestError) {
+        res.status(400).json({ error: error.message })
+        return
+      }
+      logger.error('Request failed', { method: req.method, url: req.originalUrl, error })
+      res.status(500).json({ error: 'Internal server error' })
+    }
+  }
+}
+
+// ===== ROUTES =====
+
+/**
+ * Create the read API router, mounted under /api
+ */
+export function createApiRouter(deps: ApiDependencies): Router {
+  const { index, events, getObservations, getResolverInfo, getEvidence, verifyEvidence, getShadowDecisions } = deps
+  const router = Router()
+
+  // List markets, newest first
+  // Query: type, status, creator, offset, limit
+  router.get('/markets', handle(async (req, res) => {
+    const filter: MarketFilter = {
+      marketType: parseEnum(req.query.type, MARKET_TYPES, 'type'),
+      status: parseEnum(req.query.status, MARKET_STATUSES, 'status'),
+      creator: req.query.creator === undefined ? undefined : parseHex(req.query.creator, 20, 'creator'),
+    }
+    const offset = parseInteger(req.query.offset, 0, 'offset')
+    const limit = Math.min(parseInteger(req.query.limit, DEFAULT_PAGE_SIZE, 'limit'), MAX_PAGE_SIZE)
+
+    const { total, markets } = await index.listMarkets(filter, offset, limit)
+    const resolver = await Promise.all(markets.map(market => getResolverInfo(market.marketId)))
+
+    res.json({
+      total,
+      offset,
+      limit,
+      markets: markets.map((market, i) => ({ ...serializeMarket(market), resolver: resolver[i] })),
+    })
+  }))
+
+  // Single market with pools, odds and bet history
+  router.get('/markets/:id', handle(async (req, res) => {
+    const marketId = parseHex(req.params.id, 32, 'market id')
+    const market = await index.getMarket(marketId)
+    if (!market) {
+      res.status(404).json({ error: 'Market not found' })
+      return
+    }
+
+    const bets = await index.getMarketBets(marketId)
+    res.json({
+      ...serializeMarket(market),
+      resolver: await getResolverInfo(marketId),
+      bets: bets.map(serializeBet),
+    })
+  }))
+
+  // Pool sizes, odds and implied probability after every bet
+  router.get('/markets/:id/odds', handle(async (req, res) => {
+    const marketId = parseHex(req.params.id, 32, 'market id')
+    const market = await index.getMarket(marketId)
+    if (!market) {
+      res.status(404).json({ error: 'Market not found' })
+      return
+    }
+
+    const query = { contract: 'PredictionMarket' as const, eventName: 'BetPlaced', marketId }
+    const bets = await events.getEvents({ ...query, limit: await events.countEvents(query) })
+    const history = buildOddsHistory(market, bets)
+
+    res.json({
+      marketId,
+      complete: history.complete,
+      points: history.points.map(serializeOddsPoint),
+    })
+  }))
+
+  // Observations the resolver recorded for a market
+  router.get('/markets/:id/events', handle(async (req, res) => {
+    const marketId = parseHex(req.params.id, 32, 'market id')
+    const market = await index.getMarket(marketId)
+    if (!market) {
+      res.status(404).json({ error: 'Market not found' })
+      return
+    }
+
+    const observations = await getObservations(marketId)
+    res.json({
+      marketId,
+      dataSourceId: market.dataSourceId,
+      observations: observations.map(serializeObservation),
+    })
+  }))
+
+  // How a settled market was decided: the settlement tx and the observations behind it
+  router.get('/markets/:id/resolution', handle(async (req, res) => {
+    const marketId = parseHex(req.params.id, 32, 'market id')
+    const market = await index.getMarket(marketId)
+    if (!market) {
+      res.status(404).json({ error: 'Market not found' })
+      return
+    }
+
+    const [resolved] = await events.getEvents({ contract: 'PredictionMarket', eventName: 'MarketResolved', marketId, limit: 1 })
+    const [cancelled] = await events.getEvents({ contract: 'PredictionMarket', eventName: 'MarketCancelled', marketId, limit: 1 })
+    const settlement = resolved ?? cancelled
+
+    const observations = market.status === MarketStatus.RESOLVED
+      ? selectDecidingObservations(
+          market,
+          (await getObservations(marketId)).map(o => ({ ...o, timestamp: o.observedAt }))
+        )
+      : []
+
+    res.json({
+      marketId,
+      status: market.status,
+      winningOption: market.status === MarketStatus.RESOLVED ? market.winningOption : null,
+      // Null until the settlement event is indexed
+      settlement: settlement ? {
+        event: settlement.eventName,
+        txHash: settlement.txHash,
+        blockNumber: Number(settlement.blockNumber),
+        timestamp: Number(settlement.timestamp),
+      } : null,
+      resolver: await getResolverInfo(marketId),
+      decidingObservations: observations.map(serializeObservation),
+    })
+  }))
+
+  // Evidence record the resolver kept for its resolution of a market
+  router.get('/markets/:id/evidence', handle(async (req, res) => {
+    const marketId = parseHex(req.params.id, 32, 'market id')
+    const evidence = await getEvidence(marketId)
+    if (!evidence) {
+      res.status(404).json({ error: 'No resolution evidence for this market' })
+      return
+    }
+
+    res.json({ ...serializeEvidence(evidence), evidenceHash: hashEvidence(evidence) })
+  }))
+
+  // Check the evidence against chain: every source log, the recomputed outcome and the market's result
+  router.get('/markets/:id/evidence/verify', handle(async (req, res) => {
+    const marketId = parseHex(req.params.id, 32, 'market id')
+    const evidence = await getEvidence(marketId)
+    if (!evidence) {
+      res.status(404).json({ error: 'No resolution evidence for this market' })
+      return
+    }
+
+    res.json({ marketId, evidenceHash: hashEvidence(evidence), ...serializeVerification(await verifyEvidence(evidence)) })
+  }))
+
+  // Every address ever passed to setResolver, with its latest authorization
+  // The deployer is authorized in the constructor without an event, so it only shows up once changed
+  router.get('/resolvers', handle(async (req, res) => {
+    const query = { contract: 'PredictionMarket', eventName: 'ResolverUpdated' } as const
+    const updates = await events.getEvents({ ...query, limit: await events.countEvents(query) })
+
+    const latest = new Map<string, (typeof updates)[number]>()
+    for (const update of updates) {
+      latest.set((update.args.resolver as string).toLowerCase(), update)
+    }
+
+    res.json({
+      resolvers: Array.from(latest, ([address, update]) => ({
+        address,
+        authorized: update.args.authorized as boolean,
+        txHash: update.txHash,
+        blockNumber: Number(update.blockNumber),
+        timestamp: Number(update.timestamp),
+      })),
+    })
+  }))
+
+  // Shadow-mode decisions next to the outcome each market was actually settled with
+  // `agrees` is null until the market is settled on chain
+  router.get('/shadow/decisions', handle(async (req, res) => {
+    if (!getShadowDecisions) {
+      res.status(404).json({ error: 'Resolver is not running in shadow mode' })
+      return
+    }
+
+    let settled = 0
+    let agreed = 0
+    const decisions = []
+    for (const decision of getShadowDecisions()) {
+      const market = await index.getMarket(decision.marketId)
+      const isSettled = market?.status === MarketStatus.RESOLVED || market?.status === MarketStatus.CANCELLED
+
+      let actual = null
+      let agrees: boolean | null = null
+      if (market && isSettled) {
+        const eventName = market.status === MarketStatus.RESOLVED ? 'MarketResolved' : 'MarketCancelled'
+        const [settlement] = await events.getEvents({ contract: 'PredictionMarket', eventName, marketId: decision.marketId, limit: 1 })
+        actual = {
+          status: market.status,
+          winningOption: market.status === MarketStatus.RESOLVED ? market.winningOption : null,
+          // Null until the settlement event is indexed
+          txHash: settlement?.txHash ?? null,
+        }
+        agrees = decision.action === 'cancel'
+          ? market.status === MarketStatus.CANCELLED
+          : market.status === MarketStatus.RESOLVED && market.winningOption === decision.winningOption
+
+        settled++
+        if (agrees) agreed++
+      }
+
+      decisions.push({ ...decision, actual, agrees })
+    }
+
+    res.json({
+      summary: { decided: decisions.length, settled, agreed, disagreed: settled - agreed },
+      decisions,
+    })
+  }))
+
+  // A user's bets grouped by market, with what they can still claim
+  router.get('/users/:address/bets', handle(async (req, res) => {
+    const address = parseHex(req.params.address, 20, 'address')
+    const [bets, platformFee] = await Promise.all([index.getUserBets(address), index.getPlatformFee()])
+
+    const byMarket = new Map<string, Bet[]>()
+    for (const bet of bets) {
+      const key = bet.marketId.toLowerCase()
+      byMarket.set(key, [...(byMarket.get(key) ?? []), bet])
+    }
+
+    let totalClaimable = 0n
+    const markets = []
+    for (const [marketId, marketBets] of byMarket) {
+      const market = await index.getMarket(marketId as `0x${string}`)
+      if (!market) continue
+
+      const claimable = calculateClaimable(market, marketBets, platformFee)
+      totalClaimable += claimable.amount
+
+      markets.push({
+        market: serializeMarket(market),
+        bets: marketBets.map(serializeBet),
+        staked: marketBets.reduce((sum, bet) => sum + bet.amount, 0n).toString(),
+        claimable: {
+          kind: claimable.kind,
+          amount: claimable.amount.toString(),
+        },
+      })
+    }
+
+    res.json({
+      address,
+      totalClaimable: totalClaimable.toString(),
+      // Basis points, for what the bets would pay at other outcomes
+      platformFee: platformFee.toString(),
+      markets,
+    })
+  }))
+
+  return router
+}
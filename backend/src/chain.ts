@@ -0,0 +1,106 @@
+/**
+ * Network Selection for PredEx
+ *
+ * Picks the network from `--network <name>` (or NETWORK) and resolves its RPC
+ * endpoints and contract addresses. Addresses are layered: registry defaults,
+ * then <deployment>-latest.json from the deploy script, then the
+ * MARKET_CONTRACT / SOMI_TOKEN / GAME_CONTRACT env overrides.
+ */
+
+import fs from 'fs'
+import path from 'path'
+import dotenv from 'dotenv'
+import { type Chain } from 'viem'
+import {
+  DEFAULT_NETWORK,
+  NETWORKS,
+  NETWORK_NAMES,
+  NetworkContracts,
+  NetworkName,
+  isNetworkName,
+  mergeContracts,
+  parseDeployment,
+  withRpcUrl,
+} from '@predex/shared/networks'
+import { createLogger } from './logger'
+
+const logger = createLogger({ component: 'chain' })
+
+// Loaded here because the network is resolved on import, before index.ts runs dotenv
+dotenv.config()
+
+// Directory holding the deployment JSON files written by smart-contracts/scripts/deploy.ts
+const DEPLOYMENTS_DIR = process.env.DEPLOYMENTS_DIR || path.join(__dirname, '../../smart-contracts/deployments')
+
+export interface ResolvedNetwork {
+  name: NetworkName
+  chain: Chain // RPC endpoint already set to rpcUrl
+  rpcUrl: string
+  wsUrl: string
+  contracts: NetworkContracts
+  deploymentFile: string | null // Deployment JSON the addresses were read from, if any
+}
+
+/**
+ * Value of `--network <name>` or `--network=<name>`
+ */
+function getNetworkArg(argv: readonly string[]): string | undefined {
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === '--network') return argv[i + 1]
+    if (argv[i].startsWith('--network=')) return argv[i].slice('--network='.length)
+  }
+  return undefined
+}
+
+function readDeployment(file: string): NetworkContracts | null {
+  if (!fs.existsSync(file)) return null
+  try {
+    return parseDeployment(JSON.parse(fs.readFileSync(file, 'utf8')))
+  } catch (error) {
+    logger.warn('Ignoring unreadable deployment file', { file, error })
+    return null
+  }
+}
+
+function envAddress(value: string | undefined): `0x${string}` | undefined {
+  return value ? value as `0x${string}` : undefined
+}
+
+export function resolveNetwork(argv: readonly string[] = process.argv, env: NodeJS.ProcessEnv = process.env): ResolvedNetwork {
+  const name = getNetworkArg(argv) || env.NETWORK || DEFAULT_NETWORK
+  if (!isNetworkName(name)) {
+    throw new Error(`Unknown network "${name}". Expected one of: ${NETWORK_NAMES.join(', ')}`)
+  }
+
+  const config = NETWORKS[name]
+  const deploymentFile = path.join(DEPLOYMENTS_DIR, `${config.deployment}-latest.json`)
+  const deployment = readDeployment(deploymentFile)
+
+  const rpcUrl = env.SOMNIA_RPC_URL || config.chain.rpcUrls.default.http[0]
+  const contracts = mergeContracts(config.contracts, deployment ?? {}, {
+    market: envAddress(env.MARKET_CONTRACT),
+    somiToken: envAddress(env.SOMI_TOKEN),
+    game: envAddress(env.GAME_CONTRACT),
+  })
+
+  return {
+    name,
+    chain: withRpcUrl(config.chain, rpcUrl),
+    rpcUrl,
+    wsUrl: env.SOMNIA_WS_URL || rpcUrl.replace(/^http/, 'ws'),
+    contracts,
+    deploymentFile: deployment ? deploymentFile : null,
+  }
+}
+
+// Network this process runs against
+export const network = resolveNetwork()
+
+/**
+ * Default location of a local database file for the selected network
+ * The default network keeps the original ./data layout; others get ./data/<network>/
+ * so checkpoints and indexed events never mix across chains.
+ */
+export function getDataPath(file: string): string {
+  return network.name === DEFAULT_NETWORK ? `./data/${file}` : `./data/${network.name}/${file}`
+}
@@ -0,0 +1,131 @@
+/**
+ * Confirmation Buffer for Reorg-Aware Log Processing
+ *
+ * Live logs are held until they are `depth` blocks deep. Logs that the node
+ * later reports as `removed: true`, or whose block hash no longer matches the
+ * canonical chain when they are released, are dropped so the resolver only
+ * acts on canonical data.
+ */
+
+export interface ChainLog {
+  blockNumber: bigint | null
+  blockHash: `0x${string}` | null
+  transactionHash: `0x${string}` | null
+  logIndex: number | null
+  removed?: boolean
+}
+
+export interface BufferedEntry<TLog extends ChainLog> {
+  stream: string
+  log: TLog
+}
+
+export interface ReleaseResult<TLog extends ChainLog> {
+  // Deep enough and still on the canonical chain, in block/log order
+  confirmed: BufferedEntry<TLog>[]
+  // Reorged out: their block hash no longer matches the canonical block
+  dropped: BufferedEntry<TLog>[]
+}
+
+function logKey(log: ChainLog): string {
+  return `${log.blockHash}:${log.transactionHash}:${log.logIndex}`
+}
+
+function compareLogs(a: ChainLog, b: ChainLog): number {
+  if (a.blockNumber !== b.blockNumber) return (a.blockNumber ?? 0n) < (b.blockNumber ?? 0n) ? -1 : 1
+  return (a.logIndex ?? 0) - (b.logIndex ?? 0)
+}
+
+/**
+ * Create a buffer that releases logs once they have `depth` confirmations
+ * A depth of 0 releases logs as soon as their block is the head, after the
+ * canonical hash check.
+ */
+export function createConfirmationBuffer<TLog extends ChainLog>(depth: bigint) {
+  const pending = new Map<string, BufferedEntry<TLog>>()
+
+  return {
+    /**
+     * Buffer a live log, or discard its buffered copy when the node marks it removed
+     * Returns false when the log was a removal
+     */
+    add(stream: string, log: TLog): boolean {
+      const key = logKey(log)
+      if (log.removed) {
+        pending.delete(key)
+        return false
+      }
+
+      // Logs without a block are still pending inclusion - wait for the mined copy
+      if (log.blockNumber === null || log.blockHash === null) return true
+
+      pending.set(key, { stream, log })
+      return true
+    },
+
+    /**
+     * Release every buffered log that is at least `depth` blocks below `head`
+     * `getCanonicalHash` returns the hash of the canonical block at a height.
+     */
+    async release(
+      head: bigint,
+      getCanonicalHash: (blockNumber: bigint) => Promise<`0x${string}`>
+    ): Promise<ReleaseResult<TLog>> {
+      const ready = Array.from(pending.entries())
+        .filter(([, entry]) => entry.log.blockNumber! + depth <= head)
+        .sort(([, a], [, b]) => compareLogs(a.log, b.log))
+
+      const confirmed: BufferedEntry<TLog>[] = []
+      const dropped: BufferedEntry<TLog>[] = []
+      const canonical = new Map<bigint, `0x${string}`>()
+
+      for (const [key, entry] of ready) {
+        const blockNumber = entry.log.blockNumber!
+        if (!canonical.has(blockNumber)) {
+          canonical.set(blockNumber, await getCanonicalHash(blockNumber))
+        }
+
+        pending.delete(key)
+        if (canonical.get(blockNumber) === entry.log.blockHash) {
+          confirmed.push(entry)
+        } else {
+          dropped.push(entry)
+        }
+      }
+
+      return { confirmed, dropped }
+    },
+
+    get size(): number {
+      return pending.size
+    },
+  }
+}
+
+/**
+ * Hand released logs to `handle` in order and report each block once all of its logs are handled
+ * `onBlockDone` runs for every stream with logs in the block, after the block's
+ * last log. If `handle` throws, the block it was in is never reported, so a
+ * checkpoint moved by `onBlockDone` stays below it and a restart replays the whole block.
+ */
+export async function handleConfirmedBlocks<TLog extends ChainLog>(
+  confirmed: BufferedEntry<TLog>[],
+  handle: (entry: BufferedEntry<TLog>) => Promise<void>,
+  onBlockDone: (stream: string, blockNumber: bigint) => Promise<void>
+): Promise<void> {
+  let index = 0
+  while (index < confirmed.length) {
+    const blockNumber = confirmed[index].log.blockNumber!
+    const streams = new Set<string>()
+
+    while (index < confirmed.length && confirmed[index].log.blockNumber === blockNumber) {
+      await handle(confirmed[index])
+      streams.add(confirmed[index].stream)
+      index++
+    }
+
+    for (const stream of streams) {
+      await onBlockDone(stream, blockNumber)
+    }
+  }
+}
@@ -0,0 +1,93 @@
+/**
+ * Local Data Streams Mock API for PredEx
+ *
+ * Serves an in-process Data Streams store over HTTP, mounted at
+ * /api/data-streams when DATA_STREAMS_MODE=mock. The frontend
+ * (NEXT_PUBLIC_DATA_STREAMS_MODE=mock) and other processes reach it through
+ * createHttpStreamsClient, so schemas, publishes and subscriptions all work
+ * without the Somnia network. Nothing is signed or persisted.
+ */
+
+import { Router, Request, Response } from 'express'
+import type { Address, Hex } from 'viem'
+import type { DataSchemaRegistration, DataStream, EventStream, MemoryStreamsStore } from '@predex/shared/streamsClient'
+
+class BadRequestError extends Error {}
+
+function parseHex(value: unknown, bytes: number, field: string): Hex {
+  const text = String(value)
+  if (!new RegExp(`^0x[0-9a-fA-F]{${bytes * 2}}$`).test(text)) {
+    throw new BadRequestError(`Invalid ${field}: ${text}`)
+  }
+  return text.toLowerCase() as Hex
+}
+
+function parseArray<T>(value: unknown, field: string): T[] {
+  if (!Array.isArray(value)) throw new BadRequestError(`${field} must be an array`)
+  return value as T[]
+}
+
+// Wrap a handler so errors become JSON responses; store errors (e.g. duplicate schemas) are client errors
+function handle(fn: (req: Request, res: Response) => void) {
+  return (req: Request, res: Response) => {
+    try {
+      fn(req, res)
+    } catch (error: any) {
+      res.status(400).json({ error: error instanceof Error ? error.message : String(error) })
+    }
+  }
+}
+
+/**
+ * Create the mock Data Streams router, mounted under /api/data-streams
+ */
+export function createDataStreamsMockRouter(store: MemoryStreamsStore): Router {
+  const router = Router()
+
+  // Whether a schema id is registered, and its schema string
+  router.get('/schemas/:schemaId', handle((req, res) => {
+    const registration = store.getSchema(parseHex(req.params.schemaId, 32, 'schema id'))
+    res.json({ registered: registration !== null, schema: registration?.schema ?? null })
+  }))
+
+  // Register schemas
+  // Body: { registrations: [{ id, schema, parentSchemaId? }], ignoreAlreadyRegistered? }
+  router.post('/schemas', handle((req, res) => {
+    const registrations = parseArray<DataSchemaRegistration>(req.body?.registrations, 'registrations')
+    const txHash = store.registerSchemas(registrations, req.body?.ignoreAlreadyRegistered !== false)
+    res.json({ txHash })
+  }))
+
+  // Write data and emit events as `publisher`
+  // Body: { publisher, dataStreams: [{ id, schemaId, data }], eventStreams: [{ id, argumentTopics, data }] }
+  router.post('/publish', handle((req, res) => {
+    const publisher = parseHex(req.body?.publisher, 20, 'publisher') as Address
+    const dataStreams = parseArray<DataStream>(req.body?.dataStreams ?? [], 'dataStreams')
+    const eventStreams = parseArray<EventStream>(req.body?.eventStreams ?? [], 'eventStreams')
+    res.json({ txHash: store.publish(publisher, dataStreams, eventStreams) })
+  }))
+
+  // Records a publisher wrote under a schema, with the schema to decode them
+  router.get('/data/:schemaId/:publisher', handle((req, res) => {
+    const schemaId = parseHex(req.params.schemaId, 32, 'schema id')
+    const publisher = parseHex(req.params.publisher, 20, 'publisher') as Address
+    res.json({
+      schema: store.getSchema(schemaId)?.schema ?? null,
+      records: store.getRecords(schemaId, publisher),
+    })
+  }))
+
+  // Events after a cursor, for polling subscribers
+  // Query: after (omit to only get the current cursor)
+  router.get('/events', handle((req, res) => {
+    if (req.query.after === undefined) {
+      res.json({ events: [], latest: store.getEvents(Number.MAX_SAFE_INTEGER).latest })
+      return
+    }
+    const after = Number(req.query.after)
+    if (!Number.isInteger(after)) throw new BadRequestError(`Invalid after: ${req.query.after}`)
+    res.json(store.getEvents(after))
+  }))
+
+  return router
+}
@@ -0,0 +1,193 @@
+/**
+ * Contract Event Indexer for PredEx
+ *
+ * Ingests every PredictionMarket, SomiToken and BossBattleGame event into the
+ * event store. Each contract is indexed from its own checkpoint up to the
+ * latest confirmed block, so restarts resume where they left off and reorged
+ * blocks are never written.
+ */
+
+import { parseAbi, type Abi, type AbiEvent, type Log, type PublicClient } from 'viem'
+import { backfillContractLogs, checkpointKey, resumableCheckpoint } from './logBackfill'
+import type { EventArg, EventStore, IndexedContract, IndexedEvent } from './eventStore'
+import { createLogger } from './logger'
+
+const logger = createLogger({ component: 'event-indexer' })
+
+// Event signatures of the contracts without a bundled ABI
+export const SOMI_TOKEN_EVENTS = parseAbi([
+  'event Transfer(address indexed from, address indexed to, uint256 value)',
+  'event Approval(address indexed owner, address indexed spender, uint256 value)',
+  'event OwnershipTransferred(address indexed previousOwner, address indexed newOwner)',
+  'event FaucetClaimed(address indexed claimer, uint256 amount)',
+  'event FaucetAmountUpdated(uint256 newAmount)',
+  'event FaucetCooldownUpdated(uint256 newCooldown)',
+])
+
+export const BOSS_BATTLE_EVENTS = parseAbi([
+  'event GameStarted(bytes32 indexed sessionId, address indexed player, uint256 startTime, uint8 bossLevel)',
+  'event DamageDealt(bytes32 indexed sessionId, address indexed player, uint256 damage, uint256 timestamp)',
+  'event BossDefeated(bytes32 indexed sessionId, address indexed player, uint256 timeTaken, uint256 totalDamage)',
+  'event GameFailed(bytes32 indexed sessionId, address indexed player, string reason)',
+  'event PlayerLevelUp(address indexed player, uint8 newLevel, uint256 timestamp)',
+])
+
+// Arg naming the account an event is about, first match wins
+const ACCOUNT_ARGS = ['bettor', 'player', 'claimer', 'creator', 'owner', 'resolver', 'from', 'previousOwner']
+
+export interface IndexedContractConfig {
+  name: IndexedContract
+  address: `0x${string}`
+  events: readonly AbiEvent[]
+}
+
+export interface EventIndexerOptions {
+  client: PublicClient
+  chainId: number // Part of each checkpoint key, with the contract address
+  store: EventStore
+  contracts: IndexedContractConfig[]
+  startBlock: bigint | null // First block without a checkpoint (defaults to the current head)
+  chunkSize: bigint // Blocks per eth_getLogs page
+  confirmations: bigint // Blocks a log must be buried under before it is indexed
+  pollIntervalMs?: number // Default 5000
+  // Called with each page of newly stored events, in chain order
+  onEvents?: (events: IndexedEvent[]) => Promise<void> | void
+}
+
+/**
+ * Event definitions of an ABI, e.g. the bundled PredictionMarket ABI
+ */
+export function getAbiEvents(abi: Abi | readonly unknown[]): AbiEvent[] {
+  return (abi as Abi).filter((item): item is AbiEvent => item.type === 'event')
+}
+
+function getAccount(args: Record<string, EventArg>): `0x${string}` | null {
+  for (const name of ACCOUNT_ARGS) {
+    if (typeof args[name] === 'string') return args[name] as `0x${string}`
+  }
+  return null
+}
+
+/**
+ * Create an indexer that polls each contract's logs into the event store
+ */
+export function createEventIndexer(options: EventIndexerOptions) {
+  const { client, chainId, store, contracts, startBlock, chunkSize, confirmations, onEvents } = options
+  const pollIntervalMs = options.pollIntervalMs ?? 5000
+
+  let timer: NodeJS.Timeout | null = null
+  let stopped = false
+
+  const blockTimestamps = new Map<bigint, bigint>()
+
+  async function getBlockTimestamp(blockNumber: bigint): Promise<bigint> {
+    const cached = blockTimestamps.get(blockNumber)
+    if (cached !== undefined) return cached
+
+    const block = await client.getBlock({ blockNumber })
+    if (blockTimestamps.size >= 1000) blockTimestamps.clear()
+    blockTimestamps.set(blockNumber, block.timestamp)
+    return block.timestamp
+  }
+
+  async function toIndexedEvent(contract: IndexedContract, log: Log<bigint, number, false, AbiEvent, true>): Promise<IndexedEvent> {
+    const args = { ...(log.args as Record<string, EventArg>) }
+    return {
+      contract,
+      eventName: log.eventName,
+      blockNumber: log.blockNumber,
+      blockHash: log.blockHash,
+      txHash: log.transactionHash,
+      logIndex: log.logIndex,
+      timestamp: await getBlockTimestamp(log.blockNumber),
+      marketId: contract === 'PredictionMarket' && typeof args.marketId === 'string' ? args.marketId as `0x${string}` : null,
+      account: getAccount(args),
+      args,
+    }
+  }
+
+  async function indexContract(contract: IndexedContractConfig, head: bigint, latest: bigint) {
+    const key = checkpointKey(`events:${contract.name}`, chainId, contract.address)
+    const stored = await store.getCheckpoint(key)
+    const checkpoint = resumableCheckpoint(stored, latest)
+
+    // A new deployment or a reset chain: events stored for this contract belong to the old one
+    if (checkpoint === null) {
+      if (stored !== null) {
+        logger.warn('Checkpoint is past the chain head, reindexing', { contract: contract.name, checkpoint: stored, latest })
+      }
+      await store.deleteEvents(contract.name)
+    }
+
+    const fromBlock = checkpoint !== null ? checkpoint + 1n : startBlock ?? head + 1n
+
+    if (fromBlock > head) {
+      if (checkpoint === null) await store.setCheckpoint(key, head)
+      return 0
+    }
+
+    return backfillContractLogs({
+      client,
+      address: contract.address,
+      events: contract.events,
+      fromBlock,
+      toBlock: head,
+      chunkSize,
+      onLogs: async (logs) => {
+        const events: IndexedEvent[] = []
+        for (const log of logs) {
+          events.push(await toIndexedEvent(contract.name, log))
+        }
+        await store.saveEvents(events)
+        await onEvents?.(events)
+      },
+      onPageDone: (pageEnd) => store.setCheckpoint(key, pageEnd),
+    })
+  }
+
+  /**
+   * Index every contract up to the latest confirmed block
+   * A failing contract keeps its checkpoint at the last completed page and is
+   * retried on the next sync.
+   */
+  async function sync() {
+    const latest = await client.getBlockNumber()
+    const head = latest > confirmations ? latest - confirmations : 0n
+
+    for (const contract of contracts) {
+      try {
+        const indexed = await indexContract(contract, head, latest)
+        if (indexed > 0) {
+          logger.info('Indexed events', { contract: contract.name, events: indexed, toBlock: head })
+        }
+      } catch (error) {
+        logger.error('Event indexing failed', { contract: contract.name, error })
+      }
+    }
+  }
+
+  async function poll() {
+    try {
+      await sync()
+    } catch (error) {
+      logger.error('Event indexer sync failed', { error })
+    }
+    if (!stopped) timer = setTimeout(poll, pollIntervalMs)
+  }
+
+  return {
+    sync,
+
+    start() {
+      logger.info('Indexing events', { contracts: contracts.map(c => c.name), intervalMs: pollIntervalMs })
+      stopped = false
+      void poll()
+    },
+
+    stop() {
+      stopped = true
+      if (timer) clearTimeout(timer)
+      timer = null
+    },
+  }
+}
@@ -0,0 +1,248 @@
+/**
+ * Indexed Contract Events for PredEx
+ *
+ * SQLite table of every PredictionMarket, SomiToken and BossBattleGame event,
+ * written by the event indexer and read by history, leaderboard and analytics
+ * queries. Events are keyed by (txHash, logIndex), so re-indexing a block range
+ * overwrites rows instead of duplicating them.
+ */
+
+import fs from 'fs'
+import path from 'path'
+import Database from 'better-sqlite3'
+
+export type IndexedContract = 'PredictionMarket' | 'SomiToken' | 'BossBattleGame'
+
+// A decoded event arg as viem returns it: uints over 48 bits are bigints, smaller ones numbers
+export type EventArg = string | number | bigint | boolean | readonly EventArg[]
+
+export interface IndexedEvent {
+  contract: IndexedContract
+  eventName: string
+  blockNumber: bigint
+  blockHash: `0x${string}`
+  txHash: `0x${string}`
+  logIndex: number
+  timestamp: bigint // Block timestamp
+  marketId: `0x${string}` | null // Set for market events
+  account: `0x${string}` | null // Bettor, player, claimer or sender the event is about
+  args: Record<string, EventArg> // Decoded event args, bigints survive the round trip through SQLite
+}
+
+export interface EventQuery {
+  contract?: IndexedContract
+  eventName?: string
+  marketId?: `0x${string}`
+  account?: `0x${string}`
+  fromBlock?: bigint
+  toBlock?: bigint
+  limit?: number // Default 100
+  offset?: number
+  order?: 'asc' | 'desc' // By block and log index, default asc
+}
+
+/**
+ * Storage for indexed events and per-contract checkpoints
+ */
+export interface EventStore {
+  // Insert or overwrite events; all rows are written in one transaction
+  saveEvents(events: IndexedEvent[]): Promise<void>
+  getEvents(query: EventQuery): Promise<IndexedEvent[]>
+  countEvents(query: EventQuery): Promise<number>
+  // Drop every event of a contract, e.g. one left by an earlier deployment
+  deleteEvents(contract: IndexedContract): Promise<void>
+
+  // Last fully indexed block per contract
+  getCheckpoint(key: string): Promise<bigint | null>
+  setCheckpoint(key: string, blockNumber: bigint): Promise<void>
+
+  close(): Promise<void>
+}
+
+// ===== SERIALIZATION =====
+
+// JSON has no bigint, so they are stored as { "$bigint": "<decimal>" } and revived on read
+function serializeArgs(args: Record<string, EventArg>): string {
+  return JSON.stringify(args, (_key, value) => (typeof value === 'bigint' ? { $bigint: value.toString() } : value))
+}
+
+function parseArgs(json: string): Record<string, EventArg> {
+  return JSON.parse(json, (_key, value) => (
+    value !== null && typeof value === 'object' && typeof value.$bigint === 'string' ? BigInt(value.$bigint) : value
+  ))
+}
+
+interface EventRow {
+  contract: IndexedContract
+  event_name: string
+  block_number: number
+  block_hash: `0x${string}`
+  tx_hash: `0x${string}`
+  log_index: number
+  timestamp: number
+  market_id: `0x${string}` | null
+  account: `0x${string}` | null
+  args: string
+}
+
+function toEvent(row: EventRow): IndexedEvent {
+  return {
+    contract: row.contract,
+    eventName: row.event_name,
+    blockNumber: BigInt(row.block_number),
+    blockHash: row.block_hash,
+    txHash: row.tx_hash,
+    logIndex: row.log_index,
+    timestamp: BigInt(row.timestamp),
+    marketId: row.market_id,
+    account: row.account,
+    args: parseArgs(row.args),
+  }
+}
+
+// ===== SQLITE STORE =====
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS events (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    contract TEXT NOT NULL,
+    event_name TEXT NOT NULL,
+    block_number INTEGER NOT NULL,
+    block_hash TEXT NOT NULL,
+    tx_hash TEXT NOT NULL,
+    log_index INTEGER NOT NULL,
+    timestamp INTEGER NOT NULL,
+    market_id TEXT,
+    account TEXT,
+    args TEXT NOT NULL
+  );
+  CREATE UNIQUE INDEX IF NOT EXISTS events_log ON events (tx_hash, log_index);
+  CREATE INDEX IF NOT EXISTS events_order ON events (block_number, log_index);
+  CREATE INDEX IF NOT EXISTS events_name ON events (contract, event_name);
+  CREATE INDEX IF NOT EXISTS events_market ON events (market_id);
+  CREATE INDEX IF NOT EXISTS events_account ON events (account);
+
+  CREATE TABLE IF NOT EXISTS checkpoints (
+    key TEXT PRIMARY KEY,
+    block_number TEXT NOT NULL
+  );
+`
+
+function buildWhere(query: EventQuery): { sql: string; params: unknown[] } {
+  const clauses: string[] = []
+  const params: unknown[] = []
+
+  if (query.contract) {
+    clauses.push('contract = ?')
+    params.push(query.contract)
+  }
+  if (query.eventName) {
+    clauses.push('event_name = ?')
+    params.push(query.eventName)
+  }
+  if (query.marketId) {
+    clauses.push('market_id = ?')
+    params.push(query.marketId.toLowerCase())
+  }
+  if (query.account) {
+    clauses.push('account = ?')
+    params.push(query.account.toLowerCase())
+  }
+  if (query.fromBlock !== undefined) {
+    clauses.push('block_number >= ?')
+    params.push(Number(query.fromBlock))
+  }
+  if (query.toBlock !== undefined) {
+    clauses.push('block_number <= ?')
+    params.push(Number(query.toBlock))
+  }
+
+  return { sql: clauses.length > 0 ? `WHERE ${clauses.join(' AND ')}` : '', params }
+}
+
+/**
+ * Create the SQLite event store
+ */
+export function createEventStore(dbPath: string): EventStore {
+  if (dbPath !== ':memory:') {
+    fs.mkdirSync(path.dirname(dbPath), { recursive: true })
+  }
+
+  const db = new Database(dbPath)
+  db.pragma('journal_mode = WAL')
+  db.exec(SCHEMA)
+
+  const upsert = db.prepare(`
+    INSERT INTO events (contract, event_name, block_number, block_hash, tx_hash, log_index, timestamp, market_id, account, args)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    ON CONFLICT (tx_hash, log_index) DO UPDATE SET
+      contract = excluded.contract,
+      event_name = excluded.event_name,
+      block_number = excluded.block_number,
+      block_hash = excluded.block_hash,
+      timestamp = excluded.timestamp,
+      market_id = excluded.market_id,
+      account = excluded.account,
+      args = excluded.args
+  `)
+
+  const saveAll = db.transaction((events: IndexedEvent[]) => {
+    for (const event of events) {
+      upsert.run(
+        event.contract,
+        event.eventName,
+        Number(event.blockNumber),
+        event.blockHash,
+        event.txHash,
+        event.logIndex,
+        Number(event.timestamp),
+        event.marketId?.toLowerCase() ?? null,
+        event.account?.toLowerCase() ?? null,
+        serializeArgs(event.args)
+      )
+    }
+  })
+
+  return {
+    async saveEvents(events) {
+      saveAll(events)
+    },
+
+    async getEvents(query) {
+      const { sql, params } = buildWhere(query)
+      const direction = query.order === 'desc' ? 'DESC' : 'ASC'
+      const rows = db.prepare(`
+        SELECT * FROM events ${sql}
+        ORDER BY block_number ${direction}, log_index ${direction}
+        LIMIT ? OFFSET ?
+      `).all(...params, query.limit ?? 100, query.offset ?? 0) as EventRow[]
+      return rows.map(toEvent)
+    },
+
+    async countEvents(query) {
+      const { sql, params } = buildWhere(query)
+      const row = db.prepare(`SELECT COUNT(*) AS count FROM events ${sql}`).get(...params) as { count: number }
+      return row.count
+    },
+
+    async deleteEvents(contract) {
+      db.prepare('DELETE FROM events WHERE contract = ?').run(contract)
+    },
+
+    async getCheckpoint(key) {
+      const row = db.prepare('SELECT block_number FROM checkpoints WHERE key = ?').get(key) as { block_number: string } | undefined
+      return row ? BigInt(row.block_number) : null
+    },
+
+    async setCheckpoint(key, blockNumber) {
+      db.prepare(`
+        INSERT INTO checkpoints (key, block_number) VALUES (?, ?)
+        ON CONFLICT (key) DO UPDATE SET block_number = excluded.block_number
+      `).run(key, blockNumber.toString())
+    },
+
+    async close() {
+      db.close()
+    },
+  }
+}
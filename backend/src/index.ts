@@ -1,13 +1,87 @@
 import express, { Request, Response } from 'express'
 import cors from 'cors'
 import dotenv from 'dotenv'
-import { startResolverService, getResolverStats } from './resolverService'
+import { createPublicClient, http } from 'viem'
+import PredictionMarketABI from '../abis/PredictionMarket.json'
+import {
+  startResolverService,
+  stopResolverService,
+  getResolverStats,
+  getMarketObservations,
+  getMarketResolverInfo,
+  getMarketEvidence,
+  dataStreamsMockStore,
+  shadowReport,
+} from './resolverService'
+import { createMarketIndexer } from './marketIndexer'
+import { createEventStore } from './eventStore'
+import { BOSS_BATTLE_EVENTS, SOMI_TOKEN_EVENTS, createEventIndexer, getAbiEvents, type IndexedContractConfig } from './eventIndexer'
+import { createApiRouter } from './api'
+import { verifyResolutionEvidence } from './resolutionEvidence'
+import { createMarketFeed } from './marketFeed'
+import { createDataStreamsMockRouter } from './dataStreamsMock'
+import { getDataPath, network } from './chain'
+import { createLogger } from './logger'
+import { METRICS_CONTENT_TYPE, metrics } from './metrics'
 
 dotenv.config()
 
+const logger = createLogger({ component: 'server' })
+
+// The registry carries no PredictionMarket address for any network; it comes from a deployment
+if (!network.contracts.market) {
+  throw new Error(
+    `No PredictionMarket address for ${network.name}. Deploy the contracts (cd smart-contracts && npm run deploy) ` +
+    'or set MARKET_CONTRACT, SOMI_TOKEN and GAME_CONTRACT'
+  )
+}
+
 const app = express()
 const PORT = process.env.PORT || 3001
 
+// Read-only client shared by the indexers and the live feed
+const publicClient = createPublicClient({ chain: network.chain, transport: http(network.rpcUrl) })
+
+// Milliseconds between market index refreshes
+const INDEXER_REFRESH_MS = Number(process.env.INDEXER_REFRESH_MS || 15000)
+
+// Snapshot of markets and bets behind the read API
+const indexer = createMarketIndexer({
+  client: publicClient,
+  address: network.contracts.market as `0x${string}`,
+  abi: PredictionMarketABI.abi,
+  refreshIntervalMs: INDEXER_REFRESH_MS,
+  chunkSize: Number(process.env.MARKET_FETCH_CHUNK_SIZE || 100),
+})
+
+// Contracts whose events are indexed; unset addresses are skipped
+const indexedContracts = ([
+  { name: 'PredictionMarket', address: network.contracts.market, events: getAbiEvents(PredictionMarketABI.abi) },
+  { name: 'SomiToken', address: network.contracts.somiToken, events: SOMI_TOKEN_EVENTS },
+  { name: 'BossBattleGame', address: network.contracts.game, events: BOSS_BATTLE_EVENTS },
+] as Partial<IndexedContractConfig>[]).filter((contract): contract is IndexedContractConfig => Boolean(contract.address))
+
+// Pushes market updates from indexed events to /api/stream subscribers
+const marketFeed = createMarketFeed({
+  client: publicClient,
+  address: network.contracts.market as `0x${string}`,
+  abi: PredictionMarketABI.abi,
+})
+
+// SQLite index of every contract event, the source for history and analytics
+const eventStore = createEventStore(process.env.EVENT_DB_PATH || getDataPath('events.db'))
+const eventIndexer = createEventIndexer({
+  client: publicClient,
+  chainId: network.chain.id,
+  store: eventStore,
+  contracts: indexedContracts,
+  startBlock: process.env.EVENT_INDEXER_START_BLOCK ? BigInt(process.env.EVENT_INDEXER_START_BLOCK) : network.contracts.startBlock ?? null,
+  chunkSize: BigInt(process.env.BACKFILL_CHUNK_SIZE || '1000'),
+  confirmations: BigInt(process.env.CONFIRMATION_DEPTH || '2'),
+  pollIntervalMs: Number(process.env.EVENT_INDEXER_POLL_MS || 5000),
+  onEvents: (events) => marketFeed.handleEvents(events),
+})
+
 // Middleware
 app.use(cors())
 app.use(express.json())
@@ -25,47 +99,119 @@ app.get('/health', (req: Request, res: Response) => {
 app.get('/api/status', (req: Request, res: Response) => {
   res.json({
     status: 'running',
+    network: {
+      name: network.name,
+      chainId: network.chain.id,
+    },
     resolver: {
       address: process.env.RESOLVER_PRIVATE_KEY ? 'configured' : 'not configured',
-      marketContract: process.env.MARKET_CONTRACT,
-      somiToken: process.env.SOMI_TOKEN,
-      gameContract: process.env.GAME_CONTRACT,
+      marketContract: network.contracts.market,
+      somiToken: network.contracts.somiToken,
+      gameContract: network.contracts.game,
     }
   })
 })
 
-// Get active markets being tracked by resolver
-app.get('/api/markets', (req: Request, res: Response) => {
+// Get markets being tracked by resolver
+app.get('/api/resolver', async (req: Request, res: Response) => {
   try {
-    const stats = getResolverStats()
+    const stats = await getResolverStats()
     res.json(stats)
   } catch (error) {
     res.status(500).json({ error: 'Failed to get resolver stats' })
   }
 })
 
+// Prometheus metrics (resolver markets, events, resolutions, publishes, wallet balance)
+app.get('/metrics', async (req: Request, res: Response) => {
+  try {
+    res.type(METRICS_CONTENT_TYPE).send(await metrics.render())
+  } catch (error) {
+    res.status(500).type('text/plain').send('Failed to render metrics\n')
+  }
+})
+
+// Live market updates (Server-Sent Events)
+app.get('/api/stream', (req: Request, res: Response) => marketFeed.stream(req, res))
+
+// Read API: markets, bets, resolution observations and evidence
+app.use('/api', createApiRouter({
+  index: indexer,
+  events: eventStore,
+  getObservations: getMarketObservations,
+  getResolverInfo: getMarketResolverInfo,
+  getEvidence: getMarketEvidence,
+  verifyEvidence: (evidence) => verifyResolutionEvidence(publicClient, evidence, {
+    market: network.contracts.market as `0x${string}`,
+    marketAbi: PredictionMarketABI.abi,
+    somiToken: network.contracts.somiToken as `0x${string}`,
+    game: network.contracts.game as `0x${string}`,
+  }),
+  getShadowDecisions: shadowReport?.list,
+}))
+
+// Local Data Streams stand-in shared with the resolver (DATA_STREAMS_MODE=mock)
+if (dataStreamsMockStore) {
+  app.use('/api/data-streams', createDataStreamsMockRouter(dataStreamsMockStore))
+}
+
 // Start server
 app.listen(PORT, () => {
-  console.log('=' .repeat(60))
-  console.log('🚀 PredEx Backend API Server')
-  console.log('=' .repeat(60))
-  console.log(`\n📍 Server running on port ${PORT}`)
-  console.log(`   Health check: http://localhost:${PORT}/health`)
-  console.log(`   Status: http://localhost:${PORT}/api/status`)
-  console.log('\n' + '=' .repeat(60) + '\n')
-
-  // Start the resolver service
-  console.log('🔧 Starting Resolver Service...\n')
-  startResolverService()
+  logger.info('PredEx Backend API Server running', {
+    port: Number(PORT),
+    network: network.name,
+    chain: network.chain.name,
+    chainId: network.chain.id,
+    endpoints: [
+      '/health',
+      '/metrics',
+      '/api/status',
+      '/api/resolver',
+      '/api/markets',
+      '/api/markets/:id',
+      '/api/markets/:id/events',
+      '/api/markets/:id/odds',
+      '/api/markets/:id/resolution',
+      '/api/markets/:id/evidence',
+      '/api/markets/:id/evidence/verify',
+      '/api/users/:address/bets',
+      '/api/resolvers',
+      '/api/stream',
+      ...(shadowReport ? ['/api/shadow/decisions'] : []),
+      ...(dataStreamsMockStore ? ['/api/data-streams'] : []),
+    ],
+  })
+
+  // Start the resolver service; a startup error (e.g. an ABI that no longer matches) stops the server
+  startResolverService().catch(error => {
+    logger.error('Resolver service failed to start', { error })
+    process.exit(1)
+  })
+  indexer.start()
+  eventIndexer.start()
+  marketFeed.start()
+  indexer.listMarkets({ status: 0 }, 0, Number.MAX_SAFE_INTEGER)
+    .then(({ markets }) => marketFeed.trackMarkets(markets))
+    .catch(error => logger.error('Failed to load open markets for the live feed', { error }))
 })
 
 // Graceful shutdown
-process.on('SIGINT', () => {
-  console.log('\n\n👋 Shutting down server...')
+process.on('SIGINT', async () => {
+  logger.info('Shutting down server')
+  indexer.stop()
+  eventIndexer.stop()
+  marketFeed.stop()
+  await eventStore.close()
+  await stopResolverService()
   process.exit(0)
 })
 
-process.on('SIGTERM', () => {
-  console.log('\n\n👋 Shutting down server...')
+process.on('SIGTERM', async () => {
+  logger.info('Shutting down server')
+  indexer.stop()
+  eventIndexer.stop()
+  marketFeed.stop()
+  await eventStore.close()
+  await stopResolverService()
   process.exit(0)
 })
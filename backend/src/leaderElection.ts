@@ -0,0 +1,331 @@
+/**
+ * Leader Election for Redundant Resolvers
+ *
+ * Several resolver instances, each with its own key authorized via
+ * setResolver, can watch the same markets. Only the holder of a time-limited
+ * lease sends settlements (resolveMarket, cancelExpiredMarket) and Data Streams
+ * publishes; the others keep tracking markets and recording observations, and
+ * take over once the lease expires without being renewed.
+ *
+ * Settlement broadcasts are recorded next to the lease, so a new leader waits
+ * for a transaction its predecessor already sent instead of sending another.
+ * The lease store is pluggable: SQLite (a file shared by instances on one
+ * host) is the default, an in-memory store runs a single instance.
+ */
+
+import fs from 'fs'
+import path from 'path'
+import Database from 'better-sqlite3'
+import { createLogger } from './logger'
+
+export interface Lease {
+  holder: string
+  term: number // Incremented every time the lease changes hands
+  expiresAt: number // Unix ms
+}
+
+export interface SettlementBroadcast {
+  marketId: `0x${string}`
+  holder: string
+  term: number
+  txHash: `0x${string}`
+  broadcastAt: number // Unix ms
+}
+
+/**
+ * Shared state of the instances competing for the lease
+ */
+export interface LeaseStore {
+  // Take the lease if it is free, expired or already ours; returns the lease as it stands afterwards
+  acquire(holder: string, ttlMs: number): Promise<Lease>
+  // Give up the lease early so a standby does not have to wait for it to expire
+  release(holder: string): Promise<void>
+
+  recordBroadcast(broadcast: SettlementBroadcast): Promise<void>
+  // Oldest first
+  getBroadcasts(marketId: `0x${string}`): Promise<SettlementBroadcast[]>
+
+  close(): Promise<void>
+}
+
+const logger = createLogger({ component: 'leader-election' })
+
+// ===== SQLITE STORE =====
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS leases (
+    name TEXT PRIMARY KEY,
+    holder TEXT NOT NULL,
+    term INTEGER NOT NULL,
+    expires_at INTEGER NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS settlement_broadcasts (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    lease TEXT NOT NULL,
+    market_id TEXT NOT NULL,
+    holder TEXT NOT NULL,
+    term INTEGER NOT NULL,
+    tx_hash TEXT NOT NULL,
+    broadcast_at INTEGER NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS settlement_broadcasts_market ON settlement_broadcasts (lease, market_id);
+`
+
+interface LeaseRow {
+  holder: string
+  term: number
+  expires_at: number
+}
+
+interface BroadcastRow {
+  market_id: `0x${string}`
+  holder: string
+  term: number
+  tx_hash: `0x${string}`
+  broadcast_at: number
+}
+
+/**
+ * Create a SQLite-backed lease store
+ * Every instance opening the same file competes for the lease called `name`.
+ */
+export function createSqliteLeaseStore(dbPath: string, name: string = 'resolver'): LeaseStore {
+  if (dbPath !== ':memory:') {
+    fs.mkdirSync(path.dirname(dbPath), { recursive: true })
+  }
+
+  const db = new Database(dbPath)
+  db.pragma('journal_mode = WAL')
+  // Instances renewing at the same moment wait for each other instead of failing
+  db.pragma('busy_timeout = 5000')
+  db.exec(SCHEMA)
+
+  const selectLease = db.prepare('SELECT holder, term, expires_at FROM leases WHERE name = ?')
+  const upsertLease = db.prepare(`
+    INSERT INTO leases (name, holder, term, expires_at) VALUES (@name, @holder, @term, @expiresAt)
+    ON CONFLICT (name) DO UPDATE SET holder = excluded.holder, term = excluded.term, expires_at = excluded.expires_at
+  `)
+  const expireLease = db.prepare('UPDATE leases SET expires_at = ? WHERE name = ? AND holder = ?')
+  const insertBroadcast = db.prepare(`
+    INSERT INTO settlement_broadcasts (lease, market_id, holder, term, tx_hash, broadcast_at)
+    VALUES (?, ?, ?, ?, ?, ?)
+  `)
+  const selectBroadcasts = db.prepare(
+    'SELECT market_id, holder, term, tx_hash, broadcast_at FROM settlement_broadcasts WHERE lease = ? AND market_id = ? ORDER BY id'
+  )
+
+  // Read and write in one IMMEDIATE transaction so two instances never both take the lease
+  const acquire = db.transaction((holder: string, ttlMs: number): Lease => {
+    const now = Date.now()
+    const row = selectLease.get(name) as LeaseRow | undefined
+    const current: Lease | null = row ? { holder: row.holder, term: row.term, expiresAt: row.expires_at } : null
+
+    if (current && current.holder !== holder && current.expiresAt > now) return current
+
+    const lease = {
+      holder,
+      term: !current ? 1 : current.holder === holder ? current.term : current.term + 1,
+      expiresAt: now + ttlMs,
+    }
+    upsertLease.run({ name, ...lease })
+    return lease
+  })
+
+  return {
+    async acquire(holder, ttlMs) {
+      return acquire.immediate(holder, ttlMs)
+    },
+
+    async release(holder) {
+      expireLease.run(Date.now(), name, holder)
+    },
+
+    async recordBroadcast(broadcast) {
+      insertBroadcast.run(
+        name,
+        broadcast.marketId.toLowerCase(),
+        broadcast.holder,
+        broadcast.term,
+        broadcast.txHash,
+        broadcast.broadcastAt
+      )
+    },
+
+    async getBroadcasts(marketId) {
+      return (selectBroadcasts.all(name, marketId.toLowerCase()) as BroadcastRow[]).map(row => ({
+        marketId: row.market_id,
+        holder: row.holder,
+        term: row.term,
+        txHash: row.tx_hash,
+        broadcastAt: row.broadcast_at,
+      }))
+    },
+
+    async close() {
+      db.close()
+    },
+  }
+}
+
+// ===== MEMORY STORE =====
+
+/**
+ * Create an in-memory lease store
+ * Only electors in the same process share it, so a lone resolver always leads.
+ */
+export function createMemoryLeaseStore(): LeaseStore {
+  let current: Lease | null = null
+  const broadcasts: SettlementBroadcast[] = []
+
+  return {
+    async acquire(holder, ttlMs) {
+      const now = Date.now()
+      if (current && current.holder !== holder && current.expiresAt > now) return { ...current }
+
+      current = {
+        holder,
+        term: !current ? 1 : current.holder === holder ? current.term : current.term + 1,
+        expiresAt: now + ttlMs,
+      }
+      return { ...current }
+    },
+
+    async release(holder) {
+      if (current?.holder === holder) current = { ...current, expiresAt: Date.now() }
+    },
+
+    async recordBroadcast(broadcast) {
+      broadcasts.push({ ...broadcast, marketId: broadcast.marketId.toLowerCase() as `0x${string}` })
+    },
+
+    async getBroadcasts(marketId) {
+      return broadcasts.filter(b => b.marketId === marketId.toLowerCase())
+    },
+
+    async close() {},
+  }
+}
+
+/**
+ * Create the lease store selected by RESOLVER_LEASE_STORE (sqlite | memory)
+ */
+export function createLeaseStore(defaultDbPath: string = './data/resolver-lease.db'): LeaseStore {
+  const kind = process.env.RESOLVER_LEASE_STORE || 'sqlite'
+
+  switch (kind) {
+    case 'sqlite':
+      return createSqliteLeaseStore(process.env.RESOLVER_LEASE_DB_PATH || defaultDbPath)
+    case 'memory':
+      return createMemoryLeaseStore()
+    default:
+      throw new Error(`Unknown resolver lease store: ${kind}`)
+  }
+}
+
+// ===== ELECTOR =====
+
+export interface LeaderElectorOptions {
+  store: LeaseStore
+  holder: string // Unique per running instance
+  leaseMs?: number // How long a lease lasts without renewal (default 15000)
+  renewMs?: number // Time between acquire/renew attempts (default leaseMs / 3)
+}
+
+/**
+ * Create an elector that keeps competing for the lease in the background
+ * A leader stops calling itself leader one renewal interval before its lease
+ * runs out, leaving that long for a settlement it just decided on to be broadcast
+ * before a standby can take over.
+ */
+export function createLeaderElector(options: LeaderElectorOptions) {
+  const { store, holder } = options
+  const leaseMs = options.leaseMs ?? 15000
+  const renewMs = options.renewMs ?? Math.floor(leaseMs / 3)
+
+  let lease: Lease | null = null
+  // Local time until which the lease is ours, counted from before the acquire call
+  let heldUntil = 0
+  let leading = false
+  let lastError: string | null = null
+  let timer: NodeJS.Timeout | null = null
+  let renewal: Promise<void> | null = null
+
+  function isLeader(): boolean {
+    return Date.now() < heldUntil - renewMs
+  }
+
+  async function renew() {
+    const startedAt = Date.now()
+    try {
+      lease = await store.acquire(holder, leaseMs)
+      heldUntil = lease.holder === holder ? startedAt + leaseMs : 0
+      lastError = null
+    } catch (error) {
+      lastError = error instanceof Error ? error.message : String(error)
+      logger.warn('Could not renew resolver lease', { holder, error: lastError })
+    }
+
+    if (isLeader() !== leading) {
+      leading = !leading
+      if (leading) {
+        logger.info('Became resolver leader', { holder, term: lease?.term })
+      } else {
+        logger.warn('Lost resolver leadership', { holder, leader: lease?.holder ?? null, term: lease?.term })
+      }
+    }
+  }
+
+  return {
+    holder,
+
+    // Compete for the lease now and keep renewing it
+    async start() {
+      if (timer) return
+      await renew()
+      if (!leading) logger.info('Standing by for the resolver lease', { holder, leader: lease?.holder ?? null })
+
+      timer = setInterval(() => {
+        if (renewal) return
+        renewal = renew().finally(() => { renewal = null })
+      }, renewMs)
+    },
+
+    isLeader,
+
+    // Current term when leading, for fencing settlement records
+    get term(): number | null {
+      return isLeader() && lease ? lease.term : null
+    },
+
+    // Stop renewing and hand the lease over right away
+    async stop() {
+      if (timer) clearInterval(timer)
+      timer = null
+      await renewal
+      if (lease?.holder === holder) {
+        try {
+          await store.release(holder)
+        } catch (error) {
+          logger.warn('Could not release resolver lease', { holder, error })
+        }
+      }
+      heldUntil = 0
+      leading = false
+    },
+
+    getStatus() {
+      return {
+        holder,
+        isLeader: isLeader(),
+        leader: lease && lease.expiresAt > Date.now() ? lease.holder : null,
+        term: lease?.term ?? null,
+        expiresAt: lease?.expiresAt ?? null,
+        leaseMs,
+        lastError,
+      }
+    },
+  }
+}
+
+export type LeaderElector = ReturnType<typeof createLeaderElector>
@@ -0,0 +1,122 @@
+/**
+ * Historical Log Backfill for PredEx
+ *
+ * Pages through eth_getLogs in fixed-size block ranges so that events emitted
+ * while the resolver was offline are processed before live watching resumes.
+ */
+
+import type { AbiEvent, Log, PublicClient } from 'viem'
+
+export interface BackfillOptions<TEvent extends AbiEvent> {
+  client: PublicClient
+  address: `0x${string}`
+  event: TEvent
+  fromBlock: bigint
+  toBlock: bigint
+  chunkSize: bigint
+  // Called with the logs of each page, in block order
+  onLogs: (logs: Log<bigint, number, false, TEvent, true>[]) => Promise<void>
+  // Called once a page is fully processed, e.g. to persist a checkpoint
+  onPageDone?: (toBlock: bigint) => Promise<void>
+}
+
+export interface ContractBackfillOptions {
+  client: PublicClient
+  address: `0x${string}`
+  events: readonly AbiEvent[]
+  fromBlock: bigint
+  toBlock: bigint
+  chunkSize: bigint
+  // Called with the decoded logs of each page, in block order
+  onLogs: (logs: Log<bigint, number, false, AbiEvent, true>[]) => Promise<void>
+  onPageDone?: (toBlock: bigint) => Promise<void>
+}
+
+/**
+ * Page through a block range, halving the page size when the RPC rejects it
+ */
+async function pageLogs<TLog>(
+  range: { fromBlock: bigint; toBlock: bigint; chunkSize: bigint },
+  getPage: (fromBlock: bigint, toBlock: bigint) => Promise<TLog[]>,
+  onLogs: (logs: TLog[]) => Promise<void>,
+  onPageDone?: (toBlock: bigint) => Promise<void>
+): Promise<number> {
+  const { toBlock } = range
+  let fromBlock = range.fromBlock
+  let chunkSize = range.chunkSize > 0n ? range.chunkSize : 1n
+  let processed = 0
+
+  while (fromBlock <= toBlock) {
+    const pageEnd = fromBlock + chunkSize - 1n < toBlock ? fromBlock + chunkSize - 1n : toBlock
+
+    let logs
+    try {
+      logs = await getPage(fromBlock, pageEnd)
+    } catch (error) {
+      if (chunkSize === 1n) throw error
+      chunkSize = chunkSize / 2n
+      continue
+    }
+
+    if (logs.length > 0) {
+      await onLogs(logs)
+      processed += logs.length
+    }
+    await onPageDone?.(pageEnd)
+
+    fromBlock = pageEnd + 1n
+  }
+
+  return processed
+}
+
+/**
+ * Backfill logs for a single event between two blocks (inclusive)
+ * A page that the RPC rejects (e.g. range or result limits) is retried with
+ * half the range until it succeeds or shrinks to a single block.
+ * Returns the number of logs processed.
+ */
+export async function backfillLogs<TEvent extends AbiEvent>(options: BackfillOptions<TEvent>): Promise<number> {
+  const { client, address, event } = options
+  return pageLogs(
+    options,
+    async (fromBlock, toBlock) =>
+      await client.getLogs({ address, event, fromBlock, toBlock, strict: true }) as Log<bigint, number, false, TEvent, true>[],
+    options.onLogs,
+    options.onPageDone
+  )
+}
+
+/**
+ * Backfill every listed event of one contract between two blocks (inclusive)
+ * Same paging as backfillLogs, but with one eth_getLogs call per page for all
+ * events, so logs of different events arrive in block and log index order.
+ */
+export async function backfillContractLogs(options: ContractBackfillOptions): Promise<number> {
+  const { client, address, events } = options
+  return pageLogs(
+    options,
+    async (fromBlock, toBlock) =>
+      await client.getLogs({ address, events, fromBlock, toBlock, strict: true }) as Log<bigint, number, false, AbiEvent, true>[],
+    options.onLogs,
+    options.onPageDone
+  )
+}
+
+/**
+ * Checkpoint key of a stream on one deployment
+ * A redeploy or a switch to another chain starts from a fresh checkpoint
+ * instead of resuming one that belongs to a different contract.
+ */
+export function checkpointKey(stream: string, chainId: number, address: string): string {
+  return `${stream}:${chainId}:${address.toLowerCase()}`
+}
+
+/**
+ * Stored checkpoint, or null when it is past the chain's latest block
+ * A checkpoint above the head means the chain was reset (e.g. a restarted
+ * devnet), so its blocks no longer exist.
+ */
+export function resumableCheckpoint(checkpoint: bigint | null, latest: bigint): bigint | null {
+  return checkpoint !== null && checkpoint > latest ? null : checkpoint
+}
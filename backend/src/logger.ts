@@ -0,0 +1,82 @@
+/**
+ * Structured Logging for the PredEx Backend
+ *
+ * One JSON object per line with a timestamp, level, message and fields such as
+ * `marketId` or `txHash`, so a market or transaction can be followed across
+ * the resolver, the transaction queue and Data Streams. Child loggers carry
+ * fields into every line they write.
+ *
+ * LOG_LEVEL (debug | info | warn | error, default info) drops quieter lines;
+ * LOG_FORMAT=pretty prints readable lines for local development instead.
+ */
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error'
+
+export type LogFields = Record<string, unknown>
+
+export interface Logger {
+  debug: (message: string, fields?: LogFields) => void
+  info: (message: string, fields?: LogFields) => void
+  warn: (message: string, fields?: LogFields) => void
+  error: (message: string, fields?: LogFields) => void
+  child: (fields: LogFields) => Logger
+}
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 }
+
+// Read on every line so settings loaded by dotenv after import still apply
+function minimumLevel(): number {
+  const level = (process.env.LOG_LEVEL || 'info').toLowerCase() as LogLevel
+  return LEVELS[level] ?? LEVELS.info
+}
+
+// JSON-safe field values: bigints as strings, errors as their message (and stack at debug level)
+function toJsonValue(_key: string, value: unknown): unknown {
+  if (typeof value === 'bigint') return value.toString()
+  if (value instanceof Error) {
+    return {
+      name: value.name,
+      message: (value as { shortMessage?: string }).shortMessage || value.message,
+      ...(minimumLevel() <= LEVELS.debug && { stack: value.stack }),
+    }
+  }
+  return value
+}
+
+function formatPretty(time: string, level: LogLevel, message: string, fields: LogFields): string {
+  const details = Object.entries(fields)
+    .map(([key, value]) => {
+      const text = typeof value === 'string' ? value : JSON.stringify(value, toJsonValue)
+      return `${key}=${text}`
+    })
+    .join(' ')
+  return `${time.slice(11, 23)} ${level.toUpperCase().padEnd(5)} ${message}${details ? ` ${details}` : ''}`
+}
+
+function write(level: LogLevel, message: string, fields: LogFields) {
+  if (LEVELS[level] < minimumLevel()) return
+
+  const time = new Date().toISOString()
+  const line = process.env.LOG_FORMAT === 'pretty'
+    ? formatPretty(time, level, message, fields)
+    : JSON.stringify({ time, level, msg: message, ...fields }, toJsonValue)
+
+  const stream = LEVELS[level] >= LEVELS.warn ? process.stderr : process.stdout
+  stream.write(line + '\n')
+}
+
+/**
+ * Create a logger whose lines all include `fields`
+ */
+export function createLogger(fields: LogFields = {}): Logger {
+  const log = (level: LogLevel) => (message: string, extra: LogFields = {}) =>
+    write(level, message, { ...fields, ...extra })
+
+  return {
+    debug: log('debug'),
+    info: log('info'),
+    warn: log('warn'),
+    error: log('error'),
+    child: (extra) => createLogger({ ...fields, ...extra }),
+  }
+}
@@ -0,0 +1,201 @@
+/**
+ * Live Market Feed for PredEx
+ *
+ * Turns indexed PredictionMarket events into market updates (created, bet,
+ * locked, resolved, cancelled) and pushes them to browsers over Server-Sent
+ * Events. Every update carries the market as re-read from the contract, so
+ * clients can replace their copy without polling.
+ */
+
+import type { Request, Response } from 'express'
+import type { Abi, PublicClient } from 'viem'
+import { decodeMarket } from '@predex/shared/marketDecoder'
+import { serializeBet, serializeMarket } from './serialize'
+import { MarketStatus, type Market } from '@predex/shared/types'
+import type { IndexedEvent } from './eventStore'
+import { createLogger } from './logger'
+
+const logger = createLogger({ component: 'market-feed' })
+
+export type MarketUpdateType = 'created' | 'bet' | 'locked' | 'resolved' | 'cancelled'
+
+export interface MarketUpdate {
+  type: MarketUpdateType
+  marketId: `0x${string}`
+  market: ReturnType<typeof serializeMarket>
+  bet?: ReturnType<typeof serializeBet> // Set for 'bet' updates
+  timestamp: number // Block timestamp of the event, or lock time for 'locked'
+}
+
+export interface MarketFeedOptions {
+  client: PublicClient
+  address: `0x${string}`
+  abi: Abi | readonly unknown[]
+  lockCheckIntervalMs?: number // Default 1000
+  heartbeatMs?: number // SSE keep-alive comment interval, default 15000
+}
+
+// PredictionMarket events that produce an update
+const UPDATE_TYPES: Record<string, MarketUpdateType> = {
+  MarketCreated: 'created',
+  BetPlaced: 'bet',
+  MarketResolved: 'resolved',
+  MarketCancelled: 'cancelled',
+}
+
+// Events replayed by a backfill older than this (seconds before start) are not pushed
+const REPLAY_WINDOW = 60
+
+/**
+ * Create the feed and its SSE endpoint
+ */
+export function createMarketFeed(options: MarketFeedOptions) {
+  const { client, address, abi } = options
+  const lockCheckIntervalMs = options.lockCheckIntervalMs ?? 1000
+  const heartbeatMs = options.heartbeatMs ?? 15000
+
+  const startedAt = Math.floor(Date.now() / 1000) - REPLAY_WINDOW
+  const listeners = new Set<(update: MarketUpdate) => void>()
+  // Active markets that have not reached resolutionTime yet
+  const pendingLocks = new Map<string, Market>()
+
+  let lockTimer: NodeJS.Timeout | null = null
+  let nextEventId = 1
+
+  async function readMarket(marketId: `0x${string}`): Promise<Market> {
+    const raw = await client.readContract({
+      address,
+      abi: abi as Abi,
+      functionName: 'getMarket',
+      args: [marketId],
+    })
+    return decodeMarket(abi, raw)
+  }
+
+  function publish(update: MarketUpdate) {
+    for (const listener of listeners) {
+      listener(update)
+    }
+  }
+
+  function subscribe(listener: (update: MarketUpdate) => void): () => void {
+    listeners.add(listener)
+    return () => listeners.delete(listener)
+  }
+
+  function trackLock(market: Market) {
+    if (market.status === MarketStatus.ACTIVE && Number(market.resolutionTime) > Date.now() / 1000) {
+      pendingLocks.set(market.marketId.toLowerCase(), market)
+    }
+  }
+
+  // Betting closes at resolutionTime; the contract has no event for it
+  function checkLocks() {
+    const now = Math.floor(Date.now() / 1000)
+    for (const [key, market] of pendingLocks) {
+      if (Number(market.resolutionTime) > now) continue
+      pendingLocks.delete(key)
+      publish({
+        type: 'locked',
+        marketId: market.marketId,
+        market: serializeMarket(market),
+        timestamp: Number(market.resolutionTime),
+      })
+    }
+  }
+
+  /**
+   * Publish updates for a page of indexed events
+   * Errors are logged, not thrown, so a failing read never blocks indexing.
+   */
+  async function handleEvents(events: IndexedEvent[]) {
+    // One contract read per market per page
+    const markets = new Map<string, Promise<Market>>()
+
+    for (const event of events) {
+      const type = UPDATE_TYPES[event.eventName]
+      if (event.contract !== 'PredictionMarket' || !type || !event.marketId) continue
+      if (Number(event.timestamp) < startedAt) continue
+
+      try {
+        const key = event.marketId.toLowerCase()
+        if (!markets.has(key)) markets.set(key, readMarket(event.marketId))
+        const market = await markets.get(key)!
+
+        if (type === 'created') {
+          trackLock(market)
+        } else if (type !== 'bet') {
+          pendingLocks.delete(key)
+        }
+
+        publish({
+          type,
+          marketId: market.marketId,
+          market: serializeMarket(market),
+          bet: type === 'bet' ? serializeBet({
+            bettor: event.args.bettor as `0x${string}`,
+            marketId: market.marketId,
+            option: event.args.option as number,
+            amount: event.args.amount as bigint,
+            timestamp: event.args.timestamp as bigint,
+            claimed: false,
+          }) : undefined,
+          timestamp: Number(event.timestamp),
+        })
+      } catch (error) {
+        logger.error('Failed to publish market update', { event: event.eventName, marketId: event.marketId, error })
+      }
+    }
+  }
+
+  return {
+    handleEvents,
+
+    // Register markets already open before the feed started, so they get a 'locked' update
+    trackMarkets(markets: Market[]) {
+      markets.forEach(trackLock)
+    },
+
+    subscribe,
+
+    /**
+     * SSE endpoint: one `event: <type>` message per update
+     * Query: marketId (optional) to receive updates for a single market only
+     */
+    stream(req: Request, res: Response) {
+      const marketId = typeof req.query.marketId === 'string' ? req.query.marketId.toLowerCase() : null
+
+      res.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        Connection: 'keep-alive',
+      })
+      res.write('retry: 3000\n\n')
+
+      const unsubscribe = subscribe(update => {
+        if (marketId && update.marketId.toLowerCase() !== marketId) return
+        res.write(`id: ${nextEventId++}\nevent: ${update.type}\ndata: ${JSON.stringify(update)}\n\n`)
+      })
+      const heartbeat = setInterval(() => res.write(': ping\n\n'), heartbeatMs)
+
+      req.on('close', () => {
+        clearInterval(heartbeat)
+        unsubscribe()
+      })
+    },
+
+    start() {
+      logger.info('Market feed checking locks', { intervalMs: lockCheckIntervalMs })
+      lockTimer = setInterval(checkLocks, lockCheckIntervalMs)
+    },
+
+    stop() {
+      if (lockTimer) clearInterval(lockTimer)
+      lockTimer = null
+    },
+
+    get clients(): number {
+      return listeners.size
+    },
+  }
+}
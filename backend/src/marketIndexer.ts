@@ -0,0 +1,178 @@
+/**
+ * Market Indexer for the PredEx Read API
+ *
+ * Keeps a snapshot of every market, its bets and the platform fee, refreshed
+ * from the contract with chunked multicalls. API requests are served from the
+ * snapshot instead of hitting the RPC once per request.
+ */
+
+import type { Abi, PublicClient } from 'viem'
+import { batchReadContracts, fetchMarkets } from '@predex/shared/marketFetcher'
+import type { Bet, Market } from '@predex/shared/types'
+import { createLogger } from './logger'
+
+const logger = createLogger({ component: 'market-indexer' })
+
+export interface MarketFilter {
+  marketType?: number
+  status?: number
+  creator?: `0x${string}`
+}
+
+/**
+ * Read model behind the REST API
+ */
+export interface MarketIndex {
+  // Newest markets first
+  listMarkets(filter: MarketFilter, offset: number, limit: number): Promise<{ total: number; markets: Market[] }>
+  getMarket(marketId: `0x${string}`): Promise<Market | null>
+  // Oldest bet first
+  getMarketBets(marketId: `0x${string}`): Promise<Bet[]>
+  getUserBets(address: `0x${string}`): Promise<Bet[]>
+  // Fee on winnings in basis points
+  getPlatformFee(): Promise<bigint>
+}
+
+export interface MarketIndexerOptions {
+  client: PublicClient
+  address: `0x${string}`
+  abi: Abi | readonly unknown[]
+  refreshIntervalMs?: number // Default 15000
+  chunkSize?: number
+}
+
+interface Snapshot {
+  markets: Market[]
+  bets: Map<string, Bet[]>
+  platformFee: bigint
+}
+
+// One element of getMarketBets, decoded by viem from the Bet struct
+interface RawBet {
+  bettor: `0x${string}`
+  marketId: `0x${string}`
+  option: number
+  amount: bigint
+  timestamp: bigint
+  claimed: boolean
+}
+
+function toBet(raw: RawBet): Bet {
+  return {
+    bettor: raw.bettor,
+    marketId: raw.marketId,
+    option: Number(raw.option),
+    amount: BigInt(raw.amount),
+    timestamp: BigInt(raw.timestamp),
+    claimed: Boolean(raw.claimed),
+  }
+}
+
+/**
+ * Create an indexer that polls the contract into an in-memory snapshot
+ */
+export function createMarketIndexer(options: MarketIndexerOptions) {
+  const { client, address, abi, chunkSize } = options
+  const refreshIntervalMs = options.refreshIntervalMs ?? 15000
+
+  let snapshot: Snapshot = { markets: [], bets: new Map(), platformFee: 0n }
+  let ready: Promise<void> | null = null
+  let timer: NodeJS.Timeout | null = null
+
+  async function refresh() {
+    const marketIds = await client.readContract({
+      address,
+      abi: abi as Abi,
+      functionName: 'getActiveMarkets',
+    }) as `0x${string}`[]
+
+    const { markets } = await fetchMarkets(client, marketIds, { address, abi, chunkSize })
+
+    const betResults = await batchReadContracts(
+      client,
+      markets.map(market => ({ address, abi, functionName: 'getMarketBets', args: [market.marketId] })),
+      chunkSize
+    )
+    const bets = new Map<string, Bet[]>()
+    betResults.forEach((entry, i) => {
+      if (entry.status !== 'success') return
+      bets.set(markets[i].marketId.toLowerCase(), (entry.result as readonly RawBet[]).map(toBet))
+    })
+
+    const platformFee = await client.readContract({
+      address,
+      abi: abi as Abi,
+      functionName: 'platformFee',
+    }) as bigint
+
+    markets.sort((a, b) => (a.createdAt === b.createdAt ? 0 : a.createdAt > b.createdAt ? -1 : 1))
+    snapshot = { markets, bets, platformFee }
+  }
+
+  // The first request waits for the initial snapshot
+  function whenReady(): Promise<void> {
+    if (!ready) {
+      ready = refresh().catch(error => {
+        ready = null
+        throw error
+      })
+    }
+    return ready
+  }
+
+  const index: MarketIndex = {
+    async listMarkets(filter, offset, limit) {
+      await whenReady()
+      const creator = filter.creator?.toLowerCase()
+      const matching = snapshot.markets.filter(market =>
+        (filter.marketType === undefined || market.marketType === filter.marketType) &&
+        (filter.status === undefined || market.status === filter.status) &&
+        (creator === undefined || market.creator.toLowerCase() === creator)
+      )
+      return { total: matching.length, markets: matching.slice(offset, offset + limit) }
+    },
+
+    async getMarket(marketId) {
+      await whenReady()
+      return snapshot.markets.find(market => market.marketId.toLowerCase() === marketId.toLowerCase()) ?? null
+    },
+
+    async getMarketBets(marketId) {
+      await whenReady()
+      return snapshot.bets.get(marketId.toLowerCase()) ?? []
+    },
+
+    async getUserBets(bettor) {
+      await whenReady()
+      const user = bettor.toLowerCase()
+      return Array.from(snapshot.bets.values()).flat().filter(bet => bet.bettor.toLowerCase() === user)
+    },
+
+    async getPlatformFee() {
+      await whenReady()
+      return snapshot.platformFee
+    },
+  }
+
+  return {
+    ...index,
+
+    start() {
+      logger.info('Market indexer refreshing', { intervalMs: refreshIntervalMs })
+      whenReady().catch(error => logger.error('Initial market index failed', { error }))
+
+      timer = setInterval(async () => {
+        try {
+          await refresh()
+        } catch (error) {
+          logger.error('Market index refresh failed', { error })
+        }
+      }, refreshIntervalMs)
+    },
+
+    stop() {
+      if (timer) clearInterval(timer)
+      timer = null
+    },
+  }
+}
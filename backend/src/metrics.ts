@@ -0,0 +1,173 @@
+/**
+ * Prometheus Metrics for the PredEx Backend
+ *
+ * A minimal registry of counters, gauges and histograms rendered in the
+ * Prometheus text exposition format, served at GET /metrics by index.ts.
+ * Gauges can be refreshed right before each scrape through `collect`.
+ */
+
+export type MetricLabels = Record<string, string | number>
+
+interface MetricOptions {
+  name: string
+  help: string
+}
+
+interface GaugeOptions extends MetricOptions {
+  // Refresh the gauge before it is rendered (e.g. read a balance)
+  collect?: (gauge: Gauge) => Promise<void> | void
+}
+
+interface HistogramOptions extends MetricOptions {
+  buckets: number[] // Upper bounds, ascending; +Inf is added automatically
+}
+
+export interface Counter {
+  inc: (labels?: MetricLabels, value?: number) => void
+}
+
+export interface Gauge {
+  set: (value: number, labels?: MetricLabels) => void
+  reset: () => void
+}
+
+export interface Histogram {
+  observe: (value: number, labels?: MetricLabels) => void
+}
+
+interface RegisteredMetric {
+  name: string
+  help: string
+  type: 'counter' | 'gauge' | 'histogram'
+  collect?: () => Promise<void> | void
+  lines: () => string[]
+}
+
+export const METRICS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8'
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')
+}
+
+function formatLabels(labels: MetricLabels): string {
+  const entries = Object.entries(labels)
+  if (entries.length === 0) return ''
+  return `{${entries.map(([key, value]) => `${key}="${escapeLabelValue(String(value))}"`).join(',')}}`
+}
+
+function formatValue(value: number): string {
+  if (Number.isNaN(value)) return 'NaN'
+  if (value === Infinity) return '+Inf'
+  if (value === -Infinity) return '-Inf'
+  return String(value)
+}
+
+// Series are keyed by their sorted labels so label order does not matter
+function seriesKey(labels: MetricLabels): string {
+  return JSON.stringify(Object.keys(labels).sort().map(key => [key, String(labels[key])]))
+}
+
+/**
+ * Create an empty metrics registry
+ */
+export function createMetricsRegistry() {
+  const metrics: RegisteredMetric[] = []
+
+  function register(metric: RegisteredMetric) {
+    if (metrics.some(m => m.name === metric.name)) throw new Error(`Metric ${metric.name} is already registered`)
+    metrics.push(metric)
+  }
+
+  function counter({ name, help }: MetricOptions): Counter {
+    const series = new Map<string, { labels: MetricLabels; value: number }>()
+    register({
+      name,
+      help,
+      type: 'counter',
+      lines: () => [...series.values()].map(s => `${name}${formatLabels(s.labels)} ${formatValue(s.value)}`),
+    })
+
+    return {
+      inc: (labels = {}, value = 1) => {
+        const key = seriesKey(labels)
+        const current = series.get(key)
+        series.set(key, { labels, value: (current?.value ?? 0) + value })
+      },
+    }
+  }
+
+  function gauge({ name, help, collect }: GaugeOptions): Gauge {
+    const series = new Map<string, { labels: MetricLabels; value: number }>()
+    const gauge: Gauge = {
+      set: (value, labels = {}) => {
+        series.set(seriesKey(labels), { labels, value })
+      },
+      reset: () => series.clear(),
+    }
+    register({
+      name,
+      help,
+      type: 'gauge',
+      collect: collect && (() => collect(gauge)),
+      lines: () => [...series.values()].map(s => `${name}${formatLabels(s.labels)} ${formatValue(s.value)}`),
+    })
+    return gauge
+  }
+
+  function histogram({ name, help, buckets }: HistogramOptions): Histogram {
+    const bounds = [...buckets].sort((a, b) => a - b)
+    const series = new Map<string, { labels: MetricLabels; counts: number[]; sum: number; count: number }>()
+    register({
+      name,
+      help,
+      type: 'histogram',
+      lines: () => [...series.values()].flatMap(s => [
+        ...bounds.map((bound, i) => `${name}_bucket${formatLabels({ ...s.labels, le: formatValue(bound) })} ${s.counts[i]}`),
+        `${name}_bucket${formatLabels({ ...s.labels, le: '+Inf' })} ${s.count}`,
+        `${name}_sum${formatLabels(s.labels)} ${formatValue(s.sum)}`,
+        `${name}_count${formatLabels(s.labels)} ${s.count}`,
+      ]),
+    })
+
+    return {
+      observe: (value, labels = {}) => {
+        const key = seriesKey(labels)
+        let current = series.get(key)
+        if (!current) {
+          current = { labels, counts: bounds.map(() => 0), sum: 0, count: 0 }
+          series.set(key, current)
+        }
+        // Buckets are cumulative: a value counts towards every bound it fits under
+        bounds.forEach((bound, i) => {
+          if (value <= bound) current!.counts[i]++
+        })
+        current.sum += value
+        current.count++
+      },
+    }
+  }
+
+  /**
+   * Render every metric in the text exposition format
+   * A failing collect leaves that gauge at its previous values.
+   */
+  async function render(): Promise<string> {
+    const output: string[] = []
+    for (const metric of metrics) {
+      try {
+        await metric.collect?.()
+      } catch {
+        // Keep serving the other metrics
+      }
+      output.push(`# HELP ${metric.name} ${metric.help}`, `# TYPE ${metric.name} ${metric.type}`, ...metric.lines())
+    }
+    return output.join('\n') + '\n'
+  }
+
+  return { counter, gauge, histogram, render }
+}
+
+export type MetricsRegistry = ReturnType<typeof createMetricsRegistry>
+
+// Registry shared by the resolver and served at /metrics
+export const metrics = createMetricsRegistry()
@@ -0,0 +1,67 @@
+/**
+ * Odds History for PredEx
+ *
+ * Replays a market's indexed BetPlaced events into a time series of pool sizes,
+ * odds and implied probability, so charts can show how sentiment moved.
+ */
+
+import { calculateOdds } from '@predex/shared/payouts'
+import type { IndexedEvent } from './eventStore'
+import type { Market } from '@predex/shared/types'
+
+export interface OddsPoint {
+  timestamp: bigint // Block timestamp of the bet (createdAt for the opening point)
+  blockNumber: bigint | null
+  yesPool: bigint
+  noPool: bigint
+  yesOdds: bigint // Basis points, as returned by getOdds
+  noOdds: bigint
+  yesProbability: number // Share of the pool on YES, 0-100
+}
+
+export interface OddsHistory {
+  points: OddsPoint[]
+  // False when the indexed bets do not add up to the market's pools, e.g. indexing
+  // started after the market opened or is still catching up
+  complete: boolean
+}
+
+function toPoint(timestamp: bigint, blockNumber: bigint | null, yesPool: bigint, noPool: bigint): OddsPoint {
+  const totalPool = yesPool + noPool
+  const odds = calculateOdds({ totalPool, optionPools: [yesPool, noPool] })
+  return {
+    timestamp,
+    blockNumber,
+    yesPool,
+    noPool,
+    yesOdds: odds.yes,
+    noOdds: odds.no,
+    // Two decimals of precision without going through floating point pools
+    yesProbability: totalPool === 0n ? 50 : Number((yesPool * 10000n) / totalPool) / 100,
+  }
+}
+
+/**
+ * Build the odds series of a market from its BetPlaced events (in chain order)
+ * Starts with an empty-pool point at market creation and adds one point per bet.
+ */
+export function buildOddsHistory(market: Market, bets: IndexedEvent[]): OddsHistory {
+  let yesPool = 0n
+  let noPool = 0n
+  const points = [toPoint(market.createdAt, null, 0n, 0n)]
+
+  for (const bet of bets) {
+    const amount = bet.args.amount as bigint
+    if (bet.args.option === 0) {
+      yesPool += amount
+    } else {
+      noPool += amount
+    }
+    points.push(toPoint(bet.timestamp, bet.blockNumber, yesPool, noPool))
+  }
+
+  return {
+    points,
+    complete: yesPool === market.optionPools[0] && noPool === market.optionPools[1],
+  }
+}
@@ -0,0 +1,73 @@
+/**
+ * Per-Market Publish Queue
+ *
+ * Data Streams publishes are sent from the log handlers without waiting, and
+ * each one is a transaction behind the resolutions in the tx queue. This queue
+ * keeps at most one publish in flight per market and holds only the newest
+ * pending one: an update that arrives while another is waiting replaces it, so
+ * a burst of observations costs two transactions per market instead of one each.
+ */
+
+export interface PublishQueueOptions<T> {
+  publish: (key: string, value: T) => Promise<void>
+  // Called with the pending value an update replaced
+  onCoalesced?: (key: string, value: T) => void
+}
+
+interface MarketSlot<T> {
+  running: Promise<void>
+  pending: { value: T } | null
+}
+
+/**
+ * Create a publish queue keyed by market id
+ * `publish` should handle its own errors; a rejection is swallowed so the
+ * market's next update still goes out.
+ */
+export function createPublishQueue<T>(options: PublishQueueOptions<T>) {
+  const slots = new Map<string, MarketSlot<T>>()
+
+  async function run(key: string, slot: MarketSlot<T>, value: T) {
+    try {
+      await options.publish(key, value)
+    } catch {
+      // Reported by publish
+    }
+
+    const next = slot.pending
+    slot.pending = null
+    if (next) {
+      slot.running = run(key, slot, next.value)
+      return slot.running
+    }
+    slots.delete(key)
+  }
+
+  return {
+    /** Queue an update for a market, replacing any update still waiting */
+    push(key: string, value: T) {
+      const slot = slots.get(key)
+      if (!slot) {
+        const created: MarketSlot<T> = { running: Promise.resolve(), pending: null }
+        slots.set(key, created)
+        created.running = run(key, created, value)
+        return
+      }
+
+      if (slot.pending) options.onCoalesced?.(key, slot.pending.value)
+      slot.pending = { value }
+    },
+
+    /** Markets with a publish in flight */
+    size(): number {
+      return slots.size
+    },
+
+    /** Resolve once every queued publish has finished */
+    async drain() {
+      while (slots.size > 0) {
+        await Promise.all([...slots.values()].map(slot => slot.running))
+      }
+    },
+  }
+}
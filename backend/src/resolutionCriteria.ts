@@ -0,0 +1,246 @@
+/**
+ * Structured Resolution Criteria for PredEx
+ *
+ * Every market stores a comparator, a metric and an aggregation on-chain. The resolver picks the
+ * metric out of the observed event data and answers YES when
+ * `metric <comparator> threshold` holds, instead of guessing from the question text.
+ * The aggregation decides which events count: the first one after resolutionTime,
+ * or everything observed in the market window [createdAt, resolutionTime).
+ */
+
+import { Aggregation, Comparator, Metric } from '@predex/shared/types'
+
+export { Aggregation, Comparator, Metric }
+
+/**
+ * Event data the resolver may observe for a market
+ */
+export interface Observation {
+  txCount?: bigint
+  value?: bigint
+  timeTaken?: bigint
+  totalDamage?: bigint
+}
+
+/**
+ * Get the short label for a comparator (gt/gte/lt/lte/eq)
+ */
+export function getComparatorLabel(comparator: Comparator): string {
+  switch (comparator) {
+    case Comparator.GT:
+      return 'gt'
+    case Comparator.GTE:
+      return 'gte'
+    case Comparator.LT:
+      return 'lt'
+    case Comparator.LTE:
+      return 'lte'
+    case Comparator.EQ:
+      return 'eq'
+    default:
+      return 'unknown'
+  }
+}
+
+/**
+ * Get the name of the observed field a metric selects
+ */
+export function getMetricLabel(metric: Metric): string {
+  switch (metric) {
+    case Metric.TX_COUNT:
+      return 'txCount'
+    case Metric.TRANSFER_VALUE:
+      return 'value'
+    case Metric.TIME_TAKEN:
+      return 'timeTaken'
+    case Metric.TOTAL_DAMAGE:
+      return 'totalDamage'
+    default:
+      return 'unknown'
+  }
+}
+
+/**
+ * Get the short label for an aggregation mode
+ */
+export function getAggregationLabel(aggregation: Aggregation): string {
+  switch (aggregation) {
+    case Aggregation.FIRST_AFTER_LOCK:
+      return 'firstAfterLock'
+    case Aggregation.ANY:
+      return 'any'
+    case Aggregation.MAX:
+      return 'max'
+    case Aggregation.MIN:
+      return 'min'
+    case Aggregation.SUM:
+      return 'sum'
+    case Aggregation.COUNT:
+      return 'count'
+    default:
+      return 'unknown'
+  }
+}
+
+/**
+ * Whether a market is decided from its whole window rather than the first event after lock
+ */
+export function isWindowAggregation(aggregation: Aggregation): boolean {
+  return aggregation !== Aggregation.FIRST_AFTER_LOCK
+}
+
+/**
+ * Select the metric value from observed event data
+ * Returns null when the observation does not carry that metric
+ */
+export function selectMetric(metric: Metric, observation: Observation): bigint | null {
+  switch (metric) {
+    case Metric.TX_COUNT:
+      return observation.txCount ?? null
+    case Metric.TRANSFER_VALUE:
+      return observation.value ?? null
+    case Metric.TIME_TAKEN:
+      return observation.timeTaken ?? null
+    case Metric.TOTAL_DAMAGE:
+      return observation.totalDamage ?? null
+    default:
+      return null
+  }
+}
+
+/**
+ * Convert the stored threshold into the unit of the metric
+ * TRANSFER_VALUE thresholds are entered in whole SOMI, transfers are in wei
+ */
+export function scaleThreshold(metric: Metric, threshold: bigint): bigint {
+  if (metric === Metric.TRANSFER_VALUE) {
+    return threshold * 10n ** 18n
+  }
+  return threshold
+}
+
+/**
+ * Apply a comparator as `value <comparator> threshold`
+ */
+export function compare(value: bigint, comparator: Comparator, threshold: bigint): boolean {
+  switch (comparator) {
+    case Comparator.GT:
+      return value > threshold
+    case Comparator.GTE:
+      return value >= threshold
+    case Comparator.LT:
+      return value < threshold
+    case Comparator.LTE:
+      return value <= threshold
+    case Comparator.EQ:
+      return value === threshold
+    default:
+      throw new Error(`Unknown comparator: ${comparator}`)
+  }
+}
+
+/**
+ * Decide the winning option (0 = YES, 1 = NO) for a market's criteria
+ * Returns null when the observation does not carry the market's metric
+ */
+export function evaluateCriteria(
+  criteria: { comparator: Comparator; metric: Metric; threshold: bigint },
+  observation: Observation
+): number | null {
+  const value = selectMetric(criteria.metric, observation)
+  if (value === null) return null
+
+  const threshold = scaleThreshold(criteria.metric, criteria.threshold)
+  return compare(value, criteria.comparator, threshold) ? 0 : 1
+}
+
+/**
+ * Decide the winning option from every event observed in the market window
+ * Only observations with createdAt <= timestamp < resolutionTime are used.
+ * Returns null when the window holds no value to compare (MAX/MIN over no events).
+ */
+export function evaluateWindow(
+  criteria: {
+    comparator: Comparator
+    metric: Metric
+    aggregation: Aggregation
+    threshold: bigint
+    createdAt: bigint
+    resolutionTime: bigint
+  },
+  observations: { timestamp: bigint; observation: Observation }[]
+): number | null {
+  const values: bigint[] = []
+  for (const { timestamp, observation } of observations) {
+    if (timestamp < criteria.createdAt || timestamp >= criteria.resolutionTime) continue
+    const value = selectMetric(criteria.metric, observation)
+    if (value !== null) values.push(value)
+  }
+
+  const threshold = scaleThreshold(criteria.metric, criteria.threshold)
+  const decide = (value: bigint) => (compare(value, criteria.comparator, threshold) ? 0 : 1)
+
+  switch (criteria.aggregation) {
+    case Aggregation.ANY:
+      return values.some(value => compare(value, criteria.comparator, threshold)) ? 0 : 1
+    case Aggregation.MAX:
+      return values.length > 0 ? decide(values.reduce((a, b) => (b > a ? b : a))) : null
+    case Aggregation.MIN:
+      return values.length > 0 ? decide(values.reduce((a, b) => (b < a ? b : a))) : null
+    case Aggregation.SUM:
+      return decide(values.reduce((a, b) => a + b, 0n))
+    case Aggregation.COUNT:
+      // COUNT compares the number of events, so the threshold is never scaled
+      return compare(BigInt(values.length), criteria.comparator, criteria.threshold) ? 0 : 1
+    default:
+      throw new Error(`Not a window aggregation: ${criteria.aggregation}`)
+  }
+}
+
+/**
+ * The value a window market compared against its threshold, for evidence records
+ * ANY yields the first value meeting the threshold and COUNT the number of
+ * values; null when there is no such value.
+ */
+export function aggregateWindow(
+  criteria: { comparator: Comparator; metric: Metric; aggregation: Aggregation; threshold: bigint },
+  values: bigint[]
+): bigint | null {
+  switch (criteria.aggregation) {
+    case Aggregation.ANY: {
+      const threshold = scaleThreshold(criteria.metric, criteria.threshold)
+      return values.find(value => compare(value, criteria.comparator, threshold)) ?? null
+    }
+    case Aggregation.MAX:
+      return values.length > 0 ? values.reduce((a, b) => (b > a ? b : a)) : null
+    case Aggregation.MIN:
+      return values.length > 0 ? values.reduce((a, b) => (b < a ? b : a)) : null
+    case Aggregation.SUM:
+      return values.reduce((a, b) => a + b, 0n)
+    case Aggregation.COUNT:
+      return BigInt(values.length)
+    default:
+      throw new Error(`Not a window aggregation: ${criteria.aggregation}`)
+  }
+}
+
+/**
+ * Pick the observations a market's outcome was decided from
+ * Window markets use every observation in the window that carries the metric;
+ * other markets use the first one at or after resolutionTime.
+ */
+export function selectDecidingObservations<T extends { timestamp: bigint; observation: Observation }>(
+  criteria: { metric: Metric; aggregation: Aggregation; createdAt: bigint; resolutionTime: bigint },
+  observations: T[]
+): T[] {
+  const withMetric = observations.filter(o => selectMetric(criteria.metric, o.observation) !== null)
+
+  if (isWindowAggregation(criteria.aggregation)) {
+    return withMetric.filter(o => o.timestamp >= criteria.createdAt && o.timestamp < criteria.resolutionTime)
+  }
+
+  const first = withMetric
+    .filter(o => o.timestamp >= criteria.resolutionTime)
+    .reduce<T | null>((earliest, o) => (earliest === null || o.timestamp < earliest.timestamp ? o : earliest), null)
+  return first ? [first] : []
+}
@@ -0,0 +1,322 @@
+/**
+ * Resolution Evidence for PredEx
+ *
+ * Every resolution the resolver sends is backed by an evidence record: the
+ * market's criteria, the source events it was decided from (tx hash, log index,
+ * block) with their observed values, and the resulting option. Records are kept
+ * with the resolver state, published to Data Streams once the resolution
+ * confirms and served at /api/markets/:id/evidence.
+ *
+ * verifyResolutionEvidence re-fetches every source from chain and recomputes
+ * the outcome, so anyone can audit a result. It checks the events the resolver
+ * used; it does not search the chain for events the resolver missed.
+ */
+
+import { decodeEventLog, keccak256, toBytes, type Abi, type PublicClient } from 'viem'
+import { BOSS_BATTLE_EVENTS, SOMI_TOKEN_EVENTS } from './eventIndexer'
+import { decodeMarket } from '@predex/shared/marketDecoder'
+import {
+  Aggregation,
+  Comparator,
+  Metric,
+  Observation,
+  aggregateWindow,
+  evaluateCriteria,
+  evaluateWindow,
+  isWindowAggregation,
+  selectDecidingObservations,
+  selectMetric,
+} from './resolutionCriteria'
+import type { StoredObservation } from './resolverStore'
+import { getFallbackOption, type TimeoutAction } from './timeoutPolicy'
+import { MarketStatus } from '@predex/shared/types'
+
+export interface EvidenceSource {
+  source: StoredObservation['source']
+  txHash: `0x${string}` | null // Null for polled blocks and Data Streams records
+  logIndex: number | null
+  blockNumber: bigint | null
+  observedAt: bigint // Block timestamp of the event
+  value: bigint // The market's metric as observed
+}
+
+export interface ResolutionEvidence {
+  marketId: `0x${string}`
+  marketType: number
+  comparator: Comparator
+  metric: Metric
+  aggregation: Aggregation
+  threshold: bigint // As stored on the market (plain SOMI for transfer values)
+  createdAt: bigint
+  resolutionTime: bigint
+  observedValue: bigint | null // Compared against the threshold: the deciding event's value or the window aggregate
+  winningOption: number
+  fallback: TimeoutAction | null // Set when no data decided the market and the timeout default was applied
+  sources: EvidenceSource[]
+  resolutionTxHash: `0x${string}` | null
+  publishTxHash: `0x${string}` | null // Data Streams publish of the record
+  recordedAt: number // Unix seconds
+}
+
+export type SourceCheckStatus = 'match' | 'mismatch' | 'missing' | 'unverifiable'
+
+export interface SourceCheck {
+  status: SourceCheckStatus
+  onChainValue: bigint | null
+  detail: string | null
+}
+
+export interface EvidenceVerification {
+  verified: boolean
+  sources: SourceCheck[]
+  recomputedOption: number | null // From the re-fetched values
+  onChain: { status: MarketStatus; winningOption: number | null }
+  problems: string[]
+}
+
+export interface EvidenceContracts {
+  market: `0x${string}`
+  marketAbi: Abi | readonly unknown[]
+  somiToken: `0x${string}`
+  game?: `0x${string}`
+}
+
+type EvidenceCriteria = Pick<
+  ResolutionEvidence,
+  'comparator' | 'metric' | 'aggregation' | 'threshold' | 'createdAt' | 'resolutionTime'
+>
+
+function toObservation(metric: Metric, value: bigint): Observation {
+  switch (metric) {
+    case Metric.TX_COUNT:
+      return { txCount: value }
+    case Metric.TRANSFER_VALUE:
+      return { value }
+    case Metric.TIME_TAKEN:
+      return { timeTaken: value }
+    case Metric.TOTAL_DAMAGE:
+      return { totalDamage: value }
+    default:
+      throw new Error(`Unknown metric: ${metric}`)
+  }
+}
+
+// Outcome the criteria give for a set of source values
+function decide(criteria: EvidenceCriteria, sources: Pick<EvidenceSource, 'observedAt' | 'value'>[]): number | null {
+  const observations = sources.map(s => ({ timestamp: s.observedAt, observation: toObservation(criteria.metric, s.value) }))
+  if (isWindowAggregation(criteria.aggregation)) {
+    return evaluateWindow(criteria, observations)
+  }
+  return observations.length > 0 ? evaluateCriteria(criteria, observations[0].observation) : null
+}
+
+// ===== BUILDING =====
+
+/**
+ * Build the evidence for resolving `market` with `winningOption`
+ * The sources are the observations the outcome rests on, picked the same way as
+ * for /api/markets/:id/resolution; a timeout fallback has none.
+ */
+export function buildResolutionEvidence(
+  market: EvidenceCriteria & { marketId: `0x${string}`; marketType: number },
+  observations: StoredObservation[],
+  winningOption: number,
+  fallback: TimeoutAction | null = null
+): ResolutionEvidence {
+  const deciding = fallback
+    ? []
+    : selectDecidingObservations(market, observations.map(o => ({ ...o, timestamp: o.observedAt })))
+
+  const sources = deciding.map(o => ({
+    source: o.source,
+    txHash: o.txHash,
+    logIndex: o.logIndex,
+    blockNumber: o.blockNumber,
+    observedAt: o.observedAt,
+    value: selectMetric(market.metric, o.observation)!,
+  }))
+  const values = sources.map(s => s.value)
+
+  return {
+    marketId: market.marketId,
+    marketType: market.marketType,
+    comparator: market.comparator,
+    metric: market.metric,
+    aggregation: market.aggregation,
+    threshold: market.threshold,
+    createdAt: market.createdAt,
+    resolutionTime: market.resolutionTime,
+    observedValue: isWindowAggregation(market.aggregation) ? aggregateWindow(market, values) : values[0] ?? null,
+    winningOption,
+    fallback,
+    sources,
+    resolutionTxHash: null,
+    publishTxHash: null,
+    recordedAt: Math.floor(Date.now() / 1000),
+  }
+}
+
+// ===== SERIALIZATION =====
+
+export function serializeEvidence(evidence: ResolutionEvidence) {
+  return {
+    ...evidence,
+    threshold: evidence.threshold.toString(),
+    createdAt: Number(evidence.createdAt),
+    resolutionTime: Number(evidence.resolutionTime),
+    observedValue: evidence.observedValue === null ? null : evidence.observedValue.toString(),
+    sources: evidence.sources.map(s => ({
+      ...s,
+      blockNumber: s.blockNumber === null ? null : Number(s.blockNumber),
+      observedAt: Number(s.observedAt),
+      value: s.value.toString(),
+    })),
+  }
+}
+
+export function deserializeEvidence(raw: ReturnType<typeof serializeEvidence>): ResolutionEvidence {
+  return {
+    ...raw,
+    threshold: BigInt(raw.threshold),
+    createdAt: BigInt(raw.createdAt),
+    resolutionTime: BigInt(raw.resolutionTime),
+    observedValue: raw.observedValue === null ? null : BigInt(raw.observedValue),
+    sources: raw.sources.map(s => ({
+      ...s,
+      blockNumber: s.blockNumber === null ? null : BigInt(s.blockNumber),
+      observedAt: BigInt(s.observedAt),
+      value: BigInt(s.value),
+    })),
+  }
+}
+
+/**
+ * Hash of what the resolution rests on, published with the record to Data Streams
+ * Transaction hashes are left out since they are only known after the record is made.
+ */
+export function hashEvidence(evidence: ResolutionEvidence): `0x${string}` {
+  const { resolutionTxHash, publishTxHash, recordedAt, ...content } = serializeEvidence(evidence)
+  return keccak256(toBytes(JSON.stringify(content)))
+}
+
+export function serializeVerification(verification: EvidenceVerification) {
+  return {
+    ...verification,
+    sources: verification.sources.map(s => ({
+      ...s,
+      onChainValue: s.onChainValue === null ? null : s.onChainValue.toString(),
+    })),
+  }
+}
+
+// ===== VERIFICATION =====
+
+async function checkSource(
+  client: PublicClient,
+  evidence: ResolutionEvidence,
+  source: EvidenceSource,
+  contracts: EvidenceContracts
+): Promise<SourceCheck> {
+  const result = (status: SourceCheckStatus, onChainValue: bigint | null, detail: string | null = null): SourceCheck =>
+    ({ status, onChainValue, detail })
+
+  if (source.source === 'stream') {
+    return result('unverifiable', null, 'Data Streams record without a source log')
+  }
+
+  if (source.source === 'block') {
+    if (source.blockNumber === null) return result('unverifiable', null, 'no block number recorded')
+    const block = await client.getBlock({ blockNumber: source.blockNumber }).catch(() => null)
+    if (!block) return result('missing', null, `block ${source.blockNumber} not found`)
+
+    const txCount = BigInt(block.transactions.length)
+    if (block.timestamp !== source.observedAt) {
+      return result('mismatch', txCount, `block timestamp ${block.timestamp} differs from ${source.observedAt}`)
+    }
+    return txCount === source.value ? result('match', txCount) : result('mismatch', txCount, 'transaction count differs')
+  }
+
+  if (!source.txHash || source.logIndex === null) return result('unverifiable', null, 'no log reference recorded')
+
+  const receipt = await client.getTransactionReceipt({ hash: source.txHash }).catch(() => null)
+  const log = receipt?.logs.find(l => l.logIndex === source.logIndex)
+  if (!receipt || !log) return result('missing', null, `log ${source.logIndex} of ${source.txHash} not found`)
+  if (source.blockNumber !== null && receipt.blockNumber !== source.blockNumber) {
+    return result('mismatch', null, `log is in block ${receipt.blockNumber}, not ${source.blockNumber}`)
+  }
+
+  const expected = source.source === 'transfer' ? contracts.somiToken : contracts.game
+  if (!expected || log.address.toLowerCase() !== expected.toLowerCase()) {
+    return result('mismatch', null, `log emitted by ${log.address}`)
+  }
+
+  try {
+    const decoded = source.source === 'transfer'
+      ? decodeEventLog({ abi: SOMI_TOKEN_EVENTS, data: log.data, topics: log.topics, eventName: 'Transfer' })
+      : decodeEventLog({ abi: BOSS_BATTLE_EVENTS, data: log.data, topics: log.topics, eventName: 'BossDefeated' })
+    const value = selectMetric(evidence.metric, decoded.args as Observation)
+    if (value === null) return result('mismatch', null, `${decoded.eventName} has no ${Metric[evidence.metric]} value`)
+    return value === source.value ? result('match', value) : result('mismatch', value, 'observed value differs')
+  } catch {
+    return result('mismatch', null, `log is not a ${source.source === 'transfer' ? 'Transfer' : 'BossDefeated'} event`)
+  }
+}
+
+/**
+ * Re-fetch every source of an evidence record from chain and confirm the outcome
+ * Verified when every source matches the chain, the criteria give the recorded
+ * option for the re-fetched values, and the market is resolved with it on chain.
+ */
+export async function verifyResolutionEvidence(
+  client: PublicClient,
+  evidence: ResolutionEvidence,
+  contracts: EvidenceContracts
+): Promise<EvidenceVerification> {
+  const problems: string[] = []
+
+  const sources: SourceCheck[] = []
+  for (const source of evidence.sources) {
+    const check = await checkSource(client, evidence, source, contracts)
+    sources.push(check)
+    if (check.status !== 'match') {
+      problems.push(`${source.source} source ${source.txHash ?? source.blockNumber}: ${check.status}${check.detail ? ` (${check.detail})` : ''}`)
+    }
+  }
+
+  let recomputedOption: number | null
+  if (evidence.fallback) {
+    // Absence of qualifying data is not something a log can show
+    recomputedOption = getFallbackOption(evidence.fallback)
+  } else {
+    const refetched = evidence.sources
+      .map((source, i) => ({ observedAt: source.observedAt, value: sources[i].onChainValue }))
+      .filter((source): source is { observedAt: bigint; value: bigint } => source.value !== null)
+    recomputedOption = refetched.length > 0 || isWindowAggregation(evidence.aggregation)
+      ? decide(evidence, refetched)
+      : null
+  }
+  if (recomputedOption !== evidence.winningOption) {
+    problems.push(`criteria give option ${recomputedOption} for the on-chain values, evidence records ${evidence.winningOption}`)
+  }
+
+  const market = decodeMarket(
+    contracts.marketAbi,
+    await client.readContract({
+      address: contracts.market,
+      abi: contracts.marketAbi as Abi,
+      functionName: 'getMarket',
+      args: [evidence.marketId],
+    })
+  )
+  const onChain = {
+    status: market.status,
+    winningOption: market.status === MarketStatus.RESOLVED ? market.winningOption : null,
+  }
+  if (onChain.status !== MarketStatus.RESOLVED) {
+    problems.push(`market status on chain is ${onChain.status}, not resolved`)
+  } else if (onChain.winningOption !== evidence.winningOption) {
+    problems.push(`market resolved with option ${onChain.winningOption} on chain, evidence records ${evidence.winningOption}`)
+  }
+
+  return { verified: problems.length === 0, sources, recomputedOption, onChain, problems }
+}
@@ -1,47 +1,124 @@
-import { createPublicClient, createWalletClient, http, webSocket, parseAbiItem, keccak256 } from 'viem'
+import { BaseError, createPublicClient, createWalletClient, formatEther, http, webSocket, parseAbiItem, keccak256, type AbiEvent, type Log } from 'viem'
 import { privateKeyToAccount } from 'viem/accounts'
-import { defineChain } from 'viem'
+import { hostname } from 'os'
 import { SDK } from '@somnia-chain/streams'
 import { SchemaEncoder } from '@ethereum-attestation-service/eas-sdk'
 import PredictionMarketABI from '../abis/PredictionMarket.json'
-import { getSchemaForMarketType, MarketType } from './dataStreams'
+import { RESOLUTION_EVIDENCE_SCHEMA, ZERO_BYTES32, getSchemaForMarketType, MarketType } from '@predex/shared/dataStreams'
+import {
+  Aggregation,
+  Comparator,
+  Metric,
+  Observation,
+  evaluateCriteria,
+  evaluateWindow,
+  getAggregationLabel,
+  getComparatorLabel,
+  getMetricLabel,
+  isWindowAggregation,
+  scaleThreshold,
+  selectDecidingObservations,
+} from './resolutionCriteria'
+import { createResolverStore, EventRef, StoredObservation } from './resolverStore'
+import { backfillLogs, checkpointKey, resumableCheckpoint } from './logBackfill'
+import { createConfirmationBuffer, handleConfirmedBlocks } from './confirmationBuffer'
+import { ResolutionEvidence, buildResolutionEvidence, hashEvidence } from './resolutionEvidence'
+import { TimeoutAction, TimeoutPolicy, applyCancelGracePeriod, getFallbackOption, getTimeoutDeadline, loadTimeoutPolicies } from './timeoutPolicy'
+import { createTxManager, type ContractRequest } from './txManager'
+import { createPublishQueue } from './publishQueue'
+import { createLeaderElector, createLeaseStore, createMemoryLeaseStore } from './leaderElection'
+import { ShadowTrigger, createShadowReport } from './shadowReport'
+import { serializeObservation } from './serialize'
+import { fetchMarkets } from '@predex/shared/marketFetcher'
+import { MarketSchemaError, assertMarketAbi, decodeMarket } from '@predex/shared/marketDecoder'
+import { Market, MarketStatus } from '@predex/shared/types'
+import { getDataPath, network } from './chain'
+import {
+  DecodedStreamItem,
+  createHttpStreamsClient,
+  createMemoryStreamsClient,
+  createMemoryStreamsStore,
+  createSdkStreamsClient,
+} from '@predex/shared/streamsClient'
+import { StreamConnection, createStreamSubscriptionManager } from './streamSubscriptions'
+import { createLogger } from './logger'
+import { metrics } from './metrics'
 import dotenv from 'dotenv'
 
 dotenv.config()
 
-// Define Somnia Testnet chain
-const somniaTestnet = defineChain({
-  id: 50312,
-  name: 'Somnia Testnet',
-  nativeCurrency: {
-    decimals: 18,
-    name: 'SOMI',
-    symbol: 'SOMI',
-  },
-  rpcUrls: {
-    default: {
-      http: ['https://dream-rpc.somnia.network'],
-    },
-  },
-  blockExplorers: {
-    default: {
-      name: 'Somnia Explorer',
-      url: 'https://shannon-explorer.somnia.network',
-    },
-  },
-})
+const logger = createLogger({ component: 'resolver' })
 
 // Configuration
-const MARKET_CONTRACT = process.env.MARKET_CONTRACT as `0x${string}`
-const SOMI_TOKEN = process.env.SOMI_TOKEN as `0x${string}`
-const GAME_CONTRACT = process.env.GAME_CONTRACT as `0x${string}`
-const RPC_URL = process.env.SOMNIA_RPC_URL!
-const WS_URL = process.env.SOMNIA_WS_URL || RPC_URL.replace('https://', 'wss://')
+// Network (--network / NETWORK) and its contracts: registry, deployment JSON, then env overrides
+const MARKET_CONTRACT = network.contracts.market as `0x${string}`
+const SOMI_TOKEN = network.contracts.somiToken as `0x${string}`
+const GAME_CONTRACT = network.contracts.game as `0x${string}`
+
+// Checkpoint keys of the watched streams, tied to the chain and contract so a redeploy starts afresh
+const MARKET_CREATED_STREAM = checkpointKey('MarketCreated', network.chain.id, MARKET_CONTRACT ?? '')
+const TRANSFER_STREAM = checkpointKey('Transfer', network.chain.id, SOMI_TOKEN ?? '')
+const BOSS_DEFEATED_STREAM = checkpointKey('BossDefeated', network.chain.id, GAME_CONTRACT ?? '')
+const RPC_URL = network.rpcUrl
+const WS_URL = network.wsUrl
 const PRIVATE_KEY = process.env.RESOLVER_PRIVATE_KEY as `0x${string}`
+// live settles markets; shadow only decides them and appends each decision to RESOLVER_SHADOW_REPORT
+const RESOLVER_MODE = process.env.RESOLVER_MODE || 'live'
+const SHADOW_MODE = RESOLVER_MODE === 'shadow'
+const RESOLVER_SHADOW_REPORT = process.env.RESOLVER_SHADOW_REPORT || getDataPath('shadow-decisions.jsonl')
+// Blocks per eth_getLogs page when backfilling missed logs on startup
+const BACKFILL_CHUNK_SIZE = BigInt(process.env.BACKFILL_CHUNK_SIZE || '1000')
+// First block to backfill from when no checkpoint exists yet (defaults to the deployment block, then the current head)
+const START_BLOCK = process.env.RESOLVER_START_BLOCK ? BigInt(process.env.RESOLVER_START_BLOCK) : network.contracts.startBlock ?? null
+// Blocks a log must be buried under before the resolver acts on it
+const CONFIRMATION_DEPTH = BigInt(process.env.CONFIRMATION_DEPTH || '2')
+// Grace period and fallback (cancel | yes | no) per market type once resolutionTime has passed
+const TIMEOUT_POLICIES = loadTimeoutPolicies()
+// Minimum seconds between two fallback attempts for the same market
+const TIMEOUT_RETRY_INTERVAL = 60
+// Minimum seconds between two attempts to publish the same resolution evidence
+const EVIDENCE_RETRY_INTERVAL = 60
+// Markets per multicall request when loading markets on startup
+const MARKET_FETCH_CHUNK_SIZE = Number(process.env.MARKET_FETCH_CHUNK_SIZE || '100')
+// Resolver wallet transaction queue: sends per tx, backoff base, and when to replace a stuck tx
+const TX_MAX_ATTEMPTS = Number(process.env.TX_MAX_ATTEMPTS || '5')
+const TX_RETRY_BASE_MS = Number(process.env.TX_RETRY_BASE_MS || '1000')
+const TX_STUCK_TIMEOUT_MS = Number(process.env.TX_STUCK_TIMEOUT_MS || '30000')
+const TX_FEE_BUMP_PERCENT = Number(process.env.TX_FEE_BUMP_PERCENT || '20')
+// Leader election between resolver instances: lease length (ms) and this instance's name in the lease
+// (defaults to resolver address, host and pid)
+const RESOLVER_LEASE_MS = Number(process.env.RESOLVER_LEASE_MS || '15000')
+const RESOLVER_INSTANCE_ID = process.env.RESOLVER_INSTANCE_ID || ''
+// Data Streams backend: sdk (Somnia network), mock (in-process, also served at /api/data-streams)
+// or http (a mock served by another process at DATA_STREAMS_MOCK_URL)
+const DATA_STREAMS_MODE = process.env.DATA_STREAMS_MODE || 'sdk'
+const DATA_STREAMS_MOCK_URL = process.env.DATA_STREAMS_MOCK_URL || ''
+// Data Streams connection health: heartbeat interval and answer deadline, reconnect backoff base and cap (ms)
+const DATA_STREAMS_HEARTBEAT_MS = Number(process.env.DATA_STREAMS_HEARTBEAT_MS || '15000')
+const DATA_STREAMS_HEARTBEAT_TIMEOUT_MS = Number(process.env.DATA_STREAMS_HEARTBEAT_TIMEOUT_MS || '10000')
+const DATA_STREAMS_RECONNECT_BASE_MS = Number(process.env.DATA_STREAMS_RECONNECT_BASE_MS || '1000')
+const DATA_STREAMS_RECONNECT_MAX_MS = Number(process.env.DATA_STREAMS_RECONNECT_MAX_MS || '60000')
+// Publishers whose Data Streams records count as observations (comma separated); SDK events do not
+// carry their publisher, so on the live network only these are read. Mock publishers are also picked up from events.
+const DATA_STREAMS_PUBLISHERS = (process.env.DATA_STREAMS_PUBLISHERS || '')
+  .split(',')
+  .map(address => address.trim().toLowerCase())
+  .filter(Boolean) as `0x${string}`[]
+
+if (!MARKET_CONTRACT || !SOMI_TOKEN || !PRIVATE_KEY) {
+  logger.error('Missing required configuration', {
+    required: `RESOLVER_PRIVATE_KEY, plus MARKET_CONTRACT and SOMI_TOKEN unless the ${network.name} deployment provides them`,
+  })
+  process.exit(1)
+}
+
+if (!['sdk', 'mock', 'http'].includes(DATA_STREAMS_MODE) || (DATA_STREAMS_MODE === 'http' && !DATA_STREAMS_MOCK_URL)) {
+  logger.error('Invalid DATA_STREAMS_MODE (expected sdk, mock, or http with DATA_STREAMS_MOCK_URL)', { mode: DATA_STREAMS_MODE })
+  process.exit(1)
+}
 
-if (!MARKET_CONTRACT || !SOMI_TOKEN || !RPC_URL || !PRIVATE_KEY) {
-  console.error('❌ Missing required environment variables!')
-  console.error('Required: MARKET_CONTRACT, SOMI_TOKEN, SOMNIA_RPC_URL, RESOLVER_PRIVATE_KEY')
+if (!['live', 'shadow'].includes(RESOLVER_MODE)) {
+  logger.error('Invalid RESOLVER_MODE (expected live or shadow)', { mode: RESOLVER_MODE })
   process.exit(1)
 }
 
@@ -50,609 +127,1772 @@ const account = privateKeyToAccount(PRIVATE_KEY)
 
 // HTTP client for contract interactions
 const publicClient = createPublicClient({
-  chain: somniaTestnet,
+  chain: network.chain,
   transport: http(RPC_URL),
   pollingInterval: 1000
 })
 
-// WebSocket client for Data Streams subscriptions
-const wsPublicClient = createPublicClient({
-  chain: somniaTestnet,
-  transport: webSocket(WS_URL),
-})
-
 const walletClient = createWalletClient({
-  chain: somniaTestnet,
+  chain: network.chain,
   transport: http(RPC_URL),
   account
 })
 
-// Initialize Somnia Data Streams SDK
-const dataStreamsSDK = new SDK({
-  public: wsPublicClient,
-  wallet: walletClient,
+// Serialized nonce-managed queue for every tx the resolver account sends
+const txManager = createTxManager({
+  publicClient,
+  walletClient,
+  account,
+  maxAttempts: TX_MAX_ATTEMPTS,
+  retryBaseMs: TX_RETRY_BASE_MS,
+  stuckTimeoutMs: TX_STUCK_TIMEOUT_MS,
+  feeBumpPercent: TX_FEE_BUMP_PERCENT,
+})
+
+// Only the lease holder settles markets and publishes; other instances stand by
+// A shadow resolver never joins the shared lease, so it cannot hold off the live one
+const leaseStore = SHADOW_MODE ? createMemoryLeaseStore() : createLeaseStore(getDataPath('resolver-lease.db'))
+const elector = createLeaderElector({
+  store: leaseStore,
+  holder: RESOLVER_INSTANCE_ID || `${account.address}@${hostname()}:${process.pid}`,
+  leaseMs: RESOLVER_LEASE_MS,
+})
+
+// Decisions made in shadow mode, served at /api/shadow/decisions
+export const shadowReport = SHADOW_MODE ? createShadowReport(RESOLVER_SHADOW_REPORT) : null
+
+// In-process Data Streams state in mock mode, also served over HTTP by index.ts
+export const dataStreamsMockStore = DATA_STREAMS_MODE === 'mock' ? createMemoryStreamsStore() : null
+
+async function connectDataStreams(): Promise<StreamConnection> {
+  if (dataStreamsMockStore) return { client: createMemoryStreamsClient(dataStreamsMockStore, account.address) }
+  if (DATA_STREAMS_MODE === 'http') return { client: createHttpStreamsClient(DATA_STREAMS_MOCK_URL, account.address) }
+
+  // WebSocket client for Data Streams subscriptions, replaced on every reconnect
+  const wsPublicClient = createPublicClient({
+    chain: network.chain,
+    transport: webSocket(WS_URL, { reconnect: false }),
+  })
+
+  // SDK writes (setAndEmitEvents) are routed through the same queue as resolutions
+  const client = createSdkStreamsClient(new SDK({
+    public: wsPublicClient,
+    wallet: {
+      ...walletClient,
+      writeContract: async (request: ContractRequest) => {
+        const outcome = await txManager.submit({ label: `publish ${request.functionName}`, request })
+        if (outcome.status !== 'confirmed') throw new Error(`Publish skipped: ${outcome.reason}`)
+        return outcome.hash
+      },
+    } as typeof walletClient,
+  }))
+
+  return {
+    client,
+    heartbeat: () => wsPublicClient.getBlockNumber({ cacheTime: 0 }),
+    close: async () => (await wsPublicClient.transport.getRpcClient()).close(),
+  }
+}
+
+// Somnia Data Streams, or a local stand-in (DATA_STREAMS_MODE), kept connected and subscribed
+const streamManager = createStreamSubscriptionManager({
+  connect: connectDataStreams,
+  heartbeatIntervalMs: DATA_STREAMS_HEARTBEAT_MS,
+  heartbeatTimeoutMs: DATA_STREAMS_HEARTBEAT_TIMEOUT_MS,
+  reconnectBaseMs: DATA_STREAMS_RECONNECT_BASE_MS,
+  reconnectMaxMs: DATA_STREAMS_RECONNECT_MAX_MS,
 })
 
+// Persistent resolver state (markets, observations, resolution attempts)
+// A shadow resolver keeps its own database so it never writes over the live one's attempts or checkpoints
+const store = createResolverStore(getDataPath(SHADOW_MODE ? 'resolver-shadow.db' : 'resolver.db'))
+
 // Track active markets
-interface TrackedMarket {
+export interface TrackedMarket {
   marketId: `0x${string}`
   marketType: number // 0=BLOCK, 1=TRANSFER, 2=GAME
   question: string
   threshold: bigint
   thresholdToken: `0x${string}`
+  createdAt: bigint
   resolutionTime: bigint
   creator: `0x${string}`
   dataSourceId: `0x${string}` // Somnia Data Streams identifier
+  comparator: Comparator // YES wins when metric <comparator> threshold
+  metric: Metric // Observed value compared against threshold
+  aggregation: Aggregation // Which observed events are combined into the compared value
 }
 
 const activeMarkets = new Map<string, TrackedMarket>()
 
+// Markets with a resolution currently in flight (guards concurrent listeners)
+const resolvingMarkets = new Set<string>()
+
+// Last time a timeout fallback was tried per market (unix seconds)
+const lastTimeoutAttempt = new Map<string, number>()
+
+// Last time a failed evidence publish was retried per market (unix seconds)
+const lastEvidenceRetry = new Map<string, number>()
+
+// Stop functions for the live log and block watchers, called on shutdown
+const unwatchers: (() => void)[] = []
+
+// Data Streams records already recorded per market, so redelivered and gap-filled records count once
+const streamRecordKeys = new Map<string, Set<string>>()
+
+// Publishers whose Data Streams records are read back when filling gaps (never this resolver)
+const streamPublishers = new Set<`0x${string}`>(DATA_STREAMS_PUBLISHERS)
+
+// Periodic resolution check timer and the run in progress, if any
+let periodicTimer: NodeJS.Timeout | null = null
+let periodicRun: Promise<void> | null = null
+
+// ===== METRICS =====
+
+const MARKET_TYPE_NAMES = ['BLOCK', 'TRANSFER', 'GAME']
+
+metrics.gauge({
+  name: 'predex_resolver_tracked_markets',
+  help: 'Markets the resolver is tracking, by market type',
+  collect: (gauge) => {
+    const counts = new Map(MARKET_TYPE_NAMES.map(type => [type, 0]))
+    for (const market of activeMarkets.values()) {
+      const type = MARKET_TYPE_NAMES[market.marketType] ?? String(market.marketType)
+      counts.set(type, (counts.get(type) ?? 0) + 1)
+    }
+    counts.forEach((count, type) => gauge.set(count, { market_type: type }))
+  },
+})
+
+const eventsObserved = metrics.counter({
+  name: 'predex_resolver_events_observed_total',
+  help: 'On-chain events, confirmed blocks and Data Streams records handled by the resolver',
+})
+
+const resolutionLatency = metrics.histogram({
+  name: 'predex_resolver_resolution_latency_seconds',
+  help: 'Seconds from a market\'s resolutionTime to the block of its confirmed resolution',
+  buckets: [5, 15, 30, 60, 120, 300, 600, 1800, 3600, 21600],
+})
+
+const resolutionsTotal = metrics.counter({
+  name: 'predex_resolver_resolutions_total',
+  help: 'Resolution and cancellation transactions by result (confirmed, failed, skipped)',
+})
+
+const dataStreamPublishes = metrics.counter({
+  name: 'predex_resolver_data_streams_publishes_total',
+  help: 'Data Streams publishes by result (success, failure, coalesced)',
+})
+
+metrics.gauge({
+  name: 'predex_resolver_wallet_balance',
+  help: 'Native token balance of the resolver wallet',
+  collect: async (gauge) => {
+    gauge.set(Number(formatEther(await publicClient.getBalance({ address: account.address }))), { address: account.address })
+  },
+})
+
+metrics.gauge({
+  name: 'predex_resolver_leader',
+  help: 'Whether this instance holds the resolver lease (1) or stands by (0)',
+  collect: (gauge) => gauge.set(elector.isLeader() ? 1 : 0, { holder: elector.holder }),
+})
+
+const shadowDecisions = metrics.counter({
+  name: 'predex_resolver_shadow_decisions_total',
+  help: 'Decisions recorded in shadow mode instead of being sent, by action (resolve, cancel)',
+})
+
+// Time between resolutionTime and the block that settled the market
+async function observeResolutionLatency(marketId: `0x${string}`, blockNumber: bigint) {
+  const market = activeMarkets.get(marketId)
+  if (!market) return
+  try {
+    const block = await publicClient.getBlock({ blockNumber })
+    resolutionLatency.observe(Number(block.timestamp - market.resolutionTime), {
+      market_type: MARKET_TYPE_NAMES[market.marketType] ?? String(market.marketType),
+    })
+  } catch (error) {
+    logger.warn('Could not read resolution block for latency', { marketId, blockNumber, error })
+  }
+}
+
 // ===== HELPER FUNCTIONS =====
 
-function isReadyForResolution(market: TrackedMarket): boolean {
-  const now = BigInt(Math.floor(Date.now() / 1000))
+// e.g. "SUM(value) >= 100", for logs
+function describeCriteria(market: Pick<TrackedMarket, 'aggregation' | 'metric' | 'comparator' | 'threshold'>): string {
+  return `${getAggregationLabel(market.aggregation)}(${getMetricLabel(market.metric)}) ${getComparatorLabel(market.comparator)} ${market.threshold?.toString()}`
+}
+
+function isReadyForResolution(market: TrackedMarket, at?: bigint): boolean {
+  const now = at ?? BigInt(Math.floor(Date.now() / 1000))
   return now >= market.resolutionTime
 }
 
-async function callResolveMarket(marketId: `0x${string}`, winningOption: number) {
-  try {
-    console.log(`\n✅ Resolving market ${marketId} with option ${winningOption}`)
+async function readMarket(marketId: `0x${string}`): Promise<Market> {
+  const raw = await publicClient.readContract({
+    address: MARKET_CONTRACT,
+    abi: PredictionMarketABI.abi,
+    functionName: 'getMarket',
+    args: [marketId],
+  })
+
+  return decodeMarket(PredictionMarketABI.abi, raw)
+}
+
+async function readMarketStatus(marketId: `0x${string}`): Promise<MarketStatus> {
+  const market = await readMarket(marketId)
+  return market.status
+}
+
+async function trackMarket(market: TrackedMarket) {
+  activeMarkets.set(market.marketId, market)
+  await store.saveMarket(market)
+}
+
+async function untrackMarket(marketId: `0x${string}`, state: 'resolved' | 'cancelled') {
+  activeMarkets.delete(marketId)
+  streamManager.unsubscribe(marketId)
+  streamRecordKeys.delete(marketId)
+  await store.setMarketState(marketId, state)
+}
+
+async function recordObservation(
+  market: TrackedMarket,
+  source: StoredObservation['source'],
+  observation: Observation,
+  observedAt: bigint,
+  ref?: EventRef
+) {
+  try {
+    await store.recordObservation(market.marketId, source, observation, observedAt, ref)
+  } catch (error) {
+    logger.error('Failed to persist observation', { marketId: market.marketId, source, error })
+  }
+}
+
+/**
+ * Why this instance must not settle a market right now, or null if it may
+ * Standbys never settle. A leader also holds back while an earlier settlement
+ * tx for the market (e.g. from the previous leader) is still pending; once it
+ * is mined or dropped the market is checked again.
+ */
+async function getSettlementBlocker(marketId: `0x${string}`): Promise<string | null> {
+  if (!elector.isLeader()) return 'not the resolver leader'
+
+  for (const { txHash, holder } of await leaseStore.getBroadcasts(marketId)) {
+    const receipt = await publicClient.getTransactionReceipt({ hash: txHash }).catch(() => null)
+    if (receipt) continue
+    const pending = await publicClient.getTransaction({ hash: txHash }).catch(() => null)
+    if (pending) return `settlement tx ${txHash} from ${holder} is still pending`
+  }
+  return null
+}
+
+// Share a settlement broadcast with the other instances
+async function recordSettlementBroadcast(marketId: `0x${string}`, txHash: `0x${string}`) {
+  await leaseStore.recordBroadcast({
+    marketId,
+    holder: elector.holder,
+    term: elector.term ?? 0,
+    txHash,
+    broadcastAt: Date.now(),
+  })
+}
+
+// Checked right before every send, so a queued settlement is dropped once leadership is lost
+function leadershipSkipReason(): string | null {
+  return elector.isLeader() ? null : 'lost resolver leadership'
+}
+
+// Reason stored on a failed attempt or decision; viem errors keep their one-line summary
+function failureReason(error: unknown): string {
+  if (error instanceof BaseError) return error.shortMessage
+  if (error instanceof Error) return error.message
+  return String(error)
+}
+
+/**
+ * Submit a resolution and wait for it to confirm
+ * The evidence for the outcome is recorded before the transaction is sent and
+ * published once it confirms. Returns true once the resolution is confirmed on chain.
+ */
+async function callResolveMarket(
+  marketId: `0x${string}`,
+  winningOption: number,
+  fallback: TimeoutAction | null = null
+): Promise<boolean> {
+  if (resolvingMarkets.has(marketId)) return false
+  resolvingMarkets.add(marketId)
+
+  let attemptId: number | null = null
+
+  try {
+    // Chain state is the source of truth: never resolve a market twice
+    const status = await readMarketStatus(marketId)
+    if (status !== MarketStatus.ACTIVE) {
+      logger.info('Market is no longer active on chain', { marketId, status })
+      await untrackMarket(marketId, status === MarketStatus.CANCELLED ? 'cancelled' : 'resolved')
+      return false
+    }
+
+    const blocker = await getSettlementBlocker(marketId)
+    if (blocker) {
+      logger.debug('Not resolving market', { marketId, reason: blocker })
+      return false
+    }
+
+    logger.info('Resolving market', { marketId, winningOption })
+    const evidence = await recordResolutionEvidence(marketId, winningOption, fallback)
+    const id = await store.recordAttempt(marketId, winningOption)
+    attemptId = id
+
+    // The market may be settled while the job waits in the queue
+    let settledStatus: MarketStatus | null = null
+    const outcome = await txManager.submit({
+      label: `resolve ${marketId}`,
+      priority: 'high',
+      logFields: { marketId },
+      request: {
+        address: MARKET_CONTRACT,
+        abi: PredictionMarketABI.abi,
+        functionName: 'resolveMarket',
+        args: [marketId, winningOption],
+      },
+      skipIf: async () => {
+        const current = await readMarketStatus(marketId)
+        if (current === MarketStatus.ACTIVE) return leadershipSkipReason()
+        settledStatus = current
+        return `market status is ${current} on chain`
+      },
+      onBroadcast: async (hash) => {
+        logger.info('Resolution tx broadcast', { marketId, txHash: hash })
+        await recordSettlementBroadcast(marketId, hash)
+        await store.updateAttempt(id, { status: 'submitted', txHash: hash })
+        if (evidence) {
+          evidence.resolutionTxHash = hash
+          await store.saveEvidence(evidence)
+        }
+      },
+    })
+
+    if (outcome.status === 'skipped') {
+      resolutionsTotal.inc({ action: 'resolve', result: 'skipped' })
+      await store.updateAttempt(id, { status: 'failed', error: `Skipped: ${outcome.reason}` })
+      if (settledStatus !== null) {
+        await untrackMarket(marketId, settledStatus === MarketStatus.CANCELLED ? 'cancelled' : 'resolved')
+      }
+      return false
+    }
+
+    // Wait until the resolution is as deep as the logs that triggered it
+    const receipt = await publicClient.waitForTransactionReceipt({
+      hash: outcome.hash,
+      confirmations: Number(CONFIRMATION_DEPTH) + 1,
+    })
+    logger.info('Market resolved', { marketId, txHash: outcome.hash, blockNumber: receipt.blockNumber })
+    await store.updateAttempt(attemptId, { status: 'confirmed' })
+    resolutionsTotal.inc({ action: 'resolve', result: 'confirmed' })
+    await observeResolutionLatency(marketId, receipt.blockNumber)
+    if (evidence) await publishResolutionEvidence(evidence)
+
+    // Remove from active markets
+    await untrackMarket(marketId, 'resolved')
+    return true
+
+  } catch (error) {
+    logger.error('Failed to resolve market', { marketId, error })
+    resolutionsTotal.inc({ action: 'resolve', result: 'failed' })
+    if (attemptId !== null) {
+      await store.updateAttempt(attemptId, { status: 'failed', error: failureReason(error) })
+    }
+    return false
+  } finally {
+    resolvingMarkets.delete(marketId)
+  }
+}
+
+/**
+ * Cancel a market on chain so bettors can call refundBets
+ * Uses cancelExpiredMarket, which the contract only allows once its
+ * cancelGracePeriod has passed. Progress is written to the timeout decision that triggered it.
+ */
+async function callCancelMarket(marketId: `0x${string}`, decisionId: number) {
+  if (resolvingMarkets.has(marketId)) return
+  resolvingMarkets.add(marketId)
+
+  try {
+    logger.info('Cancelling market', { marketId, decisionId })
+
+    let settledStatus: MarketStatus | null = null
+    const outcome = await txManager.submit({
+      label: `cancel ${marketId}`,
+      priority: 'high',
+      logFields: { marketId },
+      request: {
+        address: MARKET_CONTRACT,
+        abi: PredictionMarketABI.abi,
+        functionName: 'cancelExpiredMarket',
+        args: [marketId],
+      },
+      skipIf: async () => {
+        const current = await readMarketStatus(marketId)
+        if (current === MarketStatus.ACTIVE) return leadershipSkipReason()
+        settledStatus = current
+        return `market status is ${current} on chain`
+      },
+      onBroadcast: async (hash) => {
+        logger.info('Cancellation tx broadcast', { marketId, txHash: hash })
+        await recordSettlementBroadcast(marketId, hash)
+        await store.updateDecision(decisionId, { status: 'submitted', txHash: hash })
+      },
+    })
+
+    if (outcome.status === 'skipped') {
+      resolutionsTotal.inc({ action: 'cancel', result: 'skipped' })
+      await store.updateDecision(decisionId, { status: 'failed', error: `Skipped: ${outcome.reason}` })
+      if (settledStatus !== null) {
+        await untrackMarket(marketId, settledStatus === MarketStatus.CANCELLED ? 'cancelled' : 'resolved')
+      }
+      return
+    }
+
+    const receipt = await publicClient.waitForTransactionReceipt({
+      hash: outcome.hash,
+      confirmations: Number(CONFIRMATION_DEPTH) + 1,
+    })
+    logger.info('Market cancelled, refunds enabled', { marketId, txHash: outcome.hash, blockNumber: receipt.blockNumber })
+    await store.updateDecision(decisionId, { status: 'confirmed' })
+    resolutionsTotal.inc({ action: 'cancel', result: 'confirmed' })
+
+    await untrackMarket(marketId, 'cancelled')
+
+  } catch (error) {
+    logger.error('Failed to cancel market', { marketId, error })
+    resolutionsTotal.inc({ action: 'cancel', result: 'failed' })
+    await store.updateDecision(decisionId, { status: 'failed', error: failureReason(error) })
+  } finally {
+    resolvingMarkets.delete(marketId)
+  }
+}
+
+// ===== RESOLUTION EVIDENCE =====
+
+/**
+ * Record what a resolution rests on before it is sent, served at /api/markets/:id/evidence
+ * Returns null when the market is not known to the resolver.
+ */
+async function recordResolutionEvidence(
+  marketId: `0x${string}`,
+  winningOption: number,
+  fallback: TimeoutAction | null
+): Promise<ResolutionEvidence | null> {
+  const market = activeMarkets.get(marketId) ?? (await store.getMarket(marketId))?.market
+  if (!market) {
+    logger.warn('No market data for resolution evidence', { marketId })
+    return null
+  }
+
+  const evidence = buildResolutionEvidence(market, await store.getObservations(marketId), winningOption, fallback)
+  await store.saveEvidence(evidence)
+  return evidence
+}
+
+/**
+ * Publish an evidence record to Data Streams, keyed by market id
+ * The full record stays available from the API; the stream carries the compared
+ * value, the first source event and the hash of the record.
+ */
+async function publishResolutionEvidence(evidence: ResolutionEvidence) {
+  try {
+    const client = streamManager.client()
+    const schemaId = await client.computeSchemaId(RESOLUTION_EVIDENCE_SCHEMA)
+    if (!(await client.isDataSchemaRegistered(schemaId))) {
+      await client.registerDataSchemas([{ id: 'ResolutionEvidence', schema: RESOLUTION_EVIDENCE_SCHEMA }])
+    }
+
+    const source = evidence.sources[0]
+    const data = new SchemaEncoder(RESOLUTION_EVIDENCE_SCHEMA).encodeData([
+      { name: 'marketId', value: evidence.marketId, type: 'bytes32' },
+      { name: 'winningOption', value: evidence.winningOption, type: 'uint8' },
+      { name: 'comparator', value: evidence.comparator, type: 'uint8' },
+      { name: 'metric', value: evidence.metric, type: 'uint8' },
+      { name: 'aggregation', value: evidence.aggregation, type: 'uint8' },
+      { name: 'threshold', value: evidence.threshold, type: 'uint256' },
+      { name: 'observedValue', value: evidence.observedValue ?? 0n, type: 'uint256' },
+      { name: 'sourceTxHash', value: source?.txHash ?? ZERO_BYTES32, type: 'bytes32' },
+      { name: 'sourceLogIndex', value: source?.logIndex ?? 0, type: 'uint32' },
+      { name: 'sourceBlockNumber', value: source?.blockNumber ?? 0n, type: 'uint64' },
+      { name: 'sourceCount', value: evidence.sources.length, type: 'uint32' },
+      { name: 'evidenceHash', value: hashEvidence(evidence), type: 'bytes32' },
+      { name: 'resolutionTxHash', value: evidence.resolutionTxHash ?? ZERO_BYTES32, type: 'bytes32' },
+      { name: 'timestamp', value: BigInt(evidence.recordedAt), type: 'uint256' },
+    ]) as `0x${string}`
+
+    const txHash = await client.setAndEmitEvents([{ id: evidence.marketId, schemaId, data }], [])
+    evidence.publishTxHash = txHash
+    await store.saveEvidence(evidence)
+
+    logger.info('Resolution evidence published', { marketId: evidence.marketId, txHash })
+    dataStreamPublishes.inc({ result: 'success' })
+  } catch (error) {
+    logger.error('Failed to publish resolution evidence', { marketId: evidence.marketId, error })
+    dataStreamPublishes.inc({ result: 'failure' })
+  }
+}
+
+/**
+ * Publish evidence whose first publish failed, once its resolution is mined
+ * The store is the retry queue: a record stays unpublished until a publish
+ * succeeds, so failures before a restart are retried after it too.
+ */
+async function retryEvidencePublishes(now: number) {
+  if (SHADOW_MODE || !elector.isLeader()) return
+
+  let unpublished: ResolutionEvidence[]
+  try {
+    unpublished = await store.getUnpublishedEvidence()
+  } catch (error) {
+    logger.error('Could not read unpublished resolution evidence', { error })
+    return
+  }
+
+  for (const evidence of unpublished) {
+    const { marketId, resolutionTxHash } = evidence
+    // A market still being resolved publishes its own evidence once confirmed
+    if (activeMarkets.has(marketId) || resolvingMarkets.has(marketId) || !resolutionTxHash) continue
+    if (now - (lastEvidenceRetry.get(marketId) ?? 0) < EVIDENCE_RETRY_INTERVAL) continue
+    lastEvidenceRetry.set(marketId, now)
+
+    try {
+      // Only a resolution that settled the market has evidence worth publishing
+      const receipt = await publicClient.getTransactionReceipt({ hash: resolutionTxHash })
+      if (receipt.status !== 'success') {
+        logger.debug('Resolution reverted, evidence not published', { marketId, txHash: resolutionTxHash })
+        continue
+      }
+    } catch (error) {
+      logger.debug('Resolution receipt not available, evidence publish deferred', { marketId, txHash: resolutionTxHash, error })
+      continue
+    }
+
+    logger.info('Retrying resolution evidence publish', { marketId })
+    await publishResolutionEvidence(evidence)
+  }
+}
+
+// ===== SHADOW MODE =====
+
+/**
+ * Record what the resolver would send for a market, then stop tracking it
+ * Each market is decided once. The observations are the ones the decision
+ * rests on, picked the same way as for /api/markets/:id/resolution.
+ */
+async function recordShadowDecision(market: TrackedMarket, trigger: ShadowTrigger, winningOption: number | null) {
+  if (shadowReport && !shadowReport.has(market.marketId)) {
+    const observations = selectDecidingObservations(
+      market,
+      (await store.getObservations(market.marketId)).map(o => ({ ...o, timestamp: o.observedAt }))
+    )
+    const action = winningOption === null ? 'cancel' : 'resolve'
+
+    await shadowReport.record({
+      marketId: market.marketId,
+      marketType: market.marketType,
+      question: market.question,
+      criteria: describeCriteria(market),
+      trigger,
+      action,
+      winningOption,
+      observations: observations.map(serializeObservation),
+      decidedAt: Math.floor(Date.now() / 1000),
+    })
+    shadowDecisions.inc({ action })
+    logger.info('Shadow decision recorded', { marketId: market.marketId, trigger, action, winningOption })
+  }
+
+  await untrackMarket(market.marketId, winningOption === null ? 'cancelled' : 'resolved')
+}
+
+/**
+ * Settle a market the resolver has decided, or only record the decision in shadow mode
+ * Returns true once a resolution is confirmed on chain.
+ */
+async function decideMarket(market: TrackedMarket, trigger: ShadowTrigger, winningOption: number): Promise<boolean> {
+  if (SHADOW_MODE) {
+    await recordShadowDecision(market, trigger, winningOption)
+    return false
+  }
+  return callResolveMarket(market.marketId, winningOption)
+}
+
+// ===== CRASH RECOVERY =====
+
+/**
+ * Replay persisted state after a restart
+ * Settles attempts that were in flight when the process stopped, then restores
+ * every market that was still being tracked. Reconciliation against the
+ * contract happens in loadActiveMarketsFromContract.
+ */
+async function recoverFromStore() {
+  logger.info('Recovering resolver state from store')
+
+  for (const attempt of await store.getOpenAttempts()) {
+    try {
+      if (attempt.txHash) {
+        const receipt = await publicClient.getTransactionReceipt({ hash: attempt.txHash })
+        if (receipt.status === 'success') {
+          await store.updateAttempt(attempt.id, { status: 'confirmed' })
+          await store.setMarketState(attempt.marketId, 'resolved')
+          logger.info('Resolution tx confirmed while offline', { marketId: attempt.marketId, txHash: attempt.txHash })
+          continue
+        }
+      }
+
+      // Never sent, dropped or reverted: the market is retried once it is reloaded
+      await store.updateAttempt(attempt.id, { status: 'failed', error: 'Interrupted by restart' })
+      logger.warn('Resolution interrupted by restart, will retry', { marketId: attempt.marketId })
+    } catch (error) {
+      // Receipt not found yet - leave the attempt open, the on-chain status check prevents a double resolve
+      logger.error('Could not settle resolution attempt', { marketId: attempt.marketId, txHash: attempt.txHash, error })
+    }
+  }
+
+  for (const decision of await store.getOpenDecisions()) {
+    try {
+      if (decision.action === 'cancel' && decision.txHash) {
+        const receipt = await publicClient.getTransactionReceipt({ hash: decision.txHash })
+        if (receipt.status === 'success') {
+          await store.updateDecision(decision.id, { status: 'confirmed' })
+          await store.setMarketState(decision.marketId, 'cancelled')
+          logger.info('Cancellation tx confirmed while offline', { marketId: decision.marketId, txHash: decision.txHash })
+          continue
+        }
+      }
+
+      // The fallback is taken again if the market is still active once reloaded
+      await store.updateDecision(decision.id, { status: 'failed', error: 'Interrupted by restart' })
+      logger.warn('Timeout fallback interrupted by restart, will retry', { marketId: decision.marketId })
+    } catch (error) {
+      logger.error('Could not settle timeout decision', { marketId: decision.marketId, txHash: decision.txHash, error })
+    }
+  }
+
+  const stored = await store.getMarketsByState('tracking')
+  for (const { market } of stored) {
+    activeMarkets.set(market.marketId, market)
+  }
+
+  logger.info('Restored tracked markets', { count: stored.length })
+}
+
+// ===== MARKET TRACKING =====
+
+async function loadActiveMarketsFromContract() {
+  logger.info('Loading active markets from contract')
+
+  try {
+    // Get all market IDs
+    const marketIds = await publicClient.readContract({
+      address: MARKET_CONTRACT,
+      abi: PredictionMarketABI.abi,
+      functionName: 'getActiveMarkets',
+    }) as `0x${string}`[]
+
+    logger.info('Found markets on contract', { count: marketIds.length })
+
+    // Load every market's details in batched multicalls
+    const { markets, failed } = await fetchMarkets(publicClient, marketIds, {
+      address: MARKET_CONTRACT,
+      abi: PredictionMarketABI.abi,
+      chunkSize: MARKET_FETCH_CHUNK_SIZE,
+    })
+
+    for (const marketId of failed) {
+      logger.error('Failed to load market', { marketId })
+    }
+
+    for (const market of markets) {
+      const {
+        marketId,
+        marketType,
+        question,
+        creator,
+        createdAt,
+        resolutionTime,
+        status,
+        threshold,
+        dataSourceId,
+        thresholdToken,
+        comparator,
+        metric,
+        aggregation,
+      } = market
+
+      try {
+        // Only track ACTIVE markets
+        if (status === MarketStatus.ACTIVE) {
+          await trackMarket({
+            marketId,
+            marketType,
+            question,
+            threshold,
+            thresholdToken,
+            createdAt,
+            resolutionTime,
+            creator,
+            dataSourceId,
+            comparator,
+            metric,
+            aggregation,
+          })
+
+          logger.info('Tracking market', {
+            marketId,
+            question,
+            marketType,
+            criteria: describeCriteria({ aggregation, metric, comparator, threshold }),
+            dataSourceId,
+          })
+
+          // Subscribe to Data Streams for this market
+          const trackedMarket = activeMarkets.get(marketId)
+          if (trackedMarket) {
+            await subscribeToDataStream(trackedMarket)
+          }
+        } else if (activeMarkets.has(marketId)) {
+          // Restored from the store but settled on chain while we were offline
+          await untrackMarket(marketId, status === MarketStatus.CANCELLED ? 'cancelled' : 'resolved')
+          logger.info('Market settled while offline', { marketId, status })
+        }
+      } catch (error) {
+        logger.error('Failed to track market', { marketId, error })
+      }
+    }
+
+    logger.info('Loaded active markets', { count: activeMarkets.size })
+  } catch (error) {
+    // Schema drift means every market would be misread - stop instead of carrying on
+    if (error instanceof MarketSchemaError) throw error
+    logger.error('Failed to load markets from contract', { error })
+  }
+}
+
+// ===== SOMNIA DATA STREAMS SUBSCRIPTIONS =====
+
+/**
+ * Observation carried by a Data Streams record, raw or already decoded with its type's schema
+ */
+function readStreamRecord(
+  market: TrackedMarket,
+  record: `0x${string}` | DecodedStreamItem[]
+): { observation: Observation; timestamp: bigint | null; marketId: string | null } {
+  const items = typeof record === 'string'
+    ? new SchemaEncoder(getSchemaForMarketType(market.marketType as MarketType)).decodeData(record)
+    : record
+  const fields = new Map(items.map(item => [item.name, item.value.value]))
+  const field = (name: string) => (fields.has(name) ? BigInt(fields.get(name) as string | number | bigint) : undefined)
+
+  return {
+    observation: {
+      txCount: field('txCount'),
+      value: field('value'),
+      timeTaken: field('timeTaken'),
+      totalDamage: field('totalDamage'),
+    },
+    timestamp: field('timestamp') ?? null,
+    marketId: fields.has('marketId') ? String(fields.get('marketId')).toLowerCase() : null,
+  }
+}
+
+function streamRecordKey(observation: Observation, timestamp: bigint): string {
+  return [timestamp, observation.txCount, observation.value, observation.timeTaken, observation.totalDamage].join(':')
+}
+
+// Keys of the stream observations already in the store, loaded once per market
+async function getStreamRecordKeys(market: TrackedMarket): Promise<Set<string>> {
+  let keys = streamRecordKeys.get(market.marketId)
+  if (!keys) {
+    keys = new Set(
+      (await store.getObservations(market.marketId))
+        .filter(o => o.source === 'stream')
+        .map(o => streamRecordKey(o.observation, o.observedAt))
+    )
+    streamRecordKeys.set(market.marketId, keys)
+  }
+  return keys
+}
+
+/**
+ * Record a Data Streams observation once and resolve the market if it decides it
+ * Returns false when the record was seen before.
+ */
+async function handleStreamRecord(market: TrackedMarket, record: `0x${string}` | DecodedStreamItem[]): Promise<boolean> {
+  let decoded: ReturnType<typeof readStreamRecord>
+  try {
+    decoded = readStreamRecord(market, record)
+  } catch (error) {
+    logger.error('Could not decode Data Stream data', { marketId: market.marketId, error })
+    return false
+  }
+  // Schemas are shared by every market of a type
+  if (decoded.marketId !== null && decoded.marketId !== market.marketId.toLowerCase()) return false
+
+  const { observation } = decoded
+  const timestamp = decoded.timestamp ?? BigInt(Math.floor(Date.now() / 1000))
+  const keys = await getStreamRecordKeys(market)
+  const key = streamRecordKey(observation, timestamp)
+  if (keys.has(key)) return false
+  keys.add(key)
+
+  logger.info('Data Stream update', { marketId: market.marketId, observation, timestamp })
+  eventsObserved.inc({ event: 'DataStream' })
+  await recordObservation(market, 'stream', observation, timestamp)
+
+  // Window markets are decided from all observations at resolution time
+  if (isWindowAggregation(market.aggregation)) return true
+
+  // Check if market is ready for resolution
+  if (!isReadyForResolution(market, timestamp)) {
+    logger.debug('Market not yet ready for resolution', { marketId: market.marketId })
+    return true
+  }
+
+  // Determine winning option from the market's stored criteria
+  const winningOption = evaluateCriteria(market, observation)
+
+  if (winningOption !== null && activeMarkets.has(market.marketId)) {
+    logger.info('Data Stream update decides market', { marketId: market.marketId, winningOption })
+    await decideMarket(market, 'stream', winningOption)
+  }
+  return true
+}
+
+/**
+ * Read back every record the known publishers stored for a market
+ * Used after (re)subscribing, to fill the gap left by a disconnect, and for SDK
+ * events, which only signal that new data exists.
+ */
+async function syncStreamData(market: TrackedMarket, gapSince: number | null) {
+  let filled = 0
+  for (const publisher of streamPublishers) {
+    const records = await streamManager.client().getAllPublisherDataForSchema(market.dataSourceId, publisher)
+    for (const record of records) {
+      if (await handleStreamRecord(market, record)) filled++
+    }
+  }
+
+  if (gapSince !== null && filled > 0) {
+    logger.info('Filled missed Data Streams records', { marketId: market.marketId, filled, gapSince: new Date(gapSince).toISOString() })
+  }
+}
+
+async function subscribeToDataStream(market: TrackedMarket) {
+  // Only subscribe if market has a valid dataSourceId
+  if (!market.dataSourceId || market.dataSourceId === '0x0000000000000000000000000000000000000000000000000000000000000000') {
+    logger.debug('Skipping Data Streams subscription (no dataSourceId)', { marketId: market.marketId })
+    return
+  }
+
+  logger.info('Subscribing to Data Stream', { marketId: market.marketId, dataSourceId: market.dataSourceId })
+
+  // publishToDataStream emits MarketEvent with the market id as its topic
+  await streamManager.subscribe(market.marketId, {
+    params: {
+      eventId: 'MarketEvent',
+      argumentTopics: [market.marketId],
+      onData: async (event) => {
+        // Our own publishes repeat on-chain observations that are already recorded
+        const publisher = event.publisher?.toLowerCase() as `0x${string}` | undefined
+        if (publisher === account.address.toLowerCase()) return
+
+        try {
+          // SDK events carry no data, so the market's records are read back instead
+          if (event.dataStreams.length === 0) {
+            await syncStreamData(market, null)
+            return
+          }
+
+          if (publisher) streamPublishers.add(publisher)
+          for (const stream of event.dataStreams) {
+            if (stream.schemaId.toLowerCase() !== market.dataSourceId.toLowerCase()) continue
+            await handleStreamRecord(market, stream.data)
+          }
+        } catch (error) {
+          logger.error('Failed to handle Data Stream update', { marketId: market.marketId, error })
+        }
+      },
+    },
+    onSubscribed: (gapSince) => syncStreamData(market, gapSince),
+  })
+}
+
+// ===== DATA STREAMS EVENT PUBLISHING =====
+
+// Fields of one market record per schema (see @predex/shared/dataStreams); marketId is added on publish
+type StreamPayload =
+  | { marketType: MarketType.BLOCK; blockNumber: bigint; txCount: bigint; timestamp: bigint }
+  | { marketType: MarketType.TRANSFER; from: `0x${string}`; to: `0x${string}`; value: bigint; token: `0x${string}`; timestamp: bigint }
+  | { marketType: MarketType.GAME; player: `0x${string}`; sessionId: `0x${string}`; timeTaken: bigint; totalDamage: bigint; timestamp: bigint }
+
+/**
+ * Encode a payload with the schema of its market type
+ */
+function encodeStreamPayload(marketId: `0x${string}`, payload: StreamPayload): `0x${string}` {
+  const encoder = new SchemaEncoder(getSchemaForMarketType(payload.marketType))
+
+  switch (payload.marketType) {
+    case MarketType.BLOCK:
+      return encoder.encodeData([
+        { name: 'blockNumber', value: payload.blockNumber, type: 'uint256' },
+        { name: 'txCount', value: payload.txCount, type: 'uint256' },
+        { name: 'timestamp', value: payload.timestamp, type: 'uint256' },
+        { name: 'marketId', value: marketId, type: 'bytes32' },
+      ]) as `0x${string}`
+    case MarketType.TRANSFER:
+      return encoder.encodeData([
+        { name: 'from', value: payload.from, type: 'address' },
+        { name: 'to', value: payload.to, type: 'address' },
+        { name: 'value', value: payload.value, type: 'uint256' },
+        { name: 'token', value: payload.token, type: 'address' },
+        { name: 'timestamp', value: payload.timestamp, type: 'uint256' },
+        { name: 'marketId', value: marketId, type: 'bytes32' },
+      ]) as `0x${string}`
+    case MarketType.GAME:
+      return encoder.encodeData([
+        { name: 'player', value: payload.player, type: 'address' },
+        { name: 'sessionId', value: payload.sessionId, type: 'bytes32' },
+        { name: 'timeTaken', value: payload.timeTaken, type: 'uint256' },
+        { name: 'totalDamage', value: payload.totalDamage, type: 'uint256' },
+        { name: 'timestamp', value: payload.timestamp, type: 'uint256' },
+        { name: 'marketId', value: marketId, type: 'bytes32' },
+      ]) as `0x${string}`
+  }
+}
+
+/**
+ * Publish event data to Somnia Data Streams using setAndEmitEvents
+ */
+async function publishToDataStream(market: TrackedMarket, payload: StreamPayload) {
+  // Standbys leave publishing to the leader so every event is published once
+  if (!elector.isLeader()) return
+
+  // Skip if no valid dataSourceId
+  if (!market.dataSourceId || market.dataSourceId === ZERO_BYTES32) {
+    return
+  }
+
+  // An empty block carries nothing to publish
+  if (payload.marketType === MarketType.BLOCK && payload.txCount === 0n) {
+    logger.debug('Skipping Data Streams publish (empty block)', { marketId: market.marketId })
+    return
+  }
+
+  try {
+    const encodedData = encodeStreamPayload(market.marketId, payload)
+
+    // Generate a unique data ID
+    const dataId = keccak256(
+      new TextEncoder().encode(`${market.marketId}-${Date.now()}`)
+    )
+
+    logger.debug('Publishing to Data Stream', { marketId: market.marketId, dataSourceId: market.dataSourceId })
+
+    // Publish data and emit event atomically
+    const txHash = await streamManager.client().setAndEmitEvents(
+      [{ id: dataId, schemaId: market.dataSourceId, data: encodedData }],
+      [{ id: 'MarketEvent', argumentTopics: [market.marketId], data: '0x' }]
+    )
+
+    logger.info('Data Stream event published', { marketId: market.marketId, txHash })
+    dataStreamPublishes.inc({ result: 'success' })
+  } catch (error) {
+    logger.error('Failed to publish to Data Stream', { marketId: market.marketId, error })
+    dataStreamPublishes.inc({ result: 'failure' })
+  }
+}
+
+// At most one publish in flight and one waiting per market; newer observations replace the waiting one
+const publishQueue = createPublishQueue<{ market: TrackedMarket; payload: StreamPayload }>({
+  publish: (_marketId, { market, payload }) => publishToDataStream(market, payload),
+  onCoalesced: () => dataStreamPublishes.inc({ result: 'coalesced' }),
+})
+
+function queuePublish(market: TrackedMarket, payload: StreamPayload) {
+  publishQueue.push(market.marketId, { market, payload })
+}
+
+// ===== EVENT HANDLERS =====
+
+const marketCreatedEvent = parseAbiItem(
+  'event MarketCreated(bytes32 indexed marketId, uint8 marketType, string question, address indexed creator, bytes32 dataSourceId, uint256 threshold, address thresholdToken, uint8 comparator, uint8 metric, uint8 aggregation)'
+)
+
+const transferEvent = parseAbiItem('event Transfer(address indexed from, address indexed to, uint256 value)')
+
+const bossDefeatedEvent = parseAbiItem('event BossDefeated(bytes32 indexed sessionId, address indexed player, uint256 timeTaken, uint256 totalDamage)')
+
+// Mined logs with their args decoded, as both the backfill and the live watchers deliver them
+type DecodedLog<TEvent extends AbiEvent> = Log<bigint, number, false, TEvent, true>
+type MarketCreatedLog = DecodedLog<typeof marketCreatedEvent>
+type TransferLog = DecodedLog<typeof transferEvent>
+type BossDefeatedLog = DecodedLog<typeof bossDefeatedEvent>
+type WatchedLog = MarketCreatedLog | TransferLog | BossDefeatedLog
+
+// Block timestamps by block number, so each log is judged by when it was mined
+const blockTimestamps = new Map<bigint, bigint>()
+
+async function getLogTimestamp(log: { blockNumber: bigint | null }): Promise<bigint> {
+  if (log.blockNumber === null) {
+    return BigInt(Math.floor(Date.now() / 1000))
+  }
+
+  const cached = blockTimestamps.get(log.blockNumber)
+  if (cached !== undefined) return cached
+
+  const block = await publicClient.getBlock({ blockNumber: log.blockNumber })
+  if (blockTimestamps.size >= 1000) blockTimestamps.clear()
+  blockTimestamps.set(log.blockNumber, block.timestamp)
+  return block.timestamp
+}
+
+function getEventRef(log: { blockNumber: bigint | null; transactionHash: `0x${string}` | null; logIndex: number | null }): EventRef | undefined {
+  if (log.blockNumber === null) return undefined
+  return {
+    blockNumber: log.blockNumber,
+    txHash: log.transactionHash ?? undefined,
+    logIndex: log.logIndex ?? undefined,
+  }
+}
+
+async function handleMarketCreatedLogs(logs: MarketCreatedLog[]) {
+  for (const log of logs) {
+    const { args } = log
+
+    eventsObserved.inc({ event: 'MarketCreated' })
+    logger.info('New market created', {
+      marketId: args.marketId,
+      marketType: args.marketType,
+      question: args.question,
+      criteria: describeCriteria(args),
+      creator: args.creator,
+      txHash: log.transactionHash,
+    })
+
+    // Get full market details from contract
+    try {
+      const {
+        marketType,
+        question,
+        creator,
+        createdAt,
+        resolutionTime,
+        status,
+        threshold,
+        dataSourceId,
+        thresholdToken,
+        comparator,
+        metric,
+        aggregation,
+      } = await readMarket(args.marketId)
+
+      // A backfilled market may already have been settled
+      if (status !== MarketStatus.ACTIVE) {
+        logger.info('Created market is no longer active', { marketId: args.marketId, status })
+        continue
+      }
+
+      await trackMarket({
+        marketId: args.marketId,
+        marketType,
+        question,
+        threshold,
+        thresholdToken,
+        createdAt,
+        resolutionTime,
+        creator,
+        dataSourceId,
+        comparator,
+        metric,
+        aggregation,
+      })
+
+      logger.info('Now tracking market', { marketId: args.marketId })
+
+      // Subscribe to Data Streams for this new market
+      const trackedMarket = activeMarkets.get(args.marketId)
+      if (trackedMarket) {
+        await subscribeToDataStream(trackedMarket)
+      }
+    } catch (error) {
+      if (error instanceof MarketSchemaError) throw error
+      logger.error('Failed to fetch market details', { marketId: args.marketId, error })
+    }
+  }
+}
+
+async function handleTransferLogs(logs: TransferLog[]) {
+  for (const log of logs) {
+    const { from, to, value } = log.args
+    const timestamp = await getLogTimestamp(log)
+    const ref = getEventRef(log)
+
+    eventsObserved.inc({ event: 'Transfer' })
+    logger.debug('Transfer observed', { from, to, value, txHash: log.transactionHash })
 
-    const { request } = await publicClient.simulateContract({
-      address: MARKET_CONTRACT,
-      abi: PredictionMarketABI.abi,
-      functionName: 'resolveMarket',
-      args: [marketId, winningOption],
-      account
-    })
+    // Check all TRANSFER markets
+    for (const [marketId, market] of activeMarkets.entries()) {
+      if (market.marketType !== 1) continue
+
+      await recordObservation(market, 'transfer', { value }, timestamp, ref)
+
+      // Publish to Data Streams regardless of resolution status (never in shadow mode)
+      // Not awaited: publishes wait behind resolutions and must not hold up log handling
+      if (!SHADOW_MODE) {
+        queuePublish(market, {
+          marketType: MarketType.TRANSFER,
+          from,
+          to,
+          value,
+          token: SOMI_TOKEN,
+          timestamp,
+        })
+      }
 
-    const hash = await walletClient.writeContract(request)
-    console.log(`📝 Resolution tx: ${hash}`)
+      // Window markets are decided from all observations at resolution time
+      if (isWindowAggregation(market.aggregation)) continue
 
-    // Wait for confirmation
-    const receipt = await publicClient.waitForTransactionReceipt({ hash })
-    console.log(`✅ Market resolved! Block: ${receipt.blockNumber}`)
+      // Only resolve on transfers mined at or after the resolution time
+      if (!isReadyForResolution(market, timestamp)) continue
 
-    // Remove from active markets
-    activeMarkets.delete(marketId)
+      const winningOption = evaluateCriteria(market, { value })
+      if (winningOption === null) continue
+
+      // Threshold is stored as plain SOMI, transfer values are in wei
+      logger.info('Transfer decides market', {
+        marketId,
+        value,
+        thresholdWei: scaleThreshold(market.metric, market.threshold),
+        criteria: describeCriteria(market),
+        winningOption,
+        txHash: log.transactionHash,
+      })
 
-  } catch (error: any) {
-    console.error(`❌ Failed to resolve market ${marketId}:`, error.message || error)
+      await decideMarket(market, 'transfer', winningOption)
+    }
   }
 }
 
-// ===== MARKET TRACKING =====
+async function handleBossDefeatedLogs(logs: BossDefeatedLog[]) {
+  for (const log of logs) {
+    const { sessionId, player, timeTaken, totalDamage } = log.args
+    const timestamp = await getLogTimestamp(log)
+    const ref = getEventRef(log)
 
-async function loadActiveMarketsFromContract() {
-  console.log('📊 Loading active markets from contract...')
+    eventsObserved.inc({ event: 'BossDefeated' })
+    logger.info('Boss defeated', { sessionId, player, timeTaken, totalDamage, txHash: log.transactionHash })
 
-  try {
-    // Get all market IDs
-    const marketIds = await publicClient.readContract({
-      address: MARKET_CONTRACT,
-      abi: PredictionMarketABI.abi,
-      functionName: 'getActiveMarkets',
-    }) as `0x${string}`[]
+    // Check all GAME markets
+    for (const [marketId, market] of activeMarkets.entries()) {
+      if (market.marketType !== 2) continue
+
+      await recordObservation(market, 'game', { timeTaken, totalDamage }, timestamp, ref)
+
+      // Publish to Data Streams regardless of resolution status (never in shadow mode)
+      // Not awaited: publishes wait behind resolutions and must not hold up log handling
+      if (!SHADOW_MODE) {
+        queuePublish(market, {
+          marketType: MarketType.GAME,
+          player,
+          sessionId,
+          timeTaken,
+          totalDamage,
+          timestamp,
+        })
+      }
 
-    console.log(`   Found ${marketIds.length} markets on contract`)
+      // Window markets are decided from all observations at resolution time
+      if (isWindowAggregation(market.aggregation)) continue
 
-    // Load each market's details
-    for (const marketId of marketIds) {
-      try {
-        const marketData = await publicClient.readContract({
-          address: MARKET_CONTRACT,
-          abi: PredictionMarketABI.abi,
-          functionName: 'markets',
-          args: [marketId],
-        }) as any
-
-        // Destructure the array returned from Solidity
-        // NOTE: Viem may return struct fields in a different order - using explicit indices
-        const marketType = marketData[1]
-        const question = marketData[2]
-        const creator = marketData[3]
-        const resolutionTime = marketData[5]
-        const status = marketData[6]
-        // Swapping these two - viem seems to return them in reverse order
-        const threshold = marketData[10]  // This is actually showing as dataSourceId value
-        const dataSourceId = marketData[11]  // This is actually showing as threshold value
-        const thresholdToken = marketData[12]
-
-        // Only track ACTIVE markets (status = 0)
-        if (status === 0) {
-          activeMarkets.set(marketId, {
-            marketId,
-            marketType,
-            question,
-            threshold,
-            thresholdToken,
-            resolutionTime,
-            creator,
-            dataSourceId,
-          })
+      // Only resolve on fights finished at or after the resolution time
+      if (!isReadyForResolution(market, timestamp)) continue
 
-          console.log(`   ✓ Tracking market: ${question}`)
-          console.log(`     Type: ${marketType} | Threshold: ${threshold ? threshold.toString() : 'undefined'} | DataStream: ${dataSourceId}`)
+      const winningOption = evaluateCriteria(market, { timeTaken, totalDamage })
+      if (winningOption === null) continue
 
-          // Subscribe to Data Streams for this market
-          const trackedMarket = activeMarkets.get(marketId)
-          if (trackedMarket) {
-            await subscribeToDataStream(trackedMarket)
-          }
-        }
-      } catch (error) {
-        console.error(`   ✗ Failed to load market ${marketId}:`, error)
-      }
-    }
+      logger.info('Boss fight decides market', {
+        marketId,
+        timeTaken,
+        totalDamage,
+        criteria: describeCriteria(market),
+        winningOption,
+        txHash: log.transactionHash,
+      })
 
-    console.log(`\n✅ Loaded ${activeMarkets.size} active markets\n`)
-  } catch (error) {
-    console.error('❌ Failed to load markets from contract:', error)
+      await decideMarket(market, 'game', winningOption)
+    }
   }
 }
 
-// ===== SOMNIA DATA STREAMS SUBSCRIPTIONS =====
-
-async function subscribeToDataStream(market: TrackedMarket) {
-  // Only subscribe if market has a valid dataSourceId
-  if (!market.dataSourceId || market.dataSourceId === '0x0000000000000000000000000000000000000000000000000000000000000000') {
-    console.log(`   ⏭️  Skipping Data Streams subscription (no dataSourceId)`)
-    return
+/**
+ * Advance a stream's checkpoint to a block whose live logs are all handled
+ */
+async function advanceCheckpoint(key: string, blockNumber: bigint) {
+  const current = await store.getCheckpoint(key)
+  if (current === null || blockNumber > current) {
+    await store.setCheckpoint(key, blockNumber)
   }
+}
 
-  // DISABLED: WebSocket subscriptions are failing with network errors
-  // The resolver works fine without them using HTTP polling instead
-  console.log(`   ⏭️  Data Streams WebSocket subscription disabled (using HTTP polling instead)`)
-  return
-
-  try {
-    console.log(`📡 Subscribing to Data Stream: ${market.dataSourceId}`)
-
-    // Subscribe to the data stream for real-time updates
-    await dataStreamsSDK.streams.subscribe({
-      somniaStreamsEventId: market.dataSourceId,
-      ethCalls: [], // No additional eth calls needed
-      onlyPushChanges: false, // Push all events, not just changes
-      onData: async (event: any) => {
-        console.log(`\n📊 Data Stream update for market: ${market.question}`)
-        console.log(`   Event data:`, event)
-
-        // Check if market is ready for resolution
-        if (!isReadyForResolution(market)) {
-          console.log(`   ⏰ Market not yet ready for resolution`)
-          return
-        }
+// ===== CONFIRMATIONS =====
 
-        // Determine winning option based on market type and event data
-        let winningOption: number | null = null
+// Live logs wait here until they are CONFIRMATION_DEPTH blocks deep
+const confirmationBuffer = createConfirmationBuffer<WatchedLog>(CONFIRMATION_DEPTH)
 
-        // For TRANSFER markets: check if transfer amount meets threshold
-        if (market.marketType === 1 && event.value) {
-          const transferAmount = BigInt(event.value)
-          const question = market.question.toLowerCase()
+function handleWatchedLog(log: WatchedLog): Promise<void> {
+  switch (log.eventName) {
+    case 'MarketCreated':
+      return handleMarketCreatedLogs([log])
+    case 'Transfer':
+      return handleTransferLogs([log])
+    case 'BossDefeated':
+      return handleBossDefeatedLogs([log])
+  }
+}
 
-          if (question.includes('more than') || question.includes('over') || question.includes('>')) {
-            winningOption = transferAmount > market.threshold ? 0 : 1
-          } else if (question.includes('less than') || question.includes('under') || question.includes('<')) {
-            winningOption = transferAmount < market.threshold ? 0 : 1
-          }
-        }
+// Releases run one at a time so logs are handled in chain order
+let releaseQueue: Promise<void> = Promise.resolve()
 
-        // For GAME markets: check if time/damage meets threshold
-        if (market.marketType === 2 && event.timeTaken) {
-          const timeTaken = BigInt(event.timeTaken)
-          const question = market.question.toLowerCase()
+function bufferLogs(stream: string, logs: WatchedLog[]) {
+  for (const log of logs) {
+    if (!confirmationBuffer.add(stream, log)) {
+      logger.warn('Log removed by reorg, discarded', { stream, blockNumber: log.blockNumber, txHash: log.transactionHash })
+    }
+  }
+}
 
-          if (question.includes('less than') || question.includes('under') || question.includes('<')) {
-            winningOption = timeTaken < market.threshold ? 0 : 1
-          } else if (question.includes('more than') || question.includes('over') || question.includes('>')) {
-            winningOption = timeTaken > market.threshold ? 0 : 1
-          }
-        }
+function releaseConfirmedLogs(head: bigint) {
+  releaseQueue = releaseQueue
+    .then(async () => {
+      const { confirmed, dropped } = await confirmationBuffer.release(head, async (blockNumber) => {
+        const block = await publicClient.getBlock({ blockNumber })
+        return block.hash!
+      })
 
-        if (winningOption !== null) {
-          console.log(`   → Result: ${winningOption === 0 ? 'YES' : 'NO'} wins`)
-          await callResolveMarket(market.marketId, winningOption)
-        }
-      },
-      onError: (error: any) => {
-        console.error(`❌ Data Stream subscription error for ${market.marketId}:`, error)
+      for (const entry of dropped) {
+        logger.warn('Log no longer canonical, discarded', {
+          stream: entry.stream,
+          blockNumber: entry.log.blockNumber,
+          txHash: entry.log.transactionHash,
+        })
       }
+
+      // The checkpoint only moves past a block once all of its logs are handled
+      await handleConfirmedBlocks(
+        confirmed,
+        (entry) => handleWatchedLog(entry.log),
+        advanceCheckpoint
+      )
     })
+    .catch((error) => {
+      logger.error('Failed to release confirmed logs', { error })
+    })
+}
 
-    console.log(`✅ Subscribed to Data Stream for market: ${market.question}`)
-  } catch (error) {
-    console.error(`❌ Failed to subscribe to Data Stream:`, error)
-  }
+function watchConfirmations() {
+  logger.info('Acting on logs after confirmations', { confirmationDepth: CONFIRMATION_DEPTH })
+
+  unwatchers.push(publicClient.watchBlockNumber({
+    onBlockNumber: (head) => releaseConfirmedLogs(head),
+  }))
 }
 
-// ===== DATA STREAMS EVENT PUBLISHING =====
+// ===== HISTORICAL BACKFILL =====
+
+interface BackfillStream<TEvent extends AbiEvent> {
+  key: string
+  address: `0x${string}`
+  event: TEvent
+  handler: (logs: DecodedLog<TEvent>[]) => Promise<void>
+}
 
 /**
- * Publish event data to Somnia Data Streams using setAndEmitEvents
+ * Replay one stream's logs from its checkpoint up to `head`
  */
-async function publishToDataStream(
-  market: TrackedMarket,
-  eventData: { [key: string]: any }
-) {
-  // Skip if no valid dataSourceId
-  if (!market.dataSourceId || market.dataSourceId === '0x0000000000000000000000000000000000000000000000000000000000000000') {
+async function backfillStream<TEvent extends AbiEvent>(stream: BackfillStream<TEvent>, head: bigint, latest: bigint) {
+  if (!stream.address) return
+
+  const stored = await store.getCheckpoint(stream.key)
+  const checkpoint = resumableCheckpoint(stored, latest)
+  if (stored !== null && checkpoint === null) {
+    logger.warn('Checkpoint is past the chain head, backfilling from the start block', { stream: stream.key, checkpoint: stored, latest })
+  }
+  const fromBlock = checkpoint !== null ? checkpoint + 1n : START_BLOCK ?? head + 1n
+
+  if (fromBlock > head) {
+    await store.setCheckpoint(stream.key, head)
+    logger.info('Backfill up to date', { stream: stream.key })
     return
   }
 
   try {
-    const schema = getSchemaForMarketType(market.marketType as MarketType)
-    const encoder = new SchemaEncoder(schema)
-
-    // Encode data based on market type
-    let encodedData: any
-
-    if (market.marketType === MarketType.BLOCK && eventData.blockNumber && eventData.txCount) {
-      encodedData = encoder.encodeData([
-        { name: 'blockNumber', value: eventData.blockNumber, type: 'uint256' },
-        { name: 'txCount', value: eventData.txCount, type: 'uint256' },
-        { name: 'timestamp', value: eventData.timestamp || BigInt(Math.floor(Date.now() / 1000)), type: 'uint256' },
-        { name: 'marketId', value: market.marketId, type: 'bytes32' },
-      ])
-    } else if (market.marketType === MarketType.TRANSFER && eventData.from && eventData.to && eventData.value) {
-      encodedData = encoder.encodeData([
-        { name: 'from', value: eventData.from, type: 'address' },
-        { name: 'to', value: eventData.to, type: 'address' },
-        { name: 'value', value: eventData.value, type: 'uint256' },
-        { name: 'token', value: eventData.token || market.thresholdToken, type: 'address' },
-        { name: 'timestamp', value: eventData.timestamp || BigInt(Math.floor(Date.now() / 1000)), type: 'uint256' },
-        { name: 'marketId', value: market.marketId, type: 'bytes32' },
-      ])
-    } else if (market.marketType === MarketType.GAME && eventData.player && eventData.sessionId) {
-      encodedData = encoder.encodeData([
-        { name: 'player', value: eventData.player, type: 'address' },
-        { name: 'sessionId', value: eventData.sessionId, type: 'bytes32' },
-        { name: 'timeTaken', value: eventData.timeTaken, type: 'uint256' },
-        { name: 'totalDamage', value: eventData.totalDamage, type: 'uint256' },
-        { name: 'timestamp', value: eventData.timestamp || BigInt(Math.floor(Date.now() / 1000)), type: 'uint256' },
-        { name: 'marketId', value: market.marketId, type: 'bytes32' },
-      ])
-    } else {
-      console.log('⏭️  Skipping Data Streams publish (incomplete event data)')
-      return
-    }
+    const processed = await backfillLogs({
+      client: publicClient,
+      address: stream.address,
+      event: stream.event,
+      fromBlock,
+      toBlock: head,
+      chunkSize: BACKFILL_CHUNK_SIZE,
+      onLogs: (logs) => stream.handler(logs),
+      onPageDone: (pageEnd) => store.setCheckpoint(stream.key, pageEnd),
+    })
 
-    // Generate a unique data ID
-    const dataId = keccak256(
-      new TextEncoder().encode(`${market.marketId}-${Date.now()}`)
-    )
+    logger.info('Backfill complete', { stream: stream.key, logs: processed, fromBlock, toBlock: head })
+  } catch (error) {
+    // The checkpoint stays at the last completed page, so the next start resumes from there
+    logger.error('Backfill failed', { stream: stream.key, error })
+  }
+}
+
+/**
+ * Replay logs emitted while the resolver was offline
+ * Each stream resumes from its stored checkpoint. Without a checkpoint it starts
+ * at RESOLVER_START_BLOCK, or at the current head if that is not set.
+ * Only confirmed blocks are backfilled; newer ones go through the live buffer.
+ * Returns the block live watchers should start from.
+ */
+async function backfillHistoricalLogs(): Promise<bigint> {
+  const latest = await publicClient.getBlockNumber()
+  const head = latest > CONFIRMATION_DEPTH ? latest - CONFIRMATION_DEPTH : 0n
 
-    console.log(`📤 Publishing to Data Stream: ${market.dataSourceId}`)
+  logger.info('Backfilling logs', { toBlock: head, chunkSize: BACKFILL_CHUNK_SIZE })
 
-    // Publish data and emit event atomically
-    const txHash = await dataStreamsSDK.streams.setAndEmitEvents(
-      [{ id: dataId, schemaId: market.dataSourceId, data: encodedData }],
-      [{ id: 'MarketEvent', argumentTopics: [market.marketId], data: '0x' }]
-    )
+  await backfillStream({ key: MARKET_CREATED_STREAM, address: MARKET_CONTRACT, event: marketCreatedEvent, handler: handleMarketCreatedLogs }, head, latest)
+  await backfillStream({ key: TRANSFER_STREAM, address: SOMI_TOKEN, event: transferEvent, handler: handleTransferLogs }, head, latest)
+  await backfillStream({ key: BOSS_DEFEATED_STREAM, address: GAME_CONTRACT, event: bossDefeatedEvent, handler: handleBossDefeatedLogs }, head, latest)
 
-    console.log(`✅ Data Stream event published! Tx: ${txHash}`)
-  } catch (error) {
-    console.error(`❌ Failed to publish to Data Stream:`, error)
-  }
+  return head + 1n
 }
 
 // ===== EVENT SUBSCRIPTIONS =====
 
-async function subscribeToMarketCreation() {
-  console.log('📡 Setting up MarketCreated event listener...')
-
-  const marketCreatedEvent = parseAbiItem(
-    'event MarketCreated(bytes32 indexed marketId, uint8 marketType, string question, address indexed creator, bytes32 dataSourceId, uint256 threshold, address thresholdToken)'
-  )
+async function subscribeToMarketCreation(fromBlock: bigint) {
 
-  const unwatch = publicClient.watchContractEvent({
+  unwatchers.push(publicClient.watchContractEvent({
     address: MARKET_CONTRACT as `0x${string}`,
     abi: [marketCreatedEvent],
     eventName: 'MarketCreated',
-    onLogs: async (logs) => {
-      for (const log of logs) {
-        const args = (log as any).args as any
-
-        console.log(`\n📝 New market created!`)
-        console.log(`   Market ID: ${args.marketId}`)
-        console.log(`   Type: ${args.marketType}`)
-        console.log(`   Question: ${args.question}`)
-        console.log(`   Threshold: ${args.threshold?.toString()}`)
-        console.log(`   Creator: ${args.creator}`)
-
-        // Get full market details from contract
-        try {
-          const marketData = await publicClient.readContract({
-            address: MARKET_CONTRACT,
-            abi: PredictionMarketABI.abi,
-            functionName: 'markets',
-            args: [args.marketId],
-          }) as any
-
-          // NOTE: Viem may return struct fields in a different order - using explicit indices
-          const marketType = marketData[1]
-          const question = marketData[2]
-          const creator = marketData[3]
-          const resolutionTime = marketData[5]
-          // Swapping these two - viem seems to return them in reverse order
-          const threshold = marketData[10]
-          const dataSourceId = marketData[11]
-          const thresholdToken = marketData[12]
-
-          activeMarkets.set(args.marketId, {
-            marketId: args.marketId,
-            marketType,
-            question,
-            threshold,
-            thresholdToken,
-            resolutionTime,
-            creator,
-            dataSourceId,
-          })
-
-          console.log(`   ✅ Now tracking this market`)
-
-          // Subscribe to Data Streams for this new market
-          const trackedMarket = activeMarkets.get(args.marketId)
-          if (trackedMarket) {
-            await subscribeToDataStream(trackedMarket)
-          }
-        } catch (error) {
-          console.error(`   ❌ Failed to fetch market details`)
-        }
-      }
-    }
-  })
+    strict: true,
+    fromBlock,
+    onLogs: (logs) => bufferLogs(MARKET_CREATED_STREAM, logs)
+  }))
 
-  console.log('✅ MarketCreated event listener active\n')
+  logger.info('Event listener active', { event: 'MarketCreated', fromBlock })
 }
 
-async function subscribeToTransfers() {
-  console.log('💰 Setting up SOMI transfer event listener...')
+async function subscribeToTransfers(fromBlock: bigint) {
 
-  const transferEvent = parseAbiItem('event Transfer(address indexed from, address indexed to, uint256 value)')
-
-  const unwatch = publicClient.watchContractEvent({
+  unwatchers.push(publicClient.watchContractEvent({
     address: SOMI_TOKEN as `0x${string}`,
     abi: [transferEvent],
     eventName: 'Transfer',
-    onLogs: async (logs) => {
-      for (const log of logs) {
-        const { from, to, value } = (log as any).args as { from: string; to: string; value: bigint }
-
-        console.log(`\n💸 Transfer detected: ${value.toString()} SOMI from ${from} to ${to}`)
-
-        // Check all TRANSFER markets
-        for (const [marketId, market] of activeMarkets.entries()) {
-          if (market.marketType !== 1) continue
-
-          // Publish to Data Streams regardless of resolution status
-          await publishToDataStream(market, {
-            from,
-            to,
-            value,
-            token: SOMI_TOKEN,
-            timestamp: BigInt(Math.floor(Date.now() / 1000)),
-          })
+    strict: true,
+    fromBlock,
+    onLogs: (logs) => bufferLogs(TRANSFER_STREAM, logs)
+  }))
+
+  logger.info('Event listener active', { event: 'Transfer', fromBlock })
+}
 
-          // Only resolve if ready
-          if (!isReadyForResolution(market)) continue
+async function subscribeToGameEvents(fromBlock: bigint) {
 
-          console.log(`\n🔍 Checking TRANSFER market: ${market.question}`)
-          console.log(`   Transfer amount (wei): ${value.toString()}`)
-          console.log(`   Transfer amount (SOMI): ${(Number(value) / 1e18).toFixed(2)}`)
-          console.log(`   Threshold: ${market.threshold ? market.threshold.toString() : 'undefined'}`)
+  unwatchers.push(publicClient.watchContractEvent({
+    address: GAME_CONTRACT as `0x${string}`,
+    abi: [bossDefeatedEvent],
+    eventName: 'BossDefeated',
+    strict: true,
+    fromBlock,
+    onLogs: (logs) => bufferLogs(BOSS_DEFEATED_STREAM, logs)
+  }))
 
-          // Convert threshold to wei for comparison (threshold is stored as plain number)
-          const thresholdInWei = BigInt(market.threshold) * BigInt(10 ** 18)
-          console.log(`   Threshold (wei): ${thresholdInWei.toString()}`)
+  logger.info('Event listener active', { event: 'BossDefeated', fromBlock })
+}
 
-          const question = market.question.toLowerCase()
-          let winningOption: number
+// ===== BLOCK-BASED RESOLUTION (Simple Polling) =====
 
-          if (question.includes('more than') || question.includes('over') || question.includes('>')) {
-            winningOption = value > thresholdInWei ? 0 : 1
-          } else if (question.includes('less than') || question.includes('under') || question.includes('<')) {
-            winningOption = value < thresholdInWei ? 0 : 1
-          } else {
-            winningOption = value > thresholdInWei ? 0 : 1
-          }
+async function checkBlockMarkets() {
+  try {
+    // Judge BLOCK markets on the newest confirmed block, not the unconfirmed head
+    const head = await publicClient.getBlockNumber()
+    const latestBlock = await publicClient.getBlock({
+      blockNumber: head > CONFIRMATION_DEPTH ? head - CONFIRMATION_DEPTH : 0n,
+    })
+    const blockNumber = latestBlock.number
+    const txCount = latestBlock.transactions.length
+    eventsObserved.inc({ event: 'Block' })
 
-          console.log(`   → Result: ${winningOption === 0 ? 'YES' : 'NO'} wins`)
+    for (const [marketId, market] of activeMarkets.entries()) {
+      if (market.marketType !== 0) continue
 
-          await callResolveMarket(marketId as `0x${string}`, winningOption)
-        }
+      await recordObservation(market, 'block', { txCount: BigInt(txCount) }, latestBlock.timestamp, { blockNumber })
+
+      // Publish to Data Streams regardless of resolution status (never in shadow mode)
+      // Not awaited: publishes wait behind resolutions and must not hold up log handling
+      if (!SHADOW_MODE) {
+        queuePublish(market, {
+          marketType: MarketType.BLOCK,
+          blockNumber,
+          txCount: BigInt(txCount),
+          timestamp: latestBlock.timestamp,
+        })
       }
-    }
-  })
 
-  console.log('✅ Transfer event listener active\n')
-}
+      // Only resolve on the first confirmed block at or after the resolution time
+      if (!isReadyForResolution(market, latestBlock.timestamp) || !elector.isLeader()) continue
 
-async function subscribeToGameEvents() {
-  console.log('🎮 Setting up BossDefeated event listener...')
+      const winningOption = evaluateCriteria(market, { txCount: BigInt(txCount) })
+      if (winningOption === null) continue
 
-  const bossDefeatedEvent = parseAbiItem('event BossDefeated(bytes32 indexed sessionId, address indexed player, uint256 timeTaken, uint256 totalDamage)')
+      logger.info('Block decides market', { marketId, blockNumber, txCount, criteria: describeCriteria(market), winningOption })
 
-  const unwatch = publicClient.watchContractEvent({
-    address: GAME_CONTRACT as `0x${string}`,
-    abi: [bossDefeatedEvent],
-    eventName: 'BossDefeated',
-    onLogs: async (logs) => {
-      for (const log of logs) {
-        const { sessionId, player, timeTaken, totalDamage } = (log as any).args as {
-          sessionId: string
-          player: string
-          timeTaken: bigint
-          totalDamage: bigint
-        }
+      await decideMarket(market, 'block', winningOption)
+    }
+  } catch (error) {
+    logger.error('Error checking block markets', { error })
+  }
+}
 
-        console.log(`\n🎉 Boss defeated!`)
-        console.log(`   Session: ${sessionId}`)
-        console.log(`   Player: ${player}`)
-        console.log(`   Time: ${timeTaken.toString()} seconds`)
-        console.log(`   Damage: ${totalDamage.toString()}`)
-
-        // Check all GAME markets
-        for (const [marketId, market] of activeMarkets.entries()) {
-          if (market.marketType !== 2) continue
-
-          // Publish to Data Streams regardless of resolution status
-          await publishToDataStream(market, {
-            player,
-            sessionId,
-            timeTaken,
-            totalDamage,
-            timestamp: BigInt(Math.floor(Date.now() / 1000)),
-          })
+// ===== WINDOW-BASED RESOLUTION =====
+
+/**
+ * Resolve markets that aggregate every event in [createdAt, resolutionTime)
+ * A market is only decided once the newest confirmed block is past its
+ * resolutionTime and the logs released so far have been handled, so no
+ * event inside the window can still arrive.
+ */
+async function checkWindowMarkets() {
+  try {
+    const head = await publicClient.getBlockNumber()
+    const confirmedBlock = await publicClient.getBlock({
+      blockNumber: head > CONFIRMATION_DEPTH ? head - CONFIRMATION_DEPTH : 0n,
+    })
 
-          // Only resolve if ready
-          if (!isReadyForResolution(market)) continue
+    // Let any in-flight release of confirmed logs finish first
+    await releaseQueue
+    if (!elector.isLeader()) return
 
-          console.log(`\n🔍 Checking GAME market: ${market.question}`)
-          console.log(`   Time taken: ${timeTaken.toString()}`)
-          console.log(`   Threshold: ${market.threshold ? market.threshold.toString() : 'undefined'}`)
+    for (const [marketId, market] of activeMarkets.entries()) {
+      if (!isWindowAggregation(market.aggregation)) continue
+      if (confirmedBlock.timestamp < market.resolutionTime) continue
+
+      const observations = await store.getObservations(market.marketId)
+
+      const winningOption = evaluateWindow(
+        market,
+        observations.map(o => ({ timestamp: o.observedAt, observation: o.observation }))
+      )
+      if (winningOption === null) {
+        logger.debug('No value observed in the market window', { marketId, observations: observations.length })
+        continue
+      }
 
-          const question = market.question.toLowerCase()
-          let winningOption: number
+      logger.info('Window decides market', {
+        marketId,
+        observations: observations.length,
+        criteria: describeCriteria(market),
+        winningOption,
+      })
 
-          if (question.includes('less than') || question.includes('under') || question.includes('<')) {
-            winningOption = timeTaken < market.threshold ? 0 : 1
-          } else if (question.includes('more than') || question.includes('over') || question.includes('>')) {
-            winningOption = timeTaken > market.threshold ? 0 : 1
-          } else {
-            // Default: assume "less than" for time-based questions
-            winningOption = timeTaken < market.threshold ? 0 : 1
-          }
+      await decideMarket(market, 'window', winningOption)
+    }
+  } catch (error) {
+    logger.error('Error checking window markets', { error })
+  }
+}
 
-          console.log(`   → Result: ${winningOption === 0 ? 'YES' : 'NO'} wins`)
+// ===== RECORDED OUTCOMES =====
 
-          await callResolveMarket(marketId as `0x${string}`, winningOption)
-        }
-      }
+/**
+ * Resolve event-decided markets whose deciding observation is already recorded
+ * TRANSFER, GAME and Data Streams markets are otherwise only decided as the
+ * event arrives, so this covers events handled while standing by for the lease
+ * and resolutions that failed.
+ */
+async function checkRecordedOutcomes(now: bigint) {
+  if (!elector.isLeader()) return
+
+  for (const [marketId, market] of activeMarkets.entries()) {
+    // BLOCK markets are decided on every check by checkBlockMarkets
+    if (market.marketType === 0 || isWindowAggregation(market.aggregation)) continue
+    if (!isReadyForResolution(market, now) || resolvingMarkets.has(marketId)) continue
+
+    try {
+      const observations = (await store.getObservations(market.marketId)).map(o => ({ ...o, timestamp: o.observedAt }))
+      const [deciding] = selectDecidingObservations(market, observations)
+      if (!deciding) continue
+
+      const winningOption = evaluateCriteria(market, deciding.observation)
+      if (winningOption === null) continue
+
+      logger.info('Recorded observation decides market', {
+        marketId,
+        source: deciding.source,
+        observation: deciding.observation,
+        criteria: describeCriteria(market),
+        winningOption,
+      })
+      await decideMarket(market, 'recorded', winningOption)
+    } catch (error) {
+      logger.error('Error checking recorded outcome', { marketId, error })
     }
-  })
+  }
+}
+
+// ===== TIMEOUT FALLBACK =====
 
-  console.log('✅ Game event listener active\n')
+/**
+ * Whether the recorded observations are enough to decide a market
+ * First-after-lock markets need an event at or after resolutionTime, window
+ * markets need a value their aggregation can compare.
+ */
+async function hasQualifyingData(market: TrackedMarket): Promise<boolean> {
+  const observations = (await store.getObservations(market.marketId))
+    .map(o => ({ timestamp: o.observedAt, observation: o.observation }))
+
+  if (isWindowAggregation(market.aggregation)) {
+    return evaluateWindow(market, observations) !== null
+  }
+  return observations.some(
+    o => o.timestamp >= market.resolutionTime && evaluateCriteria(market, o.observation) !== null
+  )
 }
 
-// ===== BLOCK-BASED RESOLUTION (Simple Polling) =====
+/**
+ * Apply the market type's fallback once its grace period has expired
+ * The decision is recorded before any transaction is sent.
+ */
+async function applyTimeoutFallback(market: TrackedMarket, policy: TimeoutPolicy) {
+  const deadline = getTimeoutDeadline(market, policy)
 
-async function checkBlockMarkets() {
-  try {
-    const latestBlock = await publicClient.getBlock()
-    const blockNumber = latestBlock.number
-    const txCount = latestBlock.transactions.length
+  // Chain state is the source of truth: the market may have been settled meanwhile
+  const status = await readMarketStatus(market.marketId)
+  if (status !== MarketStatus.ACTIVE) {
+    await untrackMarket(market.marketId, status === MarketStatus.CANCELLED ? 'cancelled' : 'resolved')
+    return
+  }
 
-    for (const [marketId, market] of activeMarkets.entries()) {
-      if (market.marketType !== 0) continue
+  const blocker = await getSettlementBlocker(market.marketId)
+  if (blocker) {
+    logger.debug('Not applying timeout fallback', { marketId: market.marketId, reason: blocker })
+    return
+  }
 
-      // Publish to Data Streams regardless of resolution status
-      await publishToDataStream(market, {
-        blockNumber,
-        txCount: BigInt(txCount),
-        timestamp: latestBlock.timestamp,
-      })
+  logger.warn('Grace period expired', {
+    marketId: market.marketId,
+    deadline: new Date(Number(deadline) * 1000).toISOString(),
+    fallback: policy.action,
+  })
 
-      // Only resolve if ready
-      if (!isReadyForResolution(market)) continue
-
-      console.log(`\n🔍 Checking BLOCK market: ${market.question}`)
-      console.log(`   Block ${blockNumber} has ${txCount} transactions`)
-      console.log(`   Threshold: ${market.threshold ? market.threshold.toString() : 'undefined'} transactions`)
-
-      // Parse question to determine if it's "more than" or "less than"
-      const question = market.question.toLowerCase()
-      let winningOption: number
-
-      if (question.includes('more than') || question.includes('over') || question.includes('>')) {
-        // YES if txCount > threshold
-        winningOption = BigInt(txCount) > market.threshold ? 0 : 1
-      } else if (question.includes('less than') || question.includes('under') || question.includes('<')) {
-        // YES if txCount < threshold
-        winningOption = BigInt(txCount) < market.threshold ? 0 : 1
-      } else {
-        // Default: assume "more than"
-        winningOption = BigInt(txCount) > market.threshold ? 0 : 1
-      }
+  const winningOption = getFallbackOption(policy.action)
+  if (SHADOW_MODE) {
+    await recordShadowDecision(market, 'timeout', winningOption)
+    return
+  }
+
+  const decisionId = await store.recordDecision(market.marketId, {
+    marketType: market.marketType,
+    action: policy.action,
+    deadline,
+  })
+
+  if (winningOption === null) {
+    await callCancelMarket(market.marketId, decisionId)
+    return
+  }
 
-      console.log(`   → Result: ${winningOption === 0 ? 'YES' : 'NO'} wins`)
+  logger.info('Resolving with default result', { marketId: market.marketId, winningOption })
+  const resolved = await callResolveMarket(market.marketId, winningOption, policy.action)
+  const attempt = await store.getLatestAttempt(market.marketId)
+  await store.updateDecision(decisionId, resolved
+    ? { status: 'confirmed', txHash: attempt?.txHash ?? undefined }
+    : { status: 'failed', error: attempt?.error ?? 'Resolution not submitted' })
+}
+
+/**
+ * Hold cancelling timeout policies to the contract's cancelGracePeriod
+ */
+async function syncCancelGracePeriod() {
+  const minimum = await publicClient.readContract({
+    address: MARKET_CONTRACT,
+    abi: PredictionMarketABI.abi,
+    functionName: 'cancelGracePeriod',
+  }) as bigint
+
+  for (const marketType of applyCancelGracePeriod(TIMEOUT_POLICIES, minimum)) {
+    logger.warn('Timeout grace period raised to the contract cancelGracePeriod', { marketType, gracePeriod: Number(minimum) })
+  }
+}
 
-      await callResolveMarket(marketId as `0x${string}`, winningOption)
+/**
+ * Fall back for markets whose grace period expired with no qualifying data
+ * `now` is the latest block timestamp, the clock the contract enforces deadlines with
+ */
+async function checkTimedOutMarkets(now: number) {
+  if (!elector.isLeader()) return
+
+  for (const market of Array.from(activeMarkets.values())) {
+    const policy = TIMEOUT_POLICIES[market.marketType]
+    if (!policy || BigInt(now) < getTimeoutDeadline(market, policy)) continue
+    if (resolvingMarkets.has(market.marketId)) continue
+    if (now - (lastTimeoutAttempt.get(market.marketId) ?? 0) < TIMEOUT_RETRY_INTERVAL) continue
+
+    try {
+      // Data arrived but resolving it failed - keep retrying the real outcome
+      if (await hasQualifyingData(market)) continue
+
+      lastTimeoutAttempt.set(market.marketId, now)
+      await applyTimeoutFallback(market, policy)
+    } catch (error) {
+      logger.error('Timeout fallback failed', { marketId: market.marketId, error })
     }
-  } catch (error) {
-    console.error('❌ Error checking block markets:', error)
   }
 }
 
 // ===== PERIODIC RESOLUTION CHECK =====
 
-function startPeriodicCheck() {
-  console.log('⏰ Starting periodic resolution check (every 5 seconds)...\n')
+/**
+ * Decide markets whose resolution time has passed
+ * Readiness is judged on the latest block timestamp rather than the local clock,
+ * so the check agrees with the contract's `resolutionTime` guard (and with a
+ * devnet whose time has been moved forward).
+ */
+async function runPeriodicCheck() {
+  let now: bigint
+  try {
+    now = (await publicClient.getBlock()).timestamp
+  } catch (error) {
+    logger.error('Periodic check could not read the latest block', { error })
+    return
+  }
 
-  setInterval(async () => {
-    const now = Math.floor(Date.now() / 1000)
-    console.log(`\n⏰ Periodic check at ${new Date().toISOString()}`)
-    console.log(`   Active markets: ${activeMarkets.size}`)
+  logger.debug('Periodic check', { chainTime: new Date(Number(now) * 1000).toISOString(), activeMarkets: activeMarkets.size })
 
-    // Check for markets that need resolution
-    for (const [marketId, market] of activeMarkets.entries()) {
-      if (isReadyForResolution(market)) {
-        console.log(`   🔔 Market ready for resolution: ${market.question}`)
+  // Check for markets that need resolution
+  let blockMarketReady = false
+  let windowMarketReady = false
+  for (const [marketId, market] of activeMarkets.entries()) {
+    if (isReadyForResolution(market, now)) {
+      logger.debug('Market ready for resolution', { marketId })
 
-        // For BLOCK markets, check immediately
-        if (market.marketType === 0) {
-          await checkBlockMarkets()
-        }
-      }
+      if (market.marketType === 0) blockMarketReady = true
+      if (isWindowAggregation(market.aggregation)) windowMarketReady = true
     }
+  }
+
+  // For BLOCK markets, check immediately
+  if (blockMarketReady) {
+    await checkBlockMarkets()
+  }
+
+  // Window markets are decided from their recorded observations
+  if (windowMarketReady) {
+    await checkWindowMarkets()
+  }
+
+  // Event-decided markets whose deciding event was recorded but never settled
+  await checkRecordedOutcomes(now)
+
+  // Markets that never got qualifying data fall back once their grace period expires
+  await checkTimedOutMarkets(Number(now))
+
+  // Evidence whose publish failed is sent again
+  await retryEvidencePublishes(Number(now))
+}
+
+function startPeriodicCheck() {
+  logger.info('Starting periodic resolution check', { intervalMs: 5000 })
+
+  periodicTimer = setInterval(() => {
+    // A check still waiting on confirmations is not stacked up behind
+    if (periodicRun) return
+    periodicRun = runPeriodicCheck().finally(() => { periodicRun = null })
   }, 5000) // Every 5 seconds
 }
 
 // ===== MAIN =====
 
 export async function startResolverService() {
-  console.log('=' .repeat(60))
-  console.log('🚀 PredEx Auto-Resolver Service')
-  console.log('=' .repeat(60))
-  console.log(`\n📍 Configuration:`)
-  console.log(`   Network: Somnia Testnet (Chain ID: 50312)`)
-  console.log(`   RPC: ${RPC_URL}`)
-  console.log(`   Resolver Account: ${account.address}`)
-  console.log(`   Market Contract: ${MARKET_CONTRACT}`)
-  console.log(`   SOMI Token: ${SOMI_TOKEN}`)
-  console.log(`   Game Contract: ${GAME_CONTRACT}`)
-  console.log('\n' + '=' .repeat(60) + '\n')
+  logger.info('PredEx Auto-Resolver Service starting', {
+    network: network.name,
+    chain: network.chain.name,
+    chainId: network.chain.id,
+    deployment: network.deploymentFile ?? 'none (registry defaults and env)',
+    rpc: RPC_URL,
+    mode: SHADOW_MODE ? `shadow (decisions written to ${RESOLVER_SHADOW_REPORT}, nothing is sent)` : 'live',
+    resolverAccount: account.address,
+    instance: elector.holder,
+    marketContract: MARKET_CONTRACT,
+    somiToken: SOMI_TOKEN,
+    gameContract: GAME_CONTRACT,
+    confirmationDepth: CONFIRMATION_DEPTH,
+    dataStreams: DATA_STREAMS_MODE === 'http' ? `mock at ${DATA_STREAMS_MOCK_URL}` : DATA_STREAMS_MODE,
+    timeoutFallback: ['BLOCK', 'TRANSFER', 'GAME'].map((name, type) => `${name} ${TIMEOUT_POLICIES[type].action} after ${TIMEOUT_POLICIES[type].gracePeriod}s`).join(', '),
+  })
 
   try {
-    // 1. Load existing active markets
+    // 0. Refuse to run against an ABI whose Market struct no longer matches
+    assertMarketAbi(PredictionMarketABI.abi)
+    // Timeout cancellations wait at least as long as the contract requires
+    await syncCancelGracePeriod()
+
+    // 1. Replay persisted state from the previous run
+    await recoverFromStore()
+
+    // 2. Compete for the resolver lease; standbys track markets but leave settlement to the leader
+    await elector.start()
+
+    // 3. Connect to Data Streams; markets loaded next are subscribed through it
+    await streamManager.start()
+
+    // 4. Load existing active markets and reconcile them with the store
     await loadActiveMarketsFromContract()
 
-    // 2. Subscribe to new market creation
-    await subscribeToMarketCreation()
+    // 5. Catch up on logs emitted while the resolver was offline
+    const liveFromBlock = await backfillHistoricalLogs()
 
-    // 3. Subscribe to transfer events (for TRANSFER markets)
-    await subscribeToTransfers()
+    // 6. Subscribe to new market creation
+    await subscribeToMarketCreation(liveFromBlock)
 
-    // 4. Subscribe to game events (for GAME markets)
-    await subscribeToGameEvents()
+    // 7. Subscribe to transfer events (for TRANSFER markets)
+    await subscribeToTransfers(liveFromBlock)
 
-    // 5. Start periodic check for BLOCK markets
+    // 8. Subscribe to game events (for GAME markets)
+    await subscribeToGameEvents(liveFromBlock)
+
+    // 9. Release buffered live logs as they reach the confirmation depth
+    watchConfirmations()
+
+    // 10. Start periodic check for BLOCK markets
     startPeriodicCheck()
 
-    console.log('✅ All systems active!')
-    console.log('👀 Watching for markets to resolve...\n')
+    logger.info('All systems active, watching for markets to resolve')
 
   } catch (error) {
-    console.error('❌ Resolver service failed:', error)
+    logger.error('Resolver service failed', { error })
     throw error
   }
 }
 
 // Export active markets count for API endpoints
-export function getResolverStats() {
+export async function getResolverStats() {
+  const decisions = await store.getDecisions(50)
+
   return {
+    mode: RESOLVER_MODE,
     activeMarkets: activeMarkets.size,
+    leader: elector.getStatus(),
+    dataStreams: { mode: DATA_STREAMS_MODE, ...streamManager.getStatus() },
     markets: Array.from(activeMarkets.values()).map(m => ({
       marketId: m.marketId,
       question: m.question,
@@ -660,6 +1900,90 @@ export function getResolverStats() {
       threshold: m.threshold.toString(),
       resolutionTime: Number(m.resolutionTime),
       dataSourceId: m.dataSourceId,
-    }))
+      comparator: getComparatorLabel(m.comparator),
+      metric: getMetricLabel(m.metric),
+      aggregation: getAggregationLabel(m.aggregation),
+      createdAt: Number(m.createdAt),
+      resolving: resolvingMarkets.has(m.marketId),
+      timeout: TIMEOUT_POLICIES[m.marketType] && {
+        action: TIMEOUT_POLICIES[m.marketType].action,
+        deadline: Number(getTimeoutDeadline(m, TIMEOUT_POLICIES[m.marketType])),
+      },
+    })),
+    // Most recent timeout fallbacks, including markets no longer tracked
+    timeoutDecisions: decisions.map(d => ({
+      marketId: d.marketId,
+      marketType: d.marketType,
+      action: d.action,
+      deadline: Number(d.deadline),
+      status: d.status,
+      txHash: d.txHash,
+      error: d.error,
+      decidedAt: d.createdAt,
+      updatedAt: d.updatedAt,
+    })),
+  }
+}
+
+// Data Streams and on-chain observations recorded for a market, oldest first
+export async function getMarketObservations(marketId: `0x${string}`) {
+  return store.getObservations(marketId)
+}
+
+// Evidence behind the resolution this resolver sent for a market
+export async function getMarketEvidence(marketId: `0x${string}`) {
+  return store.getEvidence(marketId)
+}
+
+// Resolver-side state of a market for the read API
+export async function getMarketResolverInfo(marketId: `0x${string}`) {
+  const market = activeMarkets.get(marketId)
+  const policy = market && TIMEOUT_POLICIES[market.marketType]
+  const decisions = await store.getMarketDecisions(marketId)
+  const attempt = await store.getLatestAttempt(marketId)
+
+  return {
+    tracked: Boolean(market),
+    resolving: resolvingMarkets.has(marketId),
+    timeout: market && policy ? {
+      action: policy.action,
+      deadline: Number(getTimeoutDeadline(market, policy)),
+    } : null,
+    // Latest resolveMarket transaction sent by this resolver
+    resolutionAttempt: attempt && {
+      winningOption: attempt.winningOption,
+      status: attempt.status,
+      txHash: attempt.txHash,
+      error: attempt.error,
+      createdAt: attempt.createdAt,
+      updatedAt: attempt.updatedAt,
+    },
+    timeoutDecisions: decisions.map(d => ({
+      action: d.action,
+      deadline: Number(d.deadline),
+      status: d.status,
+      txHash: d.txHash,
+      error: d.error,
+      decidedAt: d.createdAt,
+      updatedAt: d.updatedAt,
+    })),
   }
 }
+
+// Stop watchers and the periodic check, then flush and close persistent state
+export async function stopResolverService() {
+  if (periodicTimer) clearInterval(periodicTimer)
+  periodicTimer = null
+  unwatchers.splice(0).forEach(unwatch => unwatch())
+
+  // Let work already in progress finish before the stream and store go away
+  await periodicRun
+  await publishQueue.drain()
+  await streamManager.stop()
+  await releaseQueue
+
+  // Hand the lease to a standby rather than letting it wait for expiry
+  await elector.stop()
+  await leaseStore.close()
+  await store.close()
+}
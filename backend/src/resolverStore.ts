@@ -0,0 +1,625 @@
+/**
+ * Persistent Resolver State for PredEx
+ *
+ * Keeps tracked markets, per-market observations, resolution attempts, timeout
+ * decisions, resolution evidence and log checkpoints across restarts so the
+ * resolver can recover in-flight work.
+ * The store is pluggable: SQLite is the default, an in-memory store is
+ * available for dry runs.
+ */
+
+import fs from 'fs'
+import path from 'path'
+import Database from 'better-sqlite3'
+import type { TrackedMarket } from './resolverService'
+import { Aggregation, type Observation } from './resolutionCriteria'
+import { deserializeEvidence, serializeEvidence, type ResolutionEvidence } from './resolutionEvidence'
+import type { TimeoutAction } from './timeoutPolicy'
+
+export type MarketState = 'tracking' | 'resolved' | 'cancelled'
+
+export type AttemptStatus = 'pending' | 'submitted' | 'confirmed' | 'failed'
+
+export interface StoredMarket {
+  market: TrackedMarket
+  state: MarketState
+  updatedAt: number
+}
+
+/**
+ * Location of the on-chain event an observation came from
+ */
+export interface EventRef {
+  blockNumber: bigint
+  txHash?: `0x${string}`
+  logIndex?: number
+}
+
+export interface StoredObservation {
+  id: number
+  marketId: `0x${string}`
+  source: 'block' | 'transfer' | 'game' | 'stream'
+  observation: Observation
+  observedAt: bigint // Block timestamp of the event (or sample time for polled data)
+  blockNumber: bigint | null
+  txHash: `0x${string}` | null
+  logIndex: number | null
+}
+
+export interface ResolutionAttempt {
+  id: number
+  marketId: `0x${string}`
+  winningOption: number
+  status: AttemptStatus
+  txHash: `0x${string}` | null
+  error: string | null
+  createdAt: number
+  updatedAt: number
+}
+
+/**
+ * Fallback taken for a market whose grace period expired without qualifying data
+ */
+export interface TimeoutDecision {
+  id: number
+  marketId: `0x${string}`
+  marketType: number
+  action: TimeoutAction
+  deadline: bigint // resolutionTime + grace period
+  status: AttemptStatus
+  txHash: `0x${string}` | null
+  error: string | null
+  createdAt: number
+  updatedAt: number
+}
+
+/**
+ * Storage backend used by the resolver service
+ */
+export interface ResolverStore {
+  saveMarket(market: TrackedMarket): Promise<void>
+  setMarketState(marketId: `0x${string}`, state: MarketState): Promise<void>
+  getMarket(marketId: `0x${string}`): Promise<StoredMarket | null>
+  getMarketsByState(state: MarketState): Promise<StoredMarket[]>
+
+  // Observations with the same (txHash, logIndex), or block samples of the same block, are only stored once
+  recordObservation(
+    marketId: `0x${string}`,
+    source: StoredObservation['source'],
+    observation: Observation,
+    observedAt: bigint,
+    ref?: EventRef
+  ): Promise<void>
+  getObservations(marketId: `0x${string}`): Promise<StoredObservation[]>
+
+  recordAttempt(marketId: `0x${string}`, winningOption: number): Promise<number>
+  updateAttempt(
+    attemptId: number,
+    update: { status: AttemptStatus; txHash?: `0x${string}`; error?: string }
+  ): Promise<void>
+  getLatestAttempt(marketId: `0x${string}`): Promise<ResolutionAttempt | null>
+  getOpenAttempts(): Promise<ResolutionAttempt[]>
+
+  recordDecision(
+    marketId: `0x${string}`,
+    decision: { marketType: number; action: TimeoutAction; deadline: bigint }
+  ): Promise<number>
+  updateDecision(
+    decisionId: number,
+    update: { status: AttemptStatus; txHash?: `0x${string}`; error?: string }
+  ): Promise<void>
+  // Newest first
+  getDecisions(limit: number): Promise<TimeoutDecision[]>
+  getOpenDecisions(): Promise<TimeoutDecision[]>
+  getMarketDecisions(marketId: `0x${string}`): Promise<TimeoutDecision[]>
+
+  // One record per market, replaced as the resolution progresses
+  saveEvidence(evidence: ResolutionEvidence): Promise<void>
+  getEvidence(marketId: `0x${string}`): Promise<ResolutionEvidence | null>
+  // Records of a sent resolution that never made it to Data Streams
+  getUnpublishedEvidence(): Promise<ResolutionEvidence[]>
+
+  // Last fully processed block per log stream, keyed by stream, chain and contract (see checkpointKey)
+  getCheckpoint(key: string): Promise<bigint | null>
+  setCheckpoint(key: string, blockNumber: bigint): Promise<void>
+
+  close(): Promise<void>
+}
+
+// ===== SERIALIZATION =====
+
+const OBSERVATION_FIELDS: (keyof Observation)[] = ['txCount', 'value', 'timeTaken', 'totalDamage']
+
+function serializeMarket(market: TrackedMarket): string {
+  return JSON.stringify({
+    ...market,
+    threshold: market.threshold.toString(),
+    createdAt: market.createdAt.toString(),
+    resolutionTime: market.resolutionTime.toString(),
+  })
+}
+
+function deserializeMarket(json: string): TrackedMarket {
+  const raw = JSON.parse(json)
+  return {
+    ...raw,
+    threshold: BigInt(raw.threshold),
+    createdAt: BigInt(raw.createdAt ?? 0),
+    resolutionTime: BigInt(raw.resolutionTime),
+    aggregation: raw.aggregation ?? Aggregation.FIRST_AFTER_LOCK,
+  }
+}
+
+function serializeObservation(observation: Observation): string {
+  const raw: Record<string, string> = {}
+  for (const field of OBSERVATION_FIELDS) {
+    const value = observation[field]
+    if (value !== undefined) raw[field] = value.toString()
+  }
+  return JSON.stringify(raw)
+}
+
+function deserializeObservation(json: string): Observation {
+  const raw = JSON.parse(json) as Record<string, string>
+  const observation: Observation = {}
+  for (const field of OBSERVATION_FIELDS) {
+    if (raw[field] !== undefined) observation[field] = BigInt(raw[field])
+  }
+  return observation
+}
+
+function now(): number {
+  return Math.floor(Date.now() / 1000)
+}
+
+// ===== SQLITE STORE =====
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS markets (
+    market_id TEXT PRIMARY KEY,
+    data TEXT NOT NULL,
+    state TEXT NOT NULL,
+    updated_at INTEGER NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS observations (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    market_id TEXT NOT NULL,
+    source TEXT NOT NULL,
+    data TEXT NOT NULL,
+    observed_at INTEGER NOT NULL,
+    block_number TEXT,
+    tx_hash TEXT,
+    log_index INTEGER
+  );
+  CREATE INDEX IF NOT EXISTS observations_market ON observations (market_id);
+  CREATE UNIQUE INDEX IF NOT EXISTS observations_event
+    ON observations (market_id, tx_hash, log_index) WHERE tx_hash IS NOT NULL;
+  -- Polled blocks carry no tx hash; keep one sample per block (older databases may hold repeats)
+  DELETE FROM observations WHERE source = 'block' AND id NOT IN (
+    SELECT MIN(id) FROM observations WHERE source = 'block' GROUP BY market_id, block_number
+  );
+  CREATE UNIQUE INDEX IF NOT EXISTS observations_block
+    ON observations (market_id, block_number) WHERE source = 'block';
+
+  CREATE TABLE IF NOT EXISTS resolution_attempts (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    market_id TEXT NOT NULL,
+    winning_option INTEGER NOT NULL,
+    status TEXT NOT NULL,
+    tx_hash TEXT,
+    error TEXT,
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS resolution_attempts_market ON resolution_attempts (market_id);
+
+  CREATE TABLE IF NOT EXISTS timeout_decisions (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    market_id TEXT NOT NULL,
+    market_type INTEGER NOT NULL,
+    action TEXT NOT NULL,
+    deadline TEXT NOT NULL,
+    status TEXT NOT NULL,
+    tx_hash TEXT,
+    error TEXT,
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS resolution_evidence (
+    market_id TEXT PRIMARY KEY,
+    data TEXT NOT NULL,
+    updated_at INTEGER NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS checkpoints (
+    key TEXT PRIMARY KEY,
+    block_number TEXT NOT NULL
+  );
+`
+
+interface MarketRow {
+  data: string
+  state: MarketState
+  updated_at: number
+}
+
+interface ObservationRow {
+  id: number
+  market_id: `0x${string}`
+  source: StoredObservation['source']
+  data: string
+  observed_at: number
+  block_number: string | null
+  tx_hash: `0x${string}` | null
+  log_index: number | null
+}
+
+interface AttemptRow {
+  id: number
+  market_id: `0x${string}`
+  winning_option: number
+  status: AttemptStatus
+  tx_hash: `0x${string}` | null
+  error: string | null
+  created_at: number
+  updated_at: number
+}
+
+interface DecisionRow {
+  id: number
+  market_id: `0x${string}`
+  market_type: number
+  action: TimeoutAction
+  deadline: string
+  status: AttemptStatus
+  tx_hash: `0x${string}` | null
+  error: string | null
+  created_at: number
+  updated_at: number
+}
+
+function toAttempt(row: AttemptRow): ResolutionAttempt {
+  return {
+    id: row.id,
+    marketId: row.market_id,
+    winningOption: row.winning_option,
+    status: row.status,
+    txHash: row.tx_hash,
+    error: row.error,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  }
+}
+
+function toDecision(row: DecisionRow): TimeoutDecision {
+  return {
+    id: row.id,
+    marketId: row.market_id,
+    marketType: row.market_type,
+    action: row.action,
+    deadline: BigInt(row.deadline),
+    status: row.status,
+    txHash: row.tx_hash,
+    error: row.error,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  }
+}
+
+/**
+ * Create a SQLite-backed store (the default)
+ */
+export function createSqliteStore(dbPath: string): ResolverStore {
+  if (dbPath !== ':memory:') {
+    fs.mkdirSync(path.dirname(dbPath), { recursive: true })
+  }
+
+  const db = new Database(dbPath)
+  db.pragma('journal_mode = WAL')
+  db.exec(SCHEMA)
+
+  const toStoredMarket = (row: MarketRow): StoredMarket => ({
+    market: deserializeMarket(row.data),
+    state: row.state,
+    updatedAt: row.updated_at,
+  })
+
+  return {
+    async saveMarket(market) {
+      // Keep the existing state when a market is re-saved (e.g. on reload)
+      db.prepare(`
+        INSERT INTO markets (market_id, data, state, updated_at) VALUES (?, ?, 'tracking', ?)
+        ON CONFLICT (market_id) DO UPDATE SET data = excluded.data, updated_at = excluded.updated_at
+      `).run(market.marketId, serializeMarket(market), now())
+    },
+
+    async setMarketState(marketId, state) {
+      db.prepare('UPDATE markets SET state = ?, updated_at = ? WHERE market_id = ?').run(state, now(), marketId)
+    },
+
+    async getMarket(marketId) {
+      const row = db.prepare('SELECT * FROM markets WHERE market_id = ?').get(marketId) as MarketRow | undefined
+      return row ? toStoredMarket(row) : null
+    },
+
+    async getMarketsByState(state) {
+      return (db.prepare('SELECT * FROM markets WHERE state = ?').all(state) as MarketRow[]).map(toStoredMarket)
+    },
+
+    async recordObservation(marketId, source, observation, observedAt, ref) {
+      db.prepare(`
+        INSERT OR IGNORE INTO observations (market_id, source, data, observed_at, block_number, tx_hash, log_index)
+        VALUES (?, ?, ?, ?, ?, ?, ?)
+      `).run(
+        marketId,
+        source,
+        serializeObservation(observation),
+        Number(observedAt),
+        ref ? ref.blockNumber.toString() : null,
+        ref?.txHash ?? null,
+        ref?.logIndex ?? null
+      )
+    },
+
+    async getObservations(marketId) {
+      const rows = db.prepare('SELECT * FROM observations WHERE market_id = ? ORDER BY id').all(marketId) as ObservationRow[]
+      return rows.map(row => ({
+        id: row.id,
+        marketId: row.market_id,
+        source: row.source,
+        observation: deserializeObservation(row.data),
+        observedAt: BigInt(row.observed_at),
+        blockNumber: row.block_number !== null ? BigInt(row.block_number) : null,
+        txHash: row.tx_hash,
+        logIndex: row.log_index,
+      }))
+    },
+
+    async recordAttempt(marketId, winningOption) {
+      const timestamp = now()
+      const result = db.prepare(`
+        INSERT INTO resolution_attempts (market_id, winning_option, status, created_at, updated_at)
+        VALUES (?, ?, 'pending', ?, ?)
+      `).run(marketId, winningOption, timestamp, timestamp)
+      return Number(result.lastInsertRowid)
+    },
+
+    async updateAttempt(attemptId, update) {
+      db.prepare(`
+        UPDATE resolution_attempts
+        SET status = ?, tx_hash = COALESCE(?, tx_hash), error = COALESCE(?, error), updated_at = ?
+        WHERE id = ?
+      `).run(update.status, update.txHash ?? null, update.error ?? null, now(), attemptId)
+    },
+
+    async getLatestAttempt(marketId) {
+      const row = db.prepare('SELECT * FROM resolution_attempts WHERE market_id = ? ORDER BY id DESC LIMIT 1').get(marketId) as AttemptRow | undefined
+      return row ? toAttempt(row) : null
+    },
+
+    async getOpenAttempts() {
+      return (db.prepare(`SELECT * FROM resolution_attempts WHERE status IN ('pending', 'submitted') ORDER BY id`).all() as AttemptRow[])
+        .map(toAttempt)
+    },
+
+    async recordDecision(marketId, decision) {
+      const timestamp = now()
+      const result = db.prepare(`
+        INSERT INTO timeout_decisions (market_id, market_type, action, deadline, status, created_at, updated_at)
+        VALUES (?, ?, ?, ?, 'pending', ?, ?)
+      `).run(marketId, decision.marketType, decision.action, decision.deadline.toString(), timestamp, timestamp)
+      return Number(result.lastInsertRowid)
+    },
+
+    async updateDecision(decisionId, update) {
+      db.prepare(`
+        UPDATE timeout_decisions
+        SET status = ?, tx_hash = COALESCE(?, tx_hash), error = COALESCE(?, error), updated_at = ?
+        WHERE id = ?
+      `).run(update.status, update.txHash ?? null, update.error ?? null, now(), decisionId)
+    },
+
+    async getDecisions(limit) {
+      return (db.prepare('SELECT * FROM timeout_decisions ORDER BY id DESC LIMIT ?').all(limit) as DecisionRow[]).map(toDecision)
+    },
+
+    async getOpenDecisions() {
+      return (db.prepare(`SELECT * FROM timeout_decisions WHERE status IN ('pending', 'submitted') ORDER BY id`).all() as DecisionRow[])
+        .map(toDecision)
+    },
+
+    async getMarketDecisions(marketId) {
+      return (db.prepare('SELECT * FROM timeout_decisions WHERE market_id = ? ORDER BY id').all(marketId) as DecisionRow[])
+        .map(toDecision)
+    },
+
+    async saveEvidence(evidence) {
+      db.prepare(`
+        INSERT INTO resolution_evidence (market_id, data, updated_at) VALUES (?, ?, ?)
+        ON CONFLICT (market_id) DO UPDATE SET data = excluded.data, updated_at = excluded.updated_at
+      `).run(evidence.marketId, JSON.stringify(serializeEvidence(evidence)), now())
+    },
+
+    async getEvidence(marketId) {
+      const row = db.prepare('SELECT data FROM resolution_evidence WHERE market_id = ?').get(marketId) as { data: string } | undefined
+      return row ? deserializeEvidence(JSON.parse(row.data)) : null
+    },
+
+    async getUnpublishedEvidence() {
+      const rows = db.prepare(`
+        SELECT data FROM resolution_evidence
+        WHERE json_extract(data, '$.resolutionTxHash') IS NOT NULL AND json_extract(data, '$.publishTxHash') IS NULL
+        ORDER BY updated_at
+      `).all() as { data: string }[]
+      return rows.map(row => deserializeEvidence(JSON.parse(row.data)))
+    },
+
+    async getCheckpoint(key) {
+      const row = db.prepare('SELECT block_number FROM checkpoints WHERE key = ?').get(key) as { block_number: string } | undefined
+      return row ? BigInt(row.block_number) : null
+    },
+
+    async setCheckpoint(key, blockNumber) {
+      db.prepare(`
+        INSERT INTO checkpoints (key, block_number) VALUES (?, ?)
+        ON CONFLICT (key) DO UPDATE SET block_number = excluded.block_number
+      `).run(key, blockNumber.toString())
+    },
+
+    async close() {
+      db.close()
+    },
+  }
+}
+
+// ===== IN-MEMORY STORE =====
+
+/**
+ * Create a store that keeps everything in process memory
+ * State is lost on restart, so this is only suitable for dry runs and development
+ */
+export function createMemoryStore(): ResolverStore {
+  const markets = new Map<string, StoredMarket>()
+  const observations: StoredObservation[] = []
+  const attempts: ResolutionAttempt[] = []
+  const decisions: TimeoutDecision[] = []
+  const evidence = new Map<string, ResolutionEvidence>()
+  const checkpoints = new Map<string, bigint>()
+
+  return {
+    async saveMarket(market) {
+      const existing = markets.get(market.marketId)
+      markets.set(market.marketId, { market, state: existing?.state ?? 'tracking', updatedAt: now() })
+    },
+
+    async setMarketState(marketId, state) {
+      const existing = markets.get(marketId)
+      if (existing) markets.set(marketId, { ...existing, state, updatedAt: now() })
+    },
+
+    async getMarket(marketId) {
+      return markets.get(marketId) ?? null
+    },
+
+    async getMarketsByState(state) {
+      return Array.from(markets.values()).filter(m => m.state === state)
+    },
+
+    async recordObservation(marketId, source, observation, observedAt, ref) {
+      const duplicate = ref?.txHash !== undefined
+        ? observations.some(o => o.marketId === marketId && o.txHash === ref.txHash && o.logIndex === (ref.logIndex ?? null))
+        : source === 'block' && ref !== undefined && observations.some(
+          o => o.marketId === marketId && o.source === 'block' && o.blockNumber === ref.blockNumber
+        )
+      if (duplicate) return
+
+      observations.push({
+        id: observations.length + 1,
+        marketId,
+        source,
+        observation,
+        observedAt,
+        blockNumber: ref?.blockNumber ?? null,
+        txHash: ref?.txHash ?? null,
+        logIndex: ref?.logIndex ?? null,
+      })
+    },
+
+    async getObservations(marketId) {
+      return observations.filter(o => o.marketId === marketId)
+    },
+
+    async recordAttempt(marketId, winningOption) {
+      const timestamp = now()
+      const id = attempts.length + 1
+      attempts.push({ id, marketId, winningOption, status: 'pending', txHash: null, error: null, createdAt: timestamp, updatedAt: timestamp })
+      return id
+    },
+
+    async updateAttempt(attemptId, update) {
+      const attempt = attempts.find(a => a.id === attemptId)
+      if (!attempt) return
+      attempt.status = update.status
+      attempt.txHash = update.txHash ?? attempt.txHash
+      attempt.error = update.error ?? attempt.error
+      attempt.updatedAt = now()
+    },
+
+    async getLatestAttempt(marketId) {
+      const forMarket = attempts.filter(a => a.marketId === marketId)
+      return forMarket[forMarket.length - 1] ?? null
+    },
+
+    async getOpenAttempts() {
+      return attempts.filter(a => a.status === 'pending' || a.status === 'submitted')
+    },
+
+    async recordDecision(marketId, decision) {
+      const timestamp = now()
+      const id = decisions.length + 1
+      decisions.push({ id, marketId, ...decision, status: 'pending', txHash: null, error: null, createdAt: timestamp, updatedAt: timestamp })
+      return id
+    },
+
+    async updateDecision(decisionId, update) {
+      const decision = decisions.find(d => d.id === decisionId)
+      if (!decision) return
+      decision.status = update.status
+      decision.txHash = update.txHash ?? decision.txHash
+      decision.error = update.error ?? decision.error
+      decision.updatedAt = now()
+    },
+
+    async getDecisions(limit) {
+      return decisions.slice(-limit).reverse()
+    },
+
+    async getOpenDecisions() {
+      return decisions.filter(d => d.status === 'pending' || d.status === 'submitted')
+    },
+
+    async getMarketDecisions(marketId) {
+      return decisions.filter(d => d.marketId === marketId)
+    },
+
+    async saveEvidence(record) {
+      evidence.set(record.marketId, { ...record, sources: [...record.sources] })
+    },
+
+    async getEvidence(marketId) {
+      return evidence.get(marketId) ?? null
+    },
+
+    async getUnpublishedEvidence() {
+      return Array.from(evidence.values()).filter(record => record.resolutionTxHash !== null && record.publishTxHash === null)
+    },
+
+    async getCheckpoint(key) {
+      return checkpoints.get(key) ?? null
+    },
+
+    async setCheckpoint(key, blockNumber) {
+      checkpoints.set(key, blockNumber)
+    },
+
+    async close() {},
+  }
+}
+
+/**
+ * Create the store selected by RESOLVER_STORE (sqlite | memory)
+ */
+export function createResolverStore(defaultDbPath: string = './data/resolver.db'): ResolverStore {
+  const kind = process.env.RESOLVER_STORE || 'sqlite'
+
+  switch (kind) {
+    case 'sqlite':
+      return createSqliteStore(process.env.RESOLVER_DB_PATH || defaultDbPath)
+    case 'memory':
+      return createMemoryStore()
+    default:
+      throw new Error(`Unknown resolver store: ${kind}`)
+  }
+}
@@ -0,0 +1,83 @@
+/**
+ * JSON Shapes for PredEx API Responses
+ *
+ * Shared by the REST API and the live market feed. Amounts are decimal strings
+ * (wei) since they do not fit in a JSON number.
+ */
+
+import { calculateOdds } from '@predex/shared/payouts'
+import type { OddsPoint } from './oddsHistory'
+import type { StoredObservation } from './resolverStore'
+import { MarketStatus, type Bet, type Market } from '@predex/shared/types'
+
+export function serializeMarket(market: Market) {
+  const odds = calculateOdds(market)
+  return {
+    marketId: market.marketId,
+    marketType: market.marketType,
+    question: market.question,
+    creator: market.creator,
+    createdAt: Number(market.createdAt),
+    resolutionTime: Number(market.resolutionTime),
+    status: market.status,
+    winningOption: market.status === MarketStatus.RESOLVED ? market.winningOption : null,
+    totalPool: market.totalPool.toString(),
+    pools: {
+      yes: market.optionPools[0].toString(),
+      no: market.optionPools[1].toString(),
+    },
+    // Payout multiplier in basis points (20000 = 2.0x)
+    odds: {
+      yes: odds.yes.toString(),
+      no: odds.no.toString(),
+    },
+    dataSourceId: market.dataSourceId,
+    threshold: market.threshold.toString(),
+    thresholdToken: market.thresholdToken,
+    comparator: market.comparator,
+    metric: market.metric,
+    aggregation: market.aggregation,
+  }
+}
+
+export function serializeBet(bet: Bet) {
+  return {
+    bettor: bet.bettor,
+    option: bet.option,
+    amount: bet.amount.toString(),
+    timestamp: Number(bet.timestamp),
+    claimed: bet.claimed,
+  }
+}
+
+export function serializeObservation(observation: StoredObservation) {
+  const values: Record<string, string> = {}
+  for (const [key, value] of Object.entries(observation.observation)) {
+    if (value !== undefined) values[key] = value.toString()
+  }
+
+  return {
+    source: observation.source,
+    observation: values,
+    observedAt: Number(observation.observedAt),
+    blockNumber: observation.blockNumber === null ? null : Number(observation.blockNumber),
+    txHash: observation.txHash,
+    logIndex: observation.logIndex,
+  }
+}
+
+export function serializeOddsPoint(point: OddsPoint) {
+  return {
+    timestamp: Number(point.timestamp),
+    blockNumber: point.blockNumber === null ? null : Number(point.blockNumber),
+    pools: {
+      yes: point.yesPool.toString(),
+      no: point.noPool.toString(),
+    },
+    odds: {
+      yes: point.yesOdds.toString(),
+      no: point.noOdds.toString(),
+    },
+    yesProbability: point.yesProbability,
+  }
+}
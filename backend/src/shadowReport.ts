@@ -0,0 +1,63 @@
+/**
+ * Shadow Decision Report for the Resolver
+ *
+ * In shadow mode (RESOLVER_MODE=shadow) the resolver observes events and
+ * decides markets like the live resolver, but never sends a transaction. Each
+ * decision is appended to a JSON-lines file instead, so new resolution logic
+ * can be compared against the outcomes the live resolver settled on chain.
+ */
+
+import fs from 'fs'
+import path from 'path'
+import type { serializeObservation } from './serialize'
+
+export type ShadowTrigger = 'block' | 'transfer' | 'game' | 'stream' | 'window' | 'recorded' | 'timeout'
+
+export interface ShadowDecision {
+  marketId: `0x${string}`
+  marketType: number
+  question: string
+  criteria: string
+  trigger: ShadowTrigger // What made the resolver decide ('recorded' is a catch-up from stored observations)
+  action: 'resolve' | 'cancel'
+  winningOption: number | null // Null for cancellations
+  observations: ReturnType<typeof serializeObservation>[] // What the decision rests on
+  decidedAt: number // Unix seconds
+}
+
+/**
+ * Open (or create) the report at `filePath`
+ * Decisions from earlier runs are loaded so every market is decided once.
+ */
+export function createShadowReport(filePath: string) {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true })
+
+  const decisions = new Map<string, ShadowDecision>()
+  if (fs.existsSync(filePath)) {
+    for (const line of fs.readFileSync(filePath, 'utf8').split('\n')) {
+      if (!line.trim()) continue
+      const decision = JSON.parse(line) as ShadowDecision
+      decisions.set(decision.marketId.toLowerCase(), decision)
+    }
+  }
+
+  return {
+    filePath,
+
+    has(marketId: `0x${string}`): boolean {
+      return decisions.has(marketId.toLowerCase())
+    },
+
+    async record(decision: ShadowDecision) {
+      decisions.set(decision.marketId.toLowerCase(), decision)
+      await fs.promises.appendFile(filePath, JSON.stringify(decision) + '\n')
+    },
+
+    // Newest first
+    list(): ShadowDecision[] {
+      return Array.from(decisions.values()).sort((a, b) => b.decidedAt - a.decidedAt)
+    },
+  }
+}
+
+export type ShadowReport = ReturnType<typeof createShadowReport>
@@ -0,0 +1,270 @@
+/**
+ * Data Streams Subscription Manager for the Resolver
+ *
+ * Owns the connection behind Data Streams subscriptions (the WebSocket client
+ * and SDK on the live network) and keeps every registered subscription alive:
+ * a heartbeat detects silent disconnects, failures tear the connection down and
+ * reconnect with jittered exponential backoff, and all subscriptions are
+ * re-created on the new connection. Each subscription is told when it has been
+ * (re)established so the caller can fill the gap from historical reads.
+ */
+
+import type { StreamSubscription, StreamsClient, SubscribeParams } from '@predex/shared/streamsClient'
+import { createLogger } from './logger'
+
+export interface StreamConnection {
+  client: StreamsClient
+  // Resolves while the connection is healthy (e.g. an RPC call over the socket)
+  heartbeat?: () => Promise<unknown>
+  close?: () => void | Promise<void>
+}
+
+export interface ManagedSubscription {
+  params: Omit<SubscribeParams, 'onError'>
+  // Called after every (re)subscription with the last time (ms) the stream was
+  // known healthy before a reconnect, or null when first subscribed
+  onSubscribed?: (gapSince: number | null) => Promise<void> | void
+}
+
+export type StreamConnectionState = 'idle' | 'connecting' | 'connected' | 'reconnecting' | 'stopped'
+
+export interface StreamSubscriptionManagerOptions {
+  connect: () => Promise<StreamConnection>
+  heartbeatIntervalMs?: number // Time between heartbeats, 0 disables them (default 15000)
+  heartbeatTimeoutMs?: number // Heartbeat answer deadline (default 10000)
+  reconnectBaseMs?: number // First reconnect delay, doubled per failed attempt (default 1000)
+  reconnectMaxMs?: number // Upper bound for the reconnect delay (default 60000)
+}
+
+const logger = createLogger({ component: 'data-streams' })
+
+function withTimeout<T>(promise: Promise<T>, ms: number, message: string): Promise<T> {
+  let timer: NodeJS.Timeout
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(message)), ms)
+  })
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer))
+}
+
+/**
+ * Create the subscription manager for one Data Streams backend
+ * Subscriptions can be registered before the connection is up; they are
+ * subscribed as soon as it is, and again after every reconnect.
+ */
+export function createStreamSubscriptionManager(options: StreamSubscriptionManagerOptions) {
+  const heartbeatIntervalMs = options.heartbeatIntervalMs ?? 15000
+  const heartbeatTimeoutMs = options.heartbeatTimeoutMs ?? 10000
+  const reconnectBaseMs = options.reconnectBaseMs ?? 1000
+  const reconnectMaxMs = options.reconnectMaxMs ?? 60000
+
+  const registered = new Map<string, ManagedSubscription>()
+  const active = new Map<string, StreamSubscription>()
+
+  let state: StreamConnectionState = 'idle'
+  let connection: StreamConnection | null = null
+  // Bumped on every teardown so callbacks from an old connection are ignored
+  let generation = 0
+  let failedAttempts = 0
+  let reconnects = 0
+  let lastHealthyAt: number | null = null
+  let lastError: string | null = null
+  let heartbeatTimer: NodeJS.Timeout | null = null
+  let heartbeatRunning = false
+  let reconnectTimer: NodeJS.Timeout | null = null
+
+  // Half to all of the exponential delay, so many resolvers do not reconnect in lockstep
+  function backoffDelay(attempt: number): number {
+    const ceiling = Math.min(reconnectMaxMs, reconnectBaseMs * 2 ** attempt)
+    return ceiling / 2 + Math.random() * (ceiling / 2)
+  }
+
+  async function runOnSubscribed(key: string, managed: ManagedSubscription, gapSince: number | null) {
+    try {
+      await managed.onSubscribed?.(gapSince)
+    } catch (error) {
+      logger.error('Data Streams gap fill failed', { subscription: key, error })
+    }
+  }
+
+  async function subscribeOne(key: string, managed: ManagedSubscription, current: StreamConnection) {
+    const subscriptionGeneration = generation
+    const subscription = await current.client.subscribe({
+      ...managed.params,
+      onData: (event) => {
+        if (subscriptionGeneration !== generation) return
+        lastHealthyAt = Date.now()
+        managed.params.onData(event)
+      },
+      onError: (error) => {
+        if (subscriptionGeneration !== generation) return
+        handleFailure(`subscription ${key} failed: ${error.message}`)
+      },
+    })
+
+    // The connection was replaced, or the market untracked, while subscribing
+    if (subscriptionGeneration !== generation || registered.get(key) !== managed) {
+      subscription.unsubscribe()
+      return
+    }
+    active.set(key, subscription)
+  }
+
+  async function teardown() {
+    generation++
+    if (heartbeatTimer) clearInterval(heartbeatTimer)
+    heartbeatTimer = null
+
+    for (const subscription of active.values()) {
+      try {
+        subscription.unsubscribe()
+      } catch {
+        // The socket is usually gone already
+      }
+    }
+    active.clear()
+
+    const closing = connection
+    connection = null
+    try {
+      await closing?.close?.()
+    } catch {
+      // Same as above
+    }
+  }
+
+  function startHeartbeat(current: StreamConnection) {
+    if (!current.heartbeat || heartbeatIntervalMs <= 0) return
+    const heartbeat = current.heartbeat
+
+    heartbeatTimer = setInterval(async () => {
+      if (heartbeatRunning || connection !== current) return
+      heartbeatRunning = true
+      try {
+        await withTimeout(heartbeat(), heartbeatTimeoutMs, `no heartbeat answer within ${heartbeatTimeoutMs}ms`)
+        if (connection === current) lastHealthyAt = Date.now()
+      } catch (error) {
+        if (connection === current) handleFailure(`heartbeat failed: ${error instanceof Error ? error.message : String(error)}`)
+      } finally {
+        heartbeatRunning = false
+      }
+    }, heartbeatIntervalMs)
+  }
+
+  async function connectOnce(): Promise<void> {
+    const gapSince = state === 'reconnecting' ? lastHealthyAt : null
+    if (state !== 'reconnecting') state = 'connecting'
+
+    const current = await options.connect()
+    connection = current
+    for (const [key, managed] of registered) {
+      await subscribeOne(key, managed, current)
+    }
+
+    state = 'connected'
+    failedAttempts = 0
+    lastHealthyAt = Date.now()
+    startHeartbeat(current)
+
+    if (gapSince !== null) {
+      reconnects++
+      logger.info('Data Streams reconnected', { subscriptions: active.size, reconnects })
+    }
+    for (const [key, managed] of registered) {
+      if (active.has(key)) await runOnSubscribed(key, managed, gapSince)
+    }
+  }
+
+  function scheduleReconnect() {
+    if (state === 'stopped' || reconnectTimer) return
+    const delay = backoffDelay(failedAttempts)
+    failedAttempts++
+    logger.info('Reconnecting to Data Streams', { delayMs: Math.round(delay), attempt: failedAttempts })
+
+    reconnectTimer = setTimeout(async () => {
+      reconnectTimer = null
+      if (state === 'stopped') return
+      try {
+        await connectOnce()
+      } catch (error) {
+        lastError = error instanceof Error ? error.message : String(error)
+        logger.error('Data Streams reconnect failed', { attempt: failedAttempts, error: lastError })
+        await teardown()
+        scheduleReconnect()
+      }
+    }, delay)
+  }
+
+  function handleFailure(reason: string) {
+    if (state === 'stopped' || state === 'reconnecting') return
+    lastError = reason
+    logger.warn('Data Streams connection lost', { reason })
+    // A first connection that never came up counts as healthy from now on
+    if (lastHealthyAt === null) lastHealthyAt = Date.now()
+    state = 'reconnecting'
+    teardown().finally(scheduleReconnect)
+  }
+
+  return {
+    /**
+     * Connect and subscribe everything registered so far
+     * A failed first connection is retried in the background rather than thrown.
+     */
+    async start() {
+      if (state !== 'idle') return
+      try {
+        await connectOnce()
+      } catch (error) {
+        handleFailure(error instanceof Error ? error.message : String(error))
+      }
+    },
+
+    // Keep a subscription under `key` alive until unsubscribed; replaces an existing one
+    async subscribe(key: string, managed: ManagedSubscription) {
+      active.get(key)?.unsubscribe()
+      active.delete(key)
+      registered.set(key, managed)
+
+      if (state !== 'connected' || !connection) return
+      try {
+        await subscribeOne(key, managed, connection)
+      } catch (error) {
+        handleFailure(`subscribing ${key} failed: ${error instanceof Error ? error.message : String(error)}`)
+        return
+      }
+      if (active.has(key)) await runOnSubscribed(key, managed, null)
+    },
+
+    unsubscribe(key: string) {
+      registered.delete(key)
+      active.get(key)?.unsubscribe()
+      active.delete(key)
+    },
+
+    // Client of the current connection, for reads and publishes
+    client(): StreamsClient {
+      if (!connection) throw new Error(`Data Streams not connected (${state})`)
+      return connection.client
+    },
+
+    async stop() {
+      state = 'stopped'
+      if (reconnectTimer) clearTimeout(reconnectTimer)
+      reconnectTimer = null
+      registered.clear()
+      await teardown()
+    },
+
+    getStatus() {
+      return {
+        state,
+        subscriptions: registered.size,
+        activeSubscriptions: active.size,
+        reconnects,
+        lastHealthyAt,
+        lastError,
+      }
+    },
+  }
+}
+
+export type StreamSubscriptionManager = ReturnType<typeof createStreamSubscriptionManager>
@@ -0,0 +1,84 @@
+/**
+ * Timeout Fallback Policy for PredEx
+ *
+ * A market whose qualifying event never arrives would otherwise stay tracked
+ * forever with bettors' funds locked. Each market type gets a grace period
+ * after resolutionTime; once it expires the resolver either resolves with a
+ * configured default outcome or cancels the market so refundBets opens up.
+ * Cancelling also has to wait out the contract's own cancelGracePeriod.
+ */
+
+export type TimeoutAction = 'cancel' | 'yes' | 'no'
+
+export interface TimeoutPolicy {
+  gracePeriod: bigint // Seconds after resolutionTime before the fallback applies
+  action: TimeoutAction
+}
+
+// Env var suffix per market type (0=BLOCK, 1=TRANSFER, 2=GAME)
+const MARKET_TYPE_NAMES = ['BLOCK', 'TRANSFER', 'GAME']
+
+const DEFAULT_GRACE_PERIOD = 3600n
+const DEFAULT_ACTION: TimeoutAction = 'cancel'
+
+function parseGracePeriod(value: string | undefined, name: string): bigint {
+  if (!value) return DEFAULT_GRACE_PERIOD
+  if (!/^\d+$/.test(value.trim())) throw new Error(`Invalid ${name}: ${value} (expected whole seconds)`)
+  return BigInt(value.trim())
+}
+
+function parseAction(value: string | undefined, name: string): TimeoutAction {
+  if (!value) return DEFAULT_ACTION
+  const action = value.toLowerCase()
+  if (action === 'cancel' || action === 'yes' || action === 'no') return action
+  throw new Error(`Invalid ${name}: ${value} (expected cancel, yes or no)`)
+}
+
+/**
+ * Read the timeout policy for every market type from the environment
+ * TIMEOUT_GRACE_<TYPE> is in seconds, TIMEOUT_ACTION_<TYPE> is cancel | yes | no.
+ */
+export function loadTimeoutPolicies(env: NodeJS.ProcessEnv = process.env): Record<number, TimeoutPolicy> {
+  const policies: Record<number, TimeoutPolicy> = {}
+
+  MARKET_TYPE_NAMES.forEach((name, marketType) => {
+    policies[marketType] = {
+      gracePeriod: parseGracePeriod(env[`TIMEOUT_GRACE_${name}`], `TIMEOUT_GRACE_${name}`),
+      action: parseAction(env[`TIMEOUT_ACTION_${name}`], `TIMEOUT_ACTION_${name}`),
+    }
+  })
+
+  return policies
+}
+
+/**
+ * Raise the grace period of cancelling policies to the contract's cancelGracePeriod
+ * cancelExpiredMarket reverts before it, so a shorter grace period would only send
+ * failing transactions. Returns the market types whose grace period was raised.
+ */
+export function applyCancelGracePeriod(policies: Record<number, TimeoutPolicy>, minimum: bigint): number[] {
+  const raised: number[] = []
+  for (const [marketType, policy] of Object.entries(policies)) {
+    if (policy.action === 'cancel' && policy.gracePeriod < minimum) {
+      policy.gracePeriod = minimum
+      raised.push(Number(marketType))
+    }
+  }
+  return raised
+}
+
+/**
+ * Time after which a market with no qualifying data falls back to its policy
+ */
+export function getTimeoutDeadline(market: { resolutionTime: bigint }, policy: TimeoutPolicy): bigint {
+  return market.resolutionTime + policy.gracePeriod
+}
+
+/**
+ * Winning option for a resolving fallback (0 = YES, 1 = NO), null for cancel
+ */
+export function getFallbackOption(action: TimeoutAction): number | null {
+  if (action === 'yes') return 0
+  if (action === 'no') return 1
+  return null
+}
@@ -0,0 +1,325 @@
+/**
+ * Transaction Manager for the Resolver Wallet
+ *
+ * Every transaction the resolver account sends (resolutions, cancellations and
+ * Data Streams publishes) goes through one serialized queue. The manager keeps
+ * the nonce locally, retries failed sends with exponential backoff and replaces
+ * transactions that are stuck in the mempool with higher fees.
+ */
+
+import {
+  BaseError,
+  ContractFunctionRevertedError,
+  WaitForTransactionReceiptTimeoutError,
+  type Abi,
+  type Account,
+  type PublicClient,
+  type SimulateContractParameters,
+  type TransactionReceipt,
+  type WalletClient,
+} from 'viem'
+import { createLogger, type LogFields } from './logger'
+
+// The contract call of a job; the manager adds the account, nonce and fees
+export type ContractRequest = Pick<SimulateContractParameters<Abi | readonly unknown[]>, 'address' | 'abi' | 'functionName' | 'args' | 'value'>
+
+export interface TxJob {
+  label: string // Used in logs, e.g. "resolve 0xabc..."
+  request: ContractRequest
+  // High priority jobs (resolutions) run before queued normal ones (publishes)
+  priority?: 'high' | 'normal'
+  // Checked before every send; return a reason to skip the job instead
+  skipIf?: () => Promise<string | null>
+  // Called with each broadcast hash, including fee-bumped replacements
+  onBroadcast?: (hash: `0x${string}`) => Promise<void> | void
+  // Added to every log line about the job, e.g. { marketId }
+  logFields?: LogFields
+}
+
+export type TxOutcome =
+  | { status: 'confirmed'; hash: `0x${string}`; receipt: TransactionReceipt }
+  | { status: 'skipped'; reason: string }
+
+export interface TxManagerOptions {
+  publicClient: PublicClient
+  walletClient: WalletClient
+  account: Account
+  maxAttempts?: number // Sends per job before giving up (default 5)
+  retryBaseMs?: number // First backoff delay, doubled per retry (default 1000)
+  stuckTimeoutMs?: number // Time without a receipt before replacing a tx (default 30000)
+  feeBumpPercent?: number // Fee increase per replacement (default 20)
+  maxReplacements?: number // Replacements per send before giving up (default 3)
+}
+
+type Fees = { maxFeePerGas: bigint; maxPriorityFeePerGas: bigint } | { gasPrice: bigint }
+
+// What a job has broadcast; once set, the job only ever sends at this nonce
+interface JobSend {
+  nonce: number
+  fees: Fees
+  hashes: `0x${string}`[]
+}
+
+interface JobState {
+  send: JobSend | null
+}
+
+interface QueuedJob {
+  job: TxJob
+  resolve: (outcome: TxOutcome) => void
+  reject: (error: unknown) => void
+}
+
+// A transaction that was mined but reverted - resending it would fail the same way
+class TransactionRevertedError extends Error {}
+
+function isRevert(error: unknown): boolean {
+  if (error instanceof TransactionRevertedError) return true
+  return error instanceof BaseError && error.walk(e => e instanceof ContractFunctionRevertedError) !== null
+}
+
+function isNonceError(error: unknown): boolean {
+  const message = error instanceof Error ? error.message.toLowerCase() : String(error).toLowerCase()
+  return message.includes('nonce') || message.includes('already known') || message.includes('replacement transaction underpriced')
+}
+
+const logger = createLogger({ component: 'tx-manager' })
+
+function sleep(ms: number) {
+  return new Promise(resolve => setTimeout(resolve, ms))
+}
+
+/**
+ * Create the serialized transaction queue for one account
+ * Only one transaction is in flight at a time, so its nonce never collides
+ * with another job and a stuck transaction can be replaced in place.
+ */
+export function createTxManager(options: TxManagerOptions) {
+  const { publicClient, walletClient, account } = options
+  const maxAttempts = options.maxAttempts ?? 5
+  const retryBaseMs = options.retryBaseMs ?? 1000
+  const stuckTimeoutMs = options.stuckTimeoutMs ?? 30000
+  const feeBumpPercent = BigInt(options.feeBumpPercent ?? 20)
+  const maxReplacements = options.maxReplacements ?? 3
+
+  const queue: QueuedJob[] = []
+  let running = false
+  let nextNonce: number | null = null
+
+  async function syncNonce() {
+    nextNonce = await publicClient.getTransactionCount({ address: account.address, blockTag: 'pending' })
+  }
+
+  async function getFees(): Promise<Fees> {
+    try {
+      const { maxFeePerGas, maxPriorityFeePerGas } = await publicClient.estimateFeesPerGas()
+      return { maxFeePerGas, maxPriorityFeePerGas }
+    } catch {
+      // Chain without EIP-1559 fees
+      return { gasPrice: await publicClient.getGasPrice() }
+    }
+  }
+
+  // Bump by feeBumpPercent, but never below what the network currently asks
+  async function bumpFees(fees: Fees): Promise<Fees> {
+    const bump = (value: bigint) => (value * (100n + feeBumpPercent)) / 100n
+    const max = (a: bigint, b: bigint) => (a > b ? a : b)
+    const current = await getFees()
+
+    if ('gasPrice' in fees) {
+      return { gasPrice: max(bump(fees.gasPrice), 'gasPrice' in current ? current.gasPrice : current.maxFeePerGas) }
+    }
+    return {
+      maxFeePerGas: max(bump(fees.maxFeePerGas), 'maxFeePerGas' in current ? current.maxFeePerGas : current.gasPrice),
+      maxPriorityFeePerGas: max(bump(fees.maxPriorityFeePerGas), 'maxPriorityFeePerGas' in current ? current.maxPriorityFeePerGas : 0n),
+    }
+  }
+
+  // Receipt of whichever broadcast at this nonce was mined, if any
+  async function findReceipt(hashes: `0x${string}`[]): Promise<TransactionReceipt | null> {
+    for (const hash of hashes) {
+      try {
+        return await publicClient.getTransactionReceipt({ hash })
+      } catch {
+        // Not mined
+      }
+    }
+    return null
+  }
+
+  function toOutcome(receipt: TransactionReceipt): TxOutcome {
+    if (receipt.status !== 'success') {
+      throw new TransactionRevertedError(`Transaction ${receipt.transactionHash} reverted`)
+    }
+    return { status: 'confirmed', hash: receipt.transactionHash, receipt }
+  }
+
+  // Nonce count including only mined transactions; a nonce below it is used up
+  async function getMinedNonce(): Promise<number> {
+    return publicClient.getTransactionCount({ address: account.address, blockTag: 'latest' })
+  }
+
+  /**
+   * Send a job and wait until it is mined
+   * A transaction without a receipt after stuckTimeoutMs is re-sent at the
+   * same nonce with higher fees. Once a job has broadcast, every later send
+   * for it (including retries) replaces that transaction at the same nonce,
+   * so at most one of them can be mined.
+   */
+  async function sendAndWait(job: TxJob, state: JobState): Promise<TxOutcome> {
+    let send = state.send
+    if (send) {
+      const receipt = await findReceipt(send.hashes)
+      if (receipt) return toOutcome(receipt)
+
+      if ((await getMinedNonce()) > send.nonce) {
+        // Mined between the two lookups, or the nonce went to another transaction
+        const late = await findReceipt(send.hashes)
+        if (late) return toOutcome(late)
+        logger.warn('Nonce used by another transaction, sending again', { ...job.logFields, job: job.label, nonce: send.nonce })
+        state.send = send = null
+      } else {
+        // The earlier broadcast may still be pending, so only a replacement may go out
+        send.fees = await bumpFees(send.fees)
+      }
+    }
+
+    if (!send) {
+      // Simulating first surfaces reverts before any gas is spent
+      await publicClient.simulateContract({ ...job.request, account })
+
+      if (nextNonce === null) await syncNonce()
+      send = { nonce: nextNonce!, fees: await getFees(), hashes: [] }
+    }
+    const { nonce } = send
+
+    for (let replacement = 0; ; replacement++) {
+      let hash: `0x${string}`
+      try {
+        hash = await walletClient.writeContract({ ...job.request, account, chain: walletClient.chain, nonce, ...send.fees })
+      } catch (error) {
+        // An earlier broadcast at this nonce may have been mined while bumping
+        if (send.hashes.length > 0 && isNonceError(error)) {
+          const receipt = await findReceipt(send.hashes)
+          if (receipt) return toOutcome(receipt)
+        }
+        throw error
+      }
+
+      if (send.hashes.length === 0) {
+        nextNonce = nonce + 1
+        state.send = send
+      }
+      send.hashes.push(hash)
+      await job.onBroadcast?.(hash)
+
+      try {
+        const receipt = await publicClient.waitForTransactionReceipt({ hash, timeout: stuckTimeoutMs })
+        return toOutcome(receipt)
+      } catch (error) {
+        if (!(error instanceof WaitForTransactionReceiptTimeoutError)) throw error
+
+        const receipt = await findReceipt(send.hashes)
+        if (receipt) return toOutcome(receipt)
+
+        if (replacement >= maxReplacements) {
+          throw new Error(`${job.label} stuck at nonce ${nonce} after ${maxReplacements} replacements`)
+        }
+
+        send.fees = await bumpFees(send.fees)
+        logger.warn('Transaction stuck, replacing with higher fees', { ...job.logFields, job: job.label, nonce, txHash: hash })
+      }
+    }
+  }
+
+  /**
+   * Run a job with exponential backoff between failed sends
+   * Reverts are not retried.
+   */
+  async function runJob(job: TxJob): Promise<TxOutcome> {
+    const state: JobState = { send: null }
+
+    for (let attempt = 1; ; attempt++) {
+      // A broadcast from an earlier attempt may have been mined meanwhile
+      if (state.send) {
+        const receipt = await findReceipt(state.send.hashes)
+        if (receipt) return toOutcome(receipt)
+      }
+
+      const skipReason = await job.skipIf?.()
+      if (skipReason) {
+        logger.info('Transaction skipped', { ...job.logFields, job: job.label, reason: skipReason })
+        return { status: 'skipped', reason: skipReason }
+      }
+
+      try {
+        return await sendAndWait(job, state)
+      } catch (error) {
+        if (isNonceError(error)) await syncNonce()
+        if (isRevert(error)) throw error
+        if (attempt >= maxAttempts) {
+          // Leave the nonce to the chain: a pending broadcast may still be mined or dropped
+          if (state.send) await syncNonce()
+          throw error
+        }
+
+        const delay = retryBaseMs * 2 ** (attempt - 1)
+        logger.warn('Transaction failed, retrying', {
+          ...job.logFields,
+          job: job.label,
+          attempt,
+          maxAttempts,
+          retryInMs: delay,
+          nonce: state.send?.nonce,
+          error,
+        })
+        await sleep(delay)
+      }
+    }
+  }
+
+  async function drain() {
+    if (running) return
+    running = true
+
+    try {
+      while (queue.length > 0) {
+        const { job, resolve, reject } = queue.shift()!
+        try {
+          resolve(await runJob(job))
+        } catch (error) {
+          reject(error)
+        }
+      }
+    } finally {
+      running = false
+    }
+  }
+
+  return {
+    /**
+     * Queue a contract write for the account
+     * Resolves once the transaction is mined successfully (or the job was
+     * skipped), rejects when it reverts or every retry failed.
+     */
+    submit(job: TxJob): Promise<TxOutcome> {
+      return new Promise((resolve, reject) => {
+        const entry = { job, resolve, reject }
+
+        if (job.priority === 'high') {
+          // Ahead of normal jobs, behind earlier high priority ones
+          const index = queue.findIndex(queued => queued.job.priority !== 'high')
+          queue.splice(index === -1 ? queue.length : index, 0, entry)
+        } else {
+          queue.push(entry)
+        }
+
+        void drain()
+      })
+    },
+
+    get pending(): number {
+      return queue.length
+    },
+  }
+}
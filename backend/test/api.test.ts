@@ -0,0 +1,184 @@
+/**
+ * Read API tests
+ *
+ * Mounts the router on a local Express server with an in-memory market index
+ * and event store, and checks the JSON the routes return.
+ */
+
+import { after, before, describe, test } from 'node:test'
+import assert from 'node:assert/strict'
+import type { AddressInfo } from 'net'
+import type { Server } from 'http'
+import express from 'express'
+import { createApiRouter, type ApiDependencies } from '../src/api'
+import { createEventStore, type IndexedEvent } from '../src/eventStore'
+import type { MarketIndex } from '../src/marketIndexer'
+import { ETHER, bet, betPlaced, market, shadowDecision } from './fixtures'
+import { MarketStatus, type Bet, type Market } from '@predex/shared/types'
+
+const ALICE = `0x${'a1'.repeat(20)}` as const
+const BOB = `0x${'b0'.repeat(20)}` as const
+
+// Resolved YES with 3 SOMI on YES and 1 on NO
+const RESOLVED = market({ marketId: `0x${'aa'.repeat(32)}`, status: MarketStatus.RESOLVED, optionPools: [3n * ETHER, 1n * ETHER] })
+// Cancelled with 1 SOMI on each side
+const CANCELLED = market({ marketId: `0x${'cc'.repeat(32)}`, status: MarketStatus.CANCELLED, optionPools: [1n * ETHER, 1n * ETHER] })
+// Still open, so shadow decisions on it cannot be compared yet
+const OPEN = market({ marketId: `0x${'dd'.repeat(32)}` })
+
+const RESOLVED_TX = `0x${'5e'.repeat(32)}` as const
+
+const TIMEOUT_CANCEL = { trigger: 'timeout', action: 'cancel', winningOption: null } as const
+
+const BETS: Bet[] = [
+  bet(0, 1n * ETHER, { bettor: ALICE, marketId: RESOLVED.marketId, timestamp: 1001n }),
+  bet(0, 2n * ETHER, { bettor: BOB, marketId: RESOLVED.marketId, timestamp: 1002n }),
+  bet(1, 1n * ETHER, { bettor: ALICE, marketId: RESOLVED.marketId, timestamp: 1003n }),
+  bet(0, 1n * ETHER, { bettor: ALICE, marketId: CANCELLED.marketId, timestamp: 1004n }),
+  bet(1, 1n * ETHER, { bettor: BOB, marketId: CANCELLED.marketId, timestamp: 1005n }),
+]
+
+function settlement(settled: Market, eventName: 'MarketResolved' | 'MarketCancelled', txHash: `0x${string}`): IndexedEvent {
+  return {
+    contract: 'PredictionMarket',
+    eventName,
+    blockNumber: 10n,
+    blockHash: `0x${'0a'.repeat(32)}`,
+    txHash,
+    logIndex: 0,
+    timestamp: 2100n,
+    marketId: settled.marketId,
+    account: null,
+    args: eventName === 'MarketResolved' ? { marketId: settled.marketId, winningOption: settled.winningOption } : { marketId: settled.marketId },
+  }
+}
+
+function createIndex(markets: Market[], bets: Bet[]): MarketIndex {
+  const find = (marketId: string) => markets.find(m => m.marketId.toLowerCase() === marketId.toLowerCase()) ?? null
+  return {
+    async listMarkets() {
+      return { total: markets.length, markets }
+    },
+    async getMarket(marketId) {
+      return find(marketId)
+    },
+    async getMarketBets(marketId) {
+      return bets.filter(bet => bet.marketId === marketId)
+    },
+    async getUserBets(address) {
+      return bets.filter(bet => bet.bettor.toLowerCase() === address.toLowerCase())
+    },
+    async getPlatformFee() {
+      return 200n
+    },
+  }
+}
+
+describe('read API', () => {
+  const events = createEventStore(':memory:')
+  let server: Server
+  let baseUrl: string
+
+  async function get(path: string): Promise<{ status: number; body: any }> {
+    const res = await fetch(`${baseUrl}${path}`)
+    return { status: res.status, body: await res.json() }
+  }
+
+  before(async () => {
+    // Only the first two RESOLVED bets are indexed, CANCELLED has all of its own
+    await events.saveEvents([betPlaced(BETS[0], 1n), betPlaced(BETS[1], 2n), betPlaced(BETS[3], 4n), betPlaced(BETS[4], 5n)])
+    // The MarketCancelled event has not been indexed yet
+    await events.saveEvents([settlement(RESOLVED, 'MarketResolved', RESOLVED_TX)])
+
+    const deps: ApiDependencies = {
+      index: createIndex([RESOLVED, CANCELLED, OPEN], BETS),
+      events,
+      getObservations: async () => [],
+      getResolverInfo: async () => ({ tracked: false, resolving: false, timeout: null, resolutionAttempt: null, timeoutDecisions: [] }),
+      getEvidence: async () => null,
+      verifyEvidence: async () => { throw new Error('not used') },
+      getShadowDecisions: () => [
+        shadowDecision(RESOLVED),
+        shadowDecision(RESOLVED, { winningOption: 1 }),
+        shadowDecision(RESOLVED, TIMEOUT_CANCEL),
+        shadowDecision(CANCELLED, TIMEOUT_CANCEL),
+        shadowDecision(CANCELLED),
+        shadowDecision(OPEN),
+      ],
+    }
+
+    const app = express()
+    app.use('/api', createApiRouter(deps))
+    server = app.listen(0)
+    await new Promise(resolve => server.once('listening', resolve))
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api`
+  })
+
+  after(async () => {
+    await new Promise(resolve => server.close(resolve))
+    await events.close()
+  })
+
+  test('odds history replays indexed bets', async () => {
+    const { status, body } = await get(`/markets/${CANCELLED.marketId}/odds`)
+    assert.equal(status, 200)
+    assert.equal(body.marketId, CANCELLED.marketId)
+    assert.equal(body.complete, true)
+    assert.deepEqual(body.points.map((p: any) => [p.timestamp, p.blockNumber, p.pools.yes, p.pools.no, p.yesProbability]), [
+      [1000, null, '0', '0', 50],
+      [1004, 4, ETHER.toString(), '0', 100],
+      [1005, 5, ETHER.toString(), ETHER.toString(), 50],
+    ])
+    assert.deepEqual(body.points[2].odds, { yes: '20000', no: '20000' })
+  })
+
+  test('odds history is flagged incomplete when bets are missing from the index', async () => {
+    const { body } = await get(`/markets/${RESOLVED.marketId}/odds`)
+    assert.equal(body.complete, false)
+    assert.equal(body.points.length, 3)
+  })
+
+  test('odds history rejects bad and unknown market ids', async () => {
+    assert.equal((await get('/markets/0x1234/odds')).status, 400)
+    assert.equal((await get(`/markets/0x${'ef'.repeat(32)}/odds`)).status, 404)
+  })
+
+  test('user bets are grouped by market with what is still claimable', async () => {
+    const { status, body } = await get(`/users/0x${'A1'.repeat(20)}/bets`)
+    assert.equal(status, 200)
+    assert.equal(body.address, ALICE)
+
+    const byMarket = new Map(body.markets.map((m: any) => [m.market.marketId, m]))
+    const resolved: any = byMarket.get(RESOLVED.marketId)
+    const cancelled: any = byMarket.get(CANCELLED.marketId)
+
+    // 1 SOMI on the winning side: stake + 1/3 SOMI share - 2% fee on the share
+    const winnings = ETHER + 333333333333333333n - 6666666666666666n
+    assert.equal(resolved.staked, (2n * ETHER).toString())
+    assert.deepEqual(resolved.bets.map((b: any) => [b.option, b.amount]), [[0, ETHER.toString()], [1, ETHER.toString()]])
+    assert.deepEqual(resolved.claimable, { kind: 'winnings', amount: winnings.toString() })
+    assert.deepEqual(cancelled.claimable, { kind: 'refund', amount: ETHER.toString() })
+    assert.equal(body.totalClaimable, (winnings + ETHER).toString())
+  })
+
+  test('user bets are empty for an address without bets and reject bad addresses', async () => {
+    const { body } = await get(`/users/0x${'99'.repeat(20)}/bets`)
+    assert.deepEqual(body, { address: `0x${'99'.repeat(20)}`, totalClaimable: '0', platformFee: '200', markets: [] })
+    assert.equal((await get('/users/not-an-address/bets')).status, 400)
+  })
+
+  test('shadow decisions are compared with how each market was settled', async () => {
+    const { status, body } = await get('/shadow/decisions')
+    assert.equal(status, 200)
+    assert.deepEqual(body.summary, { decided: 6, settled: 5, agreed: 2, disagreed: 3 })
+
+    // Same winner, other winner, cancel vs resolved, cancel vs cancelled, resolve vs cancelled, still open
+    assert.deepEqual(body.decisions.map((d: any) => d.agrees), [true, false, false, true, false, null])
+
+    const [agreed, , , cancelled, , open] = body.decisions
+    assert.deepEqual(agreed.actual, { status: MarketStatus.RESOLVED, winningOption: 0, txHash: RESOLVED_TX })
+    assert.deepEqual(cancelled.actual, { status: MarketStatus.CANCELLED, winningOption: null, txHash: null })
+    assert.equal(open.actual, null)
+    assert.equal(agreed.question, RESOLVED.question)
+  })
+})
@@ -0,0 +1,154 @@
+/**
+ * Confirmation buffer tests
+ *
+ * Feeds hand-built logs through the buffer with a fake canonical chain, and
+ * checks what is released, what a reorg drops, and which blocks are reported
+ * handled, the order live checkpoints depend on.
+ */
+
+import { describe, test } from 'node:test'
+import assert from 'node:assert/strict'
+import { createConfirmationBuffer, handleConfirmedBlocks, type BufferedEntry, type ChainLog } from '../src/confirmationBuffer'
+
+function blockHash(blockNumber: bigint, fork = 0): `0x${string}` {
+  return `0x${fork.toString(16)}${blockNumber.toString(16).padStart(63, '0')}`
+}
+
+function chainLog(blockNumber: bigint, logIndex: number, overrides: Partial<ChainLog> = {}): ChainLog {
+  return {
+    blockNumber,
+    blockHash: blockHash(blockNumber),
+    transactionHash: `0x${logIndex.toString(16).padStart(64, '1')}`,
+    logIndex,
+    ...overrides,
+  }
+}
+
+function entry(stream: string, blockNumber: bigint, logIndex: number): BufferedEntry<ChainLog> {
+  return { stream, log: chainLog(blockNumber, logIndex) }
+}
+
+// Canonical hashes are the fork-0 hashes unless a test reorgs a block
+function createChain(reorged: Record<string, number> = {}) {
+  const lookups: bigint[] = []
+  return {
+    lookups,
+    getCanonicalHash: async (blockNumber: bigint) => {
+      lookups.push(blockNumber)
+      return blockHash(blockNumber, reorged[blockNumber.toString()] ?? 0)
+    },
+  }
+}
+
+function positions(entries: BufferedEntry<ChainLog>[]) {
+  return entries.map(({ stream, log }) => `${stream} ${log.blockNumber}:${log.logIndex}`)
+}
+
+describe('confirmation buffer', () => {
+  test('holds logs until they are depth blocks deep', async () => {
+    const buffer = createConfirmationBuffer<ChainLog>(2n)
+    const chain = createChain()
+    buffer.add('Transfer', chainLog(10n, 0))
+    buffer.add('Transfer', chainLog(11n, 0))
+
+    assert.deepEqual((await buffer.release(11n, chain.getCanonicalHash)).confirmed, [])
+    assert.deepEqual(positions((await buffer.release(12n, chain.getCanonicalHash)).confirmed), ['Transfer 10:0'])
+    assert.equal(buffer.size, 1)
+    assert.deepEqual(positions((await buffer.release(13n, chain.getCanonicalHash)).confirmed), ['Transfer 11:0'])
+    assert.equal(buffer.size, 0)
+  })
+
+  test('releases in block and log order across streams, whatever order they arrived in', async () => {
+    const buffer = createConfirmationBuffer<ChainLog>(1n)
+    const chain = createChain()
+    buffer.add('Transfer', chainLog(6n, 3))
+    buffer.add('MarketCreated', chainLog(5n, 2))
+    buffer.add('Transfer', chainLog(6n, 1))
+    buffer.add('Transfer', chainLog(5n, 0))
+
+    const { confirmed, dropped } = await buffer.release(7n, chain.getCanonicalHash)
+
+    assert.deepEqual(positions(confirmed), ['Transfer 5:0', 'MarketCreated 5:2', 'Transfer 6:1', 'Transfer 6:3'])
+    assert.deepEqual(dropped, [])
+    // One canonical hash lookup per block, not per log
+    assert.deepEqual(chain.lookups, [5n, 6n])
+  })
+
+  test('discards a buffered log the node reports removed', async () => {
+    const buffer = createConfirmationBuffer<ChainLog>(0n)
+    const chain = createChain()
+    assert.equal(buffer.add('Transfer', chainLog(5n, 0)), true)
+    assert.equal(buffer.add('Transfer', chainLog(5n, 1)), true)
+    assert.equal(buffer.add('Transfer', chainLog(5n, 0, { removed: true })), false)
+
+    const { confirmed, dropped } = await buffer.release(5n, chain.getCanonicalHash)
+
+    assert.deepEqual(positions(confirmed), ['Transfer 5:1'])
+    assert.deepEqual(dropped, [])
+  })
+
+  test('drops logs whose block hash no longer matches the canonical block', async () => {
+    const buffer = createConfirmationBuffer<ChainLog>(1n)
+    // Block 6 was replaced after its logs were buffered
+    const chain = createChain({ 6: 1 })
+    buffer.add('Transfer', chainLog(5n, 0))
+    buffer.add('Transfer', chainLog(6n, 0))
+    buffer.add('MarketCreated', chainLog(6n, 1))
+    // The replacement block's copy of a log carries the new hash
+    buffer.add('Transfer', chainLog(6n, 0, { blockHash: blockHash(6n, 1) }))
+
+    const { confirmed, dropped } = await buffer.release(7n, chain.getCanonicalHash)
+
+    assert.deepEqual(positions(confirmed), ['Transfer 5:0', 'Transfer 6:0'])
+    assert.equal(confirmed[1].log.blockHash, blockHash(6n, 1))
+    assert.deepEqual(positions(dropped), ['Transfer 6:0', 'MarketCreated 6:1'])
+    assert.equal(buffer.size, 0)
+  })
+
+  test('ignores logs that are not mined yet', async () => {
+    const buffer = createConfirmationBuffer<ChainLog>(0n)
+    const chain = createChain()
+    assert.equal(buffer.add('Transfer', chainLog(5n, 0, { blockNumber: null, blockHash: null })), true)
+
+    assert.equal(buffer.size, 0)
+    assert.deepEqual((await buffer.release(100n, chain.getCanonicalHash)).confirmed, [])
+  })
+})
+
+describe('handling confirmed blocks', () => {
+  test('reports each stream of a block after the block\'s last log', async () => {
+    const calls: string[] = []
+    await handleConfirmedBlocks(
+      [entry('Transfer', 5n, 0), entry('MarketCreated', 5n, 1), entry('Transfer', 5n, 2), entry('Transfer', 6n, 0)],
+      async ({ stream, log }) => { calls.push(`handle ${stream} ${log.blockNumber}:${log.logIndex}`) },
+      async (stream, blockNumber) => { calls.push(`done ${stream} ${blockNumber}`) }
+    )
+
+    assert.deepEqual(calls, [
+      'handle Transfer 5:0',
+      'handle MarketCreated 5:1',
+      'handle Transfer 5:2',
+      'done Transfer 5',
+      'done MarketCreated 5',
+      'handle Transfer 6:0',
+      'done Transfer 6',
+    ])
+  })
+
+  test('never reports a block whose logs were not all handled', async () => {
+    const done: bigint[] = []
+    await assert.rejects(
+      handleConfirmedBlocks(
+        [entry('Transfer', 5n, 0), entry('Transfer', 6n, 0), entry('Transfer', 6n, 1), entry('Transfer', 6n, 2)],
+        async ({ log }) => {
+          if (log.blockNumber === 6n && log.logIndex === 1) throw new Error('handler failed')
+        },
+        async (_stream, blockNumber) => { done.push(blockNumber) }
+      ),
+      /handler failed/
+    )
+
+    // Block 6 was half handled, so a checkpoint built on this stays at 5
+    assert.deepEqual(done, [5n])
+  })
+})
@@ -0,0 +1,232 @@
+/**
+ * End-to-end resolution tests
+ *
+ * Runs the resolver against a local devnet (see test/harness) and checks that
+ * every market type settles with the right outcome for every comparator,
+ * both for first-event-after-lock markets and for window aggregations.
+ */
+
+import { after, before, describe, test } from 'node:test'
+import assert from 'node:assert/strict'
+import { parseEther } from 'viem'
+import { startHarness, type CreatedMarket, type Harness, type MarketParams } from '../harness'
+import { MarketType } from '@predex/shared/dataStreams'
+import { Aggregation, Comparator, Metric, getComparatorLabel, selectDecidingObservations } from '../../src/resolutionCriteria'
+import { MarketStatus } from '@predex/shared/types'
+
+const YES = 0
+const NO = 1
+
+// Seconds between the start of a scenario and its markets' resolutionTime
+const LOCK_DELAY = 300n
+
+interface Case extends Omit<MarketParams, 'resolutionTime'> {
+  name: string
+  expected: typeof YES | typeof NO
+}
+
+let harness: Harness
+
+before(async () => {
+  harness = await startHarness()
+}, { timeout: 180000 })
+
+after(async () => {
+  await harness?.stop()
+})
+
+/**
+ * Create one market per case, all locking at the same time
+ */
+async function createMarkets(cases: Case[]): Promise<{ lockAt: bigint; markets: Map<string, CreatedMarket> }> {
+  const lockAt = await harness.devnet.now() + LOCK_DELAY
+  const markets = new Map<string, CreatedMarket>()
+  for (const { name, expected: _expected, ...params } of cases) {
+    markets.set(name, await harness.createMarket({ ...params, question: name, resolutionTime: lockAt }))
+  }
+  return { lockAt, markets }
+}
+
+async function assertSettled(created: CreatedMarket | undefined, expected: number) {
+  assert.ok(created, 'market was not created')
+  const market = await harness.waitForSettlement(created.marketId)
+  assert.equal(market.status, MarketStatus.RESOLVED)
+  assert.equal(market.winningOption, expected, `expected ${expected === YES ? 'YES' : 'NO'} to win`)
+  return market
+}
+
+describe('BLOCK markets', { timeout: 300000 }, () => {
+  // Interval-mined devnet blocks carry a handful of transactions at most
+  const cases: Case[] = [
+    { name: 'tx count GT 1000', marketType: MarketType.BLOCK, comparator: Comparator.GT, threshold: 1000n, expected: NO },
+    { name: 'tx count GTE 0', marketType: MarketType.BLOCK, comparator: Comparator.GTE, threshold: 0n, expected: YES },
+    { name: 'tx count LT 1000', marketType: MarketType.BLOCK, comparator: Comparator.LT, threshold: 1000n, expected: YES },
+    { name: 'tx count LTE 1000', marketType: MarketType.BLOCK, comparator: Comparator.LTE, threshold: 1000n, expected: YES },
+    { name: 'tx count EQ 1000', marketType: MarketType.BLOCK, comparator: Comparator.EQ, threshold: 1000n, expected: NO },
+  ]
+  let markets: Map<string, CreatedMarket>
+
+  before(async () => {
+    const { alice, bob } = harness.actors
+    const created = await createMarkets(cases)
+    markets = created.markets
+
+    for (const { marketId } of markets.values()) {
+      await harness.bet(alice, marketId, YES, parseEther('10'))
+      await harness.bet(bob, marketId, NO, parseEther('5'))
+    }
+
+    await harness.travelTo(created.lockAt)
+  })
+
+  for (const c of cases) {
+    test(c.name, async () => {
+      const created = markets.get(c.name)
+      const market = await assertSettled(created, c.expected)
+
+      // The outcome must match the block the resolver judged, read back from the chain
+      const observations = await harness.resolver.getMarketObservations(market.marketId)
+      const [deciding] = selectDecidingObservations(
+        market,
+        observations.map(o => ({ ...o, timestamp: o.observedAt }))
+      )
+      assert.ok(deciding && deciding.blockNumber !== null, 'no block observation at or after lock')
+      const block = await harness.publicClient.getBlock({ blockNumber: deciding.blockNumber })
+      assert.ok(block.timestamp >= market.resolutionTime)
+      assert.equal(deciding.observation.txCount, BigInt(block.transactions.length))
+    })
+  }
+
+  test('winners can claim', async () => {
+    const { alice } = harness.actors
+    const created = markets.get('tx count GTE 0')!
+    const balance = () => harness.publicClient.readContract({
+      address: harness.contracts.SomiToken.address,
+      abi: harness.contracts.SomiToken.abi,
+      functionName: 'balanceOf',
+      args: [alice.address],
+    }) as Promise<bigint>
+
+    const balanceBefore = await balance()
+    await harness.claim(alice, created.marketId)
+    assert.ok(await balance() > balanceBefore + parseEther('10'), 'YES bettor should get the stake back plus NO pool winnings')
+  })
+})
+
+describe('TRANSFER markets (first transfer after lock)', { timeout: 300000 }, () => {
+  // The deciding transfer is 50 SOMI; thresholds are in whole SOMI
+  const transferCase = (comparator: Comparator, threshold: bigint, expected: typeof YES | typeof NO): Case => ({
+    name: `transfer value ${getComparatorLabel(comparator)} ${threshold} SOMI`,
+    marketType: MarketType.TRANSFER,
+    comparator,
+    threshold,
+    expected,
+  })
+  const cases: Case[] = [
+    transferCase(Comparator.GT, 40n, YES),
+    transferCase(Comparator.GT, 50n, NO),
+    transferCase(Comparator.GTE, 50n, YES),
+    transferCase(Comparator.GTE, 51n, NO),
+    transferCase(Comparator.LT, 60n, YES),
+    transferCase(Comparator.LT, 50n, NO),
+    transferCase(Comparator.LTE, 50n, YES),
+    transferCase(Comparator.LTE, 49n, NO),
+    transferCase(Comparator.EQ, 50n, YES),
+    transferCase(Comparator.EQ, 49n, NO),
+  ]
+  let markets: Map<string, CreatedMarket>
+
+  before(async () => {
+    const { alice, bob, carol } = harness.actors
+    const created = await createMarkets(cases)
+    markets = created.markets
+
+    // Bets and transfers before the lock must not decide anything
+    for (const { marketId } of markets.values()) {
+      await harness.bet(carol, marketId, YES, parseEther('1'))
+    }
+    await harness.transfer(carol, bob.address, parseEther('1000'))
+
+    await harness.travelTo(created.lockAt)
+    await harness.transfer(alice, bob.address, parseEther('50'))
+  })
+
+  for (const c of cases) {
+    test(c.name, async () => {
+      await assertSettled(markets.get(c.name), c.expected)
+    })
+  }
+})
+
+describe('GAME markets (first boss defeat after lock)', { timeout: 300000 }, () => {
+  // The deciding fight takes 45 seconds and deals 1100 damage
+  const cases: Case[] = [
+    { name: 'time taken GT 30s', marketType: MarketType.GAME, metric: Metric.TIME_TAKEN, comparator: Comparator.GT, threshold: 30n, expected: YES },
+    { name: 'time taken GTE 46s', marketType: MarketType.GAME, metric: Metric.TIME_TAKEN, comparator: Comparator.GTE, threshold: 46n, expected: NO },
+    { name: 'time taken LT 45s', marketType: MarketType.GAME, metric: Metric.TIME_TAKEN, comparator: Comparator.LT, threshold: 45n, expected: NO },
+    { name: 'time taken LTE 45s', marketType: MarketType.GAME, metric: Metric.TIME_TAKEN, comparator: Comparator.LTE, threshold: 45n, expected: YES },
+    { name: 'time taken EQ 45s', marketType: MarketType.GAME, metric: Metric.TIME_TAKEN, comparator: Comparator.EQ, threshold: 45n, expected: YES },
+    { name: 'total damage GT 1100', marketType: MarketType.GAME, metric: Metric.TOTAL_DAMAGE, comparator: Comparator.GT, threshold: 1100n, expected: NO },
+    { name: 'total damage GTE 1000', marketType: MarketType.GAME, metric: Metric.TOTAL_DAMAGE, comparator: Comparator.GTE, threshold: 1000n, expected: YES },
+    { name: 'total damage LT 1150', marketType: MarketType.GAME, metric: Metric.TOTAL_DAMAGE, comparator: Comparator.LT, threshold: 1150n, expected: YES },
+    { name: 'total damage LTE 1099', marketType: MarketType.GAME, metric: Metric.TOTAL_DAMAGE, comparator: Comparator.LTE, threshold: 1099n, expected: NO },
+    { name: 'total damage EQ 1000', marketType: MarketType.GAME, metric: Metric.TOTAL_DAMAGE, comparator: Comparator.EQ, threshold: 1000n, expected: NO },
+  ]
+  let markets: Map<string, CreatedMarket>
+
+  before(async () => {
+    const { alice, bob } = harness.actors
+    const created = await createMarkets(cases)
+    markets = created.markets
+
+    // A fight finished before the lock must not decide anything
+    await harness.bossFight(bob, { timeTaken: 20, totalDamage: 1000 })
+
+    await harness.travelTo(created.lockAt)
+    await harness.bossFight(alice, { timeTaken: 45, totalDamage: 1100 })
+  })
+
+  for (const c of cases) {
+    test(c.name, async () => {
+      await assertSettled(markets.get(c.name), c.expected)
+    })
+  }
+})
+
+describe('window aggregations', { timeout: 300000 }, () => {
+  // Inside the window: transfers of 30 and 70 SOMI, fights of 25s and 40s.
+  // After the lock: a 500 SOMI transfer and a 15s fight, which must be ignored.
+  const cases: Case[] = [
+    { name: 'ANY transfer GTE 70 SOMI', marketType: MarketType.TRANSFER, aggregation: Aggregation.ANY, comparator: Comparator.GTE, threshold: 70n, expected: YES },
+    { name: 'ANY transfer GT 70 SOMI', marketType: MarketType.TRANSFER, aggregation: Aggregation.ANY, comparator: Comparator.GT, threshold: 70n, expected: NO },
+    { name: 'MAX transfer EQ 70 SOMI', marketType: MarketType.TRANSFER, aggregation: Aggregation.MAX, comparator: Comparator.EQ, threshold: 70n, expected: YES },
+    { name: 'MIN transfer LT 30 SOMI', marketType: MarketType.TRANSFER, aggregation: Aggregation.MIN, comparator: Comparator.LT, threshold: 30n, expected: NO },
+    { name: 'SUM transfers EQ 100 SOMI', marketType: MarketType.TRANSFER, aggregation: Aggregation.SUM, comparator: Comparator.EQ, threshold: 100n, expected: YES },
+    { name: 'COUNT transfers LTE 2', marketType: MarketType.TRANSFER, aggregation: Aggregation.COUNT, comparator: Comparator.LTE, threshold: 2n, expected: YES },
+    { name: 'MIN time taken GT 20s', marketType: MarketType.GAME, metric: Metric.TIME_TAKEN, aggregation: Aggregation.MIN, comparator: Comparator.GT, threshold: 20n, expected: YES },
+    { name: 'MAX time taken GT 40s', marketType: MarketType.GAME, metric: Metric.TIME_TAKEN, aggregation: Aggregation.MAX, comparator: Comparator.GT, threshold: 40n, expected: NO },
+    { name: 'COUNT fights EQ 2', marketType: MarketType.GAME, aggregation: Aggregation.COUNT, comparator: Comparator.EQ, threshold: 2n, expected: YES },
+  ]
+  let markets: Map<string, CreatedMarket>
+
+  before(async () => {
+    const { alice, bob, carol } = harness.actors
+    const created = await createMarkets(cases)
+    markets = created.markets
+
+    await harness.transfer(alice, carol.address, parseEther('30'))
+    await harness.transfer(bob, carol.address, parseEther('70'))
+    await harness.bossFight(alice, { timeTaken: 25, totalDamage: 1000 })
+    await harness.bossFight(bob, { timeTaken: 40, totalDamage: 1000 })
+
+    await harness.travelTo(created.lockAt)
+    await harness.transfer(carol, alice.address, parseEther('500'))
+    await harness.bossFight(carol, { timeTaken: 15, totalDamage: 1000 })
+  })
+
+  for (const c of cases) {
+    test(c.name, async () => {
+      await assertSettled(markets.get(c.name), c.expected)
+    })
+  }
+})
@@ -0,0 +1,104 @@
+/**
+ * End-to-end shadow mode tests
+ *
+ * Runs the resolver with RESOLVER_MODE=shadow against a local devnet (see
+ * test/harness). It has to decide markets like a live resolver, but the resolver
+ * account never sends a transaction and nothing reaches Data Streams.
+ */
+
+import { after, before, describe, test } from 'node:test'
+import assert from 'node:assert/strict'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { parseEther } from 'viem'
+import { poll, startHarness, type Harness } from '../harness'
+import { MarketType, getSchemaForMarketType } from '@predex/shared/dataStreams'
+import { computeMockSchemaId } from '@predex/shared/streamsClient'
+import { Comparator } from '../../src/resolutionCriteria'
+import type { ShadowDecision } from '../../src/shadowReport'
+import { MarketStatus } from '@predex/shared/types'
+
+const YES = 0
+const NO = 1
+
+// Matches the contract's default cancelGracePeriod, which the resolver never undercuts
+const CANCEL_GRACE = 3600n
+
+let harness: Harness
+let reportDir: string
+
+before(async () => {
+  reportDir = fs.mkdtempSync(path.join(os.tmpdir(), 'predex-shadow-'))
+  harness = await startHarness({
+    env: {
+      RESOLVER_MODE: 'shadow',
+      RESOLVER_SHADOW_REPORT: path.join(reportDir, 'decisions.jsonl'),
+      TIMEOUT_GRACE_GAME: String(CANCEL_GRACE),
+      TIMEOUT_ACTION_GAME: 'cancel',
+    },
+  })
+}, { timeout: 180000 })
+
+after(async () => {
+  await harness?.stop()
+  if (reportDir) fs.rmSync(reportDir, { recursive: true, force: true })
+})
+
+function waitForDecision(marketId: `0x${string}`): Promise<ShadowDecision> {
+  return poll(`shadow decision for ${marketId}`, 60000, async () =>
+    harness.resolver.shadowReport?.list().find(d => d.marketId === marketId) ?? null
+  )
+}
+
+// Nothing was sent from the resolver account and nothing was published
+async function assertNothingSent() {
+  const nonce = await harness.publicClient.getTransactionCount({ address: harness.actors.resolver.address })
+  assert.equal(nonce, 0, 'resolver account sent a transaction')
+  assert.deepEqual(harness.resolver.dataStreamsMockStore?.getEvents(0).events, [], 'resolver published to Data Streams')
+}
+
+describe('shadow mode', { timeout: 300000 }, () => {
+  test('records a resolution without resolving or publishing', async () => {
+    const { alice, bob, carol } = harness.actors
+    const created = await harness.createMarket({
+      marketType: MarketType.TRANSFER,
+      comparator: Comparator.GT,
+      threshold: 100n,
+      // A live resolver would publish every observed transfer under this schema
+      dataSourceId: computeMockSchemaId(getSchemaForMarketType(MarketType.TRANSFER)),
+    })
+    await harness.bet(alice, created.marketId, YES, parseEther('10'))
+    await harness.bet(bob, created.marketId, NO, parseEther('5'))
+
+    await harness.travelTo(created.resolutionTime)
+    await harness.transfer(alice, carol.address, parseEther('150'))
+
+    const decision = await waitForDecision(created.marketId)
+    assert.equal(decision.action, 'resolve')
+    assert.equal(decision.trigger, 'transfer')
+    assert.equal(decision.winningOption, YES)
+
+    assert.equal((await harness.getMarket(created.marketId)).status, MarketStatus.ACTIVE)
+    await assertNothingSent()
+  })
+
+  test('records a timeout cancellation without cancelling', async () => {
+    const created = await harness.createMarket({
+      marketType: MarketType.GAME,
+      comparator: Comparator.LT,
+      threshold: 60n,
+    })
+
+    // No boss fight at all, so only the timeout fallback can decide the market
+    await harness.travelTo(created.resolutionTime + CANCEL_GRACE + 1n)
+
+    const decision = await waitForDecision(created.marketId)
+    assert.equal(decision.action, 'cancel')
+    assert.equal(decision.trigger, 'timeout')
+    assert.equal(decision.winningOption, null)
+
+    assert.equal((await harness.getMarket(created.marketId)).status, MarketStatus.ACTIVE)
+    await assertNothingSent()
+  })
+})
@@ -0,0 +1,103 @@
+/**
+ * Event store tests
+ *
+ * Uses in-memory SQLite, except for checkpoints, which are written to a file
+ * in a temp directory so they can be read back after the store is reopened.
+ */
+
+import { describe, test } from 'node:test'
+import assert from 'node:assert/strict'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { createEventStore, type IndexedEvent } from '../src/eventStore'
+import { BETTOR, ETHER, bet, betPlaced } from './fixtures'
+
+const MARKET_B = `0x${'bb'.repeat(32)}` as const
+
+// A 1 SOMI bet on YES, mined at `logIndex` in `blockNumber`
+function placed(blockNumber: bigint, logIndex: number, overrides: Partial<IndexedEvent> = {}): IndexedEvent {
+  return betPlaced(bet(0, ETHER, { timestamp: 1000n + blockNumber }), blockNumber, { logIndex, ...overrides })
+}
+
+function tempDbPath() {
+  return path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'predex-events-')), 'events.db')
+}
+
+describe('event store', () => {
+  test('returns events in chain order with their args decoded', async () => {
+    const store = createEventStore(':memory:')
+    await store.saveEvents([placed(12n, 0), placed(10n, 3), placed(10n, 1)])
+
+    const events = await store.getEvents({})
+    assert.deepEqual(events.map(e => [e.blockNumber, e.logIndex]), [[10n, 1], [10n, 3], [12n, 0]])
+    assert.deepEqual(events[0], placed(10n, 1))
+    assert.equal(typeof events[0].args.amount, 'bigint')
+
+    const desc = await store.getEvents({ order: 'desc', limit: 1 })
+    assert.deepEqual(desc.map(e => e.blockNumber), [12n])
+    await store.close()
+  })
+
+  test('re-indexing the same log overwrites it instead of adding a row', async () => {
+    const store = createEventStore(':memory:')
+    await store.saveEvents([placed(10n, 0), placed(11n, 0)])
+
+    // Same (txHash, logIndex) seen again after a reorg, in a different block
+    const moved = placed(10n, 0, { blockNumber: 13n, blockHash: `0x${'ee'.repeat(32)}`, timestamp: 2000n })
+    await store.saveEvents([moved, placed(11n, 0)])
+
+    assert.equal(await store.countEvents({}), 2)
+    const events = await store.getEvents({})
+    assert.deepEqual(events.map(e => e.blockNumber), [11n, 13n])
+    assert.equal(events[1].blockHash, moved.blockHash)
+    assert.equal(events[1].timestamp, 2000n)
+    await store.close()
+  })
+
+  test('filters by contract, event, market, account and block range', async () => {
+    const store = createEventStore(':memory:')
+    await store.saveEvents([
+      placed(10n, 0),
+      betPlaced(bet(1, 5n, { marketId: MARKET_B, timestamp: 1011n }), 11n),
+      placed(12n, 0, { eventName: 'WinningsClaimed' }),
+      placed(13n, 0, { contract: 'SomiToken', eventName: 'Transfer', marketId: null, account: `0x${'22'.repeat(20)}` }),
+    ])
+
+    // Ids and addresses are matched case-insensitively
+    assert.equal(await store.countEvents({ marketId: `0x${'BB'.repeat(32)}` }), 1)
+    assert.equal(await store.countEvents({ contract: 'PredictionMarket', eventName: 'BetPlaced' }), 2)
+    assert.equal(await store.countEvents({ account: BETTOR }), 3)
+    assert.equal(await store.countEvents({ contract: 'SomiToken' }), 1)
+    assert.deepEqual((await store.getEvents({ fromBlock: 11n, toBlock: 12n })).map(e => e.blockNumber), [11n, 12n])
+    assert.deepEqual((await store.getEvents({ limit: 2, offset: 1 })).map(e => e.blockNumber), [11n, 12n])
+    await store.close()
+  })
+
+  test('deletes the events of one contract only', async () => {
+    const store = createEventStore(':memory:')
+    const transfer: IndexedEvent = { ...placed(11n, 0), contract: 'SomiToken', eventName: 'Transfer', marketId: null }
+    await store.saveEvents([placed(10n, 0), transfer])
+
+    await store.deleteEvents('PredictionMarket')
+    assert.deepEqual(await store.getEvents({}), [transfer])
+    await store.close()
+  })
+
+  test('keeps checkpoints per key across a reopen', async () => {
+    const dbPath = tempDbPath()
+    const store = createEventStore(dbPath)
+
+    assert.equal(await store.getCheckpoint('PredictionMarket'), null)
+    await store.setCheckpoint('PredictionMarket', 100n)
+    await store.setCheckpoint('SomiToken', 90n)
+    await store.setCheckpoint('PredictionMarket', 120n)
+    await store.close()
+
+    const reopened = createEventStore(dbPath)
+    assert.equal(await reopened.getCheckpoint('PredictionMarket'), 120n)
+    assert.equal(await reopened.getCheckpoint('SomiToken'), 90n)
+    assert.equal(await reopened.getCheckpoint('BossBattleGame'), null)
+    await reopened.close()
+  })
+})
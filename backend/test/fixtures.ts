@@ -0,0 +1,86 @@
+/**
+ * Shared test fixtures
+ *
+ * Markets, bets and the events built from them, with defaults the tests
+ * override field by field.
+ */
+
+import type { IndexedEvent } from '../src/eventStore'
+import type { ShadowDecision } from '../src/shadowReport'
+import { Aggregation, Comparator, MarketStatus, MarketType, Metric, type Bet, type Market } from '@predex/shared/types'
+
+export const ETHER = 10n ** 18n
+export const MARKET_ID = `0x${'ab'.repeat(32)}` as const
+export const BETTOR = `0x${'11'.repeat(20)}` as const
+export const SOMI_TOKEN = `0x${'22'.repeat(20)}` as const
+
+/**
+ * An active transfer market: YES when a transfer above 100 SOMI happens after lock
+ * Fields are in getMarket order; totalPool follows optionPools unless given.
+ */
+export function market(overrides: Partial<Market> = {}): Market {
+  const optionPools = overrides.optionPools ?? [0n, 0n]
+  return {
+    marketId: MARKET_ID,
+    marketType: MarketType.TRANSFER,
+    question: 'Will a transfer above 100 SOMI happen?',
+    creator: BETTOR,
+    createdAt: 1000n,
+    resolutionTime: 2000n,
+    status: MarketStatus.ACTIVE,
+    winningOption: 0,
+    totalPool: optionPools[0] + optionPools[1],
+    optionPools,
+    dataSourceId: `0x${'cd'.repeat(32)}`,
+    threshold: 100n,
+    thresholdToken: SOMI_TOKEN,
+    comparator: Comparator.GT,
+    metric: Metric.TRANSFER_VALUE,
+    aggregation: Aggregation.FIRST_AFTER_LOCK,
+    ...overrides,
+  }
+}
+
+/**
+ * An unclaimed bet of `amount` on `option` (0 = YES, 1 = NO)
+ */
+export function bet(option: number, amount: bigint, overrides: Partial<Bet> = {}): Bet {
+  return { bettor: BETTOR, marketId: MARKET_ID, option, amount, timestamp: 1000n, claimed: false, ...overrides }
+}
+
+/**
+ * The indexed BetPlaced event of a bet mined in `blockNumber`
+ */
+export function betPlaced(placed: Bet, blockNumber: bigint, overrides: Partial<IndexedEvent> = {}): IndexedEvent {
+  return {
+    contract: 'PredictionMarket',
+    eventName: 'BetPlaced',
+    blockNumber,
+    blockHash: `0x${blockNumber.toString(16).padStart(64, '0')}`,
+    txHash: `0x${blockNumber.toString(16).padStart(64, '1')}`,
+    logIndex: 0,
+    timestamp: placed.timestamp,
+    marketId: placed.marketId,
+    account: placed.bettor,
+    args: { marketId: placed.marketId, bettor: placed.bettor, option: placed.option, amount: placed.amount, timestamp: placed.timestamp },
+    ...overrides,
+  }
+}
+
+/**
+ * A shadow mode decision resolving a market YES on a transfer
+ */
+export function shadowDecision(decided: Market, overrides: Partial<ShadowDecision> = {}): ShadowDecision {
+  return {
+    marketId: decided.marketId,
+    marketType: decided.marketType,
+    question: decided.question,
+    criteria: 'firstAfterLock value gt 100',
+    trigger: 'transfer',
+    action: 'resolve',
+    winningOption: 0,
+    observations: [],
+    decidedAt: 2050,
+    ...overrides,
+  }
+}
@@ -0,0 +1,95 @@
+/**
+ * Contract Deployment for the PredEx End-to-End Harness
+ *
+ * Deploys SomiToken, PredictionMarket and BossBattleGame from the Foundry
+ * build output (`forge build` in contracts/) and records them in a
+ * localhost-latest.json shaped like the one smart-contracts/scripts/deploy.ts
+ * writes, so the resolver picks them up through the network registry.
+ */
+
+import fs from 'fs'
+import path from 'path'
+import type { Abi, Account, PublicClient, WalletClient } from 'viem'
+
+// Foundry output directory holding <Name>.sol/<Name>.json artifacts
+const ARTIFACTS_DIR = process.env.E2E_ARTIFACTS_DIR || path.join(__dirname, '../../../contracts/out')
+
+export type ContractName = 'SomiToken' | 'PredictionMarket' | 'BossBattleGame'
+
+export interface Artifact {
+  abi: Abi
+  bytecode: `0x${string}`
+}
+
+export interface DeployedContract {
+  address: `0x${string}`
+  blockNumber: bigint
+  abi: Abi
+}
+
+export type Deployment = Record<ContractName, DeployedContract>
+
+export function loadArtifact(name: ContractName): Artifact {
+  const file = path.join(ARTIFACTS_DIR, `${name}.sol`, `${name}.json`)
+  if (!fs.existsSync(file)) {
+    throw new Error(`Missing artifact ${file}. Run \`forge build\` in contracts/ (or set E2E_ARTIFACTS_DIR)`)
+  }
+
+  const json = JSON.parse(fs.readFileSync(file, 'utf8'))
+  // Foundry nests the creation code under bytecode.object
+  const bytecode = typeof json.bytecode === 'string' ? json.bytecode : json.bytecode?.object
+  if (!bytecode || bytecode === '0x') {
+    throw new Error(`Artifact ${file} has no creation bytecode`)
+  }
+  return { abi: json.abi, bytecode }
+}
+
+async function deploy(
+  publicClient: PublicClient,
+  walletClient: WalletClient,
+  account: Account,
+  name: ContractName,
+  args: readonly unknown[] = []
+): Promise<DeployedContract> {
+  const { abi, bytecode } = loadArtifact(name)
+  const hash = await walletClient.deployContract({ abi, bytecode, args, account, chain: walletClient.chain })
+  const receipt = await publicClient.waitForTransactionReceipt({ hash })
+  if (!receipt.contractAddress) throw new Error(`${name} deployment did not create a contract`)
+  return { address: receipt.contractAddress, blockNumber: receipt.blockNumber, abi }
+}
+
+/**
+ * Deploy the three contracts in the same order as the hardhat deploy script
+ */
+export async function deployContracts(
+  publicClient: PublicClient,
+  walletClient: WalletClient,
+  deployer: Account
+): Promise<Deployment> {
+  const somiToken = await deploy(publicClient, walletClient, deployer, 'SomiToken')
+  const market = await deploy(publicClient, walletClient, deployer, 'PredictionMarket', [somiToken.address])
+  const game = await deploy(publicClient, walletClient, deployer, 'BossBattleGame')
+
+  return { SomiToken: somiToken, PredictionMarket: market, BossBattleGame: game }
+}
+
+/**
+ * Write the deployment as <dir>/localhost-latest.json for the `local` network
+ */
+export function writeDeploymentFile(dir: string, chainId: number, deployer: `0x${string}`, deployment: Deployment): string {
+  const contracts: Record<string, { address: string; blockNumber: number }> = {}
+  for (const [name, contract] of Object.entries(deployment)) {
+    contracts[name] = { address: contract.address, blockNumber: Number(contract.blockNumber) }
+  }
+
+  fs.mkdirSync(dir, { recursive: true })
+  const file = path.join(dir, 'localhost-latest.json')
+  fs.writeFileSync(file, JSON.stringify({
+    network: 'localhost',
+    chainId: String(chainId),
+    deployer,
+    timestamp: new Date().toISOString(),
+    contracts,
+  }, null, 2))
+  return file
+}
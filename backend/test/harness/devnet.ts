@@ -0,0 +1,112 @@
+/**
+ * Local Devnet for the PredEx End-to-End Harness
+ *
+ * Starts an anvil node with interval mining, so blocks keep coming while the
+ * resolver waits for confirmations, and exposes the time-travel RPCs the
+ * scenarios use to jump past a market's resolutionTime.
+ */
+
+import { spawn, type ChildProcess } from 'child_process'
+import { createPublicClient, createTestClient, http, type PublicClient, type TestClient } from 'viem'
+import { localDevnet, withRpcUrl } from '@predex/shared/networks'
+
+// anvil binary (foundry); override to point at a specific install
+const ANVIL_BIN = process.env.ANVIL_BIN || 'anvil'
+// Port for the test node; kept off 8545 so a dev node can run alongside
+const DEFAULT_PORT = Number(process.env.E2E_ANVIL_PORT || '8546')
+// Seconds between mined blocks
+const BLOCK_TIME = 1
+// How long to wait for the node to answer RPC calls after spawning it
+const STARTUP_TIMEOUT_MS = 30000
+
+export interface Devnet {
+  rpcUrl: string
+  publicClient: PublicClient
+  testClient: TestClient<'anvil'>
+  // Latest block timestamp, the clock the contracts enforce
+  now: () => Promise<bigint>
+  // Move chain time forward and mine a block at the new time
+  travel: (seconds: number) => Promise<void>
+  // Mine whatever `send` submits into a single block at an exact timestamp
+  mineAt: <T>(timestamp: bigint, send: () => Promise<T>) => Promise<T>
+  stop: () => Promise<void>
+}
+
+function sleep(ms: number) {
+  return new Promise(resolve => setTimeout(resolve, ms))
+}
+
+async function waitForRpc(client: PublicClient, node: ChildProcess) {
+  const deadline = Date.now() + STARTUP_TIMEOUT_MS
+  while (Date.now() < deadline) {
+    if (node.exitCode !== null) {
+      throw new Error(`anvil exited with code ${node.exitCode} before accepting RPC calls`)
+    }
+    try {
+      await client.getChainId()
+      return
+    } catch {
+      await sleep(250)
+    }
+  }
+  throw new Error(`anvil did not answer RPC calls within ${STARTUP_TIMEOUT_MS}ms`)
+}
+
+export async function startDevnet(port: number = DEFAULT_PORT): Promise<Devnet> {
+  const rpcUrl = `http://127.0.0.1:${port}`
+  const chain = withRpcUrl(localDevnet, rpcUrl)
+
+  const node = spawn(ANVIL_BIN, [
+    '--port', String(port),
+    '--chain-id', String(localDevnet.id),
+    '--block-time', String(BLOCK_TIME),
+    '--silent',
+  ], { stdio: ['ignore', 'ignore', 'inherit'] })
+
+  const spawned = new Promise<void>((resolve, reject) => {
+    node.once('spawn', () => resolve())
+    node.once('error', (error) => reject(new Error(`Could not start ${ANVIL_BIN} (is foundry installed?): ${error.message}`)))
+  })
+  await spawned
+
+  const publicClient = createPublicClient({ chain, transport: http(rpcUrl), pollingInterval: 250 })
+  const testClient = createTestClient({ chain, mode: 'anvil', transport: http(rpcUrl) })
+
+  try {
+    await waitForRpc(publicClient, node)
+  } catch (error) {
+    node.kill()
+    throw error
+  }
+
+  const now = async () => (await publicClient.getBlock()).timestamp
+
+  return {
+    rpcUrl,
+    publicClient,
+    testClient,
+    now,
+    travel: async (seconds) => {
+      await testClient.increaseTime({ seconds })
+      await testClient.mine({ blocks: 1 })
+    },
+    mineAt: async (timestamp, send) => {
+      // Pause interval mining so no block sneaks in between submitting and mining
+      await testClient.setIntervalMining({ interval: 0 })
+      try {
+        const result = await send()
+        await testClient.setNextBlockTimestamp({ timestamp })
+        await testClient.mine({ blocks: 1 })
+        return result
+      } finally {
+        await testClient.setIntervalMining({ interval: BLOCK_TIME })
+      }
+    },
+    stop: async () => {
+      if (node.exitCode !== null) return
+      const exited = new Promise(resolve => node.once('exit', resolve))
+      node.kill('SIGTERM')
+      await exited
+    },
+  }
+}
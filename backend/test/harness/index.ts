@@ -0,0 +1,335 @@
+/**
+ * End-to-End Harness for PredEx
+ *
+ * Brings up a local anvil devnet, deploys SomiToken, PredictionMarket and
+ * BossBattleGame, authorizes a resolver account and runs the real resolver
+ * service against it in-process. Scenario helpers script markets, bets,
+ * transfers and boss fights, moving chain time forward where a market needs
+ * its resolutionTime to pass.
+ *
+ * Requires Foundry: `anvil` on the PATH and `forge build` run in contracts/.
+ * The resolver reads its configuration on import, so a harness can only be
+ * started once per process.
+ */
+
+import fs from 'fs'
+import os from 'os'
+import {
+  createWalletClient,
+  http,
+  keccak256,
+  parseEther,
+  parseEventLogs,
+  toBytes,
+  type Account,
+  type Abi,
+  type PublicClient,
+} from 'viem'
+import { privateKeyToAccount } from 'viem/accounts'
+import { localDevnet, withRpcUrl } from '@predex/shared/networks'
+import { ZERO_BYTES32, MarketType } from '@predex/shared/dataStreams'
+import { Aggregation, Comparator, Metric } from '../../src/resolutionCriteria'
+import { decodeMarket } from '@predex/shared/marketDecoder'
+import { Market, MarketStatus } from '@predex/shared/types'
+import { startDevnet, type Devnet } from './devnet'
+import { deployContracts, writeDeploymentFile, type Deployment } from './contracts'
+
+// Well-known anvil dev keys (mnemonic "test test ... junk"); never use them outside a devnet
+const ANVIL_KEYS = [
+  '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80',
+  '0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d',
+  '0x5de4111afa1a4b94908f83103eb1f1706367c2e68ca870fc3fb9a804cdab365a',
+  '0x7c852118294e51e653712a81e05800f419141751be58f605c371e15141b007a6',
+  '0x47e179ec197488593b187f80a00eb0da91f1b9d0b13f8733639f19c30a34926a',
+] as const
+
+// SOMI minted to every player before any market exists, so later mints never
+// show up as Transfer events inside a TRANSFER market's window
+const PLAYER_FUNDING = parseEther('10000')
+// Seconds between creating a market and its resolutionTime, unless the scenario sets one
+const DEFAULT_MARKET_DURATION = 300n
+// How long to wait for the resolver to track or settle a market
+const DEFAULT_WAIT_MS = 60000
+// Grace period for the timeout fallback; long enough that it never fires during a run
+const NO_TIMEOUT_GRACE = String(10 * 365 * 24 * 60 * 60)
+
+// Metric used when a scenario does not pick one
+const DEFAULT_METRIC: Record<MarketType, Metric> = {
+  [MarketType.BLOCK]: Metric.TX_COUNT,
+  [MarketType.TRANSFER]: Metric.TRANSFER_VALUE,
+  [MarketType.GAME]: Metric.TIME_TAKEN,
+}
+
+export type ResolverModule = typeof import('../../src/resolverService')
+
+export interface Actors {
+  deployer: Account
+  resolver: Account
+  alice: Account
+  bob: Account
+  carol: Account
+}
+
+export interface MarketParams {
+  marketType: MarketType
+  comparator: Comparator
+  threshold: bigint // Raw contract threshold: tx count, whole SOMI or seconds / damage
+  metric?: Metric
+  aggregation?: Aggregation
+  question?: string
+  // Shared by markets a scenario settles together; markets take a few seconds each to create
+  resolutionTime?: bigint
+  // Data Streams schema the resolver publishes observations under; none by default
+  dataSourceId?: `0x${string}`
+}
+
+export interface HarnessOptions {
+  // Resolver environment on top of the harness defaults, e.g. { RESOLVER_MODE: 'shadow' }
+  env?: Record<string, string>
+}
+
+export interface CreatedMarket {
+  marketId: `0x${string}`
+  resolutionTime: bigint
+}
+
+export interface BossFight {
+  timeTaken: number // Seconds between startGame and the killing blow (at most TIME_LIMIT = 120)
+  totalDamage: number // Damage once the boss falls, 1000-1199 (last hit is 200)
+}
+
+export interface Harness {
+  devnet: Devnet
+  publicClient: PublicClient
+  actors: Actors
+  contracts: Deployment
+  resolver: ResolverModule
+  createMarket: (params: MarketParams) => Promise<CreatedMarket>
+  bet: (player: Account, marketId: `0x${string}`, option: 0 | 1, amount: bigint) => Promise<void>
+  transfer: (from: Account, to: `0x${string}`, amount: bigint) => Promise<void>
+  bossFight: (player: Account, fight: BossFight) => Promise<`0x${string}`>
+  claim: (player: Account, marketId: `0x${string}`) => Promise<void>
+  // Mine a block at `timestamp`, moving chain time past a resolutionTime
+  travelTo: (timestamp: bigint) => Promise<void>
+  getMarket: (marketId: `0x${string}`) => Promise<Market>
+  waitForTracked: (marketId: `0x${string}`, timeoutMs?: number) => Promise<void>
+  waitForSettlement: (marketId: `0x${string}`, timeoutMs?: number) => Promise<Market>
+  stop: () => Promise<void>
+}
+
+function sleep(ms: number) {
+  return new Promise(resolve => setTimeout(resolve, ms))
+}
+
+export async function poll<T>(label: string, timeoutMs: number, check: () => Promise<T | null>): Promise<T> {
+  const deadline = Date.now() + timeoutMs
+  while (Date.now() < deadline) {
+    const result = await check()
+    if (result !== null) return result
+    await sleep(500)
+  }
+  throw new Error(`Timed out after ${timeoutMs}ms waiting for ${label}`)
+}
+
+/**
+ * Damage per hit for a fight that ends at exactly `totalDamage`
+ * Every hit is at most 200 and only the final 200 crosses BOSS_HP = 1000.
+ */
+export function planHits(totalDamage: number): number[] {
+  if (totalDamage < 1000 || totalDamage > 1199) {
+    throw new Error(`totalDamage must be 1000-1199, got ${totalDamage}`)
+  }
+
+  const hits: number[] = []
+  let before = totalDamage - 200
+  while (before > 0) {
+    const hit = Math.min(200, before)
+    hits.push(hit)
+    before -= hit
+  }
+  hits.push(200)
+  return hits
+}
+
+export async function startHarness(options: HarnessOptions = {}): Promise<Harness> {
+  const devnet = await startDevnet()
+  const { publicClient } = devnet
+  const chain = withRpcUrl(localDevnet, devnet.rpcUrl)
+
+  const [deployer, resolver, alice, bob, carol] = ANVIL_KEYS.map(key => privateKeyToAccount(key))
+  const actors: Actors = { deployer, resolver, alice, bob, carol }
+  const players = [alice, bob, carol]
+
+  const walletFor = (account: Account) => createWalletClient({ chain, account, transport: http(devnet.rpcUrl) })
+
+  // Send a contract call and fail loudly if it reverts
+  async function send(account: Account, address: `0x${string}`, abi: Abi, functionName: string, args: readonly unknown[]) {
+    const hash = await walletFor(account).writeContract({ address, abi, functionName, args, account, chain })
+    const receipt = await publicClient.waitForTransactionReceipt({ hash })
+    if (receipt.status !== 'success') throw new Error(`${functionName} reverted (${hash})`)
+    return receipt
+  }
+
+  let deploymentsDir: string | null = null
+  try {
+    // ===== DEPLOY =====
+    const contracts = await deployContracts(publicClient, walletFor(deployer), deployer)
+    const { SomiToken: token, PredictionMarket: market, BossBattleGame: game } = contracts
+
+    await send(deployer, market.address, market.abi, 'setResolver', [resolver.address, true])
+
+    for (const player of players) {
+      await send(player, token.address, token.abi, 'mint', [player.address, PLAYER_FUNDING])
+    }
+
+    deploymentsDir = fs.mkdtempSync(`${os.tmpdir()}/predex-e2e-`)
+    writeDeploymentFile(deploymentsDir, localDevnet.id, deployer.address, contracts)
+
+    // ===== RESOLVER =====
+    // Explicit values win over backend/.env, which dotenv never overrides
+    Object.assign(process.env, {
+      NETWORK: 'local',
+      DEPLOYMENTS_DIR: deploymentsDir,
+      SOMNIA_RPC_URL: devnet.rpcUrl,
+      SOMNIA_WS_URL: '',
+      MARKET_CONTRACT: '',
+      SOMI_TOKEN: '',
+      GAME_CONTRACT: '',
+      RESOLVER_PRIVATE_KEY: ANVIL_KEYS[1],
+      RESOLVER_MODE: 'live',
+      RESOLVER_STORE: 'memory',
+      // A dev resolver holding the local lease file must not keep the test resolver on standby
+      RESOLVER_LEASE_STORE: 'memory',
+      RESOLVER_START_BLOCK: '',
+      CONFIRMATION_DEPTH: '1',
+      DATA_STREAMS_MODE: 'mock',
+      TIMEOUT_GRACE_BLOCK: NO_TIMEOUT_GRACE,
+      TIMEOUT_GRACE_TRANSFER: NO_TIMEOUT_GRACE,
+      TIMEOUT_GRACE_GAME: NO_TIMEOUT_GRACE,
+      TX_RETRY_BASE_MS: '250',
+      TX_STUCK_TIMEOUT_MS: '10000',
+      ...options.env,
+    })
+
+    const resolverService: ResolverModule = await import('../../src/resolverService')
+    await resolverService.startResolverService()
+
+    // ===== SCENARIO HELPERS =====
+    let marketCount = 0
+
+    const getMarket = async (marketId: `0x${string}`) => decodeMarket(market.abi, await publicClient.readContract({
+      address: market.address,
+      abi: market.abi,
+      functionName: 'getMarket',
+      args: [marketId],
+    }))
+
+    const waitForTracked = (marketId: `0x${string}`, timeoutMs = DEFAULT_WAIT_MS) =>
+      poll(`resolver to track ${marketId}`, timeoutMs, async () =>
+        (await resolverService.getMarketResolverInfo(marketId)).tracked ? true : null
+      ).then(() => undefined)
+
+    const createMarket = async (params: MarketParams): Promise<CreatedMarket> => {
+      marketCount++
+      const question = params.question ?? `E2E market #${marketCount}`
+      const marketId = keccak256(toBytes(`predex-e2e-${marketCount}-${question}`))
+      const resolutionTime = params.resolutionTime ?? await devnet.now() + DEFAULT_MARKET_DURATION
+
+      await send(deployer, market.address, market.abi, 'createMarket', [
+        marketId,
+        params.marketType,
+        question,
+        resolutionTime,
+        params.dataSourceId ?? ZERO_BYTES32, // Without a Data Streams source nothing is published
+        params.threshold,
+        params.marketType === MarketType.TRANSFER ? token.address : '0x0000000000000000000000000000000000000000',
+        params.comparator,
+        params.metric ?? DEFAULT_METRIC[params.marketType],
+        params.aggregation ?? Aggregation.FIRST_AFTER_LOCK,
+      ])
+
+      // Events are only judged for markets the resolver already tracks
+      await waitForTracked(marketId)
+      return { marketId, resolutionTime }
+    }
+
+    const bet = async (player: Account, marketId: `0x${string}`, option: 0 | 1, amount: bigint) => {
+      await send(player, token.address, token.abi, 'approve', [market.address, amount])
+      await send(player, market.address, market.abi, 'placeBet', [marketId, option, amount])
+    }
+
+    const transfer = async (from: Account, to: `0x${string}`, amount: bigint) => {
+      await send(from, token.address, token.abi, 'transfer', [to, amount])
+    }
+
+    const bossFight = async (player: Account, fight: BossFight): Promise<`0x${string}`> => {
+      const hits = planHits(fight.totalDamage)
+
+      const started = await send(player, game.address, game.abi, 'startGame', [1])
+      const [gameStarted] = parseEventLogs({ abi: game.abi, logs: started.logs, eventName: 'GameStarted' })
+      const { sessionId } = (gameStarted as unknown as { args: { sessionId: `0x${string}` } }).args
+      const startTime = (await publicClient.getBlock({ blockNumber: started.blockNumber })).timestamp
+
+      for (const hit of hits.slice(0, -1)) {
+        await send(player, game.address, game.abi, 'dealDamage', [sessionId, hit])
+      }
+
+      // The killing blow lands exactly timeTaken seconds after the start
+      const endTime = startTime + BigInt(fight.timeTaken)
+      // One block of headroom, since interval mining keeps running until mineAt pauses it
+      if (await devnet.now() + 1n >= endTime) {
+        throw new Error(`Fight took longer than the requested ${fight.timeTaken}s; use a larger timeTaken`)
+      }
+      const hash = await devnet.mineAt(endTime, () =>
+        walletFor(player).writeContract({
+          address: game.address,
+          abi: game.abi,
+          functionName: 'dealDamage',
+          args: [sessionId, hits[hits.length - 1]],
+          account: player,
+          chain,
+        })
+      )
+      const receipt = await publicClient.waitForTransactionReceipt({ hash })
+      if (receipt.status !== 'success') throw new Error(`Killing blow reverted (${hash})`)
+      return sessionId
+    }
+
+    const claim = async (player: Account, marketId: `0x${string}`) => {
+      await send(player, market.address, market.abi, 'claimWinnings', [marketId])
+    }
+
+    const waitForSettlement = (marketId: `0x${string}`, timeoutMs = DEFAULT_WAIT_MS) =>
+      poll(`market ${marketId} to settle`, timeoutMs, async () => {
+        const current = await getMarket(marketId)
+        return current.status === MarketStatus.ACTIVE ? null : current
+      })
+
+    const dir = deploymentsDir
+    return {
+      devnet,
+      publicClient,
+      actors,
+      contracts,
+      resolver: resolverService,
+      createMarket,
+      bet,
+      transfer,
+      bossFight,
+      claim,
+      travelTo: (timestamp) => devnet.mineAt(timestamp, async () => undefined),
+      getMarket,
+      waitForTracked,
+      waitForSettlement,
+      stop: async () => {
+        await resolverService.stopResolverService()
+        await devnet.stop()
+        fs.rmSync(dir, { recursive: true, force: true })
+      },
+    }
+  } catch (error) {
+    await devnet.stop()
+    if (deploymentsDir) fs.rmSync(deploymentsDir, { recursive: true, force: true })
+    throw error
+  }
+}
@@ -0,0 +1,111 @@
+/**
+ * Resolver leader election tests
+ *
+ * Electors compete through a shared SQLite file and the in-memory store with
+ * short leases, so expiry and takeover happen within the test.
+ */
+
+import { describe, test } from 'node:test'
+import assert from 'node:assert/strict'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { createLeaderElector, createMemoryLeaseStore, createSqliteLeaseStore } from '../src/leaderElection'
+
+const MARKET_ID = `0x${'ab'.repeat(32)}` as const
+const TX_HASH = `0x${'cd'.repeat(32)}` as const
+
+function sleep(ms: number) {
+  return new Promise(resolve => setTimeout(resolve, ms))
+}
+
+async function waitFor(condition: () => boolean, timeoutMs = 2000) {
+  const deadline = Date.now() + timeoutMs
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error('condition not met in time')
+    await sleep(10)
+  }
+}
+
+describe('leader election', () => {
+  test('only one of two instances sharing a lease file leads', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'predex-lease-'))
+    const dbPath = path.join(dir, 'lease.db')
+    const storeA = createSqliteLeaseStore(dbPath)
+    const storeB = createSqliteLeaseStore(dbPath)
+
+    const first = await storeA.acquire('a', 1000)
+    const second = await storeB.acquire('b', 1000)
+    assert.equal(first.holder, 'a')
+    assert.equal(second.holder, 'a')
+    assert.equal(second.term, first.term)
+
+    // Renewing keeps the term; releasing lets the other instance in with the next one
+    assert.equal((await storeA.acquire('a', 1000)).term, first.term)
+    await storeA.release('a')
+    const takeover = await storeB.acquire('b', 1000)
+    assert.equal(takeover.holder, 'b')
+    assert.equal(takeover.term, first.term + 1)
+
+    await storeA.recordBroadcast({ marketId: MARKET_ID, holder: 'a', term: first.term, txHash: TX_HASH, broadcastAt: 1 })
+    assert.deepEqual(await storeB.getBroadcasts(MARKET_ID), [
+      { marketId: MARKET_ID, holder: 'a', term: first.term, txHash: TX_HASH, broadcastAt: 1 },
+    ])
+
+    await storeA.close()
+    await storeB.close()
+    fs.rmSync(dir, { recursive: true, force: true })
+  })
+
+  test('a standby takes over once the leader stops renewing', async () => {
+    const store = createMemoryLeaseStore()
+    const leader = createLeaderElector({ store, holder: 'a', leaseMs: 150, renewMs: 30 })
+    const standby = createLeaderElector({ store, holder: 'b', leaseMs: 150, renewMs: 30 })
+
+    await leader.start()
+    await standby.start()
+    assert.equal(leader.isLeader(), true)
+    assert.equal(standby.isLeader(), false)
+
+    // Several renewals later the leader still holds the lease
+    await sleep(200)
+    assert.equal(leader.isLeader(), true)
+    assert.equal(standby.isLeader(), false)
+    const term = leader.term
+
+    await leader.stop()
+    assert.equal(leader.isLeader(), false)
+    await waitFor(() => standby.isLeader())
+    assert.equal(standby.term, term! + 1)
+
+    await standby.stop()
+  })
+
+  test('a leader that cannot renew steps down before its lease expires', async () => {
+    const store = createMemoryLeaseStore()
+    let reachable = true
+    const flaky = {
+      ...store,
+      acquire: async (holder: string, ttlMs: number) => {
+        if (!reachable) throw new Error('lease store unreachable')
+        return store.acquire(holder, ttlMs)
+      },
+    }
+    const leader = createLeaderElector({ store: flaky, holder: 'a', leaseMs: 150, renewMs: 30 })
+    const standby = createLeaderElector({ store, holder: 'b', leaseMs: 150, renewMs: 30 })
+
+    await leader.start()
+    await standby.start()
+    reachable = false
+
+    // The leader gives up while its lease is still valid, so the two never overlap
+    await waitFor(() => !leader.isLeader())
+    assert.equal(standby.isLeader(), false)
+    await waitFor(() => standby.isLeader())
+    assert.equal(leader.isLeader(), false)
+    assert.match(leader.getStatus().lastError ?? '', /unreachable/)
+
+    await leader.stop()
+    await standby.stop()
+  })
+})
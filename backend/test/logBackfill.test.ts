@@ -0,0 +1,114 @@
+/**
+ * Log backfill tests
+ *
+ * Runs the backfill against a stub client whose getLogs serves logs from a
+ * fixed list and can reject wide ranges, like an RPC with a block range limit.
+ */
+
+import { describe, test } from 'node:test'
+import assert from 'node:assert/strict'
+import { parseAbiItem, type PublicClient } from 'viem'
+import { backfillLogs, checkpointKey, resumableCheckpoint } from '../src/logBackfill'
+
+const transferEvent = parseAbiItem('event Transfer(address indexed from, address indexed to, uint256 value)')
+
+interface StubOptions {
+  // Blocks that carry one log each
+  logBlocks: bigint[]
+  // Widest range getLogs accepts
+  maxRange?: bigint
+  // Blocks getLogs always fails on
+  failingBlocks?: bigint[]
+}
+
+function createStubClient({ logBlocks, maxRange, failingBlocks = [] }: StubOptions) {
+  const requests: [bigint, bigint][] = []
+  const client = {
+    async getLogs({ fromBlock, toBlock }: { fromBlock: bigint; toBlock: bigint }) {
+      requests.push([fromBlock, toBlock])
+      if (maxRange !== undefined && toBlock - fromBlock + 1n > maxRange) {
+        throw new Error('block range too large')
+      }
+      if (failingBlocks.some(block => block >= fromBlock && block <= toBlock)) {
+        throw new Error('rpc unavailable')
+      }
+      return logBlocks
+        .filter(block => block >= fromBlock && block <= toBlock)
+        .map(blockNumber => ({ blockNumber, logIndex: 0 }))
+    },
+  } as unknown as PublicClient
+  return { client, requests }
+}
+
+async function backfill(client: PublicClient, fromBlock: bigint, toBlock: bigint, chunkSize: bigint) {
+  const handled: bigint[] = []
+  const pages: bigint[] = []
+  const run = backfillLogs({
+    client,
+    address: `0x${'22'.repeat(20)}`,
+    event: transferEvent,
+    fromBlock,
+    toBlock,
+    chunkSize,
+    onLogs: async (logs) => { handled.push(...logs.map(log => log.blockNumber)) },
+    onPageDone: async (pageEnd) => { pages.push(pageEnd) },
+  })
+  return { run, handled, pages }
+}
+
+describe('log backfill', () => {
+  test('pages through the range in chunks and reports each page end', async () => {
+    const { client, requests } = createStubClient({ logBlocks: [1n, 4n, 9n] })
+    const { run, handled, pages } = await backfill(client, 1n, 10n, 4n)
+
+    assert.equal(await run, 3)
+    assert.deepEqual(requests, [[1n, 4n], [5n, 8n], [9n, 10n]])
+    assert.deepEqual(handled, [1n, 4n, 9n])
+    assert.deepEqual(pages, [4n, 8n, 10n])
+  })
+
+  test('halves the page size when the RPC rejects a range, and keeps the smaller size', async () => {
+    const { client, requests } = createStubClient({ logBlocks: [2n, 7n], maxRange: 2n })
+    const { run, handled, pages } = await backfill(client, 1n, 8n, 8n)
+
+    assert.equal(await run, 2)
+    assert.deepEqual(requests, [[1n, 8n], [1n, 4n], [1n, 2n], [3n, 4n], [5n, 6n], [7n, 8n]])
+    assert.deepEqual(handled, [2n, 7n])
+    assert.deepEqual(pages, [2n, 4n, 6n, 8n])
+  })
+
+  test('fails once a single block is rejected, leaving the last page end to resume from', async () => {
+    const failing = createStubClient({ logBlocks: [2n, 5n, 7n], failingBlocks: [6n] })
+    const first = await backfill(failing.client, 1n, 8n, 2n)
+
+    await assert.rejects(first.run, /rpc unavailable/)
+    // [5, 6] is retried block by block, so block 5 completes before 6 fails
+    assert.deepEqual(first.handled, [2n, 5n])
+    assert.deepEqual(first.pages, [2n, 4n, 5n])
+    const checkpoint = first.pages[first.pages.length - 1]
+
+    // Resuming after the checkpoint handles the rest without repeating a log
+    const healthy = createStubClient({ logBlocks: [2n, 5n, 7n] })
+    const resumed = await backfill(healthy.client, checkpoint + 1n, 8n, 2n)
+
+    assert.equal(await resumed.run, 1)
+    assert.deepEqual([...first.handled, ...resumed.handled], [2n, 5n, 7n])
+    assert.deepEqual(resumed.pages, [7n, 8n])
+  })
+})
+
+describe('checkpoints', () => {
+  test('keys a stream by chain and contract address', () => {
+    const key = checkpointKey('Transfer', 50312, '0xAbCd')
+    assert.equal(key, 'Transfer:50312:0xabcd')
+    assert.notEqual(checkpointKey('Transfer', 50312, '0xef01'), key)
+    assert.notEqual(checkpointKey('Transfer', 5031, '0xabcd'), key)
+  })
+
+  test('drops a checkpoint that is past the latest block', () => {
+    assert.equal(resumableCheckpoint(90n, 100n), 90n)
+    assert.equal(resumableCheckpoint(100n, 100n), 100n)
+    assert.equal(resumableCheckpoint(120n, 100n), null)
+    assert.equal(resumableCheckpoint(null, 100n), null)
+  })
+})
@@ -0,0 +1,46 @@
+/**
+ * Market decoder tests
+ *
+ * Round-trips a getMarket result through the contract ABI, so every field has to
+ * come back under its own name: the criteria enums sit right after
+ * thresholdToken and must not be read from its slot.
+ */
+
+import { describe, test } from 'node:test'
+import assert from 'node:assert/strict'
+import { decodeFunctionResult, encodeFunctionResult, type Abi } from 'viem'
+import PredictionMarketABI from '../abis/PredictionMarket.json'
+import { MarketSchemaError, decodeMarket } from '@predex/shared/marketDecoder'
+import { Aggregation, Comparator, Metric, type Market } from '@predex/shared/types'
+import { market as marketFixture } from './fixtures'
+
+const abi = PredictionMarketABI.abi as Abi
+
+const market = marketFixture({ optionPools: [10n, 20n], comparator: Comparator.LTE, aggregation: Aggregation.SUM })
+
+function getMarketResult(value: Market) {
+  const data = encodeFunctionResult({ abi, functionName: 'getMarket', result: value as never })
+  return decodeFunctionResult({ abi, functionName: 'getMarket', data })
+}
+
+describe('market decoder', () => {
+  test('decodes every field of a getMarket result by name', () => {
+    const decoded = decodeMarket(abi, getMarketResult(market))
+
+    assert.deepEqual(decoded, market)
+    assert.equal(decoded.comparator, Comparator.LTE)
+    assert.equal(decoded.metric, Metric.TRANSFER_VALUE)
+    assert.equal(decoded.aggregation, Aggregation.SUM)
+  })
+
+  test('maps a positional tuple by the ABI component order', () => {
+    const tuple = Object.values(market)
+    assert.deepEqual(decodeMarket(abi, tuple), market)
+  })
+
+  test('rejects unknown enum values and malformed fields', () => {
+    assert.throws(() => decodeMarket(abi, { ...market, comparator: 5 }), MarketSchemaError)
+    assert.throws(() => decodeMarket(abi, { ...market, thresholdToken: 3 }), MarketSchemaError)
+    assert.throws(() => decodeMarket(abi, null), MarketSchemaError)
+  })
+})
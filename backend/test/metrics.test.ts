@@ -0,0 +1,66 @@
+/**
+ * Metrics registry tests
+ *
+ * Checks the Prometheus text exposition output served at /metrics.
+ */
+
+import { describe, test } from 'node:test'
+import assert from 'node:assert/strict'
+import { createMetricsRegistry } from '../src/metrics'
+
+describe('metrics registry', () => {
+  test('renders counters per label set', async () => {
+    const registry = createMetricsRegistry()
+    const publishes = registry.counter({ name: 'publishes_total', help: 'Publishes by result' })
+
+    publishes.inc({ result: 'success' })
+    publishes.inc({ result: 'success' }, 2)
+    publishes.inc({ result: 'failure' })
+
+    assert.equal(await registry.render(), [
+      '# HELP publishes_total Publishes by result',
+      '# TYPE publishes_total counter',
+      'publishes_total{result="success"} 3',
+      'publishes_total{result="failure"} 1',
+      '',
+    ].join('\n'))
+  })
+
+  test('refreshes gauges before rendering and escapes label values', async () => {
+    const registry = createMetricsRegistry()
+    let balance = 1.5
+    registry.gauge({
+      name: 'wallet_balance',
+      help: 'Balance',
+      collect: (gauge) => gauge.set(balance, { address: 'a"b\\c' }),
+    })
+
+    assert.match(await registry.render(), /^wallet_balance\{address="a\\"b\\\\c"\} 1\.5$/m)
+    balance = 0.25
+    assert.match(await registry.render(), /^wallet_balance\{address="a\\"b\\\\c"\} 0\.25$/m)
+  })
+
+  test('renders cumulative histogram buckets', async () => {
+    const registry = createMetricsRegistry()
+    const latency = registry.histogram({ name: 'latency_seconds', help: 'Latency', buckets: [10, 60] })
+
+    latency.observe(5, { market_type: 'GAME' })
+    latency.observe(30, { market_type: 'GAME' })
+    latency.observe(120, { market_type: 'GAME' })
+
+    const lines = (await registry.render()).split('\n')
+    assert.deepEqual(lines.slice(2, 7), [
+      'latency_seconds_bucket{market_type="GAME",le="10"} 1',
+      'latency_seconds_bucket{market_type="GAME",le="60"} 2',
+      'latency_seconds_bucket{market_type="GAME",le="+Inf"} 3',
+      'latency_seconds_sum{market_type="GAME"} 155',
+      'latency_seconds_count{market_type="GAME"} 3',
+    ])
+  })
+
+  test('rejects duplicate metric names', () => {
+    const registry = createMetricsRegistry()
+    registry.counter({ name: 'events_total', help: 'Events' })
+    assert.throws(() => registry.counter({ name: 'events_total', help: 'Events' }), /already registered/)
+  })
+})
@@ -0,0 +1,66 @@
+/**
+ * Odds history tests
+ *
+ * Replays hand-built BetPlaced events against a market whose pools either match
+ * the bets or hold more than was indexed.
+ */
+
+import { describe, test } from 'node:test'
+import assert from 'node:assert/strict'
+import { buildOddsHistory } from '../src/oddsHistory'
+import type { IndexedEvent } from '../src/eventStore'
+import { ETHER, bet, betPlaced, market } from './fixtures'
+
+// A bet mined in `blockNumber`, one second per block after the market opened
+function placedAt(blockNumber: bigint, option: number, amount: bigint): IndexedEvent {
+  return betPlaced(bet(option, amount, { timestamp: 1000n + blockNumber }), blockNumber)
+}
+
+describe('odds history', () => {
+  test('starts at even odds and adds one point per bet', () => {
+    const history = buildOddsHistory(market({ optionPools: [3n * ETHER, 1n * ETHER] }), [
+      placedAt(1n, 0, 1n * ETHER),
+      placedAt(2n, 1, 1n * ETHER),
+      placedAt(3n, 0, 2n * ETHER),
+    ])
+
+    assert.equal(history.complete, true)
+    assert.deepEqual(history.points.map(p => [p.timestamp, p.blockNumber, p.yesPool, p.noPool]), [
+      [1000n, null, 0n, 0n],
+      [1001n, 1n, 1n * ETHER, 0n],
+      [1002n, 2n, 1n * ETHER, 1n * ETHER],
+      [1003n, 3n, 3n * ETHER, 1n * ETHER],
+    ])
+
+    // Same basis points as getOdds: an empty pool pays 2x, an empty side 0
+    assert.deepEqual(history.points.map(p => [p.yesOdds, p.noOdds]), [
+      [20000n, 20000n],
+      [10000n, 0n],
+      [20000n, 20000n],
+      [13333n, 40000n],
+    ])
+    assert.deepEqual(history.points.map(p => p.yesProbability), [50, 100, 50, 75])
+  })
+
+  test('rounds the implied probability down to two decimals', () => {
+    const history = buildOddsHistory(market({ optionPools: [1n, 2n] }), [placedAt(1n, 0, 1n), placedAt(2n, 1, 2n)])
+    assert.equal(history.points[2].yesProbability, 33.33)
+  })
+
+  test('is incomplete when the indexed bets do not add up to the pools', () => {
+    // Indexing started after the first bet
+    const missing = buildOddsHistory(market({ optionPools: [2n * ETHER, 1n * ETHER] }), [placedAt(2n, 0, 1n * ETHER), placedAt(3n, 1, 1n * ETHER)])
+    assert.equal(missing.complete, false)
+    assert.equal(missing.points.length, 3)
+
+    // Right total, wrong side
+    const swapped = buildOddsHistory(market({ optionPools: [1n * ETHER, 1n * ETHER] }), [placedAt(1n, 1, 2n * ETHER)])
+    assert.equal(swapped.complete, false)
+  })
+
+  test('a market without bets is complete with only the opening point', () => {
+    const history = buildOddsHistory(market({ optionPools: [0n, 0n] }), [])
+    assert.equal(history.complete, true)
+    assert.equal(history.points.length, 1)
+  })
+})
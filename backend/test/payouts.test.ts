@@ -0,0 +1,75 @@
+/**
+ * Payout math tests
+ *
+ * Expected amounts are worked out by hand from the contract's getOdds,
+ * claimWinnings and refundBets arithmetic, including its rounding.
+ */
+
+import { describe, test } from 'node:test'
+import assert from 'node:assert/strict'
+import { calculateClaimable, calculateOdds, simulateBet } from '@predex/shared/payouts'
+import { MarketStatus } from '@predex/shared/types'
+import { ETHER, bet } from './fixtures'
+
+const PLATFORM_FEE = 200n // 2%, the contract default
+
+describe('payouts', () => {
+  test('odds pay 2x on an empty pool and nothing on an empty side', () => {
+    assert.deepEqual(calculateOdds({ totalPool: 0n, optionPools: [0n, 0n] }), { yes: 20000n, no: 20000n })
+    assert.deepEqual(calculateOdds({ totalPool: 4n * ETHER, optionPools: [3n * ETHER, 1n * ETHER] }), { yes: 13333n, no: 40000n })
+    assert.deepEqual(calculateOdds({ totalPool: 1n * ETHER, optionPools: [1n * ETHER, 0n] }), { yes: 10000n, no: 0n })
+  })
+
+  test('winners get their stake plus a share of the losing pool, minus the fee on that share', () => {
+    const market = { status: MarketStatus.RESOLVED, winningOption: 0, optionPools: [3n * ETHER, 1n * ETHER] as [bigint, bigint] }
+
+    // share = 1e18 * 1e18 / 3e18, rounded down; fee = 2% of the share, rounded down
+    const share = 333333333333333333n
+    const fee = 6666666666666666n
+    assert.deepEqual(calculateClaimable(market, [bet(0, 1n * ETHER)], PLATFORM_FEE), {
+      kind: 'winnings',
+      amount: 1n * ETHER + share - fee,
+    })
+
+    // Losing and already claimed bets add nothing
+    assert.deepEqual(calculateClaimable(market, [bet(0, 1n * ETHER), bet(1, 1n * ETHER), bet(0, 2n * ETHER, { claimed: true })], PLATFORM_FEE), {
+      kind: 'winnings',
+      amount: 1n * ETHER + share - fee,
+    })
+    assert.deepEqual(calculateClaimable(market, [bet(1, 1n * ETHER)], PLATFORM_FEE), { kind: 'winnings', amount: 0n })
+  })
+
+  test('rounds each bet separately, like claimWinnings', () => {
+    const market = { status: MarketStatus.RESOLVED, winningOption: 1, optionPools: [1n, 3n] as [bigint, bigint] }
+
+    // Each 1 wei bet gets 1 * 1 / 3 = 0 of the losing pool
+    assert.deepEqual(calculateClaimable(market, [bet(1, 1n), bet(1, 1n), bet(1, 1n)], PLATFORM_FEE), { kind: 'winnings', amount: 3n })
+  })
+
+  test('cancelled markets refund every unclaimed bet on either side', () => {
+    const market = { status: MarketStatus.CANCELLED, winningOption: 0, optionPools: [3n * ETHER, 1n * ETHER] as [bigint, bigint] }
+    assert.deepEqual(calculateClaimable(market, [bet(0, 2n * ETHER), bet(1, 1n * ETHER), bet(0, 1n * ETHER, { claimed: true })], PLATFORM_FEE), {
+      kind: 'refund',
+      amount: 3n * ETHER,
+    })
+  })
+
+  test('simulated bets join their pool before the payout is worked out', () => {
+    const simulation = simulateBet([3n * ETHER, 1n * ETHER], 1, 1n * ETHER, PLATFORM_FEE)
+
+    // 1 SOMI on NO against 3 on YES: share = 3e18 * 1e18 / 2e18, fee = 2% of it
+    assert.deepEqual(simulation.poolsAfter, [3n * ETHER, 2n * ETHER])
+    assert.equal(simulation.payout, 1n * ETHER + 1500000000000000000n - 30000000000000000n)
+    assert.equal(simulation.fee, 30000000000000000n)
+    assert.equal(simulation.effectiveOdds, 24700n)
+    assert.deepEqual(simulation.oddsAfter, { yes: 16666n, no: 25000n })
+    assert.equal(simulation.breakEvenProbability, 4048n)
+  })
+
+  test('open markets have nothing to claim', () => {
+    for (const status of [MarketStatus.ACTIVE, MarketStatus.LOCKED]) {
+      const market = { status, winningOption: 0, optionPools: [1n * ETHER, 1n * ETHER] as [bigint, bigint] }
+      assert.deepEqual(calculateClaimable(market, [bet(0, 1n * ETHER)], PLATFORM_FEE), { kind: null, amount: 0n })
+    }
+  })
+})
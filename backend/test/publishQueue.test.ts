@@ -0,0 +1,85 @@
+/**
+ * Publish queue tests
+ *
+ * Publishes are held open by hand, so the test decides when each one finishes
+ * and can push updates while another is in flight.
+ */
+
+import { describe, test } from 'node:test'
+import assert from 'node:assert/strict'
+import { createPublishQueue } from '../src/publishQueue'
+
+function createGate() {
+  const waiting: (() => void)[] = []
+  const started: [string, number][] = []
+  return {
+    started,
+    publish: (key: string, value: number) => {
+      started.push([key, value])
+      return new Promise<void>(resolve => waiting.push(resolve))
+    },
+    release: async () => {
+      waiting.shift()?.()
+      await new Promise(resolve => setImmediate(resolve))
+    },
+  }
+}
+
+describe('publish queue', () => {
+  test('keeps one publish in flight per market and only the newest waiting', async () => {
+    const gate = createGate()
+    const coalesced: [string, number][] = []
+    const queue = createPublishQueue<number>({
+      publish: gate.publish,
+      onCoalesced: (key, value) => coalesced.push([key, value]),
+    })
+
+    queue.push('a', 1)
+    queue.push('a', 2)
+    queue.push('a', 3)
+    queue.push('b', 1)
+    assert.deepEqual(gate.started, [['a', 1], ['b', 1]])
+    assert.deepEqual(coalesced, [['a', 2]])
+
+    await gate.release()
+    assert.deepEqual(gate.started, [['a', 1], ['b', 1], ['a', 3]])
+
+    await gate.release()
+    await gate.release()
+    assert.equal(queue.size(), 0)
+    assert.deepEqual(gate.started, [['a', 1], ['b', 1], ['a', 3]])
+  })
+
+  test('a failed publish does not stall the market', async () => {
+    const published: number[] = []
+    const queue = createPublishQueue<number>({
+      publish: async (_key, value) => {
+        if (value === 1) throw new Error('rpc down')
+        published.push(value)
+      },
+    })
+
+    queue.push('a', 1)
+    queue.push('a', 2)
+    await queue.drain()
+
+    assert.deepEqual(published, [2])
+    assert.equal(queue.size(), 0)
+  })
+
+  test('drain waits for updates queued while publishing', async () => {
+    const gate = createGate()
+    const queue = createPublishQueue<number>({ publish: gate.publish })
+
+    queue.push('a', 1)
+    queue.push('a', 2)
+    let drained = false
+    const draining = queue.drain().then(() => { drained = true })
+
+    await gate.release()
+    assert.equal(drained, false)
+    await gate.release()
+    await draining
+    assert.equal(drained, true)
+  })
+})
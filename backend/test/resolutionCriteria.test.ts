@@ -0,0 +1,198 @@
+/**
+ * Resolution criteria tests
+ *
+ * Checks how a market's comparator, metric and threshold turn observed event
+ * data into a winning option, both for the first event after lock and for
+ * aggregations over the market window [createdAt, resolutionTime).
+ */
+
+import { describe, test } from 'node:test'
+import assert from 'node:assert/strict'
+import {
+  Aggregation,
+  Comparator,
+  Metric,
+  aggregateWindow,
+  compare,
+  evaluateCriteria,
+  evaluateWindow,
+  scaleThreshold,
+  selectDecidingObservations,
+  type Observation,
+} from '../src/resolutionCriteria'
+
+const YES = 0
+const NO = 1
+const ETHER = 10n ** 18n
+
+// The window runs from 1000 up to, but not including, 2000
+const WINDOW = { createdAt: 1000n, resolutionTime: 2000n }
+
+function observed(timestamp: bigint, observation: Observation) {
+  return { timestamp, observation }
+}
+
+describe('comparators', () => {
+  const cases: [Comparator, bigint, boolean][] = [
+    [Comparator.GT, 9n, false],
+    [Comparator.GT, 10n, false],
+    [Comparator.GT, 11n, true],
+    [Comparator.GTE, 9n, false],
+    [Comparator.GTE, 10n, true],
+    [Comparator.LT, 9n, true],
+    [Comparator.LT, 10n, false],
+    [Comparator.LTE, 10n, true],
+    [Comparator.LTE, 11n, false],
+    [Comparator.EQ, 10n, true],
+    [Comparator.EQ, 11n, false],
+  ]
+
+  for (const [comparator, value, expected] of cases) {
+    test(`${value} ${Comparator[comparator]} 10 is ${expected}`, () => {
+      assert.equal(compare(value, comparator, 10n), expected)
+    })
+  }
+
+  test('rejects an unknown comparator', () => {
+    assert.throws(() => compare(1n, 9 as Comparator, 1n), /Unknown comparator: 9/)
+  })
+})
+
+describe('threshold scaling', () => {
+  test('scales transfer value thresholds from whole SOMI to wei', () => {
+    assert.equal(scaleThreshold(Metric.TRANSFER_VALUE, 100n), 100n * ETHER)
+  })
+
+  test('leaves the other metrics unscaled', () => {
+    for (const metric of [Metric.TX_COUNT, Metric.TIME_TAKEN, Metric.TOTAL_DAMAGE]) {
+      assert.equal(scaleThreshold(metric, 100n), 100n)
+    }
+  })
+})
+
+describe('evaluating criteria', () => {
+  test('compares a transfer in wei against the scaled threshold', () => {
+    const criteria = { comparator: Comparator.GT, metric: Metric.TRANSFER_VALUE, threshold: 100n }
+
+    assert.equal(evaluateCriteria(criteria, { value: 100n * ETHER + 1n }), YES)
+    assert.equal(evaluateCriteria(criteria, { value: 100n * ETHER }), NO)
+    // 101 wei is far below 100 SOMI
+    assert.equal(evaluateCriteria(criteria, { value: 101n }), NO)
+  })
+
+  test('picks the metric out of an observation carrying several fields', () => {
+    const observation = { timeTaken: 30n, totalDamage: 500n }
+
+    assert.equal(evaluateCriteria({ comparator: Comparator.LT, metric: Metric.TIME_TAKEN, threshold: 60n }, observation), YES)
+    assert.equal(evaluateCriteria({ comparator: Comparator.GTE, metric: Metric.TOTAL_DAMAGE, threshold: 1000n }, observation), NO)
+  })
+
+  test('returns null when the observation does not carry the metric', () => {
+    assert.equal(evaluateCriteria({ comparator: Comparator.GT, metric: Metric.TX_COUNT, threshold: 5n }, { value: 10n }), null)
+  })
+})
+
+describe('window evaluation', () => {
+  test('counts events at createdAt but not at resolutionTime', () => {
+    const criteria = { ...WINDOW, comparator: Comparator.EQ, metric: Metric.TX_COUNT, aggregation: Aggregation.COUNT, threshold: 2n }
+    const observations = [
+      observed(999n, { txCount: 1n }),
+      observed(1000n, { txCount: 1n }),
+      observed(1999n, { txCount: 1n }),
+      observed(2000n, { txCount: 1n }),
+    ]
+
+    assert.equal(evaluateWindow(criteria, observations), YES)
+    assert.deepEqual(selectDecidingObservations(criteria, observations).map(o => o.timestamp), [1000n, 1999n])
+  })
+
+  test('ignores events that do not carry the metric', () => {
+    const criteria = { ...WINDOW, comparator: Comparator.EQ, metric: Metric.TIME_TAKEN, aggregation: Aggregation.COUNT, threshold: 1n }
+    const observations = [observed(1100n, { timeTaken: 40n }), observed(1200n, { value: 5n })]
+
+    assert.equal(evaluateWindow(criteria, observations), YES)
+    assert.equal(selectDecidingObservations(criteria, observations).length, 1)
+  })
+
+  test('ANY answers YES when one event in the window meets the threshold', () => {
+    const criteria = { ...WINDOW, comparator: Comparator.GT, metric: Metric.TOTAL_DAMAGE, aggregation: Aggregation.ANY, threshold: 100n }
+
+    assert.equal(evaluateWindow(criteria, [observed(1100n, { totalDamage: 50n }), observed(1200n, { totalDamage: 150n })]), YES)
+    // Only after the window closes
+    assert.equal(evaluateWindow(criteria, [observed(1100n, { totalDamage: 50n }), observed(2000n, { totalDamage: 150n })]), NO)
+    assert.equal(evaluateWindow(criteria, []), NO)
+  })
+
+  test('MAX and MIN compare the extreme value', () => {
+    const observations = [observed(1100n, { timeTaken: 30n }), observed(1200n, { timeTaken: 90n }), observed(1300n, { timeTaken: 60n })]
+    const max = { ...WINDOW, comparator: Comparator.GTE, metric: Metric.TIME_TAKEN, aggregation: Aggregation.MAX, threshold: 90n }
+    const min = { ...WINDOW, comparator: Comparator.LT, metric: Metric.TIME_TAKEN, aggregation: Aggregation.MIN, threshold: 30n }
+
+    assert.equal(evaluateWindow(max, observations), YES)
+    assert.equal(evaluateWindow(min, observations), NO)
+  })
+
+  test('MAX and MIN have no outcome over an empty window', () => {
+    const outside = [observed(500n, { timeTaken: 30n }), observed(2500n, { timeTaken: 30n })]
+    for (const aggregation of [Aggregation.MAX, Aggregation.MIN]) {
+      const criteria = { ...WINDOW, comparator: Comparator.GT, metric: Metric.TIME_TAKEN, aggregation, threshold: 10n }
+      assert.equal(evaluateWindow(criteria, outside), null)
+      assert.equal(aggregateWindow(criteria, []), null)
+    }
+  })
+
+  test('SUM adds transfer values in wei against a threshold in whole SOMI', () => {
+    const criteria = { ...WINDOW, comparator: Comparator.GTE, metric: Metric.TRANSFER_VALUE, aggregation: Aggregation.SUM, threshold: 3n }
+
+    assert.equal(evaluateWindow(criteria, [observed(1100n, { value: 1n * ETHER }), observed(1200n, { value: 2n * ETHER })]), YES)
+    assert.equal(evaluateWindow(criteria, [observed(1100n, { value: 1n * ETHER }), observed(1200n, { value: 2n * ETHER - 1n })]), NO)
+    // An empty window sums to zero rather than having no outcome
+    assert.equal(evaluateWindow(criteria, []), NO)
+  })
+
+  test('COUNT compares the number of events and never scales the threshold', () => {
+    const criteria = { ...WINDOW, comparator: Comparator.GTE, metric: Metric.TRANSFER_VALUE, aggregation: Aggregation.COUNT, threshold: 2n }
+    const observations = [observed(1100n, { value: 1n }), observed(1200n, { value: 1n })]
+
+    assert.equal(evaluateWindow(criteria, observations), YES)
+    assert.equal(evaluateWindow(criteria, observations.slice(1)), NO)
+    assert.equal(aggregateWindow(criteria, [1n, 1n]), 2n)
+  })
+
+  test('rejects a first-after-lock market', () => {
+    const criteria = { ...WINDOW, comparator: Comparator.GT, metric: Metric.TX_COUNT, aggregation: Aggregation.FIRST_AFTER_LOCK, threshold: 1n }
+    assert.throws(() => evaluateWindow(criteria, []), /Not a window aggregation/)
+  })
+})
+
+describe('window aggregate values', () => {
+  const base = { comparator: Comparator.GT, metric: Metric.TRANSFER_VALUE, threshold: 1n }
+  const values = [ETHER / 2n, 3n * ETHER, 2n * ETHER]
+
+  test('ANY yields the first value meeting the scaled threshold', () => {
+    assert.equal(aggregateWindow({ ...base, aggregation: Aggregation.ANY }, values), 3n * ETHER)
+    assert.equal(aggregateWindow({ ...base, aggregation: Aggregation.ANY }, [ETHER / 2n]), null)
+  })
+
+  test('MAX, MIN and SUM yield the value they compared', () => {
+    assert.equal(aggregateWindow({ ...base, aggregation: Aggregation.MAX }, values), 3n * ETHER)
+    assert.equal(aggregateWindow({ ...base, aggregation: Aggregation.MIN }, values), ETHER / 2n)
+    assert.equal(aggregateWindow({ ...base, aggregation: Aggregation.SUM }, values), 5n * ETHER + ETHER / 2n)
+    assert.equal(aggregateWindow({ ...base, aggregation: Aggregation.SUM }, []), 0n)
+  })
+})
+
+describe('deciding observations', () => {
+  test('a first-after-lock market is decided by the earliest event at or after resolutionTime', () => {
+    const criteria = { ...WINDOW, metric: Metric.TX_COUNT, aggregation: Aggregation.FIRST_AFTER_LOCK }
+    const observations = [
+      observed(1999n, { txCount: 1n }),
+      observed(2100n, { txCount: 2n }),
+      observed(2050n, { value: 1n }),
+      observed(2000n, { txCount: 3n }),
+    ]
+
+    assert.deepEqual(selectDecidingObservations(criteria, observations), [observed(2000n, { txCount: 3n })])
+    assert.deepEqual(selectDecidingObservations(criteria, observations.slice(0, 1)), [])
+  })
+})
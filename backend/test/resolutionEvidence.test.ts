@@ -0,0 +1,138 @@
+/**
+ * Resolution evidence tests
+ *
+ * Builds evidence from stored observations and verifies it against a fake
+ * client serving real ABI-encoded Transfer logs and a getMarket result.
+ */
+
+import { describe, test } from 'node:test'
+import assert from 'node:assert/strict'
+import { encodeAbiParameters, encodeEventTopics, parseEther, type PublicClient } from 'viem'
+import PredictionMarketABI from '../abis/PredictionMarket.json'
+import { SOMI_TOKEN_EVENTS } from '../src/eventIndexer'
+import { Aggregation } from '../src/resolutionCriteria'
+import {
+  buildResolutionEvidence,
+  deserializeEvidence,
+  hashEvidence,
+  serializeEvidence,
+  verifyResolutionEvidence,
+} from '../src/resolutionEvidence'
+import type { StoredObservation } from '../src/resolverStore'
+import { MarketStatus } from '@predex/shared/types'
+import { MARKET_ID, SOMI_TOKEN, market as marketFixture } from './fixtures'
+
+const MARKET_CONTRACT = `0x${'11'.repeat(20)}` as const
+const SENDER = `0x${'33'.repeat(20)}` as const
+const RECEIVER = `0x${'44'.repeat(20)}` as const
+const TX_HASH = `0x${'cd'.repeat(32)}` as const
+
+// Transfer market: YES when a transfer above 100 SOMI happens after lock
+const market = marketFixture()
+
+function transfer(id: number, value: bigint, observedAt: bigint, logIndex: number): StoredObservation {
+  return {
+    id,
+    marketId: MARKET_ID,
+    source: 'transfer',
+    observation: { value },
+    observedAt,
+    blockNumber: 50n + BigInt(id),
+    txHash: TX_HASH,
+    logIndex,
+  }
+}
+
+function transferLog(value: bigint, logIndex: number, address: `0x${string}` = SOMI_TOKEN) {
+  return {
+    address,
+    logIndex,
+    topics: encodeEventTopics({ abi: SOMI_TOKEN_EVENTS, eventName: 'Transfer', args: { from: SENDER, to: RECEIVER } }),
+    data: encodeAbiParameters([{ type: 'uint256' }], [value]),
+  }
+}
+
+function fakeClient(logs: ReturnType<typeof transferLog>[], blockNumber: bigint, winningOption: number) {
+  return {
+    getTransactionReceipt: async ({ hash }: { hash: `0x${string}` }) => {
+      if (hash !== TX_HASH) throw new Error('receipt not found')
+      return { blockNumber, logs }
+    },
+    readContract: async () => ({ ...market, status: MarketStatus.RESOLVED, winningOption }),
+  } as unknown as PublicClient
+}
+
+const contracts = { market: MARKET_CONTRACT, marketAbi: PredictionMarketABI.abi, somiToken: SOMI_TOKEN }
+
+describe('resolution evidence', () => {
+  test('records the first transfer after lock as the deciding source', () => {
+    const observations = [
+      transfer(1, parseEther('500'), 1500n, 0), // Before lock, ignored
+      transfer(2, parseEther('150'), 2100n, 3),
+      transfer(3, parseEther('900'), 2200n, 4),
+    ]
+    const evidence = buildResolutionEvidence(market, observations, 0)
+
+    assert.equal(evidence.sources.length, 1)
+    assert.equal(evidence.sources[0].logIndex, 3)
+    assert.equal(evidence.observedValue, parseEther('150'))
+    assert.equal(evidence.fallback, null)
+
+    // The hash survives a round trip and ignores the transaction hashes added later
+    const restored = deserializeEvidence(JSON.parse(JSON.stringify(serializeEvidence(evidence))))
+    assert.deepEqual(restored, evidence)
+    assert.equal(hashEvidence({ ...restored, resolutionTxHash: TX_HASH }), hashEvidence(evidence))
+  })
+
+  test('window evidence carries the aggregate and every source in the window', () => {
+    const window = { ...market, aggregation: Aggregation.SUM, threshold: 200n }
+    const observations = [transfer(1, parseEther('150'), 1200n, 0), transfer(2, parseEther('100'), 1800n, 1), transfer(3, parseEther('1'), 2000n, 2)]
+    const evidence = buildResolutionEvidence(window, observations, 0)
+
+    assert.deepEqual(evidence.sources.map(s => s.logIndex), [0, 1])
+    assert.equal(evidence.observedValue, parseEther('250'))
+  })
+
+  test('verifies evidence whose source log matches the chain', async () => {
+    const evidence = buildResolutionEvidence(market, [transfer(1, parseEther('150'), 2100n, 3)], 0)
+    const client = fakeClient([transferLog(parseEther('1'), 2), transferLog(parseEther('150'), 3)], 51n, 0)
+
+    const result = await verifyResolutionEvidence(client, evidence, contracts)
+    assert.deepEqual(result.problems, [])
+    assert.equal(result.verified, true)
+    assert.equal(result.sources[0].status, 'match')
+    assert.equal(result.recomputedOption, 0)
+    assert.deepEqual(result.onChain, { status: MarketStatus.RESOLVED, winningOption: 0 })
+  })
+
+  test('flags evidence that does not match the chain', async () => {
+    const evidence = buildResolutionEvidence(market, [transfer(1, parseEther('150'), 2100n, 3)], 0)
+    const client = (logs: ReturnType<typeof transferLog>[]) => fakeClient(logs, 51n, 0)
+
+    // The log on chain moved only 50 SOMI, so the criteria give NO
+    const altered = await verifyResolutionEvidence(client([transferLog(parseEther('50'), 3)]), evidence, contracts)
+    assert.equal(altered.verified, false)
+    assert.equal(altered.sources[0].status, 'mismatch')
+    assert.equal(altered.recomputedOption, 1)
+
+    const foreign = await verifyResolutionEvidence(client([transferLog(parseEther('150'), 3, RECEIVER)]), evidence, contracts)
+    assert.equal(foreign.sources[0].status, 'mismatch')
+    assert.match(foreign.sources[0].detail ?? '', /emitted by/)
+
+    const missing = await verifyResolutionEvidence(client([]), evidence, contracts)
+    assert.equal(missing.sources[0].status, 'missing')
+    assert.equal(missing.recomputedOption, null)
+  })
+
+  test('fallback evidence is checked against the timeout default and the market result', async () => {
+    const evidence = buildResolutionEvidence(market, [transfer(1, parseEther('150'), 2100n, 3)], 1, 'no')
+    assert.deepEqual(evidence.sources, [])
+
+    const settled = await verifyResolutionEvidence(fakeClient([], 51n, 1), evidence, contracts)
+    assert.equal(settled.verified, true)
+
+    const different = await verifyResolutionEvidence(fakeClient([], 51n, 0), evidence, contracts)
+    assert.equal(different.verified, false)
+    assert.match(different.problems[0], /on chain/)
+  })
+})
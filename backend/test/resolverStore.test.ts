@@ -0,0 +1,208 @@
+/**
+ * Resolver store tests
+ *
+ * Runs the same checks against the SQLite and in-memory stores. Recovery is
+ * checked on a SQLite file in a temp directory that is closed and reopened.
+ */
+
+import { describe, test } from 'node:test'
+import assert from 'node:assert/strict'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import Database from 'better-sqlite3'
+import { createMemoryStore, createSqliteStore, type ResolverStore } from '../src/resolverStore'
+import type { TrackedMarket } from '../src/resolverService'
+import { Aggregation, Comparator, Metric } from '../src/resolutionCriteria'
+import { buildResolutionEvidence } from '../src/resolutionEvidence'
+
+const MARKET_A = `0x${'aa'.repeat(32)}` as const
+const MARKET_B = `0x${'bb'.repeat(32)}` as const
+const TX_1 = `0x${'01'.repeat(32)}` as const
+const TX_2 = `0x${'02'.repeat(32)}` as const
+
+function trackedMarket(marketId: `0x${string}`, overrides: Partial<TrackedMarket> = {}): TrackedMarket {
+  return {
+    marketId,
+    marketType: 0,
+    question: 'Will a block hold more than 10 transactions?',
+    threshold: 10n,
+    thresholdToken: `0x${'00'.repeat(20)}`,
+    createdAt: 1000n,
+    resolutionTime: 2000n,
+    creator: `0x${'11'.repeat(20)}`,
+    dataSourceId: `0x${'cd'.repeat(32)}`,
+    comparator: Comparator.GT,
+    metric: Metric.TX_COUNT,
+    aggregation: Aggregation.FIRST_AFTER_LOCK,
+    ...overrides,
+  }
+}
+
+function tempDbPath() {
+  return path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'predex-resolver-')), 'resolver.db')
+}
+
+const stores: [string, () => ResolverStore][] = [
+  ['sqlite', () => createSqliteStore(':memory:')],
+  ['memory', () => createMemoryStore()],
+]
+
+for (const [kind, createStore] of stores) {
+  describe(`${kind} resolver store`, () => {
+    test("keeps a market's state when it is saved again", async () => {
+      const store = createStore()
+      await store.saveMarket(trackedMarket(MARKET_A))
+      await store.setMarketState(MARKET_A, 'resolved')
+      await store.saveMarket(trackedMarket(MARKET_A, { question: 'Renamed' }))
+
+      const stored = await store.getMarket(MARKET_A)
+      assert.equal(stored?.state, 'resolved')
+      assert.equal(stored?.market.question, 'Renamed')
+      assert.deepEqual(await store.getMarketsByState('tracking'), [])
+      await store.close()
+    })
+
+    test('stores an event observation once per transaction log', async () => {
+      const store = createStore()
+      await store.recordObservation(MARKET_A, 'transfer', { value: 5n }, 1100n, { blockNumber: 10n, txHash: TX_1, logIndex: 0 })
+      await store.recordObservation(MARKET_A, 'transfer', { value: 5n }, 1100n, { blockNumber: 10n, txHash: TX_1, logIndex: 0 })
+      await store.recordObservation(MARKET_A, 'transfer', { value: 6n }, 1100n, { blockNumber: 10n, txHash: TX_1, logIndex: 1 })
+      // The same log seen for another market is that market's observation
+      await store.recordObservation(MARKET_B, 'transfer', { value: 5n }, 1100n, { blockNumber: 10n, txHash: TX_1, logIndex: 0 })
+
+      const observations = await store.getObservations(MARKET_A)
+      assert.deepEqual(observations.map(o => [o.txHash, o.logIndex, o.observation.value]), [[TX_1, 0, 5n], [TX_1, 1, 6n]])
+      assert.equal((await store.getObservations(MARKET_B)).length, 1)
+      await store.close()
+    })
+
+    test('stores a polled block once however often it is sampled', async () => {
+      const store = createStore()
+      for (let poll = 0; poll < 3; poll++) {
+        await store.recordObservation(MARKET_A, 'block', { txCount: 4n }, 1100n, { blockNumber: 10n })
+      }
+      await store.recordObservation(MARKET_A, 'block', { txCount: 7n }, 1105n, { blockNumber: 11n })
+      await store.recordObservation(MARKET_B, 'block', { txCount: 4n }, 1100n, { blockNumber: 10n })
+
+      const observations = await store.getObservations(MARKET_A)
+      assert.deepEqual(observations.map(o => [o.blockNumber, o.observation.txCount]), [[10n, 4n], [11n, 7n]])
+      assert.equal((await store.getObservations(MARKET_B)).length, 1)
+      await store.close()
+    })
+
+    test('keeps every stream observation, which have no event to dedupe on', async () => {
+      const store = createStore()
+      await store.recordObservation(MARKET_A, 'stream', { txCount: 4n }, 1100n)
+      await store.recordObservation(MARKET_A, 'stream', { txCount: 4n }, 1100n)
+
+      assert.equal((await store.getObservations(MARKET_A)).length, 2)
+      await store.close()
+    })
+
+    test('tracks attempts from pending to confirmed and lists the open ones', async () => {
+      const store = createStore()
+      const first = await store.recordAttempt(MARKET_A, 0)
+      const second = await store.recordAttempt(MARKET_B, 1)
+      await store.updateAttempt(first, { status: 'submitted', txHash: TX_1 })
+      await store.updateAttempt(second, { status: 'failed', error: 'reverted' })
+
+      assert.deepEqual((await store.getOpenAttempts()).map(a => [a.marketId, a.status, a.txHash]), [[MARKET_A, 'submitted', TX_1]])
+
+      // A later update without a hash keeps the broadcast one
+      await store.updateAttempt(first, { status: 'confirmed' })
+      const latest = await store.getLatestAttempt(MARKET_A)
+      assert.equal(latest?.status, 'confirmed')
+      assert.equal(latest?.txHash, TX_1)
+      assert.deepEqual(await store.getOpenAttempts(), [])
+      assert.equal((await store.getLatestAttempt(MARKET_B))?.error, 'reverted')
+      await store.close()
+    })
+
+    test('tracks timeout decisions, newest first', async () => {
+      const store = createStore()
+      const first = await store.recordDecision(MARKET_A, { marketType: 0, action: 'cancel', deadline: 5600n })
+      await store.recordDecision(MARKET_B, { marketType: 1, action: 'no', deadline: 5700n })
+      await store.updateDecision(first, { status: 'submitted', txHash: TX_2 })
+
+      assert.deepEqual((await store.getDecisions(10)).map(d => d.marketId), [MARKET_B, MARKET_A])
+      assert.deepEqual((await store.getDecisions(1)).map(d => d.marketId), [MARKET_B])
+      assert.equal((await store.getOpenDecisions()).length, 2)
+
+      const [decision] = await store.getMarketDecisions(MARKET_A)
+      assert.deepEqual([decision.action, decision.deadline, decision.status, decision.txHash], ['cancel', 5600n, 'submitted', TX_2])
+      await store.close()
+    })
+
+    test('lists evidence of a sent resolution until it is published', async () => {
+      const store = createStore()
+      const sent = buildResolutionEvidence(trackedMarket(MARKET_A), [], 0)
+      const unsent = buildResolutionEvidence(trackedMarket(MARKET_B), [], 1)
+      await store.saveEvidence({ ...sent, resolutionTxHash: TX_1 })
+      await store.saveEvidence(unsent)
+
+      assert.deepEqual((await store.getUnpublishedEvidence()).map(e => e.marketId), [MARKET_A])
+
+      await store.saveEvidence({ ...sent, resolutionTxHash: TX_1, publishTxHash: TX_2 })
+      assert.deepEqual(await store.getUnpublishedEvidence(), [])
+      await store.close()
+    })
+  })
+}
+
+describe('resolver store recovery', () => {
+  test('reopens tracked markets, observations, open work and checkpoints after a restart', async () => {
+    const dbPath = tempDbPath()
+    const before = createSqliteStore(dbPath)
+    await before.saveMarket(trackedMarket(MARKET_A, { aggregation: Aggregation.MAX }))
+    await before.saveMarket(trackedMarket(MARKET_B))
+    await before.setMarketState(MARKET_B, 'cancelled')
+    await before.recordObservation(MARKET_A, 'block', { txCount: 12n }, 1500n, { blockNumber: 10n })
+    const attemptId = await before.recordAttempt(MARKET_A, 0)
+    await before.updateAttempt(attemptId, { status: 'submitted', txHash: TX_1 })
+    await before.recordDecision(MARKET_B, { marketType: 0, action: 'cancel', deadline: 5600n })
+    await before.setCheckpoint('Transfer', 41n)
+    await before.close()
+
+    const after = createSqliteStore(dbPath)
+    const tracking = await after.getMarketsByState('tracking')
+    assert.deepEqual(tracking.map(m => m.market), [trackedMarket(MARKET_A, { aggregation: Aggregation.MAX })])
+    assert.deepEqual((await after.getObservations(MARKET_A)).map(o => o.observation), [{ txCount: 12n }])
+    assert.deepEqual((await after.getOpenAttempts()).map(a => [a.id, a.txHash]), [[attemptId, TX_1]])
+    assert.deepEqual((await after.getOpenDecisions()).map(d => d.marketId), [MARKET_B])
+    assert.equal(await after.getCheckpoint('Transfer'), 41n)
+    assert.equal(await after.getCheckpoint('BossDefeated'), null)
+
+    // Block samples recorded before the restart are still deduped
+    await after.recordObservation(MARKET_A, 'block', { txCount: 12n }, 1500n, { blockNumber: 10n })
+    assert.equal((await after.getObservations(MARKET_A)).length, 1)
+    await after.close()
+  })
+
+  test('drops repeated block samples written before they were deduped', async () => {
+    const dbPath = tempDbPath()
+    const legacy = new Database(dbPath)
+    legacy.exec(`
+      CREATE TABLE observations (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        market_id TEXT NOT NULL,
+        source TEXT NOT NULL,
+        data TEXT NOT NULL,
+        observed_at INTEGER NOT NULL,
+        block_number TEXT,
+        tx_hash TEXT,
+        log_index INTEGER
+      )
+    `)
+    const insert = legacy.prepare('INSERT INTO observations (market_id, source, data, observed_at, block_number) VALUES (?, ?, ?, ?, ?)')
+    for (const [txCount, blockNumber] of [[4, 10], [4, 10], [7, 11], [4, 10], [7, 11]]) {
+      insert.run(MARKET_A, 'block', JSON.stringify({ txCount: String(txCount) }), 1100, String(blockNumber))
+    }
+    legacy.close()
+
+    const store = createSqliteStore(dbPath)
+    const observations = await store.getObservations(MARKET_A)
+    assert.deepEqual(observations.map(o => [o.id, o.blockNumber]), [[1, 10n], [3, 11n]])
+    await store.close()
+  })
+})
@@ -0,0 +1,42 @@
+/**
+ * Shadow decision report tests
+ *
+ * Checks that decisions are appended as JSON lines and survive a restart.
+ */
+
+import { describe, test } from 'node:test'
+import assert from 'node:assert/strict'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { createShadowReport, type ShadowDecision } from '../src/shadowReport'
+import { market, shadowDecision } from './fixtures'
+
+function decision(marketId: `0x${string}`, decidedAt: number, overrides: Partial<ShadowDecision> = {}): ShadowDecision {
+  return shadowDecision(market({ marketId }), {
+    observations: [{ source: 'transfer', observation: { value: '150000000000000000000' }, observedAt: decidedAt, blockNumber: 12, txHash: null, logIndex: null }],
+    decidedAt,
+    ...overrides,
+  })
+}
+
+describe('shadow report', () => {
+  test('appends decisions and reloads them after a restart', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'predex-shadow-'))
+    const filePath = path.join(dir, 'nested', 'shadow.jsonl')
+    const first = `0x${'ab'.repeat(32)}` as const
+    const second = `0x${'02'.repeat(32)}` as const
+
+    const report = createShadowReport(filePath)
+    await report.record(decision(first, 100))
+    await report.record(decision(second, 200, { trigger: 'timeout', action: 'cancel', winningOption: null, observations: [] }))
+
+    assert.equal(fs.readFileSync(filePath, 'utf8').trim().split('\n').length, 2)
+
+    const reopened = createShadowReport(filePath)
+    assert.equal(reopened.has(first.toUpperCase().replace('0X', '0x') as `0x${string}`), true)
+    assert.deepEqual(reopened.list().map(d => [d.marketId, d.action]), [[second, 'cancel'], [first, 'resolve']])
+
+    fs.rmSync(dir, { recursive: true, force: true })
+  })
+})
@@ -0,0 +1,146 @@
+/**
+ * Data Streams subscription manager tests
+ *
+ * Connections are backed by the in-process mock store; failures are injected
+ * through the heartbeat and subscription errors.
+ */
+
+import { describe, test } from 'node:test'
+import assert from 'node:assert/strict'
+import { createStreamSubscriptionManager, type StreamConnection } from '../src/streamSubscriptions'
+import { createMemoryStreamsClient, createMemoryStreamsStore, type StreamEvent } from '@predex/shared/streamsClient'
+
+const PUBLISHER = '0x70997970c51812dc3a010c7d01b50e0d17dc79c8'
+const TOPIC = `0x${'11'.repeat(32)}` as const
+
+function sleep(ms: number) {
+  return new Promise(resolve => setTimeout(resolve, ms))
+}
+
+async function waitFor(condition: () => boolean, timeoutMs = 2000) {
+  const deadline = Date.now() + timeoutMs
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error('condition not met in time')
+    await sleep(10)
+  }
+}
+
+describe('stream subscription manager', () => {
+  test('reconnects after a failed heartbeat, resubscribes and reports the gap', async () => {
+    const store = createMemoryStreamsStore()
+    const publisher = createMemoryStreamsClient(store, PUBLISHER)
+    let connections = 0
+    let healthy = true
+
+    const manager = createStreamSubscriptionManager({
+      connect: async (): Promise<StreamConnection> => {
+        connections++
+        healthy = true
+        return {
+          client: createMemoryStreamsClient(store, PUBLISHER),
+          heartbeat: async () => {
+            if (!healthy) throw new Error('socket closed')
+          },
+        }
+      },
+      heartbeatIntervalMs: 20,
+      reconnectBaseMs: 10,
+      reconnectMaxMs: 20,
+    })
+
+    const received: StreamEvent[] = []
+    const gaps: (number | null)[] = []
+    await manager.subscribe('market', {
+      params: { eventId: 'MarketEvent', argumentTopics: [TOPIC], onData: event => received.push(event) },
+      onSubscribed: gapSince => { gaps.push(gapSince) },
+    })
+    await manager.start()
+    assert.deepEqual(gaps, [null])
+
+    healthy = false
+    await waitFor(() => connections === 2 && manager.getStatus().state === 'connected')
+    assert.equal(gaps.length, 2)
+    assert.equal(typeof gaps[1], 'number')
+    assert.equal(manager.getStatus().reconnects, 1)
+    assert.equal(manager.getStatus().activeSubscriptions, 1)
+
+    // Exactly one live subscription after the reconnect
+    await publisher.setAndEmitEvents([], [{ id: 'MarketEvent', argumentTopics: [TOPIC], data: '0x' }])
+    await waitFor(() => received.length > 0)
+    await sleep(50)
+    assert.equal(received.length, 1)
+
+    await manager.stop()
+    assert.equal(manager.getStatus().state, 'stopped')
+  })
+
+  test('retries a connection that cannot be established with growing delays', async () => {
+    const store = createMemoryStreamsStore()
+    const attempts: number[] = []
+
+    const manager = createStreamSubscriptionManager({
+      connect: async () => {
+        attempts.push(Date.now())
+        if (attempts.length < 4) throw new Error('connection refused')
+        return { client: createMemoryStreamsClient(store, PUBLISHER) }
+      },
+      reconnectBaseMs: 10,
+      reconnectMaxMs: 1000,
+    })
+
+    const gaps: (number | null)[] = []
+    await manager.subscribe('market', {
+      params: { eventId: 'MarketEvent', onData: () => {} },
+      onSubscribed: gapSince => { gaps.push(gapSince) },
+    })
+    await manager.start()
+    assert.throws(() => manager.client(), /not connected/)
+
+    await waitFor(() => manager.getStatus().state === 'connected')
+    assert.equal(attempts.length, 4)
+    // Delays are half to all of 10, 20 and 40ms
+    const delays = attempts.slice(1).map((at, i) => at - attempts[i])
+    assert.ok(delays[2] >= 20, `third delay ${delays[2]}ms should be at least 20ms`)
+    assert.equal(gaps.length, 1)
+    assert.equal(typeof gaps[0], 'number')
+
+    await manager.stop()
+  })
+
+  test('reconnects when a subscription reports an error and drops unsubscribed keys', async () => {
+    const store = createMemoryStreamsStore()
+    let connections = 0
+    let failSubscription: ((error: Error) => void) | undefined
+
+    const manager = createStreamSubscriptionManager({
+      connect: async () => {
+        connections++
+        const client = createMemoryStreamsClient(store, PUBLISHER)
+        return {
+          client: {
+            ...client,
+            subscribe: async (params) => {
+              failSubscription = params.onError
+              return client.subscribe(params)
+            },
+          },
+        }
+      },
+      reconnectBaseMs: 10,
+      reconnectMaxMs: 20,
+    })
+
+    await manager.start()
+    await manager.subscribe('a', { params: { eventId: 'MarketEvent', onData: () => {} } })
+    await manager.subscribe('b', { params: { eventId: 'MarketEvent', onData: () => {} } })
+    manager.unsubscribe('a')
+
+    failSubscription?.(new Error('stream closed'))
+    await waitFor(() => connections === 2 && manager.getStatus().state === 'connected')
+    assert.equal(manager.getStatus().subscriptions, 1)
+    assert.equal(manager.getStatus().activeSubscriptions, 1)
+    assert.match(manager.getStatus().lastError ?? '', /stream closed/)
+
+    await manager.stop()
+  })
+})
@@ -0,0 +1,125 @@
+/**
+ * Data Streams mock tests
+ *
+ * The in-process store and the HTTP routes behind DATA_STREAMS_MODE=mock,
+ * exercised through the same StreamsClient interface the resolver uses.
+ */
+
+import { after, before, describe, test } from 'node:test'
+import assert from 'node:assert/strict'
+import type { AddressInfo } from 'net'
+import type { Server } from 'http'
+import express from 'express'
+import { SchemaEncoder } from '@ethereum-attestation-service/eas-sdk'
+import { TRANSFER_MARKET_SCHEMA } from '@predex/shared/dataStreams'
+import { createDataStreamsMockRouter } from '../src/dataStreamsMock'
+import {
+  createHttpStreamsClient,
+  createMemoryStreamsClient,
+  createMemoryStreamsStore,
+  type StreamEvent,
+  type StreamsClient,
+} from '@predex/shared/streamsClient'
+
+const PUBLISHER = '0x70997970c51812dc3a010c7d01b50e0d17dc79c8'
+const OTHER_PUBLISHER = '0x3c44cdddb6a900fa2b585dd299e03d12fa4293bc'
+const MARKET_ID = `0x${'11'.repeat(32)}` as const
+
+function encodeTransfer(value: bigint): `0x${string}` {
+  return new SchemaEncoder(TRANSFER_MARKET_SCHEMA).encodeData([
+    { name: 'from', value: PUBLISHER, type: 'address' },
+    { name: 'to', value: OTHER_PUBLISHER, type: 'address' },
+    { name: 'value', value, type: 'uint256' },
+    { name: 'token', value: PUBLISHER, type: 'address' },
+    { name: 'timestamp', value: 1n, type: 'uint256' },
+    { name: 'marketId', value: MARKET_ID, type: 'bytes32' },
+  ]) as `0x${string}`
+}
+
+function sleep(ms: number) {
+  return new Promise(resolve => setTimeout(resolve, ms))
+}
+
+describe('Data Streams mock', () => {
+  const store = createMemoryStreamsStore()
+  const local = createMemoryStreamsClient(store, PUBLISHER)
+  let remote: StreamsClient
+  let server: Server
+
+  before(async () => {
+    const app = express()
+    app.use(express.json())
+    app.use('/api/data-streams', createDataStreamsMockRouter(store))
+    server = await new Promise<Server>(resolve => {
+      const listening = app.listen(0, () => resolve(listening))
+    })
+    const { port } = server.address() as AddressInfo
+    remote = createHttpStreamsClient(`http://127.0.0.1:${port}/api/data-streams`, OTHER_PUBLISHER, { pollIntervalMs: 50 })
+  })
+
+  after(() => {
+    server.close()
+  })
+
+  test('registers schemas once, visible to every client', async () => {
+    const schemaId = await remote.computeSchemaId(TRANSFER_MARKET_SCHEMA)
+    assert.equal(await local.computeSchemaId(TRANSFER_MARKET_SCHEMA), schemaId)
+    assert.equal(await local.isDataSchemaRegistered(schemaId), false)
+
+    await remote.registerDataSchemas([{ id: 'TransferMarket', schema: TRANSFER_MARKET_SCHEMA }])
+    assert.equal(await local.isDataSchemaRegistered(schemaId), true)
+
+    await assert.rejects(
+      remote.registerDataSchemas([{ id: 'TransferMarket', schema: TRANSFER_MARKET_SCHEMA }], false),
+      /already registered/
+    )
+  })
+
+  test('stores data per publisher and decodes it with the registered schema', async () => {
+    const schemaId = await local.computeSchemaId(TRANSFER_MARKET_SCHEMA)
+    const key = `0x${'22'.repeat(32)}` as const
+
+    await local.setAndEmitEvents([{ id: key, schemaId, data: encodeTransfer(5n) }], [])
+    await local.setAndEmitEvents([{ id: key, schemaId, data: encodeTransfer(7n) }], [])
+
+    assert.equal(await remote.totalPublisherDataForSchema(schemaId, PUBLISHER), 1n)
+    assert.equal(await remote.totalPublisherDataForSchema(schemaId, OTHER_PUBLISHER), 0n)
+
+    const [items] = (await remote.getByKey(schemaId, PUBLISHER, key)) as { name: string; value: { value: unknown } }[][]
+    assert.equal(items.find(item => item.name === 'value')?.value.value, 7n)
+    assert.equal(await local.getLastPublishedDataForSchema(schemaId, OTHER_PUBLISHER), null)
+  })
+
+  test('delivers matching events to local and polling subscribers', async () => {
+    const schemaId = await local.computeSchemaId(TRANSFER_MARKET_SCHEMA)
+    const received: [string, StreamEvent][] = []
+
+    const localSubscription = await local.subscribe({
+      eventId: 'MarketEvent',
+      argumentTopics: [MARKET_ID],
+      onData: event => received.push(['local', event]),
+    })
+    const remoteSubscription = await remote.subscribe({
+      eventId: 'MarketEvent',
+      argumentTopics: [MARKET_ID],
+      onData: event => received.push(['remote', event]),
+    })
+
+    await remote.setAndEmitEvents(
+      [{ id: `0x${'33'.repeat(32)}`, schemaId, data: encodeTransfer(9n) }],
+      [{ id: 'MarketEvent', argumentTopics: [MARKET_ID], data: '0x' }]
+    )
+    // A different market's event is filtered out
+    await local.setAndEmitEvents([], [{ id: 'MarketEvent', argumentTopics: [`0x${'99'.repeat(32)}`], data: '0x' }])
+    await sleep(300)
+
+    localSubscription.unsubscribe()
+    remoteSubscription.unsubscribe()
+
+    assert.deepEqual(received.map(([source]) => source).sort(), ['local', 'remote'])
+    for (const [, event] of received) {
+      assert.equal(event.publisher, OTHER_PUBLISHER)
+      assert.equal(event.dataStreams.length, 1)
+    }
+  })
+})
@@ -0,0 +1,89 @@
+/**
+ * Timeout policy tests
+ *
+ * Reads policies from a plain env object and checks the fallback the resolver
+ * takes for a market that never got qualifying data.
+ */
+
+import { describe, test } from 'node:test'
+import assert from 'node:assert/strict'
+import { applyCancelGracePeriod, getFallbackOption, getTimeoutDeadline, loadTimeoutPolicies } from '../src/timeoutPolicy'
+
+const BLOCK = 0
+const TRANSFER = 1
+const GAME = 2
+
+describe('loading timeout policies', () => {
+  test('defaults every market type to cancelling after an hour', () => {
+    const policies = loadTimeoutPolicies({})
+
+    for (const marketType of [BLOCK, TRANSFER, GAME]) {
+      assert.deepEqual(policies[marketType], { gracePeriod: 3600n, action: 'cancel' })
+    }
+  })
+
+  test('reads the grace period and action per market type', () => {
+    const policies = loadTimeoutPolicies({
+      TIMEOUT_GRACE_TRANSFER: '600',
+      TIMEOUT_ACTION_TRANSFER: 'NO',
+      TIMEOUT_ACTION_GAME: 'yes',
+      TIMEOUT_GRACE_BLOCK: ' 0 ',
+    })
+
+    assert.deepEqual(policies[BLOCK], { gracePeriod: 0n, action: 'cancel' })
+    assert.deepEqual(policies[TRANSFER], { gracePeriod: 600n, action: 'no' })
+    assert.deepEqual(policies[GAME], { gracePeriod: 3600n, action: 'yes' })
+  })
+
+  test('rejects an unknown action', () => {
+    assert.throws(
+      () => loadTimeoutPolicies({ TIMEOUT_ACTION_GAME: 'refund' }),
+      /Invalid TIMEOUT_ACTION_GAME: refund \(expected cancel, yes or no\)/
+    )
+  })
+
+  test('rejects a grace period that is not whole seconds', () => {
+    for (const grace of ['1h', '-60', '1.5']) {
+      assert.throws(
+        () => loadTimeoutPolicies({ TIMEOUT_GRACE_BLOCK: grace }),
+        new RegExp(`Invalid TIMEOUT_GRACE_BLOCK: ${grace.replace('.', '\\.')} \\(expected whole seconds\\)`)
+      )
+    }
+  })
+})
+
+describe('contract cancel grace period', () => {
+  test('raises only cancelling policies that are shorter than the contract allows', () => {
+    const policies = loadTimeoutPolicies({
+      TIMEOUT_GRACE_BLOCK: '60',
+      TIMEOUT_GRACE_TRANSFER: '60',
+      TIMEOUT_ACTION_TRANSFER: 'yes',
+      TIMEOUT_GRACE_GAME: '7200',
+    })
+
+    assert.deepEqual(applyCancelGracePeriod(policies, 3600n), [BLOCK])
+    assert.equal(policies[BLOCK].gracePeriod, 3600n)
+    // Resolving fallbacks do not go through cancelExpiredMarket
+    assert.equal(policies[TRANSFER].gracePeriod, 60n)
+    assert.equal(policies[GAME].gracePeriod, 7200n)
+  })
+
+  test('leaves policies alone when none are too short', () => {
+    const policies = loadTimeoutPolicies({})
+
+    assert.deepEqual(applyCancelGracePeriod(policies, 3600n), [])
+    assert.equal(policies[BLOCK].gracePeriod, 3600n)
+  })
+})
+
+describe('fallbacks', () => {
+  test('falls back once the grace period after resolutionTime has passed', () => {
+    assert.equal(getTimeoutDeadline({ resolutionTime: 2000n }, { gracePeriod: 600n, action: 'no' }), 2600n)
+  })
+
+  test('maps resolving actions to a winning option and cancel to none', () => {
+    assert.equal(getFallbackOption('yes'), 0)
+    assert.equal(getFallbackOption('no'), 1)
+    assert.equal(getFallbackOption('cancel'), null)
+  })
+})
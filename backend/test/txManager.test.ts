@@ -0,0 +1,319 @@
+/**
+ * Transaction manager tests
+ *
+ * Runs the queue against stub public and wallet clients that record every
+ * send, so the tests can check nonces, fees, retries and replacement without
+ * a node. Backoff delays are recorded and shortened to a tick.
+ */
+
+import { afterEach, beforeEach, describe, mock, test } from 'node:test'
+import assert from 'node:assert/strict'
+import { WaitForTransactionReceiptTimeoutError, type Account, type PublicClient, type TransactionReceipt, type WalletClient } from 'viem'
+import { createTxManager, type TxJob, type TxManagerOptions } from '../src/txManager'
+
+const ACCOUNT = { address: `0x${'a1'.repeat(20)}`, type: 'json-rpc' } as Account
+
+interface Send {
+  label: string
+  nonce: number
+  maxFeePerGas?: bigint
+  maxPriorityFeePerGas?: bigint
+  hash: `0x${string}`
+}
+
+interface StubOptions {
+  // Successive results of getTransactionCount for the pending block
+  nonces?: number[]
+  // getTransactionCount for the latest block: nonces below it are used up (default 0)
+  minedNonce?: () => number
+  // Successive fee estimates; the last one repeats
+  fees?: { maxFeePerGas: bigint; maxPriorityFeePerGas: bigint }[]
+  // Called before each send is accepted; throw to reject it
+  beforeSend?: (send: Omit<Send, 'hash'>, index: number) => Promise<void> | void
+  // Receipt for a broadcast; null leaves it pending until the stuck timeout
+  receiptFor?: (hash: `0x${string}`, index: number) => TransactionReceipt | null
+  // Hashes getTransactionReceipt reports as mined
+  mined?: Set<`0x${string}`>
+}
+
+function receipt(hash: `0x${string}`, status: 'success' | 'reverted' = 'success'): TransactionReceipt {
+  return { transactionHash: hash, status } as TransactionReceipt
+}
+
+function createStubClients(stub: StubOptions = {}) {
+  const nonces = [...(stub.nonces ?? [7])]
+  const fees = [...(stub.fees ?? [{ maxFeePerGas: 100n, maxPriorityFeePerGas: 10n }])]
+  const mined = stub.mined ?? new Set<`0x${string}`>()
+  const sends: Send[] = []
+  let nonceLookups = 0
+
+  const publicClient = {
+    async simulateContract() {
+      return {}
+    },
+    async getTransactionCount({ blockTag }: { blockTag: 'latest' | 'pending' }) {
+      if (blockTag === 'latest') return stub.minedNonce?.() ?? 0
+      nonceLookups++
+      return nonces.length > 1 ? nonces.shift()! : nonces[0]
+    },
+    async estimateFeesPerGas() {
+      return fees.length > 1 ? fees.shift()! : fees[0]
+    },
+    async waitForTransactionReceipt({ hash }: { hash: `0x${string}` }) {
+      const index = sends.findIndex(send => send.hash === hash)
+      const found = (stub.receiptFor ?? ((sent) => receipt(sent)))(hash, index)
+      if (!found) throw new WaitForTransactionReceiptTimeoutError({ hash })
+      return found
+    },
+    async getTransactionReceipt({ hash }: { hash: `0x${string}` }) {
+      if (!mined.has(hash)) throw new Error(`Transaction receipt with hash "${hash}" could not be found`)
+      return receipt(hash)
+    },
+  } as unknown as PublicClient
+
+  let attempts = 0
+  const walletClient = {
+    chain: undefined,
+    async writeContract(params: { functionName: string; nonce: number; maxFeePerGas?: bigint; maxPriorityFeePerGas?: bigint }) {
+      const send = {
+        label: params.functionName,
+        nonce: params.nonce,
+        maxFeePerGas: params.maxFeePerGas,
+        maxPriorityFeePerGas: params.maxPriorityFeePerGas,
+      }
+      await stub.beforeSend?.(send, attempts++)
+      const hash = `0x${(sends.length + 1).toString(16).padStart(64, '0')}` as const
+      sends.push({ ...send, hash })
+      return hash
+    },
+  } as unknown as WalletClient
+
+  return {
+    sends,
+    mined,
+    get nonceLookups() {
+      return nonceLookups
+    },
+    manager: (options: Partial<TxManagerOptions> = {}) =>
+      createTxManager({ publicClient, walletClient, account: ACCOUNT, retryBaseMs: 10, stuckTimeoutMs: 1, ...options }),
+  }
+}
+
+function job(label: string, extra: Partial<TxJob> = {}): TxJob {
+  return {
+    label,
+    request: { address: `0x${'22'.repeat(20)}`, abi: [], functionName: label, args: [] },
+    ...extra,
+  }
+}
+
+let delays: number[]
+
+beforeEach(() => {
+  delays = []
+  process.env.LOG_LEVEL = 'error'
+  const realSetTimeout = globalThis.setTimeout
+  mock.method(globalThis, 'setTimeout', (callback: () => void, ms?: number) => {
+    delays.push(ms ?? 0)
+    return realSetTimeout(callback, 0)
+  })
+})
+
+afterEach(() => {
+  mock.restoreAll()
+  delete process.env.LOG_LEVEL
+})
+
+describe('transaction manager', () => {
+  test('reads the nonce once and increments it locally', async () => {
+    const stub = createStubClients({ nonces: [7] })
+    const manager = stub.manager()
+
+    const outcomes = await Promise.all([manager.submit(job('first')), manager.submit(job('second'))])
+
+    assert.deepEqual(outcomes.map(outcome => outcome.status), ['confirmed', 'confirmed'])
+    assert.deepEqual(stub.sends.map(send => send.nonce), [7, 8])
+    assert.equal(stub.nonceLookups, 1)
+  })
+
+  test('resyncs the nonce from the chain after a nonce error', async () => {
+    const stub = createStubClients({
+      nonces: [7, 9],
+      beforeSend: (_send, index) => {
+        if (index === 0) throw new Error('nonce too low')
+      },
+    })
+
+    const outcome = await stub.manager().submit(job('resolve'))
+
+    assert.equal(outcome.status, 'confirmed')
+    assert.deepEqual(stub.sends.map(send => send.nonce), [9])
+    assert.equal(stub.nonceLookups, 2)
+  })
+
+  test('backs off exponentially between failed sends and gives up after maxAttempts', async () => {
+    const stub = createStubClients({
+      beforeSend: () => {
+        throw new Error('rpc unavailable')
+      },
+    })
+
+    await assert.rejects(stub.manager({ maxAttempts: 4 }).submit(job('resolve')), /rpc unavailable/)
+
+    assert.deepEqual(delays, [10, 20, 40])
+    assert.equal(stub.sends.length, 0)
+  })
+
+  test('replaces a stuck transaction at the same nonce with bumped fees', async () => {
+    const broadcasts: `0x${string}`[] = []
+    const stub = createStubClients({
+      fees: [
+        { maxFeePerGas: 100n, maxPriorityFeePerGas: 10n },
+        // The network asks for more than a 20% bump on the fee cap, but not the tip
+        { maxFeePerGas: 150n, maxPriorityFeePerGas: 5n },
+      ],
+      receiptFor: (hash, index) => (index === 0 ? null : receipt(hash)),
+    })
+
+    const outcome = await stub.manager({ feeBumpPercent: 20 }).submit(job('resolve', { onBroadcast: hash => { broadcasts.push(hash) } }))
+
+    assert.equal(outcome.status, 'confirmed')
+    assert.deepEqual(stub.sends.map(({ nonce, maxFeePerGas, maxPriorityFeePerGas }) => [nonce, maxFeePerGas, maxPriorityFeePerGas]), [
+      [7, 100n, 10n],
+      [7, 150n, 12n],
+    ])
+    assert.deepEqual(broadcasts, stub.sends.map(send => send.hash))
+    assert.equal(outcome.status === 'confirmed' && outcome.hash, stub.sends[1].hash)
+  })
+
+  test('returns the original receipt when it is mined while the replacement is sent', async () => {
+    const stub = createStubClients({
+      receiptFor: () => null,
+      beforeSend: (_send, index) => {
+        if (index === 0) return
+        // The stuck transaction was mined after the timeout, so the node rejects its replacement
+        stub.mined.add(stub.sends[0].hash)
+        throw new Error('nonce too low')
+      },
+    })
+
+    const outcome = await stub.manager().submit(job('resolve'))
+
+    assert.equal(outcome.status, 'confirmed')
+    assert.equal(outcome.status === 'confirmed' && outcome.hash, stub.sends[0].hash)
+    assert.equal(stub.sends.length, 1)
+    assert.deepEqual(delays, [])
+  })
+
+  test('gives up on a send after maxReplacements and resyncs the nonce', async () => {
+    // The chain has since seen the stuck transaction, so the next job goes after it
+    const stub = createStubClients({ nonces: [7, 8], receiptFor: (hash, index) => (index < 3 ? null : receipt(hash)) })
+    const manager = stub.manager({ maxAttempts: 1, maxReplacements: 2 })
+
+    await assert.rejects(manager.submit(job('resolve')), /resolve stuck at nonce 7 after 2 replacements/)
+    await manager.submit(job('publish'))
+
+    assert.deepEqual(stub.sends.map(send => send.nonce), [7, 7, 7, 8])
+  })
+
+  test('does not retry a transaction that reverted', async () => {
+    const stub = createStubClients({ receiptFor: hash => receipt(hash, 'reverted') })
+
+    await assert.rejects(stub.manager().submit(job('resolve')), /reverted/)
+
+    assert.equal(stub.sends.length, 1)
+    assert.deepEqual(delays, [])
+  })
+
+  test('skips a job when skipIf returns a reason', async () => {
+    const stub = createStubClients()
+
+    const outcome = await stub.manager().submit(job('resolve', { skipIf: async () => 'already resolved' }))
+
+    assert.deepEqual(outcome, { status: 'skipped', reason: 'already resolved' })
+    assert.equal(stub.sends.length, 0)
+  })
+
+  test('runs high priority jobs ahead of queued normal ones, in submission order', async () => {
+    let unblock!: () => void
+    const blocked = new Promise<void>(resolve => { unblock = resolve })
+    const stub = createStubClients({
+      beforeSend: (send) => (send.label === 'publish-0' ? blocked : undefined),
+    })
+    const manager = stub.manager()
+
+    const submitted = [
+      manager.submit(job('publish-0')),
+      manager.submit(job('publish-1')),
+      manager.submit(job('publish-2')),
+      manager.submit(job('resolve-1', { priority: 'high' })),
+      manager.submit(job('resolve-2', { priority: 'high' })),
+    ]
+    assert.equal(manager.pending, 4)
+    unblock()
+    await Promise.all(submitted)
+
+    assert.deepEqual(stub.sends.map(send => send.label), ['publish-0', 'resolve-1', 'resolve-2', 'publish-1', 'publish-2'])
+    assert.deepEqual(stub.sends.map(send => send.nonce), [7, 8, 9, 10, 11])
+  })
+  test('replaces the broadcast at the same nonce when waiting for it fails', async () => {
+    const stub = createStubClients({
+      receiptFor: (hash, index) => {
+        if (index === 0) throw new Error('socket hang up')
+        return receipt(hash)
+      },
+    })
+
+    const outcome = await stub.manager().submit(job('resolve'))
+
+    assert.equal(outcome.status, 'confirmed')
+    assert.deepEqual(stub.sends.map(({ nonce, maxFeePerGas }) => [nonce, maxFeePerGas]), [[7, 100n], [7, 120n]])
+    assert.equal(outcome.status === 'confirmed' && outcome.hash, stub.sends[1].hash)
+  })
+
+  test('does not send again when recording the broadcast fails but the transaction is mined', async () => {
+    let recorded = 0
+    const stub = createStubClients()
+    const outcome = await stub.manager().submit(job('resolve', {
+      onBroadcast: (hash) => {
+        stub.mined.add(hash)
+        if (recorded++ === 0) throw new Error('database is locked')
+      },
+      // The market still reads as unresolved, as it would while the transaction is pending
+      skipIf: async () => null,
+    }))
+
+    assert.equal(outcome.status, 'confirmed')
+    assert.equal(stub.sends.length, 1)
+    assert.equal(outcome.status === 'confirmed' && outcome.hash, stub.sends[0].hash)
+  })
+
+  test('keeps a stuck job at its nonce across retries', async () => {
+    const stub = createStubClients({ nonces: [7, 8], receiptFor: (hash, index) => (index < 2 ? null : receipt(hash)) })
+
+    const outcome = await stub.manager({ maxAttempts: 2, maxReplacements: 1 }).submit(job('resolve'))
+
+    assert.equal(outcome.status, 'confirmed')
+    assert.deepEqual(stub.sends.map(send => send.nonce), [7, 7, 7])
+    assert.deepEqual(delays, [10])
+  })
+
+  test('sends at a new nonce once another transaction took the old one', async () => {
+    let minedNonce = 0
+    const stub = createStubClients({
+      nonces: [7, 8],
+      minedNonce: () => minedNonce,
+      receiptFor: (hash, index) => {
+        if (index > 0) return receipt(hash)
+        // Something else was mined at nonce 7, so this broadcast is gone for good
+        minedNonce = 8
+        throw new Error('socket hang up')
+      },
+    })
+
+    const outcome = await stub.manager().submit(job('resolve'))
+
+    assert.equal(outcome.status, 'confirmed')
+    assert.deepEqual(stub.sends.map(send => send.nonce), [7, 8])
+  })
+})
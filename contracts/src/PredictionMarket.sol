@@ -18,6 +18,12 @@ contract PredictionMarket is Ownable, ReentrancyGuard {
     enum MarketType { BLOCK, TRANSFER, GAME }
     enum MarketStatus { ACTIVE, LOCKED, RESOLVED, CANCELLED }
 
+    // Resolution criteria: YES wins when `metric <comparator> threshold` holds
+    enum Comparator { GT, GTE, LT, LTE, EQ }
+    enum Metric { TX_COUNT, TRANSFER_VALUE, TIME_TAKEN, TOTAL_DAMAGE }
+    // How events observed between createdAt and resolutionTime are combined before comparing
+    enum Aggregation { FIRST_AFTER_LOCK, ANY, MAX, MIN, SUM, COUNT }
+
     // Market Structure
     struct Market {
         bytes32 marketId;
@@ -33,6 +39,9 @@ contract PredictionMarket is Ownable, ReentrancyGuard {
         bytes32 dataSourceId; // SDS stream identifier
         uint256 threshold; // Optional: for BLOCK/TRANSFER markets (0 if not used)
         address thresholdToken; // Optional: for TRANSFER markets (address(0) if not used)
+        Comparator comparator; // How the observed metric is compared against threshold
+        Metric metric; // Which observed value the resolver compares
+        Aggregation aggregation; // How observed values are combined into one
     }
 
     // Bet Structure
@@ -60,6 +69,7 @@ contract PredictionMarket is Ownable, ReentrancyGuard {
     uint256 public minBetAmount = 0.01 ether; // 0.01 SOMI (18 decimals)
     uint256 public maxBetAmount = 100 ether; // 100 SOMI
     uint256 public collectedFees; // Track fees separately
+    uint256 public cancelGracePeriod = 1 hours; // Wait after resolution time before a resolver may cancel
 
     // Authorized resolvers (SDS services)
     mapping(address => bool) public authorizedResolvers;
@@ -72,7 +82,10 @@ contract PredictionMarket is Ownable, ReentrancyGuard {
         address indexed creator,
         bytes32 dataSourceId,
         uint256 threshold,
-        address thresholdToken
+        address thresholdToken,
+        Comparator comparator,
+        Metric metric,
+        Aggregation aggregation
     );
 
     event BetPlaced(
@@ -107,6 +120,8 @@ contract PredictionMarket is Ownable, ReentrancyGuard {
 
     event ResolverUpdated(address indexed resolver, bool authorized);
 
+    event CancelGracePeriodUpdated(uint256 newPeriod);
+
     // Modifiers
     modifier onlyResolver() {
         require(authorizedResolvers[msg.sender] || msg.sender == owner(), "Not authorized");
@@ -129,6 +144,9 @@ contract PredictionMarket is Ownable, ReentrancyGuard {
      * @dev Create a new prediction market
      * @param _threshold Optional: for BLOCK markets (tx count) or TRANSFER markets (amount). Use 0 for GAME markets.
      * @param _thresholdToken Optional: for TRANSFER markets, specify token address. Use address(0) for BLOCK/GAME markets.
+     * @param _comparator Comparison applied as `metric <comparator> threshold` to decide YES
+     * @param _metric Observed value to compare; must belong to the market type
+     * @param _aggregation How events in the market window are combined; BLOCK markets only support FIRST_AFTER_LOCK
      */
     function createMarket(
         bytes32 _marketId,
@@ -137,11 +155,19 @@ contract PredictionMarket is Ownable, ReentrancyGuard {
         uint256 _resolutionTime,
         bytes32 _dataSourceId,
         uint256 _threshold,
-        address _thresholdToken
+        address _thresholdToken,
+        Comparator _comparator,
+        Metric _metric,
+        Aggregation _aggregation
     ) external returns (bytes32) {
         require(markets[_marketId].marketId == bytes32(0), "Market already exists");
         require(_resolutionTime > block.timestamp, "Invalid resolution time");
         require(bytes(_question).length > 0, "Question cannot be empty");
+        require(_isMetricForType(_marketType, _metric), "Invalid metric for market type");
+        require(
+            _marketType != MarketType.BLOCK || _aggregation == Aggregation.FIRST_AFTER_LOCK,
+            "Invalid aggregation for market type"
+        );
 
         Market memory newMarket = Market({
             marketId: _marketId,
@@ -156,7 +182,10 @@ contract PredictionMarket is Ownable, ReentrancyGuard {
             optionPools: [uint256(0), uint256(0)],
             dataSourceId: _dataSourceId,
             threshold: _threshold,
-            thresholdToken: _thresholdToken
+            thresholdToken: _thresholdToken,
+            comparator: _comparator,
+            metric: _metric,
+            aggregation: _aggregation
         });
 
         markets[_marketId] = newMarket;
@@ -169,14 +198,31 @@ contract PredictionMarket is Ownable, ReentrancyGuard {
             msg.sender,
             _dataSourceId,
             _threshold,
-            _thresholdToken
+            _thresholdToken,
+            _comparator,
+            _metric,
+            _aggregation
         );
 
         return _marketId;
     }
 
+    /**
+     * @dev Check that a metric can be observed for a market type
+     */
+    function _isMetricForType(MarketType _marketType, Metric _metric) internal pure returns (bool) {
+        if (_marketType == MarketType.BLOCK) {
+            return _metric == Metric.TX_COUNT;
+        }
+        if (_marketType == MarketType.TRANSFER) {
+            return _metric == Metric.TRANSFER_VALUE;
+        }
+        return _metric == Metric.TIME_TAKEN || _metric == Metric.TOTAL_DAMAGE;
+    }
+
     /**
      * @dev Place a bet on a market using SOMI tokens
+     * Betting closes at the market's resolution time.
      */
     function placeBet(
         bytes32 _marketId,
@@ -187,6 +233,7 @@ contract PredictionMarket is Ownable, ReentrancyGuard {
 
         require(market.marketId != bytes32(0), "Market does not exist");
         require(market.status == MarketStatus.ACTIVE, "Market not active");
+        require(block.timestamp < market.resolutionTime, "Betting closed");
         require(_option <= 1, "Invalid option");
         require(_amount >= minBetAmount, "Bet too small");
         require(_amount <= maxBetAmount, "Bet too large");
@@ -279,9 +326,27 @@ contract PredictionMarket is Ownable, ReentrancyGuard {
     }
 
     /**
-     * @dev Cancel a market and enable refunds
+     * @dev Cancel a market and enable refunds (only owner)
      */
     function cancelMarket(bytes32 _marketId) external onlyOwner {
+        _cancel(_marketId);
+    }
+
+    /**
+     * @dev Cancel a market that was never resolved (only authorized resolvers)
+     * Allowed once cancelGracePeriod has passed since resolution time, for markets
+     * whose qualifying data never arrived.
+     */
+    function cancelExpiredMarket(bytes32 _marketId) external onlyResolver {
+        Market storage market = markets[_marketId];
+
+        require(market.marketId != bytes32(0), "Market does not exist");
+        require(block.timestamp >= market.resolutionTime + cancelGracePeriod, "Grace period not over");
+
+        _cancel(_marketId);
+    }
+
+    function _cancel(bytes32 _marketId) internal {
         Market storage market = markets[_marketId];
 
         require(market.marketId != bytes32(0), "Market does not exist");
@@ -355,6 +420,15 @@ contract PredictionMarket is Ownable, ReentrancyGuard {
         emit BetLimitsUpdated(_min, _max);
     }
 
+    /**
+     * @dev Set how long after resolution time resolvers must wait to cancel (only owner)
+     */
+    function setCancelGracePeriod(uint256 _period) external onlyOwner {
+        require(_period <= 30 days, "Grace period too long");
+        cancelGracePeriod = _period;
+        emit CancelGracePeriodUpdated(_period);
+    }
+
     /**
      * @dev Set resolver authorization (only owner)
      */
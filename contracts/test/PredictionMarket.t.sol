@@ -3,9 +3,11 @@ pragma solidity ^0.8.20;
 
 import "forge-std/Test.sol";
 import "../src/PredictionMarket.sol";
+import "../src/SomiToken.sol";
 
 contract PredictionMarketTest is Test {
     PredictionMarket public predictionMarket;
+    SomiToken public somiToken;
 
     address owner = address(this); // Test contract is owner
     address resolver = makeAddr("resolver");
@@ -23,8 +25,13 @@ contract PredictionMarketTest is Test {
         bytes32 indexed marketId,
         PredictionMarket.MarketType marketType,
         string question,
-        address creator,
-        bytes32 dataSourceId
+        address indexed creator,
+        bytes32 dataSourceId,
+        uint256 threshold,
+        address thresholdToken,
+        PredictionMarket.Comparator comparator,
+        PredictionMarket.Metric metric,
+        PredictionMarket.Aggregation aggregation
     );
 
     event BetPlaced(
@@ -38,31 +45,31 @@ contract PredictionMarketTest is Test {
     event MarketResolved(
         bytes32 indexed marketId,
         uint8 winningOption,
-        uint256 totalPool,
-        uint256 timestamp
+        uint256 totalPool
     );
 
     event WinningsClaimed(
         bytes32 indexed marketId,
-        address indexed winner,
+        address indexed bettor,
         uint256 amount
     );
 
     event MarketCancelled(bytes32 indexed marketId);
     event ResolverUpdated(address indexed resolver, bool authorized);
-    event PlatformFeeUpdated(uint256 oldFee, uint256 newFee);
+    event PlatformFeeUpdated(uint256 newFee);
     event BetLimitsUpdated(uint256 minAmount, uint256 maxAmount);
     event FeesWithdrawn(address indexed owner, uint256 amount);
+    event CancelGracePeriodUpdated(uint256 newPeriod);
 
     function setUp() public {
-        predictionMarket = new PredictionMarket();
+        somiToken = new SomiToken();
+        predictionMarket = new PredictionMarket(address(somiToken));
         predictionMarket.setResolver(resolver, true);
-        
-        // Fund test accounts
-        vm.deal(bettor1, 50 ether);
-        vm.deal(bettor2, 50 ether);
-        vm.deal(bettor3, 100 ether);
-        vm.deal(creator, 10 ether);
+
+        // Fund test accounts with SOMI and approve the market to pull bets
+        _fund(bettor1, 50 ether);
+        _fund(bettor2, 50 ether);
+        _fund(bettor3, 100 ether);
     }
 
     /* ============ Deployment Tests ============ */
@@ -75,18 +82,28 @@ contract PredictionMarketTest is Test {
         assertTrue(predictionMarket.authorizedResolvers(owner));
     }
 
+    function test_Deployment_TokenIsSet() public view {
+        assertEq(address(predictionMarket.somiToken()), address(somiToken));
+    }
+
+    function test_Deployment_RevertWhen_ZeroToken() public {
+        vm.expectRevert("Invalid token address");
+        new PredictionMarket(address(0));
+    }
+
     function test_Deployment_DefaultValues() public view {
         assertEq(predictionMarket.platformFee(), 200);
         assertEq(predictionMarket.minBetAmount(), 0.01 ether);
         assertEq(predictionMarket.maxBetAmount(), 100 ether);
         assertEq(predictionMarket.collectedFees(), 0);
+        assertEq(predictionMarket.cancelGracePeriod(), 1 hours);
     }
 
     /* ============ Resolver Management Tests ============ */
 
     function test_SetResolver_Success() public {
         address newResolver = makeAddr("newResolver");
-        
+
         vm.expectEmit(true, false, false, true);
         emit ResolverUpdated(newResolver, true);
         predictionMarket.setResolver(newResolver, true);
@@ -108,11 +125,6 @@ contract PredictionMarketTest is Test {
         predictionMarket.setResolver(resolver, true);
     }
 
-    function test_SetResolver_RevertWhen_ZeroAddress() public {
-        vm.expectRevert("Invalid resolver address");
-        predictionMarket.setResolver(address(0), true);
-    }
-
     /* ============ Market Creation Tests ============ */
 
     function test_CreateMarket_Success() public {
@@ -124,25 +136,221 @@ contract PredictionMarketTest is Test {
             PredictionMarket.MarketType.BLOCK,
             question,
             resolutionTime,
-            dataSourceId
+            dataSourceId,
+            100,
+            address(0),
+            PredictionMarket.Comparator.GT,
+            PredictionMarket.Metric.TX_COUNT,
+            PredictionMarket.Aggregation.FIRST_AFTER_LOCK
         );
 
         PredictionMarket.Market memory market = predictionMarket.getMarket(marketId);
         assertEq(market.marketId, marketId);
         assertEq(market.question, question);
         assertEq(market.creator, creator);
+        assertEq(market.createdAt, block.timestamp);
+        assertEq(market.resolutionTime, resolutionTime);
         assertEq(uint(market.status), uint(PredictionMarket.MarketStatus.ACTIVE));
         assertEq(market.totalPool, 0);
+        assertEq(market.threshold, 100);
+    }
+
+    function test_CreateMarket_StoresCriteria() public {
+        uint256 resolutionTime = block.timestamp + 3600;
+
+        vm.prank(creator);
+        predictionMarket.createMarket(
+            marketId,
+            PredictionMarket.MarketType.TRANSFER,
+            "Will a transfer of 500 SOMI or less happen?",
+            resolutionTime,
+            dataSourceId,
+            500,
+            address(somiToken),
+            PredictionMarket.Comparator.LTE,
+            PredictionMarket.Metric.TRANSFER_VALUE,
+            PredictionMarket.Aggregation.FIRST_AFTER_LOCK
+        );
+
+        PredictionMarket.Market memory market = predictionMarket.getMarket(marketId);
+        assertEq(market.thresholdToken, address(somiToken));
+        assertEq(uint(market.comparator), uint(PredictionMarket.Comparator.LTE));
+        assertEq(uint(market.metric), uint(PredictionMarket.Metric.TRANSFER_VALUE));
+        assertEq(uint(market.aggregation), uint(PredictionMarket.Aggregation.FIRST_AFTER_LOCK));
+    }
+
+    function test_CreateMarket_EmitsCriteria() public {
+        uint256 resolutionTime = block.timestamp + 3600;
+
+        vm.expectEmit(true, true, false, true);
+        emit MarketCreated(
+            marketId,
+            PredictionMarket.MarketType.GAME,
+            question,
+            creator,
+            dataSourceId,
+            60,
+            address(0),
+            PredictionMarket.Comparator.LT,
+            PredictionMarket.Metric.TIME_TAKEN,
+            PredictionMarket.Aggregation.FIRST_AFTER_LOCK
+        );
+
+        vm.prank(creator);
+        predictionMarket.createMarket(
+            marketId,
+            PredictionMarket.MarketType.GAME,
+            question,
+            resolutionTime,
+            dataSourceId,
+            60,
+            address(0),
+            PredictionMarket.Comparator.LT,
+            PredictionMarket.Metric.TIME_TAKEN,
+            PredictionMarket.Aggregation.FIRST_AFTER_LOCK
+        );
+    }
+
+    function test_CreateMarket_GameAcceptsEitherGameMetric() public {
+        uint256 resolutionTime = block.timestamp + 3600;
+
+        vm.startPrank(creator);
+        predictionMarket.createMarket(
+            keccak256("time"),
+            PredictionMarket.MarketType.GAME,
+            question,
+            resolutionTime,
+            dataSourceId,
+            60,
+            address(0),
+            PredictionMarket.Comparator.LT,
+            PredictionMarket.Metric.TIME_TAKEN,
+            PredictionMarket.Aggregation.FIRST_AFTER_LOCK
+        );
+        predictionMarket.createMarket(
+            keccak256("damage"),
+            PredictionMarket.MarketType.GAME,
+            "Will the player deal at least 1000 damage?",
+            resolutionTime,
+            dataSourceId,
+            1000,
+            address(0),
+            PredictionMarket.Comparator.GTE,
+            PredictionMarket.Metric.TOTAL_DAMAGE,
+            PredictionMarket.Aggregation.FIRST_AFTER_LOCK
+        );
+        vm.stopPrank();
+
+        assertEq(uint(predictionMarket.getMarket(keccak256("time")).metric), uint(PredictionMarket.Metric.TIME_TAKEN));
+        assertEq(uint(predictionMarket.getMarket(keccak256("damage")).metric), uint(PredictionMarket.Metric.TOTAL_DAMAGE));
+    }
+
+    function test_CreateMarket_RevertWhen_MetricNotForBlock() public {
+        _expectInvalidMetric(PredictionMarket.MarketType.BLOCK, PredictionMarket.Metric.TRANSFER_VALUE);
+        _expectInvalidMetric(PredictionMarket.MarketType.BLOCK, PredictionMarket.Metric.TIME_TAKEN);
+        _expectInvalidMetric(PredictionMarket.MarketType.BLOCK, PredictionMarket.Metric.TOTAL_DAMAGE);
+    }
+
+    function test_CreateMarket_RevertWhen_MetricNotForTransfer() public {
+        _expectInvalidMetric(PredictionMarket.MarketType.TRANSFER, PredictionMarket.Metric.TX_COUNT);
+        _expectInvalidMetric(PredictionMarket.MarketType.TRANSFER, PredictionMarket.Metric.TIME_TAKEN);
+        _expectInvalidMetric(PredictionMarket.MarketType.TRANSFER, PredictionMarket.Metric.TOTAL_DAMAGE);
+    }
+
+    function test_CreateMarket_RevertWhen_MetricNotForGame() public {
+        _expectInvalidMetric(PredictionMarket.MarketType.GAME, PredictionMarket.Metric.TX_COUNT);
+        _expectInvalidMetric(PredictionMarket.MarketType.GAME, PredictionMarket.Metric.TRANSFER_VALUE);
+    }
+
+    function test_CreateMarket_StoresWindowAggregation() public {
+        uint256 resolutionTime = block.timestamp + 3600;
+
+        vm.prank(creator);
+        predictionMarket.createMarket(
+            marketId,
+            PredictionMarket.MarketType.TRANSFER,
+            "Will more than 10000 SOMI move before lock?",
+            resolutionTime,
+            dataSourceId,
+            10000,
+            address(somiToken),
+            PredictionMarket.Comparator.GT,
+            PredictionMarket.Metric.TRANSFER_VALUE,
+            PredictionMarket.Aggregation.SUM
+        );
+
+        PredictionMarket.Market memory market = predictionMarket.getMarket(marketId);
+        assertEq(uint(market.aggregation), uint(PredictionMarket.Aggregation.SUM));
+    }
+
+    function test_CreateMarket_GameAcceptsWindowAggregation() public {
+        uint256 resolutionTime = block.timestamp + 3600;
+
+        vm.prank(creator);
+        predictionMarket.createMarket(
+            marketId,
+            PredictionMarket.MarketType.GAME,
+            "Will any boss fall in under 30 seconds?",
+            resolutionTime,
+            dataSourceId,
+            30,
+            address(0),
+            PredictionMarket.Comparator.LT,
+            PredictionMarket.Metric.TIME_TAKEN,
+            PredictionMarket.Aggregation.MIN
+        );
+
+        assertEq(uint(predictionMarket.getMarket(marketId).aggregation), uint(PredictionMarket.Aggregation.MIN));
+    }
+
+    function test_CreateMarket_RevertWhen_BlockWindowAggregation() public {
+        for (uint8 aggregation = uint8(PredictionMarket.Aggregation.ANY); aggregation <= uint8(PredictionMarket.Aggregation.COUNT); aggregation++) {
+            vm.expectRevert("Invalid aggregation for market type");
+            predictionMarket.createMarket(
+                marketId,
+                PredictionMarket.MarketType.BLOCK,
+                question,
+                block.timestamp + 3600,
+                dataSourceId,
+                100,
+                address(0),
+                PredictionMarket.Comparator.GT,
+                PredictionMarket.Metric.TX_COUNT,
+                PredictionMarket.Aggregation(aggregation)
+            );
+        }
     }
 
     function test_CreateMarket_RevertWhen_DuplicateId() public {
         uint256 resolutionTime = block.timestamp + 3600;
 
         vm.startPrank(creator);
-        predictionMarket.createMarket(marketId, PredictionMarket.MarketType.BLOCK, question, resolutionTime, dataSourceId);
+        predictionMarket.createMarket(
+            marketId,
+            PredictionMarket.MarketType.BLOCK,
+            question,
+            resolutionTime,
+            dataSourceId,
+            100,
+            address(0),
+            PredictionMarket.Comparator.GT,
+            PredictionMarket.Metric.TX_COUNT,
+            PredictionMarket.Aggregation.FIRST_AFTER_LOCK
+        );
 
         vm.expectRevert("Market already exists");
-        predictionMarket.createMarket(marketId, PredictionMarket.MarketType.BLOCK, "Different", resolutionTime, dataSourceId);
+        predictionMarket.createMarket(
+            marketId,
+            PredictionMarket.MarketType.BLOCK,
+            "Different",
+            resolutionTime,
+            dataSourceId,
+            100,
+            address(0),
+            PredictionMarket.Comparator.GT,
+            PredictionMarket.Metric.TX_COUNT,
+            PredictionMarket.Aggregation.FIRST_AFTER_LOCK
+        );
         vm.stopPrank();
     }
 
@@ -152,7 +360,18 @@ contract PredictionMarketTest is Test {
 
         vm.prank(creator);
         vm.expectRevert("Invalid resolution time");
-        predictionMarket.createMarket(marketId, PredictionMarket.MarketType.BLOCK, question, pastTime, dataSourceId);
+        predictionMarket.createMarket(
+            marketId,
+            PredictionMarket.MarketType.BLOCK,
+            question,
+            pastTime,
+            dataSourceId,
+            100,
+            address(0),
+            PredictionMarket.Comparator.GT,
+            PredictionMarket.Metric.TX_COUNT,
+            PredictionMarket.Aggregation.FIRST_AFTER_LOCK
+        );
     }
 
     function test_CreateMarket_RevertWhen_EmptyQuestion() public {
@@ -160,7 +379,18 @@ contract PredictionMarketTest is Test {
 
         vm.prank(creator);
         vm.expectRevert("Question cannot be empty");
-        predictionMarket.createMarket(marketId, PredictionMarket.MarketType.BLOCK, "", resolutionTime, dataSourceId);
+        predictionMarket.createMarket(
+            marketId,
+            PredictionMarket.MarketType.BLOCK,
+            "",
+            resolutionTime,
+            dataSourceId,
+            100,
+            address(0),
+            PredictionMarket.Comparator.GT,
+            PredictionMarket.Metric.TX_COUNT,
+            PredictionMarket.Aggregation.FIRST_AFTER_LOCK
+        );
     }
 
     /* ============ Placing Bets Tests ============ */
@@ -168,21 +398,26 @@ contract PredictionMarketTest is Test {
     function test_PlaceBet_Success() public {
         _createMarket();
 
-        vm.deal(bettor1, 150 ether);
+        uint256 balanceBefore = somiToken.balanceOf(bettor1);
+
+        vm.expectEmit(true, true, false, true);
+        emit BetPlaced(marketId, bettor1, 0, 1 ether, block.timestamp);
         vm.prank(bettor1);
-        predictionMarket.placeBet{value: 1 ether}(marketId, 0);
+        predictionMarket.placeBet(marketId, 0, 1 ether);
 
         PredictionMarket.Market memory market = predictionMarket.getMarket(marketId);
         assertEq(market.totalPool, 1 ether);
         assertEq(market.optionPools[0], 1 ether);
+        assertEq(balanceBefore - somiToken.balanceOf(bettor1), 1 ether);
+        assertEq(somiToken.balanceOf(address(predictionMarket)), 1 ether);
     }
 
     function test_PlaceBet_MultipleBetsFromSameUser() public {
         _createMarket();
 
         vm.startPrank(bettor1);
-        predictionMarket.placeBet{value: 1 ether}(marketId, 0);
-        predictionMarket.placeBet{value: 0.5 ether}(marketId, 1);
+        predictionMarket.placeBet(marketId, 0, 1 ether);
+        predictionMarket.placeBet(marketId, 1, 0.5 ether);
         vm.stopPrank();
 
         PredictionMarket.Market memory market = predictionMarket.getMarket(marketId);
@@ -192,38 +427,66 @@ contract PredictionMarketTest is Test {
     function test_PlaceBet_RevertWhen_BelowMinimum() public {
         _createMarket();
 
-        vm.deal(bettor1, 150 ether);
         vm.prank(bettor1);
         vm.expectRevert("Bet too small");
-        predictionMarket.placeBet{value: 0.005 ether}(marketId, 0);
+        predictionMarket.placeBet(marketId, 0, 0.005 ether);
     }
 
     function test_PlaceBet_RevertWhen_AboveMaximum() public {
         _createMarket();
 
-        vm.deal(bettor1, 150 ether);
-        vm.deal(bettor1, 150 ether);
+        _fund(bettor1, 150 ether);
         vm.prank(bettor1);
         vm.expectRevert("Bet too large");
-        predictionMarket.placeBet{value: 101 ether}(marketId, 0);
+        predictionMarket.placeBet(marketId, 0, 101 ether);
     }
 
     function test_PlaceBet_RevertWhen_InvalidOption() public {
         _createMarket();
 
-        vm.deal(bettor1, 150 ether);
         vm.prank(bettor1);
         vm.expectRevert("Invalid option");
-        predictionMarket.placeBet{value: 1 ether}(marketId, 2);
+        predictionMarket.placeBet(marketId, 2, 1 ether);
     }
 
     function test_PlaceBet_RevertWhen_MarketDoesNotExist() public {
         bytes32 fakeMarketId = keccak256("fake");
 
-        vm.deal(bettor1, 150 ether);
         vm.prank(bettor1);
         vm.expectRevert("Market does not exist");
-        predictionMarket.placeBet{value: 1 ether}(fakeMarketId, 0);
+        predictionMarket.placeBet(fakeMarketId, 0, 1 ether);
+    }
+
+    function test_PlaceBet_RevertWhen_AtResolutionTime() public {
+        _createMarket();
+        PredictionMarket.Market memory market = predictionMarket.getMarket(marketId);
+
+        vm.warp(market.resolutionTime - 1);
+        vm.prank(bettor1);
+        predictionMarket.placeBet(marketId, 0, 1 ether);
+
+        vm.warp(market.resolutionTime);
+        vm.prank(bettor1);
+        vm.expectRevert("Betting closed");
+        predictionMarket.placeBet(marketId, 0, 1 ether);
+    }
+
+    function test_PlaceBet_RevertWhen_AfterResolutionTime() public {
+        _createMarket();
+        vm.warp(block.timestamp + 3601);
+
+        vm.prank(bettor1);
+        vm.expectRevert("Betting closed");
+        predictionMarket.placeBet(marketId, 1, 1 ether);
+    }
+
+    function test_PlaceBet_RevertWhen_NotApproved() public {
+        _createMarket();
+        somiToken.mint(unauthorized, 10 ether);
+
+        vm.prank(unauthorized);
+        vm.expectRevert();
+        predictionMarket.placeBet(marketId, 0, 1 ether);
     }
 
     /* ============ Market Resolution Tests ============ */
@@ -232,6 +495,8 @@ contract PredictionMarketTest is Test {
         _createMarketWithBets();
         vm.warp(block.timestamp + 3601);
 
+        vm.expectEmit(true, false, false, true);
+        emit MarketResolved(marketId, 0, 3 ether);
         vm.prank(resolver);
         predictionMarket.resolveMarket(marketId, 0);
 
@@ -255,7 +520,7 @@ contract PredictionMarketTest is Test {
         vm.warp(block.timestamp + 3601);
 
         vm.prank(unauthorized);
-        vm.expectRevert("Not authorized resolver");
+        vm.expectRevert("Not authorized");
         predictionMarket.resolveMarket(marketId, 0);
     }
 
@@ -263,7 +528,7 @@ contract PredictionMarketTest is Test {
         _createMarketWithBets();
 
         vm.prank(resolver);
-        vm.expectRevert("Too early to resolve");
+        vm.expectRevert("Market not ready");
         predictionMarket.resolveMarket(marketId, 0);
     }
 
@@ -272,7 +537,7 @@ contract PredictionMarketTest is Test {
         vm.warp(block.timestamp + 3601);
 
         vm.prank(resolver);
-        vm.expectRevert("Invalid winning option");
+        vm.expectRevert("Invalid option");
         predictionMarket.resolveMarket(marketId, 2);
     }
 
@@ -297,45 +562,45 @@ contract PredictionMarketTest is Test {
         vm.prank(resolver);
         predictionMarket.resolveMarket(marketId, 0);
 
-        uint256 balanceBefore = bettor1.balance;
+        uint256 balanceBefore = somiToken.balanceOf(bettor1);
 
-        // Bettor already has funds
+        vm.expectEmit(true, true, false, true);
+        emit WinningsClaimed(marketId, bettor1, 2.98 ether);
         vm.prank(bettor1);
         predictionMarket.claimWinnings(marketId);
 
-        uint256 balanceAfter = bettor1.balance;
-
-        // Gross: (2 * 3) / 2 = 3 ETH
-        // Profit: 1 ETH, Fee: 0.02 ETH
-        // Payout: 2.98 ETH
-        assertEq(balanceAfter - balanceBefore, 2.98 ether);
+        // Share of the losing pool: (2 * 1) / 2 = 1 SOMI profit
+        // Fee: 2% of profit = 0.02 SOMI
+        // Payout: 2 + 1 - 0.02 = 2.98 SOMI
+        assertEq(somiToken.balanceOf(bettor1) - balanceBefore, 2.98 ether);
+        assertEq(predictionMarket.collectedFees(), 0.02 ether);
     }
 
     function test_ClaimWinnings_MultipleWinners() public {
         _createMarket();
 
-        vm.deal(bettor1, 150 ether);
         vm.prank(bettor1);
-        predictionMarket.placeBet{value: 1 ether}(marketId, 0);
+        predictionMarket.placeBet(marketId, 0, 1 ether);
 
         vm.prank(bettor2);
-        predictionMarket.placeBet{value: 1 ether}(marketId, 0);
+        predictionMarket.placeBet(marketId, 0, 1 ether);
 
         vm.prank(bettor3);
-        predictionMarket.placeBet{value: 2 ether}(marketId, 1);
+        predictionMarket.placeBet(marketId, 1, 2 ether);
 
         vm.warp(block.timestamp + 3601);
         vm.prank(resolver);
         predictionMarket.resolveMarket(marketId, 0);
 
-        vm.deal(bettor1, 150 ether);
         vm.prank(bettor1);
         predictionMarket.claimWinnings(marketId);
 
         vm.prank(bettor2);
         predictionMarket.claimWinnings(marketId);
 
-        assertTrue(predictionMarket.collectedFees() > 0);
+        // Each winner takes half the losing pool: 1 + 1 - 0.02
+        assertEq(predictionMarket.collectedFees(), 0.04 ether);
+        assertEq(somiToken.balanceOf(address(predictionMarket)), 0.04 ether);
     }
 
     function test_ClaimWinnings_RevertWhen_DoubleClaim() public {
@@ -368,7 +633,6 @@ contract PredictionMarketTest is Test {
     function test_ClaimWinnings_RevertWhen_NotResolved() public {
         _createMarketWithBets();
 
-        // Bettor already has funds
         vm.prank(bettor1);
         vm.expectRevert("Market not resolved");
         predictionMarket.claimWinnings(marketId);
@@ -376,58 +640,143 @@ contract PredictionMarketTest is Test {
 
     /* ============ Market Cancellation Tests ============ */
 
-    function test_CancelMarket_ByCreator() public {
+    function test_CancelMarket_ByOwner() public {
         _createMarket();
 
-        vm.prank(creator);
+        vm.expectEmit(true, false, false, false);
+        emit MarketCancelled(marketId);
         predictionMarket.cancelMarket(marketId);
 
         PredictionMarket.Market memory market = predictionMarket.getMarket(marketId);
         assertEq(uint(market.status), uint(PredictionMarket.MarketStatus.CANCELLED));
     }
 
-    function test_CancelMarket_ByOwner() public {
+    function test_CancelMarket_RevertWhen_Unauthorized() public {
         _createMarket();
 
+        vm.prank(unauthorized);
+        vm.expectRevert(abi.encodeWithSelector(Ownable.OwnableUnauthorizedAccount.selector, unauthorized));
         predictionMarket.cancelMarket(marketId);
+    }
 
+    function test_CancelMarket_RevertWhen_Resolver() public {
+        _createMarket();
+        vm.warp(block.timestamp + 3600 + predictionMarket.cancelGracePeriod());
+
+        vm.prank(resolver);
+        vm.expectRevert(abi.encodeWithSelector(Ownable.OwnableUnauthorizedAccount.selector, resolver));
+        predictionMarket.cancelMarket(marketId);
+    }
+
+    function test_CancelExpiredMarket_ByResolverAfterGracePeriod() public {
+        _createMarketWithBets();
         PredictionMarket.Market memory market = predictionMarket.getMarket(marketId);
+        vm.warp(market.resolutionTime + predictionMarket.cancelGracePeriod());
+
+        vm.expectEmit(true, false, false, false);
+        emit MarketCancelled(marketId);
+        vm.prank(resolver);
+        predictionMarket.cancelExpiredMarket(marketId);
+
+        market = predictionMarket.getMarket(marketId);
         assertEq(uint(market.status), uint(PredictionMarket.MarketStatus.CANCELLED));
+
+        // Bettors can take their stakes back
+        uint256 balanceBefore = somiToken.balanceOf(bettor1);
+        vm.prank(bettor1);
+        predictionMarket.refundBets(marketId);
+        assertEq(somiToken.balanceOf(bettor1) - balanceBefore, 2 ether);
     }
 
-    function test_CancelMarket_RevertWhen_Unauthorized() public {
+    function test_CancelExpiredMarket_RevertWhen_GracePeriodNotOver() public {
+        _createMarketWithBets();
+        PredictionMarket.Market memory market = predictionMarket.getMarket(marketId);
+
+        // Before resolution time and inside the grace period
+        vm.prank(resolver);
+        vm.expectRevert("Grace period not over");
+        predictionMarket.cancelExpiredMarket(marketId);
+
+        vm.warp(market.resolutionTime + predictionMarket.cancelGracePeriod() - 1);
+        vm.prank(resolver);
+        vm.expectRevert("Grace period not over");
+        predictionMarket.cancelExpiredMarket(marketId);
+    }
+
+    function test_CancelExpiredMarket_OwnerAlsoWaits() public {
+        _createMarket();
+
+        vm.expectRevert("Grace period not over");
+        predictionMarket.cancelExpiredMarket(marketId);
+    }
+
+    function test_CancelExpiredMarket_RevertWhen_Unauthorized() public {
         _createMarket();
+        vm.warp(block.timestamp + 3600 + predictionMarket.cancelGracePeriod());
 
         vm.prank(unauthorized);
         vm.expectRevert("Not authorized");
-        predictionMarket.cancelMarket(marketId);
+        predictionMarket.cancelExpiredMarket(marketId);
+    }
+
+    function test_CancelExpiredMarket_RevertWhen_Resolved() public {
+        _createMarketWithBets();
+        vm.warp(block.timestamp + 3601);
+
+        vm.prank(resolver);
+        predictionMarket.resolveMarket(marketId, 0);
+
+        vm.warp(block.timestamp + predictionMarket.cancelGracePeriod());
+        vm.prank(resolver);
+        vm.expectRevert("Market not active");
+        predictionMarket.cancelExpiredMarket(marketId);
+    }
+
+    function test_CancelExpiredMarket_RevertWhen_MarketDoesNotExist() public {
+        vm.prank(resolver);
+        vm.expectRevert("Market does not exist");
+        predictionMarket.cancelExpiredMarket(keccak256("fake"));
+    }
+
+    function test_SetCancelGracePeriod_Success() public {
+        vm.expectEmit(false, false, false, true);
+        emit CancelGracePeriodUpdated(1 days);
+        predictionMarket.setCancelGracePeriod(1 days);
+        assertEq(predictionMarket.cancelGracePeriod(), 1 days);
+    }
+
+    function test_SetCancelGracePeriod_RevertWhen_TooLong() public {
+        vm.expectRevert("Grace period too long");
+        predictionMarket.setCancelGracePeriod(31 days);
+    }
+
+    function test_SetCancelGracePeriod_RevertWhen_NotOwner() public {
+        vm.prank(resolver);
+        vm.expectRevert(abi.encodeWithSelector(Ownable.OwnableUnauthorizedAccount.selector, resolver));
+        predictionMarket.setCancelGracePeriod(0);
     }
 
     function test_RefundBets_Success() public {
         _createMarket();
 
-        
         vm.prank(bettor1);
-        predictionMarket.placeBet{value: 2 ether}(marketId, 0);
+        predictionMarket.placeBet(marketId, 0, 2 ether);
 
         predictionMarket.cancelMarket(marketId);
 
-        uint256 balanceBefore = bettor1.balance;
+        uint256 balanceBefore = somiToken.balanceOf(bettor1);
 
-        
         vm.prank(bettor1);
         predictionMarket.refundBets(marketId);
 
-        uint256 balanceAfter = bettor1.balance;
-        assertEq(balanceAfter - balanceBefore, 2 ether);
+        assertEq(somiToken.balanceOf(bettor1) - balanceBefore, 2 ether);
     }
 
     function test_RefundBets_RevertWhen_DoubleClaim() public {
         _createMarket();
 
-        vm.deal(bettor1, 150 ether);
         vm.prank(bettor1);
-        predictionMarket.placeBet{value: 1 ether}(marketId, 0);
+        predictionMarket.placeBet(marketId, 0, 1 ether);
 
         predictionMarket.cancelMarket(marketId);
 
@@ -439,6 +788,14 @@ contract PredictionMarketTest is Test {
         vm.stopPrank();
     }
 
+    function test_RefundBets_RevertWhen_NotCancelled() public {
+        _createMarketWithBets();
+
+        vm.prank(bettor1);
+        vm.expectRevert("Market not cancelled");
+        predictionMarket.refundBets(marketId);
+    }
+
     /* ============ Fee Management Tests ============ */
 
     function test_WithdrawFees_Success() public {
@@ -448,18 +805,16 @@ contract PredictionMarketTest is Test {
         vm.prank(resolver);
         predictionMarket.resolveMarket(marketId, 0);
 
-        // Bettor already has funds
         vm.prank(bettor1);
         predictionMarket.claimWinnings(marketId);
 
         uint256 fees = predictionMarket.collectedFees();
         assertTrue(fees > 0);
 
-        uint256 balanceBefore = owner.balance;
+        uint256 balanceBefore = somiToken.balanceOf(owner);
         predictionMarket.withdrawFees();
 
-        uint256 balanceAfter = owner.balance;
-        assertEq(balanceAfter - balanceBefore, fees);
+        assertEq(somiToken.balanceOf(owner) - balanceBefore, fees);
         assertEq(predictionMarket.collectedFees(), 0);
     }
 
@@ -475,6 +830,8 @@ contract PredictionMarketTest is Test {
     }
 
     function test_SetPlatformFee_Success() public {
+        vm.expectEmit(false, false, false, true);
+        emit PlatformFeeUpdated(500);
         predictionMarket.setPlatformFee(500);
         assertEq(predictionMarket.platformFee(), 500);
     }
@@ -487,6 +844,8 @@ contract PredictionMarketTest is Test {
     /* ============ Bet Limits Tests ============ */
 
     function test_SetBetLimits_Success() public {
+        vm.expectEmit(false, false, false, true);
+        emit BetLimitsUpdated(0.1 ether, 50 ether);
         predictionMarket.setBetLimits(0.1 ether, 50 ether);
         assertEq(predictionMarket.minBetAmount(), 0.1 ether);
         assertEq(predictionMarket.maxBetAmount(), 50 ether);
@@ -502,25 +861,25 @@ contract PredictionMarketTest is Test {
     function test_GetOdds_WithBets() public {
         _createMarketWithBets();
 
-        uint256[2] memory odds = predictionMarket.getOdds(marketId);
-        assertEq(odds[0], 15000); // 1.5x
-        assertEq(odds[1], 30000); // 3x
+        (uint256 yesOdds, uint256 noOdds) = predictionMarket.getOdds(marketId);
+        assertEq(yesOdds, 15000); // 1.5x
+        assertEq(noOdds, 30000); // 3x
     }
 
     function test_GetOdds_EmptyMarket() public {
         _createMarket();
 
-        uint256[2] memory odds = predictionMarket.getOdds(marketId);
-        assertEq(odds[0], 20000);
-        assertEq(odds[1], 20000);
+        (uint256 yesOdds, uint256 noOdds) = predictionMarket.getOdds(marketId);
+        assertEq(yesOdds, 20000);
+        assertEq(noOdds, 20000);
     }
 
     function test_GetUserMarketBets() public {
         _createMarket();
 
         vm.startPrank(bettor1);
-        predictionMarket.placeBet{value: 1 ether}(marketId, 0);
-        predictionMarket.placeBet{value: 0.5 ether}(marketId, 1);
+        predictionMarket.placeBet(marketId, 0, 1 ether);
+        predictionMarket.placeBet(marketId, 1, 0.5 ether);
         vm.stopPrank();
 
         PredictionMarket.Bet[] memory userBets = predictionMarket.getUserMarketBets(marketId, bettor1);
@@ -535,10 +894,9 @@ contract PredictionMarketTest is Test {
         _createMarket();
         betAmount = bound(betAmount, 0.01 ether, 100 ether);
 
-        vm.deal(bettor1, betAmount);
-        vm.deal(bettor1, 150 ether);
+        _fund(bettor1, betAmount);
         vm.prank(bettor1);
-        predictionMarket.placeBet{value: betAmount}(marketId, 0);
+        predictionMarket.placeBet(marketId, 0, betAmount);
 
         PredictionMarket.Market memory market = predictionMarket.getMarket(marketId);
         assertEq(market.totalPool, betAmount);
@@ -550,36 +908,63 @@ contract PredictionMarketTest is Test {
         assertEq(predictionMarket.platformFee(), fee);
     }
 
+    function testFuzz_CreateMarket_MetricMustMatchType(uint8 marketType, uint8 metric) public {
+        marketType = uint8(bound(marketType, 0, 2));
+        metric = uint8(bound(metric, 0, 3));
+
+        bool valid = marketType == uint8(PredictionMarket.MarketType.GAME)
+            ? metric >= uint8(PredictionMarket.Metric.TIME_TAKEN)
+            : metric == marketType; // BLOCK => TX_COUNT, TRANSFER => TRANSFER_VALUE
+
+        if (!valid) vm.expectRevert("Invalid metric for market type");
+        predictionMarket.createMarket(
+            marketId,
+            PredictionMarket.MarketType(marketType),
+            question,
+            block.timestamp + 3600,
+            dataSourceId,
+            1,
+            address(0),
+            PredictionMarket.Comparator.GT,
+            PredictionMarket.Metric(metric),
+            PredictionMarket.Aggregation.FIRST_AFTER_LOCK
+        );
+    }
+
     /* ============ Edge Cases ============ */
 
     function test_ClaimWinnings_NoLosingPool() public {
         _createMarket();
 
         // All bets on YES
-        
         vm.prank(bettor1);
-        predictionMarket.placeBet{value: 2 ether}(marketId, 0);
+        predictionMarket.placeBet(marketId, 0, 2 ether);
 
         vm.prank(bettor2);
-        predictionMarket.placeBet{value: 1 ether}(marketId, 0);
+        predictionMarket.placeBet(marketId, 0, 1 ether);
 
         vm.warp(block.timestamp + 3601);
         vm.prank(resolver);
         predictionMarket.resolveMarket(marketId, 0);
 
-        uint256 balance1Before = bettor1.balance;
-        
+        uint256 balanceBefore = somiToken.balanceOf(bettor1);
+
         vm.prank(bettor1);
         predictionMarket.claimWinnings(marketId);
-        uint256 balance1After = bettor1.balance;
 
         // Should get back original bet (no profit, no fee)
-        assertEq(balance1After - balance1Before, 2 ether);
+        assertEq(somiToken.balanceOf(bettor1) - balanceBefore, 2 ether);
         assertEq(predictionMarket.collectedFees(), 0);
     }
 
     /* ============ Helper Functions ============ */
 
+    function _fund(address account, uint256 amount) internal {
+        somiToken.mint(account, amount);
+        vm.prank(account);
+        somiToken.approve(address(predictionMarket), type(uint256).max);
+    }
+
     function _createMarket() internal {
         uint256 resolutionTime = block.timestamp + 3600;
 
@@ -589,20 +974,38 @@ contract PredictionMarketTest is Test {
             PredictionMarket.MarketType.GAME,
             question,
             resolutionTime,
-            dataSourceId
+            dataSourceId,
+            60,
+            address(0),
+            PredictionMarket.Comparator.LT,
+            PredictionMarket.Metric.TIME_TAKEN,
+            PredictionMarket.Aggregation.FIRST_AFTER_LOCK
         );
     }
 
     function _createMarketWithBets() internal {
         _createMarket();
 
-        // Bettor already has funds
         vm.prank(bettor1);
-        predictionMarket.placeBet{value: 2 ether}(marketId, 0);
+        predictionMarket.placeBet(marketId, 0, 2 ether);
 
         vm.prank(bettor2);
-        predictionMarket.placeBet{value: 1 ether}(marketId, 1);
+        predictionMarket.placeBet(marketId, 1, 1 ether);
     }
 
-    receive() external payable {}
+    function _expectInvalidMetric(PredictionMarket.MarketType marketType, PredictionMarket.Metric metric) internal {
+        vm.expectRevert("Invalid metric for market type");
+        predictionMarket.createMarket(
+            marketId,
+            marketType,
+            question,
+            block.timestamp + 3600,
+            dataSourceId,
+            1,
+            address(0),
+            PredictionMarket.Comparator.GT,
+            metric,
+            PredictionMarket.Aggregation.FIRST_AFTER_LOCK
+        );
+    }
 }
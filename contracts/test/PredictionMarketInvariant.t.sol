@@ -3,9 +3,11 @@ pragma solidity ^0.8.20;
 
 import "forge-std/Test.sol";
 import "../src/PredictionMarket.sol";
+import "../src/SomiToken.sol";
 
 contract PredictionMarketInvariantTest is Test {
     PredictionMarket public market;
+    SomiToken public somiToken;
 
     address[] public actors;
     address public owner;
@@ -17,7 +19,8 @@ contract PredictionMarketInvariantTest is Test {
 
     constructor() {
         owner = address(this);
-        market = new PredictionMarket();
+        somiToken = new SomiToken();
+        market = new PredictionMarket(address(somiToken));
 
         // Create actors
         actors.push(makeAddr("actor1"));
@@ -26,7 +29,9 @@ contract PredictionMarketInvariantTest is Test {
         actors.push(makeAddr("actor4"));
 
         for (uint i = 0; i < actors.length; i++) {
-            vm.deal(actors[i], 100 ether);
+            somiToken.mint(actors[i], 100 ether);
+            vm.prank(actors[i]);
+            somiToken.approve(address(market), type(uint256).max);
         }
 
         // Authorize this contract as resolver
@@ -46,7 +51,12 @@ contract PredictionMarketInvariantTest is Test {
             PredictionMarket.MarketType.GAME,
             question,
             resolutionTime,
-            bytes32(0)
+            bytes32(0),
+            60,
+            address(0),
+            PredictionMarket.Comparator.LT,
+            PredictionMarket.Metric.TIME_TAKEN,
+            PredictionMarket.Aggregation.FIRST_AFTER_LOCK
         ) {
             // Market created successfully
         } catch {
@@ -59,10 +69,10 @@ contract PredictionMarketInvariantTest is Test {
         amount = bound(amount, 0.01 ether, 10 ether);
         option = uint8(bound(option, 0, 1));
 
-        vm.deal(actor, 100 ether);
+        somiToken.mint(actor, amount);
 
         vm.prank(actor);
-        try market.placeBet{value: amount}(marketId, option) {
+        try market.placeBet(marketId, option, amount) {
             ghost_totalBetsPlaced++;
             ghost_totalBetsValue += amount;
         } catch {
@@ -85,11 +95,11 @@ contract PredictionMarketInvariantTest is Test {
     function claimWinnings(uint256 actorSeed, bytes32 marketId) public {
         address actor = actors[actorSeed % actors.length];
 
-        uint256 balanceBefore = actor.balance;
+        uint256 balanceBefore = somiToken.balanceOf(actor);
 
         vm.prank(actor);
         try market.claimWinnings(marketId) {
-            uint256 balanceAfter = actor.balance;
+            uint256 balanceAfter = somiToken.balanceOf(actor);
             ghost_totalWinningsClaimed += (balanceAfter - balanceBefore);
         } catch {
             // No winnings or market not resolved
@@ -107,11 +117,11 @@ contract PredictionMarketInvariantTest is Test {
     function refundBets(uint256 actorSeed, bytes32 marketId) public {
         address actor = actors[actorSeed % actors.length];
 
-        uint256 balanceBefore = actor.balance;
+        uint256 balanceBefore = somiToken.balanceOf(actor);
 
         vm.prank(actor);
         try market.refundBets(marketId) {
-            uint256 balanceAfter = actor.balance;
+            uint256 balanceAfter = somiToken.balanceOf(actor);
             ghost_totalRefundsClaimed += (balanceAfter - balanceBefore);
         } catch {
             // No bets or market not cancelled
@@ -120,10 +130,10 @@ contract PredictionMarketInvariantTest is Test {
 
     /* ============ Invariants ============ */
 
-    /// @custom:property Contract balance should always be >= collected fees
+    /// @custom:property Contract SOMI balance should always be >= collected fees
     function invariant_ContractBalanceCoversFeesAndBets() public view {
         assertTrue(
-            address(market).balance >= market.collectedFees(),
+            somiToken.balanceOf(address(market)) >= market.collectedFees(),
             "Contract balance must cover collected fees"
         );
     }
@@ -161,6 +171,4 @@ contract PredictionMarketInvariantTest is Test {
             "Collected fees should be reasonable"
         );
     }
-
-    receive() external payable {}
 }
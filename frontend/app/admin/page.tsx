@@ -0,0 +1,555 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import Link from 'next/link'
+import { useAccount, usePublicClient, useWriteContract } from 'wagmi'
+import { ArrowLeft, Ban, Coins, Percent, Scale, Settings, ShieldCheck, ShieldOff, Wallet, X } from 'lucide-react'
+import { toast } from 'sonner'
+import { formatEther, isAddress, isHex, parseEther, type Address } from 'viem'
+import { PredictionMarketABI } from '@/abis'
+import NetworkSwitcher from '@/components/NetworkSwitcher'
+import SomiBalance from '@/components/SomiBalance'
+import { useMarketUpdates } from '@/hooks/useMarketFeed'
+import { useContracts } from '@/hooks/useNetwork'
+import { fetchResolverUpdates } from '@/lib/api'
+import { fetchMarkets } from '@predex/shared/marketFetcher'
+import { BASIS_POINTS } from '@predex/shared/payouts'
+import { MarketStatus, type Market } from '@/lib/types'
+import { formatAddress, formatTokenAmount, getMarketTypeLabel, getStatusLabel } from '@/utils/format'
+
+// setPlatformFee rejects anything above 10%
+const MAX_PLATFORM_FEE = 1000
+
+interface MarketConfig {
+  owner: Address
+  platformFee: bigint
+  minBetAmount: bigint
+  maxBetAmount: bigint
+  collectedFees: bigint
+}
+
+interface Resolver {
+  address: Address
+  authorized: boolean
+  isOwner: boolean
+}
+
+function StatCard({ label, icon, children }: { label: string; icon: React.ReactNode; children: React.ReactNode }) {
+  return (
+    <div className="card">
+      <div className="flex items-center justify-between">
+        <div>
+          <p className="text-gray-400 text-sm">{label}</p>
+          <p className="text-2xl font-bold mt-1">{children}</p>
+        </div>
+        {icon}
+      </div>
+    </div>
+  )
+}
+
+export default function AdminPage() {
+  const { address, isConnected } = useAccount()
+  const publicClient = usePublicClient()
+  const { writeContractAsync } = useWriteContract()
+  const { market: marketContract } = useContracts()
+
+  const [config, setConfig] = useState<MarketConfig | null>(null)
+  const [resolvers, setResolvers] = useState<Resolver[]>([])
+  const [markets, setMarkets] = useState<Market[]>([])
+  const [pendingAction, setPendingAction] = useState<string | null>(null)
+
+  const [feeInput, setFeeInput] = useState('')
+  const [minBetInput, setMinBetInput] = useState('')
+  const [maxBetInput, setMaxBetInput] = useState('')
+  const [resolverInput, setResolverInput] = useState('')
+  const [marketIdInput, setMarketIdInput] = useState('')
+  // Market shown in the confirmation dialog before cancelMarket is sent
+  const [cancelTarget, setCancelTarget] = useState<Market | null>(null)
+
+  const loadConfig = useCallback(async () => {
+    if (!publicClient) return
+    try {
+      const read = (functionName: string) =>
+        publicClient.readContract({ address: marketContract, abi: PredictionMarketABI, functionName })
+      const [owner, platformFee, minBetAmount, maxBetAmount, collectedFees] = await Promise.all([
+        read('owner'),
+        read('platformFee'),
+        read('minBetAmount'),
+        read('maxBetAmount'),
+        read('collectedFees'),
+      ])
+      setConfig({
+        owner: owner as Address,
+        platformFee: platformFee as bigint,
+        minBetAmount: minBetAmount as bigint,
+        maxBetAmount: maxBetAmount as bigint,
+        collectedFees: collectedFees as bigint,
+      })
+    } catch (error) {
+      console.error('Failed to load market configuration:', error)
+      toast.error('Failed to load market configuration')
+    }
+  }, [publicClient, marketContract])
+
+  /**
+   * Resolver candidates come from indexed ResolverUpdated events plus the owner,
+   * who is authorized in the constructor without an event. Each is checked on-chain.
+   */
+  const loadResolvers = useCallback(async () => {
+    if (!publicClient || !config) return
+
+    let candidates: Address[] = [config.owner]
+    try {
+      const updates = await fetchResolverUpdates()
+      candidates = [...candidates, ...updates.map((update) => update.address)]
+    } catch (error) {
+      console.error('Failed to load resolver history:', error)
+    }
+
+    const unique = candidates.filter((candidate, i) =>
+      candidates.findIndex((other) => other.toLowerCase() === candidate.toLowerCase()) === i
+    )
+    try {
+      const authorized = await Promise.all(unique.map((candidate) =>
+        publicClient.readContract({
+          address: marketContract,
+          abi: PredictionMarketABI,
+          functionName: 'authorizedResolvers',
+          args: [candidate],
+        })
+      ))
+      setResolvers(unique.map((candidate, i) => ({
+        address: candidate,
+        authorized: Boolean(authorized[i]),
+        isOwner: candidate.toLowerCase() === config.owner.toLowerCase(),
+      })))
+    } catch (error) {
+      console.error('Failed to load resolvers:', error)
+      toast.error('Failed to load resolvers')
+    }
+  }, [publicClient, marketContract, config])
+
+  const loadMarkets = useCallback(async () => {
+    if (!publicClient) return
+    try {
+      const marketIds = await publicClient.readContract({
+        address: marketContract,
+        abi: PredictionMarketABI,
+        functionName: 'getActiveMarkets',
+      }) as `0x${string}`[]
+      const { markets: fetched } = await fetchMarkets(publicClient, marketIds, {
+        address: marketContract,
+        abi: PredictionMarketABI,
+      })
+      // Settled markets can stay in the active list; only open ones can be cancelled
+      setMarkets(fetched.filter((market) =>
+        market.status === MarketStatus.ACTIVE || market.status === MarketStatus.LOCKED
+      ))
+    } catch (error) {
+      console.error('Failed to load markets:', error)
+    }
+  }, [publicClient, marketContract])
+
+  useEffect(() => {
+    loadConfig()
+    loadMarkets()
+  }, [loadConfig, loadMarkets])
+
+  useEffect(() => {
+    loadResolvers()
+  }, [loadResolvers])
+
+  // Claims accrue fees and settlements take markets out of the cancellable list
+  useMarketUpdates(() => {
+    loadConfig()
+    loadMarkets()
+  })
+
+  const isOwner = !!config && !!address && config.owner.toLowerCase() === address.toLowerCase()
+
+  /**
+   * Send an owner transaction and wait for its receipt
+   * Only one runs at a time; `key` identifies it for the pending button state.
+   */
+  const runAction = async (key: string, label: string, request: { functionName: string; args?: readonly unknown[] }) => {
+    if (!publicClient) return
+    setPendingAction(key)
+    toast.loading(`${label}...`, { id: 'admin-tx' })
+    try {
+      const hash = await writeContractAsync({
+        address: marketContract,
+        abi: PredictionMarketABI,
+        ...request,
+      })
+      const receipt = await publicClient.waitForTransactionReceipt({ hash })
+      if (receipt.status !== 'success') {
+        throw new Error(`Transaction ${hash} reverted`)
+      }
+      toast.success(`${label} confirmed`, { id: 'admin-tx' })
+      return true
+    } catch (error) {
+      console.error(`${label} failed:`, error)
+      const message = error instanceof Error ? error.message.slice(0, 100) : 'Transaction failed'
+      toast.error(`${label} failed: ${message}`, { id: 'admin-tx' })
+      return false
+    } finally {
+      setPendingAction(null)
+      loadConfig()
+    }
+  }
+
+  const updatePlatformFee = async () => {
+    const fee = Number(feeInput)
+    if (!Number.isInteger(fee) || fee < 0 || fee > MAX_PLATFORM_FEE) {
+      toast.error(`Fee must be a whole number of basis points between 0 and ${MAX_PLATFORM_FEE}`)
+      return
+    }
+    if (await runAction('fee', 'Updating platform fee', { functionName: 'setPlatformFee', args: [BigInt(fee)] })) {
+      setFeeInput('')
+    }
+  }
+
+  const updateBetLimits = async () => {
+    let minBet: bigint
+    let maxBet: bigint
+    try {
+      minBet = parseEther(minBetInput || formatEther(config?.minBetAmount ?? BigInt(0)))
+      maxBet = parseEther(maxBetInput || formatEther(config?.maxBetAmount ?? BigInt(0)))
+    } catch {
+      toast.error('Enter bet limits as SOMI amounts')
+      return
+    }
+    if (minBet >= maxBet) {
+      toast.error('Minimum bet must be below the maximum bet')
+      return
+    }
+    if (await runAction('limits', 'Updating bet limits', { functionName: 'setBetLimits', args: [minBet, maxBet] })) {
+      setMinBetInput('')
+      setMaxBetInput('')
+    }
+  }
+
+  const withdrawFees = () => runAction('withdraw', 'Withdrawing fees', { functionName: 'withdrawFees' })
+
+  const setResolver = async (resolver: string, authorized: boolean) => {
+    if (!isAddress(resolver)) {
+      toast.error('Enter a valid resolver address')
+      return
+    }
+    const label = authorized ? 'Authorizing resolver' : 'Revoking resolver'
+    if (await runAction(`resolver-${resolver.toLowerCase()}`, label, { functionName: 'setResolver', args: [resolver, authorized] })) {
+      setResolverInput('')
+      // The backend picks up the ResolverUpdated event on its next poll
+      setResolvers((current) => {
+        const rest = current.filter((entry) => entry.address.toLowerCase() !== resolver.toLowerCase())
+        return [...rest, { address: resolver, authorized, isOwner: resolver.toLowerCase() === config?.owner.toLowerCase() }]
+      })
+    }
+  }
+
+  /**
+   * Read the market fresh from the contract and ask for confirmation
+   * The dialog shows the question and pool the cancellation will refund.
+   */
+  const requestCancel = async (marketId: string) => {
+    if (!publicClient) return
+    if (!isHex(marketId) || marketId.length !== 66) {
+      toast.error('Enter a 32-byte market id')
+      return
+    }
+    try {
+      const { markets: [market] } = await fetchMarkets(publicClient, [marketId], {
+        address: marketContract,
+        abi: PredictionMarketABI,
+      })
+      if (!market) {
+        toast.error('Market not found')
+        return
+      }
+      if (market.status !== MarketStatus.ACTIVE && market.status !== MarketStatus.LOCKED) {
+        toast.error(`Market is already ${getStatusLabel(market.status).toLowerCase()}`)
+        return
+      }
+      setCancelTarget(market)
+    } catch (error) {
+      console.error('Failed to load market:', error)
+      toast.error('Failed to load market')
+    }
+  }
+
+  const confirmCancel = async () => {
+    if (!cancelTarget) return
+    const { marketId } = cancelTarget
+    setCancelTarget(null)
+    if (await runAction(`cancel-${marketId.toLowerCase()}`, 'Cancelling market', { functionName: 'cancelMarket', args: [marketId] })) {
+      setMarketIdInput('')
+      loadMarkets()
+    }
+  }
+
+  const isBusy = pendingAction !== null
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-900 via-gray-800 to-gray-900">
+      <header className="border-b border-gray-700 bg-gray-800/50 backdrop-blur-sm sticky top-0 z-50">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center py-4">
+            <Link href="/" className="flex items-center space-x-2 text-gray-400 hover:text-white transition-colors">
+              <ArrowLeft className="w-5 h-5" />
+              <span>All markets</span>
+            </Link>
+            <div className="flex items-center space-x-4">
+              <NetworkSwitcher />
+              <SomiBalance />
+              <appkit-button />
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <h1 className="text-3xl font-bold flex items-center space-x-3 mb-8">
+          <Settings className="w-8 h-8 text-primary-500" />
+          <span>Admin</span>
+        </h1>
+
+        {!isConnected ? (
+          <div className="card text-center py-12">
+            <Wallet className="w-16 h-16 text-gray-600 mx-auto mb-4" />
+            <h3 className="text-xl font-semibold mb-2">Connect your wallet</h3>
+            <p className="text-gray-400">Connect the PredictionMarket owner account to manage the contract.</p>
+          </div>
+        ) : !config ? (
+          <div className="card animate-shimmer h-64" />
+        ) : !isOwner ? (
+          <div className="card text-center py-12">
+            <ShieldOff className="w-16 h-16 text-gray-600 mx-auto mb-4" />
+            <h3 className="text-xl font-semibold mb-2">Owner only</h3>
+            <p className="text-gray-400">
+              This page is limited to the contract owner <span className="font-mono">{formatAddress(config.owner)}</span>.
+            </p>
+          </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
+              <StatCard label="Platform fee" icon={<Percent className="w-12 h-12 text-primary-500 opacity-20" />}>
+                {(Number(config.platformFee) * 100 / Number(BASIS_POINTS)).toFixed(2)}%
+                <span className="text-sm text-gray-400 font-normal ml-2">({config.platformFee.toString()} bps)</span>
+              </StatCard>
+              <StatCard label="Bet limits" icon={<Scale className="w-12 h-12 text-blue-500 opacity-20" />}>
+                {formatEther(config.minBetAmount)} – {formatEther(config.maxBetAmount)} SOMI
+              </StatCard>
+              <StatCard label="Accrued fees" icon={<Coins className="w-12 h-12 text-yellow-500 opacity-20" />}>
+                {formatTokenAmount(config.collectedFees)} SOMI
+              </StatCard>
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-8">
+              <div className="card space-y-6">
+                <h2 className="text-xl font-semibold">Fees &amp; limits</h2>
+
+                <div>
+                  <label className="block text-sm font-medium mb-2">Platform fee (basis points, max {MAX_PLATFORM_FEE})</label>
+                  <div className="flex space-x-2">
+                    <input
+                      type="number"
+                      min="0"
+                      max={MAX_PLATFORM_FEE}
+                      step="1"
+                      value={feeInput}
+                      onChange={(e) => setFeeInput(e.target.value)}
+                      placeholder={config.platformFee.toString()}
+                      className="input flex-1"
+                    />
+                    <button onClick={updatePlatformFee} disabled={isBusy || !feeInput} className="btn-primary">
+                      {pendingAction === 'fee' ? 'Updating...' : 'Update'}
+                    </button>
+                  </div>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium mb-2">Bet limits (SOMI)</label>
+                  <div className="flex space-x-2">
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={minBetInput}
+                      onChange={(e) => setMinBetInput(e.target.value)}
+                      placeholder={`Min ${formatEther(config.minBetAmount)}`}
+                      className="input flex-1 min-w-0"
+                    />
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={maxBetInput}
+                      onChange={(e) => setMaxBetInput(e.target.value)}
+                      placeholder={`Max ${formatEther(config.maxBetAmount)}`}
+                      className="input flex-1 min-w-0"
+                    />
+                    <button onClick={updateBetLimits} disabled={isBusy || (!minBetInput && !maxBetInput)} className="btn-primary">
+                      {pendingAction === 'limits' ? 'Updating...' : 'Update'}
+                    </button>
+                  </div>
+                </div>
+
+                <div className="flex items-center justify-between border-t border-gray-700 pt-4">
+                  <span className="text-gray-400 text-sm">
+                    {formatTokenAmount(config.collectedFees)} SOMI ready to withdraw to the owner
+                  </span>
+                  <button
+                    onClick={withdrawFees}
+                    disabled={isBusy || config.collectedFees === BigInt(0)}
+                    className="btn-primary"
+                  >
+                    {pendingAction === 'withdraw' ? 'Withdrawing...' : 'Withdraw fees'}
+                  </button>
+                </div>
+              </div>
+
+              <div className="card space-y-4">
+                <h2 className="text-xl font-semibold">Resolvers</h2>
+                <ul className="space-y-2">
+                  {resolvers.map((resolver) => (
+                    <li key={resolver.address} className="flex items-center justify-between text-sm">
+                      <span className="flex items-center space-x-2">
+                        {resolver.authorized
+                          ? <ShieldCheck className="w-4 h-4 text-green-400" />
+                          : <ShieldOff className="w-4 h-4 text-gray-500" />}
+                        <span className={`font-mono ${resolver.authorized ? '' : 'text-gray-500'}`}>{resolver.address}</span>
+                        {resolver.isOwner && <span className="badge badge-primary">Owner</span>}
+                      </span>
+                      <button
+                        onClick={() => setResolver(resolver.address, !resolver.authorized)}
+                        disabled={isBusy}
+                        className="btn-secondary text-xs"
+                      >
+                        {pendingAction === `resolver-${resolver.address.toLowerCase()}`
+                          ? 'Sending...'
+                          : resolver.authorized ? 'Revoke' : 'Authorize'}
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+                <div className="flex space-x-2 border-t border-gray-700 pt-4">
+                  <input
+                    type="text"
+                    value={resolverInput}
+                    onChange={(e) => setResolverInput(e.target.value.trim())}
+                    placeholder="0x... resolver address"
+                    className="input flex-1 font-mono"
+                  />
+                  <button onClick={() => setResolver(resolverInput, true)} disabled={isBusy || !resolverInput} className="btn-primary">
+                    Authorize
+                  </button>
+                </div>
+              </div>
+            </div>
+
+            <div className="card">
+              <h2 className="text-xl font-semibold mb-1">Cancel a market</h2>
+              <p className="text-gray-400 text-sm mb-4">Cancelled markets let every bettor reclaim their stake with refundBets.</p>
+              <div className="flex space-x-2 mb-6">
+                <input
+                  type="text"
+                  value={marketIdInput}
+                  onChange={(e) => setMarketIdInput(e.target.value.trim())}
+                  placeholder="0x... market id"
+                  className="input flex-1 font-mono"
+                />
+                <button onClick={() => requestCancel(marketIdInput)} disabled={isBusy || !marketIdInput} className="btn-secondary flex items-center space-x-2">
+                  <Ban className="w-4 h-4" />
+                  <span>Cancel market</span>
+                </button>
+              </div>
+
+              {markets.length > 0 && (
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm text-left">
+                    <thead className="text-gray-400">
+                      <tr>
+                        <th className="pb-3 font-medium">Market</th>
+                        <th className="pb-3 font-medium">Type</th>
+                        <th className="pb-3 font-medium">Status</th>
+                        <th className="pb-3 font-medium">Pool</th>
+                        <th className="pb-3 font-medium" />
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {markets.map((market) => (
+                        <tr key={market.marketId} className="border-t border-gray-700">
+                          <td className="py-3 pr-4">
+                            <Link href={`/markets/${market.marketId}`} className="hover:text-primary-400">
+                              {market.question}
+                            </Link>
+                          </td>
+                          <td>{getMarketTypeLabel(market.marketType)}</td>
+                          <td>{getStatusLabel(market.status)}</td>
+                          <td>{formatTokenAmount(market.totalPool)} SOMI</td>
+                          <td className="text-right">
+                            <button
+                              onClick={() => requestCancel(market.marketId)}
+                              disabled={isBusy}
+                              className="btn-secondary text-xs"
+                            >
+                              {pendingAction === `cancel-${market.marketId.toLowerCase()}` ? 'Cancelling...' : 'Cancel'}
+                            </button>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+          </>
+        )}
+      </main>
+
+      {cancelTarget && (
+        <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+          <div className="card max-w-md w-full">
+            <div className="flex justify-between items-center mb-4">
+              <h2 className="text-2xl font-bold">Cancel this market?</h2>
+              <button onClick={() => setCancelTarget(null)} className="text-gray-400 hover:text-white">
+                <X className="w-6 h-6" />
+              </button>
+            </div>
+
+            <p className="font-medium">{cancelTarget.question}</p>
+            <p className="text-xs text-gray-500 font-mono break-all mb-4">{cancelTarget.marketId}</p>
+
+            <dl className="grid grid-cols-2 gap-y-2 text-sm mb-4">
+              <dt className="text-gray-400">Type</dt>
+              <dd>{getMarketTypeLabel(cancelTarget.marketType)}</dd>
+              <dt className="text-gray-400">Status</dt>
+              <dd>{getStatusLabel(cancelTarget.status)}</dd>
+              <dt className="text-gray-400">Pool</dt>
+              <dd className="font-semibold">{formatTokenAmount(cancelTarget.totalPool)} SOMI</dd>
+              <dt className="text-gray-400">YES / NO</dt>
+              <dd>
+                {formatTokenAmount(cancelTarget.optionPools[0])} / {formatTokenAmount(cancelTarget.optionPools[1])} SOMI
+              </dd>
+            </dl>
+
+            <p className="text-sm text-yellow-400 mb-6">
+              This cannot be undone. No outcome is paid out; every bettor can reclaim their stake with refundBets.
+            </p>
+
+            <div className="flex justify-end space-x-2">
+              <button onClick={() => setCancelTarget(null)} className="btn-secondary">
+                Keep market
+              </button>
+              <button onClick={confirmCancel} disabled={isBusy} className="btn-danger flex items-center space-x-2">
+                <Ban className="w-4 h-4" />
+                <span>Cancel market</span>
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
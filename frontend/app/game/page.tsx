@@ -7,9 +7,11 @@ import Link from 'next/link'
 import { toast } from 'sonner'
 import { parseEther, decodeEventLog } from 'viem'
 import { BossBattleGameABI } from '@/abis'
+import { useContracts } from '@/hooks/useNetwork'
 
 export default function GamePage() {
   const { isConnected, address } = useAccount()
+  const { game: gameContract } = useContracts()
   const publicClient = usePublicClient()
   const [gameState, setGameState] = useState<'idle' | 'starting' | 'playing' | 'victory' | 'defeat'>('idle')
   const [bossHp, setBossHp] = useState(1000)
@@ -115,7 +117,7 @@ export default function GamePage() {
       setGameState('starting')
 
       writeContract({
-        address: (process.env.NEXT_PUBLIC_GAME_CONTRACT) as `0x${string}`,
+        address: gameContract,
         abi: BossBattleGameABI,
         functionName: 'startGame',
         args: [1], // boss level
@@ -158,7 +160,7 @@ export default function GamePage() {
     // Call contract
     try {
       writeContract({
-        address: (process.env.NEXT_PUBLIC_GAME_CONTRACT) as `0x${string}`,
+        address: gameContract,
         abi: BossBattleGameABI,
         functionName: 'dealDamage',
         args: [sessionId, BigInt(attackDamage)],
@@ -0,0 +1,463 @@
+'use client'
+
+import { useEffect, useMemo, useState } from 'react'
+import { useParams } from 'next/navigation'
+import Link from 'next/link'
+import { useAccount, useReadContract, useWriteContract, useWaitForTransactionReceipt } from 'wagmi'
+import { ArrowLeft, Clock, Database, ExternalLink, Gavel, ListOrdered, TrendingUp, Trophy, Undo2, User } from 'lucide-react'
+import { toast } from 'sonner'
+import { isHex, type Hex } from 'viem'
+import { PredictionMarketABI } from '@/abis'
+import BetModal from '@/components/markets/BetModal'
+import OddsChart from '@/components/markets/OddsChart'
+import NetworkSwitcher from '@/components/NetworkSwitcher'
+import SomiBalance from '@/components/SomiBalance'
+import { useLiveMarket, useMarketUpdates, useNow } from '@/hooks/useMarketFeed'
+import { useAppNetwork, useContracts } from '@/hooks/useNetwork'
+import { fetchMarketResolution, type MarketResolution } from '@/lib/api'
+import { getSchemaForMarketType, getSchemaName } from '@predex/shared/dataStreams'
+import { decodeMarket } from '@predex/shared/marketDecoder'
+import { MarketStatus, MarketType, type Bet, type Market } from '@/lib/types'
+import {
+  calculateMarketOdds,
+  formatAddress,
+  formatOdds,
+  formatPercentage,
+  formatTimeRemaining,
+  formatTokenAmount,
+  getAggregationLabel,
+  getComparatorSymbol,
+  getMarketTypeLabel,
+  getMetricLabel,
+  getStatusLabel,
+} from '@/utils/format'
+
+function formatDate(timestamp: bigint | number): string {
+  return new Date(Number(timestamp) * 1000).toLocaleString()
+}
+
+function TxLink({ hash }: { hash: Hex }) {
+  const explorerUrl = useAppNetwork().chain.blockExplorers?.default.url
+
+  // Local devnets have no explorer
+  if (!explorerUrl) {
+    return <span className="font-mono">{formatAddress(hash)}</span>
+  }
+
+  return (
+    <a
+      href={`${explorerUrl}/tx/${hash}`}
+      target="_blank"
+      rel="noopener noreferrer"
+      className="inline-flex items-center space-x-1 text-primary-500 hover:text-primary-400 font-mono"
+    >
+      <span>{formatAddress(hash)}</span>
+      <ExternalLink className="w-3 h-3" />
+    </a>
+  )
+}
+
+function BetRow({ bet }: { bet: Bet }) {
+  return (
+    <tr className="border-t border-gray-700">
+      <td className="py-2 font-mono">{formatAddress(bet.bettor)}</td>
+      <td className={bet.option === 0 ? 'text-green-400' : 'text-red-400'}>{bet.option === 0 ? 'YES' : 'NO'}</td>
+      <td>{formatTokenAmount(bet.amount)} SOMI</td>
+      <td className="text-gray-400">{formatDate(bet.timestamp)}</td>
+      <td className="text-gray-400">{bet.claimed ? 'Claimed' : ''}</td>
+    </tr>
+  )
+}
+
+function BetTable({ bets, emptyText }: { bets: Bet[]; emptyText: string }) {
+  if (bets.length === 0) {
+    return <p className="text-gray-500 text-sm">{emptyText}</p>
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-sm text-left">
+        <thead className="text-gray-400">
+          <tr>
+            <th className="pb-2 font-medium">Bettor</th>
+            <th className="pb-2 font-medium">Option</th>
+            <th className="pb-2 font-medium">Amount</th>
+            <th className="pb-2 font-medium">Placed</th>
+            <th className="pb-2 font-medium" />
+          </tr>
+        </thead>
+        <tbody>
+          {[...bets].reverse().map((bet, i) => <BetRow key={`${bet.bettor}-${bet.timestamp}-${i}`} bet={bet} />)}
+        </tbody>
+      </table>
+    </div>
+  )
+}
+
+function ResolutionDetails({ market, resolution }: { market: Market; resolution: MarketResolution | null }) {
+  const attempt = resolution?.resolver.resolutionAttempt
+  const txHash = resolution?.settlement?.txHash ?? attempt?.txHash
+
+  return (
+    <div className="card">
+      <h2 className="text-lg font-semibold mb-4 flex items-center space-x-2">
+        <Gavel className="w-5 h-5 text-yellow-500" />
+        <span>Resolution</span>
+      </h2>
+
+      {market.status === MarketStatus.RESOLVED && (
+        <div className="bg-yellow-500/10 border border-yellow-500/30 rounded-lg p-3 text-center font-semibold mb-4">
+          Winner: {market.winningOption === 0 ? '✅ YES' : '❌ NO'}
+        </div>
+      )}
+      {market.status === MarketStatus.CANCELLED && (
+        <div className="bg-gray-700/50 border border-gray-600 rounded-lg p-3 text-center font-semibold mb-4">
+          Cancelled — bets can be refunded
+        </div>
+      )}
+
+      <dl className="grid grid-cols-2 gap-3 text-sm mb-4">
+        <dt className="text-gray-400">Transaction</dt>
+        <dd>{txHash ? <TxLink hash={txHash} /> : <span className="text-gray-500">Not indexed yet</span>}</dd>
+        {resolution?.settlement && (
+          <>
+            <dt className="text-gray-400">Settled</dt>
+            <dd>{formatDate(resolution.settlement.timestamp)} (block {resolution.settlement.blockNumber})</dd>
+          </>
+        )}
+      </dl>
+
+      {market.status === MarketStatus.RESOLVED && (
+        <div>
+          <h3 className="text-sm font-semibold text-gray-300 mb-2">Deciding observations</h3>
+          {!resolution || resolution.decidingObservations.length === 0 ? (
+            <p className="text-gray-500 text-sm">No observations recorded by the resolver.</p>
+          ) : (
+            <ul className="space-y-2 text-sm">
+              {resolution.decidingObservations.map((observation, i) => (
+                <li key={i} className="bg-gray-900/50 rounded-lg p-3">
+                  <div className="flex justify-between text-gray-400 mb-1">
+                    <span className="capitalize">{observation.source}</span>
+                    <span>{formatDate(observation.observedAt)}</span>
+                  </div>
+                  <div className="font-mono">
+                    {Object.entries(observation.observation).map(([key, value]) => `${key}: ${value}`).join(', ')}
+                  </div>
+                  {observation.txHash && (
+                    <div className="mt-1"><TxLink hash={observation.txHash} /></div>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
+function MarketDetail({ market: initialMarket }: { market: Market }) {
+  const market = useLiveMarket(initialMarket)
+  const now = useNow()
+  const { address, isConnected } = useAccount()
+  const { market: marketContract } = useContracts()
+  const [isBetModalOpen, setIsBetModalOpen] = useState(false)
+  const [resolution, setResolution] = useState<MarketResolution | null>(null)
+
+  const { data: rawBets, refetch: refetchBets } = useReadContract({
+    address: marketContract,
+    abi: PredictionMarketABI,
+    functionName: 'getMarketBets',
+    args: [market.marketId],
+  })
+
+  const { data: rawUserBets, refetch: refetchUserBets } = useReadContract({
+    address: marketContract,
+    abi: PredictionMarketABI,
+    functionName: 'getUserMarketBets',
+    args: address ? [market.marketId, address] : undefined,
+    query: { enabled: Boolean(address) },
+  })
+
+  const bets = (rawBets as Bet[] | undefined) ?? []
+  const userBets = (rawUserBets as Bet[] | undefined) ?? []
+
+  const { writeContract, data: hash, isPending } = useWriteContract()
+  const { isSuccess } = useWaitForTransactionReceipt({ hash })
+
+  useEffect(() => {
+    if (!isSuccess) return
+    toast.success(market.status === MarketStatus.CANCELLED ? 'Bets refunded!' : 'Winnings claimed successfully! 🎉', { id: 'claim-tx' })
+    refetchUserBets()
+  }, [isSuccess, market.status, refetchUserBets])
+
+  // New bets and settlements arrive through the live feed
+  useMarketUpdates(() => {
+    refetchBets()
+    if (address) refetchUserBets()
+  }, market.marketId)
+
+  const isSettled = market.status === MarketStatus.RESOLVED || market.status === MarketStatus.CANCELLED
+  useEffect(() => {
+    if (!isSettled) return
+    fetchMarketResolution(market.marketId)
+      .then(setResolution)
+      .catch((error) => console.error('Failed to load resolution:', error))
+  }, [isSettled, market.marketId])
+
+  const odds = useMemo(() => calculateMarketOdds(market), [market])
+  const isActive = market.status === MarketStatus.ACTIVE && now < Number(market.resolutionTime) * 1000
+
+  const unclaimed = userBets.filter((bet) => !bet.claimed)
+  const canClaim = market.status === MarketStatus.RESOLVED && unclaimed.some((bet) => bet.option === market.winningOption)
+  const canRefund = market.status === MarketStatus.CANCELLED && unclaimed.length > 0
+
+  const handleSettle = () => {
+    if (!isConnected) {
+      toast.error('Please connect your wallet')
+      return
+    }
+    toast.loading(canRefund ? 'Refunding bets...' : 'Claiming winnings...', { id: 'claim-tx' })
+    writeContract(
+      {
+        address: marketContract,
+        abi: PredictionMarketABI,
+        functionName: canRefund ? 'refundBets' : 'claimWinnings',
+        args: [market.marketId],
+      },
+      {
+        onError: (error) => {
+          console.error('Claim error:', error)
+          toast.error(error.message || 'Transaction failed', { id: 'claim-tx' })
+        },
+      }
+    )
+  }
+
+  const schema = getSchemaForMarketType(market.marketType as number)
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+      <div className="lg:col-span-2 space-y-6">
+        {/* Summary */}
+        <div className="card">
+          <div className="flex items-center space-x-2 mb-3">
+            <span className="badge badge-primary">{getMarketTypeLabel(market.marketType)}</span>
+            <span className="badge">{isActive ? 'Active' : getStatusLabel(market.status === MarketStatus.ACTIVE ? MarketStatus.LOCKED : market.status)}</span>
+          </div>
+          <h1 className="text-2xl font-bold mb-6">{market.question}</h1>
+
+          <div className="grid grid-cols-2 gap-4 mb-6">
+            <div className="bg-green-500/10 border border-green-500/30 rounded-lg p-4">
+              <div className="text-sm text-gray-400 mb-1">YES</div>
+              <div className="text-2xl font-bold text-green-400">{formatOdds(odds.yes)}</div>
+              <div className="text-xs text-gray-500">
+                {formatPercentage(odds.yesProb)} · {formatTokenAmount(market.optionPools[0])} SOMI
+              </div>
+            </div>
+            <div className="bg-red-500/10 border border-red-500/30 rounded-lg p-4">
+              <div className="text-sm text-gray-400 mb-1">NO</div>
+              <div className="text-2xl font-bold text-red-400">{formatOdds(odds.no)}</div>
+              <div className="text-xs text-gray-500">
+                {formatPercentage(odds.noProb)} · {formatTokenAmount(market.optionPools[1])} SOMI
+              </div>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+            <div className="flex items-center space-x-2">
+              <TrendingUp className="w-4 h-4 text-primary-500" />
+              <div>
+                <div className="text-gray-400 text-xs">Pool</div>
+                <div className="font-semibold">{formatTokenAmount(market.totalPool)} SOMI</div>
+              </div>
+            </div>
+            <div className="flex items-center space-x-2">
+              <Clock className="w-4 h-4 text-yellow-500" />
+              <div>
+                <div className="text-gray-400 text-xs">Ends</div>
+                <div className="font-semibold">{formatTimeRemaining(market.resolutionTime)}</div>
+              </div>
+            </div>
+            <div className="flex items-center space-x-2">
+              <ListOrdered className="w-4 h-4 text-blue-500" />
+              <div>
+                <div className="text-gray-400 text-xs">Bets</div>
+                <div className="font-semibold">{bets.length}</div>
+              </div>
+            </div>
+            <div className="flex items-center space-x-2">
+              <User className="w-4 h-4 text-gray-400" />
+              <div>
+                <div className="text-gray-400 text-xs">Creator</div>
+                <div className="font-semibold font-mono">{formatAddress(market.creator)}</div>
+              </div>
+            </div>
+          </div>
+        </div>
+
+        {/* Odds history */}
+        <div className="card">
+          <h2 className="text-lg font-semibold mb-4">Odds history</h2>
+          <OddsChart market={market} height={260} />
+        </div>
+
+        {/* All bets */}
+        <div className="card">
+          <h2 className="text-lg font-semibold mb-4">Bets</h2>
+          <BetTable bets={bets} emptyText="No bets yet." />
+        </div>
+      </div>
+
+      <div className="space-y-6">
+        {/* Actions */}
+        <div className="card space-y-3">
+          {isActive && (
+            <button onClick={() => setIsBetModalOpen(true)} className="btn-primary w-full">
+              Place Bet
+            </button>
+          )}
+          {!isActive && !isSettled && (
+            <p className="text-sm text-gray-400 text-center">Betting closed — waiting for resolution</p>
+          )}
+          {(canClaim || canRefund) && (
+            <button
+              onClick={handleSettle}
+              disabled={isPending}
+              className="btn-primary w-full flex items-center justify-center space-x-2"
+            >
+              {canRefund ? <Undo2 className="w-4 h-4" /> : <Trophy className="w-4 h-4" />}
+              <span>{isPending ? 'Confirming...' : canRefund ? 'Refund Bets' : 'Claim Winnings'}</span>
+            </button>
+          )}
+        </div>
+
+        {/* Your bets */}
+        <div className="card">
+          <h2 className="text-lg font-semibold mb-4">Your bets</h2>
+          {isConnected
+            ? <BetTable bets={userBets} emptyText="You have no bets on this market." />
+            : <p className="text-gray-500 text-sm">Connect your wallet to see your bets.</p>}
+        </div>
+
+        {/* Resolution criteria */}
+        <div className="card">
+          <h2 className="text-lg font-semibold mb-4">Resolution criteria</h2>
+          <p className="font-mono text-sm bg-gray-900/50 rounded-lg p-3 mb-4">
+            YES if {getMetricLabel(market.metric)} {getComparatorSymbol(market.comparator)} {market.threshold.toString()}
+          </p>
+          <dl className="grid grid-cols-2 gap-3 text-sm">
+            <dt className="text-gray-400">Aggregation</dt>
+            <dd>{getAggregationLabel(market.aggregation)}</dd>
+            <dt className="text-gray-400">Created</dt>
+            <dd>{formatDate(market.createdAt)}</dd>
+            <dt className="text-gray-400">Resolution time</dt>
+            <dd>{formatDate(market.resolutionTime)}</dd>
+            {market.marketType === MarketType.TRANSFER && (
+              <>
+                <dt className="text-gray-400">Token</dt>
+                <dd className="font-mono">{formatAddress(market.thresholdToken)}</dd>
+              </>
+            )}
+          </dl>
+        </div>
+
+        {/* Data source */}
+        <div className="card">
+          <h2 className="text-lg font-semibold mb-4 flex items-center space-x-2">
+            <Database className="w-5 h-5 text-primary-500" />
+            <span>Data source</span>
+          </h2>
+          <dl className="space-y-3 text-sm">
+            <div>
+              <dt className="text-gray-400">Schema</dt>
+              <dd>{getSchemaName(market.marketType as number)}</dd>
+            </div>
+            <div>
+              <dt className="text-gray-400">Fields</dt>
+              <dd className="font-mono text-xs break-words">{schema}</dd>
+            </div>
+            <div>
+              <dt className="text-gray-400">Data source ID</dt>
+              <dd className="font-mono text-xs break-all">{market.dataSourceId}</dd>
+            </div>
+          </dl>
+        </div>
+
+        {isSettled && <ResolutionDetails market={market} resolution={resolution} />}
+      </div>
+
+      {isBetModalOpen && (
+        <BetModal market={market} odds={odds} onClose={() => setIsBetModalOpen(false)} />
+      )}
+    </div>
+  )
+}
+
+export default function MarketPage() {
+  const params = useParams<{ marketId: string }>()
+  const marketId = params.marketId
+  const isValidId = isHex(marketId) && marketId.length === 66
+  const { market: marketContract } = useContracts()
+
+  const { data: rawMarket, isLoading, error } = useReadContract({
+    address: marketContract,
+    abi: PredictionMarketABI,
+    functionName: 'getMarket',
+    args: [marketId as Hex],
+    query: { enabled: isValidId },
+  })
+
+  // Unknown ids return an empty struct rather than reverting
+  const market = useMemo(() => {
+    if (!rawMarket) return null
+    try {
+      const decoded = decodeMarket(PredictionMarketABI, rawMarket)
+      return decoded.marketId.toLowerCase() === marketId.toLowerCase() ? decoded : null
+    } catch (err) {
+      console.error('Failed to decode market:', err)
+      return null
+    }
+  }, [rawMarket, marketId])
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-900 via-gray-800 to-gray-900">
+      <header className="border-b border-gray-700 bg-gray-800/50 backdrop-blur-sm sticky top-0 z-50">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center py-4">
+            <Link href="/" className="flex items-center space-x-2 text-gray-400 hover:text-white transition-colors">
+              <ArrowLeft className="w-5 h-5" />
+              <span>All markets</span>
+            </Link>
+            <div className="flex items-center space-x-4">
+              <NetworkSwitcher />
+              <SomiBalance />
+              <appkit-button />
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {isValidId && isLoading && (
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            <div className="lg:col-span-2 card animate-shimmer h-96" />
+            <div className="card animate-shimmer h-96" />
+          </div>
+        )}
+
+        {!isLoading && !market && (
+          <div className="card text-center py-12">
+            <Database className="w-16 h-16 text-gray-600 mx-auto mb-4" />
+            <h3 className="text-xl font-semibold mb-2">Market not found</h3>
+            <p className="text-gray-400">
+              {error ? 'Failed to load the market.' : `No market exists with id ${formatAddress(marketId as Hex)}.`}
+            </p>
+          </div>
+        )}
+
+        {market && <MarketDetail key={market.marketId} market={market} />}
+      </main>
+    </div>
+  )
+}
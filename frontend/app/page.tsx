@@ -1,21 +1,32 @@
 'use client'
 
 import { useState } from 'react'
-import { useAccount } from 'wagmi'
-import { TrendingUp, Zap, Trophy, Plus } from 'lucide-react'
+import { useAccount, useReadContract } from 'wagmi'
+import { TrendingUp, Zap, Trophy, Plus, Briefcase, Settings } from 'lucide-react'
 import Link from 'next/link'
 import BlockMarkets from '@/components/markets/BlockMarkets'
 import TransferMarkets from '@/components/markets/TransferMarkets'
 import GameMarkets from '@/components/markets/GameMarkets'
 import CreateMarketModal from '@/components/CreateMarketModal'
+import NetworkSwitcher from '@/components/NetworkSwitcher'
 import SomiBalance from '@/components/SomiBalance'
 import SomiFaucet from '@/components/SomiFaucet'
+import { useContracts } from '@/hooks/useNetwork'
+import { PredictionMarketABI } from '@/abis'
 
 export default function Home() {
-  const { isConnected } = useAccount()
+  const { address, isConnected } = useAccount()
+  const { market: marketContract } = useContracts()
   const [activeTab, setActiveTab] = useState<'block' | 'transfer' | 'game'>('block')
   const [isCreateModalOpen, setIsCreateModalOpen] = useState(false)
 
+  const { data: owner } = useReadContract({
+    address: marketContract,
+    abi: PredictionMarketABI,
+    functionName: 'owner',
+  })
+  const isOwner = !!address && typeof owner === 'string' && owner.toLowerCase() === address.toLowerCase()
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-gray-900 via-gray-800 to-gray-900">
       {/* Header */}
@@ -33,7 +44,22 @@ export default function Home() {
             </div>
 
             <div className="flex items-center space-x-4">
+              <NetworkSwitcher />
               <SomiBalance />
+              <Link href="/portfolio">
+                <button className="btn-secondary flex items-center space-x-2">
+                  <Briefcase className="w-4 h-4" />
+                  <span>Portfolio</span>
+                </button>
+              </Link>
+              {isOwner && (
+                <Link href="/admin">
+                  <button className="btn-secondary flex items-center space-x-2">
+                    <Settings className="w-4 h-4" />
+                    <span>Admin</span>
+                  </button>
+                </Link>
+              )}
               <Link href="/game">
                 <button className="btn-secondary flex items-center space-x-2">
                   <Trophy className="w-4 h-4" />
@@ -0,0 +1,311 @@
+'use client'
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import Link from 'next/link'
+import { useAccount, usePublicClient, useWriteContract } from 'wagmi'
+import { ArrowLeft, Briefcase, Coins, TrendingDown, TrendingUp, Trophy, Undo2, Wallet } from 'lucide-react'
+import { toast } from 'sonner'
+import { PredictionMarketABI } from '@/abis'
+import NetworkSwitcher from '@/components/NetworkSwitcher'
+import SomiBalance from '@/components/SomiBalance'
+import { useMarketUpdates } from '@/hooks/useMarketFeed'
+import { useContracts } from '@/hooks/useNetwork'
+import { calculatePayoutIfWins } from '@predex/shared/payouts'
+import { fetchUserPositions, type UserPosition } from '@/lib/api'
+import { MarketStatus } from '@/lib/types'
+import { calculateMarketOdds, formatOdds, formatTokenAmount, getMarketTypeLabel, getStatusLabel } from '@/utils/format'
+
+const ZERO = BigInt(0)
+
+interface PositionSummary extends UserPosition {
+  staked: bigint
+  side: 'YES' | 'NO' | 'Both'
+  realizedPnl: bigint | null // Settled markets only
+  pnlIfYes: bigint // Open markets: P&L if YES wins at current pools
+  pnlIfNo: bigint
+}
+
+function summarize(position: UserPosition, platformFee: bigint): PositionSummary {
+  const { market, bets } = position
+  const staked = bets.reduce((sum, bet) => sum + bet.amount, ZERO)
+  const hasYes = bets.some((bet) => bet.option === 0)
+  const hasNo = bets.some((bet) => bet.option === 1)
+
+  let realizedPnl: bigint | null = null
+  if (market.status === MarketStatus.RESOLVED) {
+    realizedPnl = calculatePayoutIfWins(bets, market.optionPools, market.winningOption, platformFee) - staked
+  } else if (market.status === MarketStatus.CANCELLED) {
+    realizedPnl = ZERO // Stakes are refunded in full
+  }
+
+  return {
+    ...position,
+    staked,
+    side: hasYes && hasNo ? 'Both' : hasYes ? 'YES' : 'NO',
+    realizedPnl,
+    pnlIfYes: calculatePayoutIfWins(bets, market.optionPools, 0, platformFee) - staked,
+    pnlIfNo: calculatePayoutIfWins(bets, market.optionPools, 1, platformFee) - staked,
+  }
+}
+
+function SignedAmount({ amount }: { amount: bigint }) {
+  const className = amount > ZERO ? 'text-green-400' : amount < ZERO ? 'text-red-400' : 'text-gray-400'
+  const sign = amount > ZERO ? '+' : amount < ZERO ? '−' : ''
+  return <span className={className}>{sign}{formatTokenAmount(amount < ZERO ? -amount : amount)}</span>
+}
+
+function StatCard({ label, icon, children }: { label: string; icon: React.ReactNode; children: React.ReactNode }) {
+  return (
+    <div className="card">
+      <div className="flex items-center justify-between">
+        <div>
+          <p className="text-gray-400 text-sm">{label}</p>
+          <p className="text-2xl font-bold mt-1">{children}</p>
+        </div>
+        {icon}
+      </div>
+    </div>
+  )
+}
+
+export default function PortfolioPage() {
+  const { address, isConnected } = useAccount()
+  const publicClient = usePublicClient()
+  const { writeContractAsync } = useWriteContract()
+  const { market: marketContract } = useContracts()
+
+  const [positions, setPositions] = useState<PositionSummary[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [isSettling, setIsSettling] = useState(false)
+  // Claimed or refunded from this page; the backend index only catches up on its next refresh
+  const settledMarkets = useRef(new Set<string>())
+
+  const loadPortfolio = useCallback(async () => {
+    if (!address) return
+    setIsLoading(true)
+    try {
+      const portfolio = await fetchUserPositions(address)
+      setPositions(portfolio.positions.map((position) => summarize(
+        settledMarkets.current.has(position.market.marketId)
+          ? { ...position, claimable: { ...position.claimable, amount: ZERO } }
+          : position,
+        portfolio.platformFee
+      )))
+    } catch (error) {
+      console.error('Failed to load portfolio:', error)
+      toast.error('Failed to load portfolio')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [address])
+
+  useEffect(() => {
+    loadPortfolio()
+  }, [loadPortfolio])
+
+  // Pools and statuses of held markets change as others bet and markets settle
+  useMarketUpdates((update) => {
+    if (positions.some((position) => position.market.marketId === update.marketId)) {
+      loadPortfolio()
+    }
+  })
+
+  const totals = useMemo(() => {
+    let staked = ZERO
+    let realized = ZERO
+    let claimable = ZERO
+    let refundable = ZERO
+    for (const position of positions) {
+      staked += position.staked
+      realized += position.realizedPnl ?? ZERO
+      if (position.claimable.kind === 'winnings') claimable += position.claimable.amount
+      if (position.claimable.kind === 'refund') refundable += position.claimable.amount
+    }
+    return { staked, realized, claimable, refundable }
+  }, [positions])
+
+  const outstanding = positions.filter((position) => position.claimable.amount > ZERO)
+
+  /**
+   * Claim winnings and refunds one market at a time
+   * Each transaction is confirmed before the next is sent; a failure stops the run.
+   */
+  const settleAll = async () => {
+    if (!publicClient || outstanding.length === 0) return
+    setIsSettling(true)
+
+    let settled = 0
+    try {
+      for (const position of outstanding) {
+        const isRefund = position.claimable.kind === 'refund'
+        toast.loading(
+          `${isRefund ? 'Refunding' : 'Claiming'} ${settled + 1}/${outstanding.length}: ${position.market.question}`,
+          { id: 'settle-all' }
+        )
+
+        const hash = await writeContractAsync({
+          address: marketContract,
+          abi: PredictionMarketABI,
+          functionName: isRefund ? 'refundBets' : 'claimWinnings',
+          args: [position.market.marketId],
+        })
+        const receipt = await publicClient.waitForTransactionReceipt({ hash })
+        if (receipt.status !== 'success') {
+          throw new Error(`Transaction ${hash} reverted`)
+        }
+        settledMarkets.current.add(position.market.marketId)
+        settled++
+      }
+      toast.success(`Settled ${settled} market${settled === 1 ? '' : 's'} 🎉`, { id: 'settle-all' })
+    } catch (error) {
+      console.error('Settle all failed:', error)
+      const message = error instanceof Error ? error.message : 'Transaction failed'
+      toast.error(`Stopped after ${settled}/${outstanding.length}: ${message}`, { id: 'settle-all' })
+    } finally {
+      setIsSettling(false)
+      loadPortfolio()
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-900 via-gray-800 to-gray-900">
+      <header className="border-b border-gray-700 bg-gray-800/50 backdrop-blur-sm sticky top-0 z-50">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center py-4">
+            <Link href="/" className="flex items-center space-x-2 text-gray-400 hover:text-white transition-colors">
+              <ArrowLeft className="w-5 h-5" />
+              <span>All markets</span>
+            </Link>
+            <div className="flex items-center space-x-4">
+              <NetworkSwitcher />
+              <SomiBalance />
+              <appkit-button />
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="flex flex-col md:flex-row justify-between md:items-center mb-8">
+          <h1 className="text-3xl font-bold flex items-center space-x-3">
+            <Briefcase className="w-8 h-8 text-primary-500" />
+            <span>Portfolio</span>
+          </h1>
+          {outstanding.length > 0 && (
+            <button
+              onClick={settleAll}
+              disabled={isSettling}
+              className="btn-primary flex items-center space-x-2 mt-4 md:mt-0"
+            >
+              <Trophy className="w-4 h-4" />
+              <span>
+                {isSettling ? 'Settling...' : `Claim & refund all (${outstanding.length})`}
+              </span>
+            </button>
+          )}
+        </div>
+
+        {!isConnected ? (
+          <div className="card text-center py-12">
+            <Wallet className="w-16 h-16 text-gray-600 mx-auto mb-4" />
+            <h3 className="text-xl font-semibold mb-2">Connect your wallet</h3>
+            <p className="text-gray-400">Your bets, P&amp;L and claimable winnings will show up here.</p>
+          </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-6 mb-8">
+              <StatCard label="Total staked" icon={<Coins className="w-12 h-12 text-primary-500 opacity-20" />}>
+                {formatTokenAmount(totals.staked)} SOMI
+              </StatCard>
+              <StatCard label="Realized P&L" icon={<TrendingUp className="w-12 h-12 text-green-500 opacity-20" />}>
+                <SignedAmount amount={totals.realized} /> SOMI
+              </StatCard>
+              <StatCard label="Claimable" icon={<Trophy className="w-12 h-12 text-yellow-500 opacity-20" />}>
+                {formatTokenAmount(totals.claimable)} SOMI
+              </StatCard>
+              <StatCard label="Refundable" icon={<Undo2 className="w-12 h-12 text-blue-500 opacity-20" />}>
+                {formatTokenAmount(totals.refundable)} SOMI
+              </StatCard>
+            </div>
+
+            {isLoading && positions.length === 0 ? (
+              <div className="card animate-shimmer h-64" />
+            ) : positions.length === 0 ? (
+              <div className="card text-center py-12">
+                <TrendingDown className="w-16 h-16 text-gray-600 mx-auto mb-4" />
+                <h3 className="text-xl font-semibold mb-2">No bets yet</h3>
+                <p className="text-gray-400">Place a bet on any market to start your portfolio.</p>
+              </div>
+            ) : (
+              <div className="card overflow-x-auto">
+                <table className="w-full text-sm text-left">
+                  <thead className="text-gray-400">
+                    <tr>
+                      <th className="pb-3 font-medium">Market</th>
+                      <th className="pb-3 font-medium">Side</th>
+                      <th className="pb-3 font-medium">Stake</th>
+                      <th className="pb-3 font-medium">Current odds</th>
+                      <th className="pb-3 font-medium">Status</th>
+                      <th className="pb-3 font-medium">P&amp;L</th>
+                      <th className="pb-3 font-medium">Claimable</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {positions.map((position) => {
+                      const { market } = position
+                      const odds = calculateMarketOdds(market)
+                      return (
+                        <tr key={market.marketId} className="border-t border-gray-700 align-top">
+                          <td className="py-3 pr-4">
+                            <Link href={`/markets/${market.marketId}`} className="hover:text-primary-400">
+                              {market.question}
+                            </Link>
+                            <div className="text-xs text-gray-500">{getMarketTypeLabel(market.marketType)}</div>
+                          </td>
+                          <td className={position.side === 'YES' ? 'text-green-400' : position.side === 'NO' ? 'text-red-400' : ''}>
+                            {position.side}
+                          </td>
+                          <td>{formatTokenAmount(position.staked)}</td>
+                          <td className="text-gray-300">
+                            {formatOdds(odds.yes)} / {formatOdds(odds.no)}
+                          </td>
+                          <td>
+                            {getStatusLabel(market.status)}
+                            {market.status === MarketStatus.RESOLVED && (
+                              <div className="text-xs text-gray-500">{market.winningOption === 0 ? 'YES' : 'NO'} won</div>
+                            )}
+                          </td>
+                          <td>
+                            {position.realizedPnl !== null ? (
+                              <SignedAmount amount={position.realizedPnl} />
+                            ) : (
+                              // Unrealized: outcome still open, so show both scenarios at current pools
+                              <div className="text-xs space-y-1">
+                                <div>If YES: <SignedAmount amount={position.pnlIfYes} /></div>
+                                <div>If NO: <SignedAmount amount={position.pnlIfNo} /></div>
+                              </div>
+                            )}
+                          </td>
+                          <td>
+                            {position.claimable.amount > ZERO ? (
+                              <span className="text-yellow-400">
+                                {formatTokenAmount(position.claimable.amount)}
+                                {position.claimable.kind === 'refund' && ' (refund)'}
+                              </span>
+                            ) : (
+                              <span className="text-gray-500">—</span>
+                            )}
+                          </td>
+                        </tr>
+                      )
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </>
+        )}
+      </main>
+    </div>
+  )
+}
@@ -5,16 +5,35 @@ import { X } from 'lucide-react'
 import { useAccount, useWriteContract, useWaitForTransactionReceipt, usePublicClient } from 'wagmi'
 import { toast } from 'sonner'
 import { keccak256, encodePacked } from 'viem'
-import { MarketType } from '@/lib/types'
+import { MarketType, Comparator, Metric, Aggregation } from '@/lib/types'
 import { PredictionMarketABI } from '@/abis'
+import { useContracts } from '@/hooks/useNetwork'
 import { useDataStreams } from '@/hooks/useDataStreams'
+import { getAggregationLabel, getComparatorSymbol, getMetricLabel } from '@/utils/format'
 
 interface CreateMarketModalProps {
   onClose: () => void
 }
 
+// Metrics the resolver can observe for each market type (first entry is the default)
+const METRICS_BY_TYPE: Record<MarketType, Metric[]> = {
+  [MarketType.BLOCK]: [Metric.TX_COUNT],
+  [MarketType.TRANSFER]: [Metric.TRANSFER_VALUE],
+  [MarketType.GAME]: [Metric.TIME_TAKEN, Metric.TOTAL_DAMAGE],
+}
+
+const COMPARATORS = [Comparator.GT, Comparator.GTE, Comparator.LT, Comparator.LTE, Comparator.EQ]
+
+// BLOCK markets are always judged on the first block after resolution time
+const AGGREGATIONS_BY_TYPE: Record<MarketType, Aggregation[]> = {
+  [MarketType.BLOCK]: [Aggregation.FIRST_AFTER_LOCK],
+  [MarketType.TRANSFER]: [Aggregation.FIRST_AFTER_LOCK, Aggregation.ANY, Aggregation.MAX, Aggregation.MIN, Aggregation.SUM, Aggregation.COUNT],
+  [MarketType.GAME]: [Aggregation.FIRST_AFTER_LOCK, Aggregation.ANY, Aggregation.MAX, Aggregation.MIN, Aggregation.SUM, Aggregation.COUNT],
+}
+
 export default function CreateMarketModal({ onClose }: CreateMarketModalProps) {
   const { address, isConnected } = useAccount()
+  const { market: marketContract, somiToken } = useContracts()
   const publicClient = usePublicClient()
   const { getOrRegisterSchemaId, isInitialized } = useDataStreams()
   const [marketType, setMarketType] = useState<MarketType>(MarketType.BLOCK)
@@ -22,6 +41,17 @@ export default function CreateMarketModal({ onClose }: CreateMarketModalProps) {
   const [duration, setDuration] = useState(2) // duration value
   const [timeUnit, setTimeUnit] = useState<'minutes' | 'hours'>('minutes') // time unit selector
   const [threshold, setThreshold] = useState('')
+  const [comparator, setComparator] = useState<Comparator>(Comparator.GT)
+  const [metric, setMetric] = useState<Metric>(Metric.TX_COUNT)
+  const [aggregation, setAggregation] = useState<Aggregation>(Aggregation.FIRST_AFTER_LOCK)
+
+  const selectMarketType = (type: MarketType) => {
+    setMarketType(type)
+    setMetric(METRICS_BY_TYPE[type][0])
+    if (!AGGREGATIONS_BY_TYPE[type].includes(aggregation)) {
+      setAggregation(AGGREGATIONS_BY_TYPE[type][0])
+    }
+  }
 
   const { writeContract, data: hash, isPending, error } = useWriteContract()
   const { isSuccess } = useWaitForTransactionReceipt({ hash })
@@ -115,12 +145,12 @@ export default function CreateMarketModal({ onClose }: CreateMarketModalProps) {
 
       console.log('Using Data Streams schema ID:', dataSourceId)
 
-      // Threshold: optional, defaults to 0 for GAME markets
+      // Threshold: the value the selected metric is compared against
       const thresholdValue = threshold ? BigInt(threshold) : BigInt(0)
 
       // ThresholdToken: for TRANSFER markets, use SOMI token address, otherwise zero address
       const thresholdTokenAddress = marketType === MarketType.TRANSFER
-        ? (process.env.NEXT_PUBLIC_SOMI_TOKEN as `0x${string}`)
+        ? somiToken
         : '0x0000000000000000000000000000000000000000' as `0x${string}`
 
       console.log('Creating market with:', {
@@ -134,16 +164,19 @@ export default function CreateMarketModal({ onClose }: CreateMarketModalProps) {
         dataSourceId,
         threshold: thresholdValue.toString(),
         thresholdToken: thresholdTokenAddress,
-        contractAddress: process.env.NEXT_PUBLIC_MARKET_CONTRACT
+        comparator,
+        metric,
+        aggregation,
+        contractAddress: marketContract
       })
 
       toast.loading('Creating market...', { id: 'create-market' })
 
       writeContract({
-        address: process.env.NEXT_PUBLIC_MARKET_CONTRACT as `0x${string}`,
+        address: marketContract,
         abi: PredictionMarketABI,
         functionName: 'createMarket',
-        args: [marketId, marketType, question, resolutionTime, dataSourceId, thresholdValue, thresholdTokenAddress],
+        args: [marketId, marketType, question, resolutionTime, dataSourceId, thresholdValue, thresholdTokenAddress, comparator, metric, aggregation],
         gas: BigInt(5000000), // 5M gas limit for Somnia testnet
       })
 
@@ -171,7 +204,7 @@ export default function CreateMarketModal({ onClose }: CreateMarketModalProps) {
             <div className="grid grid-cols-3 gap-4">
               <button
                 type="button"
-                onClick={() => setMarketType(MarketType.BLOCK)}
+                onClick={() => selectMarketType(MarketType.BLOCK)}
                 className={`p-4 rounded-lg border-2 transition-colors ${
                   marketType === MarketType.BLOCK
                     ? 'border-primary-500 bg-primary-500/10'
@@ -183,7 +216,7 @@ export default function CreateMarketModal({ onClose }: CreateMarketModalProps) {
               </button>
               <button
                 type="button"
-                onClick={() => setMarketType(MarketType.TRANSFER)}
+                onClick={() => selectMarketType(MarketType.TRANSFER)}
                 className={`p-4 rounded-lg border-2 transition-colors ${
                   marketType === MarketType.TRANSFER
                     ? 'border-primary-500 bg-primary-500/10'
@@ -195,7 +228,7 @@ export default function CreateMarketModal({ onClose }: CreateMarketModalProps) {
               </button>
               <button
                 type="button"
-                onClick={() => setMarketType(MarketType.GAME)}
+                onClick={() => selectMarketType(MarketType.GAME)}
                 className={`p-4 rounded-lg border-2 transition-colors ${
                   marketType === MarketType.GAME
                     ? 'border-primary-500 bg-primary-500/10'
@@ -251,29 +284,62 @@ export default function CreateMarketModal({ onClose }: CreateMarketModalProps) {
             </p>
           </div>
 
-          {/* Threshold (for block/transfer markets) */}
-          {(marketType === MarketType.BLOCK || marketType === MarketType.TRANSFER) && (
-            <div>
-              <label className="block text-sm font-medium mb-2">
-                Threshold {marketType === MarketType.BLOCK ? '(transactions)' : '(SOMI)'}
-              </label>
+          {/* Resolution Criteria */}
+          <div>
+            <label className="block text-sm font-medium mb-2">
+              Resolves YES when
+            </label>
+            <div className="flex gap-2">
+              <select
+                value={metric}
+                onChange={(e) => setMetric(Number(e.target.value) as Metric)}
+                className="input flex-1"
+                disabled={METRICS_BY_TYPE[marketType].length === 1}
+              >
+                {METRICS_BY_TYPE[marketType].map((m) => (
+                  <option key={m} value={m}>{getMetricLabel(m)}</option>
+                ))}
+              </select>
+              <select
+                value={comparator}
+                onChange={(e) => setComparator(Number(e.target.value) as Comparator)}
+                className="input w-20"
+              >
+                {COMPARATORS.map((c) => (
+                  <option key={c} value={c}>{getComparatorSymbol(c)}</option>
+                ))}
+              </select>
               <input
                 type="number"
                 value={threshold}
                 onChange={(e) => setThreshold(e.target.value)}
                 placeholder="e.g., 100"
-                className="input w-full"
+                className="input w-32"
                 required
               />
             </div>
-          )}
+            <select
+              value={aggregation}
+              onChange={(e) => setAggregation(Number(e.target.value) as Aggregation)}
+              className="input w-full mt-2"
+              disabled={AGGREGATIONS_BY_TYPE[marketType].length === 1}
+            >
+              {AGGREGATIONS_BY_TYPE[marketType].map((a) => (
+                <option key={a} value={a}>{getAggregationLabel(a)}</option>
+              ))}
+            </select>
+            <p className="text-xs text-gray-400 mt-1">
+              The question text is for display only; the resolver uses these criteria
+            </p>
+          </div>
 
           {/* Info */}
           <div className="bg-primary-500/10 border border-primary-500/30 rounded-lg p-4">
             <p className="text-sm text-gray-300">
               {marketType === MarketType.BLOCK && '🔷 Resolution: Checks latest block transaction count after resolution time'}
-              {marketType === MarketType.TRANSFER && '🔷 Resolution: Triggers on first SOMI transfer AFTER resolution time'}
-              {marketType === MarketType.GAME && '🔷 Resolution: Triggers on first boss defeat AFTER resolution time'}
+              {marketType === MarketType.TRANSFER && aggregation === Aggregation.FIRST_AFTER_LOCK && '🔷 Resolution: Triggers on first SOMI transfer AFTER resolution time'}
+              {marketType === MarketType.GAME && aggregation === Aggregation.FIRST_AFTER_LOCK && '🔷 Resolution: Triggers on first boss defeat AFTER resolution time'}
+              {aggregation !== Aggregation.FIRST_AFTER_LOCK && '🔷 Resolution: Uses every event between market creation and resolution time, decided once resolution time has passed'}
             </p>
           </div>
 
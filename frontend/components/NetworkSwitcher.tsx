@@ -0,0 +1,40 @@
+'use client'
+
+import { useChainId, useSwitchChain } from 'wagmi'
+import { Globe } from 'lucide-react'
+import { toast } from 'sonner'
+import { APP_NETWORKS } from '@/lib/chains'
+
+/**
+ * Switch between the configured networks
+ * Asks the wallet to switch when connected; otherwise only changes the network the app reads from.
+ */
+export default function NetworkSwitcher() {
+  const chainId = useChainId()
+  const { switchChain, isPending } = useSwitchChain()
+
+  if (APP_NETWORKS.length < 2) return null
+
+  return (
+    <div className="flex items-center space-x-2">
+      <Globe className="w-4 h-4 text-gray-400" />
+      <select
+        value={chainId}
+        disabled={isPending}
+        onChange={(e) =>
+          switchChain(
+            { chainId: Number(e.target.value) },
+            { onError: (error) => toast.error(`Failed to switch network: ${error.message.slice(0, 100)}`) }
+          )
+        }
+        className="input py-2 text-sm"
+      >
+        {APP_NETWORKS.map((network) => (
+          <option key={network.name} value={network.chain.id}>
+            {network.label}
+          </option>
+        ))}
+      </select>
+    </div>
+  )
+}
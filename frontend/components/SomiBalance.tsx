@@ -4,13 +4,15 @@ import { Coins } from 'lucide-react'
 import { useAccount, useReadContract } from 'wagmi'
 import { formatEther } from 'viem'
 import { SomiTokenABI } from '@/abis'
+import { useContracts } from '@/hooks/useNetwork'
 
 export default function SomiBalance() {
   const { address, isConnected } = useAccount()
+  const { somiToken } = useContracts()
 
   // Read SOMI balance
   const { data: balance } = useReadContract({
-    address: process.env.NEXT_PUBLIC_SOMI_TOKEN as `0x${string}`,
+    address: somiToken,
     abi: SomiTokenABI,
     functionName: 'balanceOf',
     args: address ? [address] : undefined,
@@ -6,16 +6,18 @@ import { useAccount, useWriteContract, useWaitForTransactionReceipt, useReadCont
 import { formatEther } from 'viem'
 import { toast } from 'sonner'
 import { SomiTokenABI } from '@/abis'
+import { useContracts } from '@/hooks/useNetwork'
 
 export default function SomiFaucet() {
   const { address, isConnected } = useAccount()
+  const { somiToken } = useContracts()
 
   const { writeContract, data: hash, isPending } = useWriteContract()
   const { isSuccess } = useWaitForTransactionReceipt({ hash })
 
   // Read SOMI balance
   const { data: balance, refetch: refetchBalance } = useReadContract({
-    address: process.env.NEXT_PUBLIC_SOMI_TOKEN as `0x${string}`,
+    address: somiToken,
     abi: SomiTokenABI,
     functionName: 'balanceOf',
     args: address ? [address] : undefined,
@@ -43,7 +45,7 @@ export default function SomiFaucet() {
       const amount = BigInt('1000000000000000000000') // 1000 * 10^18
 
       writeContract({
-        address: process.env.NEXT_PUBLIC_SOMI_TOKEN as `0x${string}`,
+        address: somiToken,
         abi: SomiTokenABI,
         functionName: 'mint',
         args: [address, amount],
@@ -6,8 +6,10 @@ import { useAccount, useWriteContract, useWaitForTransactionReceipt, useReadCont
 import { parseEther, formatEther } from 'viem'
 import { toast } from 'sonner'
 import type { Market, Odds } from '@/lib/types'
-import { formatOdds, formatTokenAmount, calculatePotentialWinnings } from '@/utils/format'
+import { simulateBet } from '@predex/shared/payouts'
+import { bpsToMultiplier, formatOdds, formatPercentage, formatTokenAmount } from '@/utils/format'
 import { PredictionMarketABI, SomiTokenABI } from '@/abis'
+import { useContracts } from '@/hooks/useNetwork'
 
 interface BetModalProps {
   market: Market
@@ -17,42 +19,61 @@ interface BetModalProps {
 
 export default function BetModal({ market, odds, onClose }: BetModalProps) {
   const { address, isConnected } = useAccount()
+  const { market: marketContract, somiToken } = useContracts()
   const [selectedOption, setSelectedOption] = useState<0 | 1>(0)
   const [betAmount, setBetAmount] = useState('')
-  const [needsApproval, setNeedsApproval] = useState(true)
 
   const { writeContract, data: hash, isPending, error, reset } = useWriteContract()
   const { isLoading: isConfirming, isSuccess } = useWaitForTransactionReceipt({ hash })
 
   // Read SOMI balance
   const { data: balance, refetch: refetchBalance } = useReadContract({
-    address: process.env.NEXT_PUBLIC_SOMI_TOKEN as `0x${string}`,
+    address: somiToken,
     abi: SomiTokenABI,
     functionName: 'balanceOf',
     args: address ? [address] : undefined,
   })
 
+  // Read platform fee (basis points) for the payout preview
+  const { data: platformFee } = useReadContract({
+    address: marketContract,
+    abi: PredictionMarketABI,
+    functionName: 'platformFee',
+  })
+
+  // Read bet limits, which the owner can change with setBetLimits
+  const { data: minBetAmount } = useReadContract({
+    address: marketContract,
+    abi: PredictionMarketABI,
+    functionName: 'minBetAmount',
+  })
+  const { data: maxBetAmount } = useReadContract({
+    address: marketContract,
+    abi: PredictionMarketABI,
+    functionName: 'maxBetAmount',
+  })
+  const minBet = minBetAmount !== undefined ? formatEther(minBetAmount as bigint) : undefined
+  const maxBet = maxBetAmount !== undefined ? formatEther(maxBetAmount as bigint) : undefined
+
   // Read allowance
   const { data: allowance, refetch: refetchAllowance } = useReadContract({
-    address: process.env.NEXT_PUBLIC_SOMI_TOKEN as `0x${string}`,
+    address: somiToken,
     abi: SomiTokenABI,
     functionName: 'allowance',
-    args: address ? [address, process.env.NEXT_PUBLIC_MARKET_CONTRACT as `0x${string}`] : undefined,
+    args: address ? [address, marketContract] : undefined,
   })
 
-  // Check if approval is needed when bet amount changes
-  useEffect(() => {
-    if (!betAmount) return
-    if (allowance === undefined || allowance === null) return
-    const amountInWei = parseEther(betAmount)
+  // Approval is needed until the allowance covers the entered amount
+  const needsApproval = (() => {
+    if (allowance === undefined || allowance === null) return true
     try {
       const currentAllowance = allowance as unknown as bigint
-      setNeedsApproval(currentAllowance < amountInWei)
+      return currentAllowance < parseEther(betAmount || '0')
     } catch {
       // Fallback: require approval if type unexpected
-      setNeedsApproval(true)
+      return true
     }
-  }, [betAmount, allowance])
+  })()
 
   // Handle transaction success
   useEffect(() => {
@@ -81,9 +102,9 @@ export default function BetModal({ market, odds, onClose }: BetModalProps) {
         } else if (error.message.includes('Market not active')) {
           errorMsg = 'Market is no longer active'
         } else if (error.message.includes('Bet too small')) {
-          errorMsg = 'Bet amount too small (min: 0.01 SOMI)'
+          errorMsg = minBet ? `Bet amount too small (min: ${minBet} SOMI)` : 'Bet amount too small'
         } else if (error.message.includes('Bet too large')) {
-          errorMsg = 'Bet amount too large (max: 100 SOMI)'
+          errorMsg = maxBet ? `Bet amount too large (max: ${maxBet} SOMI)` : 'Bet amount too large'
         } else if (error.message.includes('rejected')) {
           errorMsg = 'Transaction rejected by user'
         } else if (error.message.includes('insufficient')) {
@@ -95,7 +116,7 @@ export default function BetModal({ market, odds, onClose }: BetModalProps) {
 
       toast.error(errorMsg, { id: 'bet-tx' })
     }
-  }, [error])
+  }, [error, minBet, maxBet])
 
   const handleApprove = async () => {
     if (!isConnected || !address) {
@@ -113,16 +134,16 @@ export default function BetModal({ market, odds, onClose }: BetModalProps) {
       const maxApproval = BigInt('0xffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffff')
 
       console.log('Approving SOMI tokens (max amount for convenience):', {
-        spender: process.env.NEXT_PUBLIC_MARKET_CONTRACT
+        spender: marketContract
       })
 
       toast.loading('Approving tokens (one-time)...', { id: 'bet-tx' })
 
       writeContract({
-        address: process.env.NEXT_PUBLIC_SOMI_TOKEN as `0x${string}`,
+        address: somiToken,
         abi: SomiTokenABI,
         functionName: 'approve',
-        args: [process.env.NEXT_PUBLIC_MARKET_CONTRACT as `0x${string}`, maxApproval],
+        args: [marketContract, maxApproval],
         gas: BigInt(100000), // 100k gas for approval
       })
     } catch (err: any) {
@@ -143,14 +164,14 @@ export default function BetModal({ market, odds, onClose }: BetModalProps) {
       return
     }
 
-    const amount = parseFloat(betAmount)
-    if (amount < 0.01) {
-      toast.error('Minimum bet is 0.01 SOMI')
+    const amount = parseEther(betAmount)
+    if (minBetAmount !== undefined && amount < (minBetAmount as bigint)) {
+      toast.error(`Minimum bet is ${minBet} SOMI`)
       return
     }
 
-    if (amount > 100) {
-      toast.error('Maximum bet is 100 SOMI')
+    if (maxBetAmount !== undefined && amount > (maxBetAmount as bigint)) {
+      toast.error(`Maximum bet is ${maxBet} SOMI`)
       return
     }
 
@@ -176,13 +197,13 @@ export default function BetModal({ market, odds, onClose }: BetModalProps) {
         option: selectedOption === 0 ? 'YES' : 'NO',
         amount: betAmount,
         amountWei: amountInWei.toString(),
-        contractAddress: process.env.NEXT_PUBLIC_MARKET_CONTRACT
+        contractAddress: marketContract
       })
 
       toast.loading('Placing bet...', { id: 'bet-tx' })
 
       writeContract({
-        address: process.env.NEXT_PUBLIC_MARKET_CONTRACT as `0x${string}`,
+        address: marketContract,
         abi: PredictionMarketABI,
         functionName: 'placeBet',
         args: [market.marketId, selectedOption, amountInWei],
@@ -195,12 +216,10 @@ export default function BetModal({ market, odds, onClose }: BetModalProps) {
     }
   }
 
-  const potentialWinnings = betAmount
-    ? calculatePotentialWinnings(
-        parseEther(betAmount),
-        selectedOption === 0 ? odds.yes : odds.no
-      )
-    : BigInt(0)
+  // Exact payout if the chosen side wins, with this bet already in its pool
+  const simulation = betAmount && parseFloat(betAmount) > 0 && platformFee !== undefined
+    ? simulateBet(market.optionPools, selectedOption, parseEther(betAmount), platformFee as bigint)
+    : null
 
   const balanceFormatted = balance !== undefined && balance !== null
     ? (() => {
@@ -287,34 +306,61 @@ export default function BetModal({ market, odds, onClose }: BetModalProps) {
           <input
             type="number"
             step="0.01"
-            min="0.01"
-            max="100"
+            min={minBet}
+            max={maxBet}
             value={betAmount}
             onChange={(e) => setBetAmount(e.target.value)}
             placeholder="0.00"
             className={`input w-full text-lg ${hasInsufficientBalance ? 'border-red-500' : ''}`}
           />
           <div className="flex justify-between mt-2 text-sm text-gray-400">
-            <span>Min: 0.01 SOMI</span>
-            <span>Max: 100 SOMI</span>
+            <span>Min: {minBet ?? '—'} SOMI</span>
+            <span>Max: {maxBet ?? '—'} SOMI</span>
           </div>
           {hasInsufficientBalance && (
             <p className="text-red-500 text-sm mt-2">Insufficient balance</p>
           )}
         </div>
 
-        {/* Potential Winnings */}
-        {betAmount && parseFloat(betAmount) > 0 && (
+        {/* Payout Preview */}
+        {simulation && (
           <div className="bg-primary-500/10 border border-primary-500/30 rounded-lg p-4 mb-6">
             <div className="flex items-center justify-between">
               <div className="flex items-center space-x-2">
                 <TrendingUp className="w-5 h-5 text-primary-500" />
-                <span className="text-sm text-gray-400">Potential Winnings:</span>
+                <span className="text-sm text-gray-400">Payout if {selectedOption === 0 ? 'YES' : 'NO'} wins:</span>
               </div>
               <div className="text-xl font-bold text-primary-400">
-                {formatTokenAmount(potentialWinnings)} SOMI
+                {formatTokenAmount(simulation.payout)} SOMI
+              </div>
+            </div>
+            <div className="mt-3 space-y-1 text-sm">
+              <div className="flex justify-between">
+                <span className="text-gray-400">Profit</span>
+                <span className="text-green-400">+{formatTokenAmount(simulation.profit)} SOMI</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-gray-400">Platform fee</span>
+                <span>{formatTokenAmount(simulation.fee)} SOMI</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-gray-400">Effective odds</span>
+                <span>{formatOdds(bpsToMultiplier(simulation.effectiveOdds))}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-gray-400">Odds after your bet</span>
+                <span>
+                  YES {formatOdds(bpsToMultiplier(simulation.oddsAfter.yes))} / NO {formatOdds(bpsToMultiplier(simulation.oddsAfter.no))}
+                </span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-gray-400">Break-even probability</span>
+                <span>{formatPercentage(Number(simulation.breakEvenProbability) / 100)}</span>
               </div>
             </div>
+            <p className="text-xs text-gray-500 mt-3">
+              Assumes no further bets; later bets on the other side raise your payout, bets on your side lower it.
+            </p>
           </div>
         )}
 
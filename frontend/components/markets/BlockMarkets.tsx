@@ -4,22 +4,26 @@ import { useEffect, useState } from 'react'
 import { useReadContract, usePublicClient } from 'wagmi'
 import { Activity, Database } from 'lucide-react'
 import MarketCard from './MarketCard'
-import type { Market } from '@/lib/types'
+import { MarketStatus, MarketType, type Market } from '@/lib/types'
+import { fetchMarkets } from '@predex/shared/marketFetcher'
+import { useMarketUpdates } from '@/hooks/useMarketFeed'
+import { useContracts } from '@/hooks/useNetwork'
 import { PredictionMarketABI } from '@/abis'
 
 export default function BlockMarkets() {
   const [markets, setMarkets] = useState<Market[]>([])
   const [isLoading, setIsLoading] = useState(true)
   const publicClient = usePublicClient()
+  const { market: marketContract } = useContracts()
 
   const { data: marketIds } = useReadContract({
-    address: (process.env.NEXT_PUBLIC_MARKET_CONTRACT) as `0x${string}`,
+    address: marketContract,
     abi: PredictionMarketABI,
     functionName: 'getActiveMarkets',
   })
 
   useEffect(() => {
-    const fetchMarkets = async () => {
+    const loadMarkets = async () => {
       console.log('BlockMarkets - marketIds:', marketIds)
       console.log('BlockMarkets - publicClient:', publicClient)
 
@@ -35,57 +39,21 @@ export default function BlockMarkets() {
       }
 
       try {
-        const fetchedMarkets: Market[] = []
-
-        // Fetch each market's details
-        for (const marketId of marketIds) {
-          try {
-            console.log(`BlockMarkets - Fetching market ${marketId}`)
-            const marketData = await publicClient.readContract({
-              address: process.env.NEXT_PUBLIC_MARKET_CONTRACT as `0x${string}`,
-              abi: PredictionMarketABI,
-              functionName: 'markets',
-              args: [marketId],
-            }) as any
-
-            console.log(`BlockMarkets - Market ${marketId} raw data:`, marketData)
-
-            // Markets returns: [marketId, marketType, question, creator, createdAt, resolutionTime, status, winningOption, totalPool, optionPools[2], dataSourceId, threshold, thresholdToken]
-            // Note: optionPools is a single array [YES, NO], not two separate values
-            const [, marketType, question, creator, createdAt, resolutionTime, status, winningOption, totalPool, optionPools, dataSourceId, threshold, thresholdToken] = marketData
-
-            console.log(`BlockMarkets - Market ${marketId} parsed:`, {
-              marketType,
-              status,
-              question
-            })
+        // Load every market in batched multicalls, decoded through the ABI
+        const { markets: fetchedMarkets, failed } = await fetchMarkets(publicClient, marketIds as `0x${string}`[], {
+          address: marketContract,
+          abi: PredictionMarketABI,
+        })
+        failed.forEach((marketId) => console.error(`Failed to fetch market ${marketId}`))
 
-            // Only include BLOCK markets (marketType === 0) that are ACTIVE or RESOLVED
-            if (marketType === 0 && (status === 0 || status === 2)) {
-              fetchedMarkets.push({
-                marketId: marketId as `0x${string}`,
-                marketType,
-                question,
-                creator,
-                createdAt,
-                resolutionTime,
-                status,
-                winningOption,
-                totalPool,
-                optionPools,
-                dataSourceId,
-                threshold,
-                thresholdToken,
-              })
-              console.log(`BlockMarkets - Added BLOCK market ${marketId}`)
-            }
-          } catch (err) {
-            console.error(`Failed to fetch market ${marketId}:`, err)
-          }
-        }
+        // Only include BLOCK markets that are ACTIVE or RESOLVED
+        const blockMarkets = fetchedMarkets.filter((market) =>
+          market.marketType === MarketType.BLOCK &&
+          (market.status === MarketStatus.ACTIVE || market.status === MarketStatus.RESOLVED)
+        )
 
-        console.log('BlockMarkets - Total fetched markets:', fetchedMarkets.length)
-        setMarkets(fetchedMarkets)
+        console.log('BlockMarkets - Total fetched markets:', blockMarkets.length)
+        setMarkets(blockMarkets)
       } catch (error) {
         console.error('Error fetching markets:', error)
       } finally {
@@ -93,8 +61,20 @@ export default function BlockMarkets() {
       }
     }
 
-    fetchMarkets()
-  }, [marketIds, publicClient])
+    loadMarkets()
+  }, [marketIds, publicClient, marketContract])
+
+  // Add markets created after the initial load and drop cancelled ones
+  useMarketUpdates((update) => {
+    if (update.market.marketType !== MarketType.BLOCK) return
+    if (update.type === 'created') {
+      setMarkets((current) =>
+        current.some((market) => market.marketId === update.marketId) ? current : [...current, update.market]
+      )
+    } else if (update.type === 'cancelled') {
+      setMarkets((current) => current.filter((market) => market.marketId !== update.marketId))
+    }
+  })
 
   if (isLoading) {
     return (
@@ -5,22 +5,26 @@ import { useReadContract, usePublicClient } from 'wagmi'
 import { Gamepad2, Database, Swords } from 'lucide-react'
 import Link from 'next/link'
 import MarketCard from './MarketCard'
-import type { Market } from '@/lib/types'
+import { MarketStatus, MarketType, type Market } from '@/lib/types'
+import { fetchMarkets } from '@predex/shared/marketFetcher'
+import { useMarketUpdates } from '@/hooks/useMarketFeed'
+import { useContracts } from '@/hooks/useNetwork'
 import { PredictionMarketABI } from '@/abis'
 
 export default function GameMarkets() {
   const [markets, setMarkets] = useState<Market[]>([])
   const [isLoading, setIsLoading] = useState(true)
   const publicClient = usePublicClient()
+  const { market: marketContract } = useContracts()
 
   const { data: marketIds } = useReadContract({
-    address: (process.env.NEXT_PUBLIC_MARKET_CONTRACT) as `0x${string}`,
+    address: marketContract,
     abi: PredictionMarketABI,
     functionName: 'getActiveMarkets',
   })
 
   useEffect(() => {
-    const fetchMarkets = async () => {
+    const loadMarkets = async () => {
       console.log('GameMarkets - marketIds:', marketIds)
       console.log('GameMarkets - publicClient:', publicClient)
 
@@ -36,57 +40,21 @@ export default function GameMarkets() {
       }
 
       try {
-        const fetchedMarkets: Market[] = []
-
-        // Fetch each market's details
-        for (const marketId of marketIds) {
-          try {
-            console.log(`GameMarkets - Fetching market ${marketId}`)
-            const marketData = await publicClient.readContract({
-              address: process.env.NEXT_PUBLIC_MARKET_CONTRACT as `0x${string}`,
-              abi: PredictionMarketABI,
-              functionName: 'markets',
-              args: [marketId],
-            }) as any
-
-            console.log(`GameMarkets - Market ${marketId} raw data:`, marketData)
-
-            // Markets returns: [marketId, marketType, question, creator, createdAt, resolutionTime, status, winningOption, totalPool, optionPools[2], dataSourceId, threshold, thresholdToken]
-            // Note: optionPools is a single array [YES, NO], not two separate values
-            const [, marketType, question, creator, createdAt, resolutionTime, status, winningOption, totalPool, optionPools, dataSourceId, threshold, thresholdToken] = marketData
-
-            console.log(`GameMarkets - Market ${marketId} parsed:`, {
-              marketType,
-              status,
-              question
-            })
+        // Load every market in batched multicalls, decoded through the ABI
+        const { markets: fetchedMarkets, failed } = await fetchMarkets(publicClient, marketIds as `0x${string}`[], {
+          address: marketContract,
+          abi: PredictionMarketABI,
+        })
+        failed.forEach((marketId) => console.error(`Failed to fetch market ${marketId}`))
 
-            // Only include GAME markets (marketType === 2) that are ACTIVE or RESOLVED
-            if (marketType === 2 && (status === 0 || status === 2)) {
-              fetchedMarkets.push({
-                marketId: marketId as `0x${string}`,
-                marketType,
-                question,
-                creator,
-                createdAt,
-                resolutionTime,
-                status,
-                winningOption,
-                totalPool,
-                optionPools,
-                dataSourceId,
-                threshold,
-                thresholdToken,
-              })
-              console.log(`GameMarkets - Added GAME market ${marketId}`)
-            }
-          } catch (err) {
-            console.error(`Failed to fetch market ${marketId}:`, err)
-          }
-        }
+        // Only include GAME markets that are ACTIVE or RESOLVED
+        const gameMarkets = fetchedMarkets.filter((market) =>
+          market.marketType === MarketType.GAME &&
+          (market.status === MarketStatus.ACTIVE || market.status === MarketStatus.RESOLVED)
+        )
 
-        console.log('GameMarkets - Total fetched markets:', fetchedMarkets.length)
-        setMarkets(fetchedMarkets)
+        console.log('GameMarkets - Total fetched markets:', gameMarkets.length)
+        setMarkets(gameMarkets)
       } catch (error) {
         console.error('Error fetching markets:', error)
       } finally {
@@ -94,8 +62,20 @@ export default function GameMarkets() {
       }
     }
 
-    fetchMarkets()
-  }, [marketIds, publicClient])
+    loadMarkets()
+  }, [marketIds, publicClient, marketContract])
+
+  // Add markets created after the initial load and drop cancelled ones
+  useMarketUpdates((update) => {
+    if (update.market.marketType !== MarketType.GAME) return
+    if (update.type === 'created') {
+      setMarkets((current) =>
+        current.some((market) => market.marketId === update.marketId) ? current : [...current, update.market]
+      )
+    } else if (update.type === 'cancelled') {
+      setMarkets((current) => current.filter((market) => market.marketId !== update.marketId))
+    }
+  })
 
   if (isLoading) {
     return (
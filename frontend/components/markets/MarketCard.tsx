@@ -1,22 +1,30 @@
 'use client'
 
 import { useState, useMemo } from 'react'
-import { Clock, TrendingUp, Trophy } from 'lucide-react'
-import { formatTimeRemaining, formatTokenAmount, formatOdds, formatPercentage, getMarketTypeLabel } from '@/utils/format'
+import { ChevronDown, ChevronUp, Clock, LineChart, TrendingUp, Trophy } from 'lucide-react'
+import { formatTimeRemaining, formatTokenAmount, formatOdds, formatPercentage, getMarketTypeLabel, calculateMarketOdds } from '@/utils/format'
 import type { Market } from '@/lib/types'
 import BetModal from './BetModal'
+import OddsChart from './OddsChart'
 import { useAccount, useWriteContract, useWaitForTransactionReceipt } from 'wagmi'
 import { PredictionMarketABI } from '@/abis'
+import { useContracts } from '@/hooks/useNetwork'
 import { toast } from 'sonner'
+import Link from 'next/link'
+import { useLiveMarket, useNow } from '@/hooks/useMarketFeed'
 
 interface MarketCardProps {
   market: Market
 }
 
-export default function MarketCard({ market }: MarketCardProps) {
+export default function MarketCard({ market: initialMarket }: MarketCardProps) {
   const [isBetModalOpen, setIsBetModalOpen] = useState(false)
-  const [now] = useState(() => Date.now())
+  const [showHistory, setShowHistory] = useState(false)
+  // Pools, odds and status follow pushed updates; the countdown ticks every second
+  const market = useLiveMarket(initialMarket)
+  const now = useNow()
   const { address, isConnected } = useAccount()
+  const { market: marketContract } = useContracts()
   const { writeContract, data: claimHash, isPending: isClaimPending } = useWriteContract()
   const { isSuccess: isClaimSuccess } = useWaitForTransactionReceipt({ hash: claimHash })
 
@@ -37,14 +45,14 @@ export default function MarketCard({ market }: MarketCardProps) {
 
     try {
       console.log('📝 Calling claimWinnings...')
-      console.log('  Contract:', process.env.NEXT_PUBLIC_MARKET_CONTRACT)
+      console.log('  Contract:', marketContract)
       console.log('  Market ID:', market.marketId)
       console.log('  Gas:', BigInt(5000000))
 
       toast.loading('Claiming winnings...', { id: 'claim-tx' })
 
       writeContract({
-        address: process.env.NEXT_PUBLIC_MARKET_CONTRACT as `0x${string}`,
+        address: marketContract,
         abi: PredictionMarketABI,
         functionName: 'claimWinnings',
         args: [market.marketId],
@@ -68,75 +76,10 @@ export default function MarketCard({ market }: MarketCardProps) {
   }
 
   // Calculate odds locally instead of using SDS hook
-  const odds = useMemo(() => {
-    const yesPool = Number(market.optionPools[0])
-    const noPool = Number(market.optionPools[1])
-    const total = yesPool + noPool
-
-    console.log('MarketCard odds calculation:', {
-      marketId: market.marketId,
-      yesPool,
-      noPool,
-      total,
-      optionPools: market.optionPools
-    })
-
-    // No bets yet - show even odds
-    if (total === 0) {
-      return { yes: 2.0, no: 2.0, yesProb: 50, noProb: 50 }
-    }
-
-    // Only one side has bets - show implied odds
-    // If only YES has bets, YES bettors break even (1x), NO would win entire pool
-    // If only NO has bets, NO bettors break even (1x), YES would win entire pool
-    if (yesPool === 0) {
-      return {
-        yes: 2.0, // Small implied odds when no one has bet
-        no: 1.0, // Break even
-        yesProb: 0,
-        noProb: 100
-      }
-    }
-
-    if (noPool === 0) {
-      return {
-        yes: 1.0, // Break even
-        no: 2.0, // Small implied odds when no one has bet
-        yesProb: 100,
-        noProb: 0
-      }
-    }
-
-    // Both sides have bets - calculate parimutuel odds
-    const yesProb = (yesPool / total) * 100
-    const noProb = (noPool / total) * 100
-
-    const calculatedOdds = {
-      yes: total / yesPool,
-      no: total / noPool,
-      yesProb,
-      noProb
-    }
-
-    console.log('MarketCard calculated odds:', calculatedOdds)
-
-    return calculatedOdds
-  }, [market.optionPools, market.marketId])
+  const odds = useMemo(() => calculateMarketOdds(market), [market])
 
   const isActive = market.status === 0 && now < Number(market.resolutionTime) * 1000
   const isResolved = market.status === 2
-  const isExpired = now >= Number(market.resolutionTime) * 1000
-
-  console.log('MarketCard status check:', {
-    marketId: market.marketId,
-    status: market.status,
-    isActive,
-    isResolved,
-    isExpired,
-    resolutionTime: market.resolutionTime,
-    now,
-    timeUntilResolution: Number(market.resolutionTime) * 1000 - now
-  })
 
   return (
     <>
@@ -148,9 +91,11 @@ export default function MarketCard({ market }: MarketCardProps) {
               {isActive && <span className="badge badge-success">Active</span>}
               {isResolved && <span className="badge badge-warning">Resolved</span>}
             </div>
-            <h3 className="text-lg font-semibold mb-2 group-hover:text-primary-400 transition-colors">
-              {market.question}
-            </h3>
+            <Link href={`/markets/${market.marketId}`}>
+              <h3 className="text-lg font-semibold mb-2 group-hover:text-primary-400 transition-colors">
+                {market.question}
+              </h3>
+            </Link>
           </div>
         </div>
 
@@ -186,6 +131,23 @@ export default function MarketCard({ market }: MarketCardProps) {
           </div>
         </div>
 
+        {/* Odds History */}
+        <button
+          onClick={() => setShowHistory(!showHistory)}
+          className="w-full flex items-center justify-between text-sm text-gray-400 hover:text-white transition-colors mb-4"
+        >
+          <span className="flex items-center space-x-2">
+            <LineChart className="w-4 h-4" />
+            <span>Odds history</span>
+          </span>
+          {showHistory ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+        </button>
+        {showHistory && (
+          <div className="mb-4">
+            <OddsChart market={market} height={180} />
+          </div>
+        )}
+
         {/* Action Button */}
         {isActive && (
           <button
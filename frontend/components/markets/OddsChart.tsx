@@ -0,0 +1,121 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Area, AreaChart, CartesianGrid, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts'
+import { LineChart as LineChartIcon } from 'lucide-react'
+import { fetchOddsHistory } from '@/lib/api'
+import { useMarketUpdates } from '@/hooks/useMarketFeed'
+import { formatPercentage, formatTokenAmount } from '@/utils/format'
+import type { Market, OddsPoint } from '@/lib/types'
+
+interface OddsChartProps {
+  market: Market
+  height?: number
+}
+
+function toPoint(timestamp: number, yesPool: bigint, noPool: bigint): OddsPoint {
+  const total = yesPool + noPool
+  return {
+    timestamp,
+    yesPool,
+    noPool,
+    yesProbability: total === BigInt(0) ? 50 : Number((yesPool * BigInt(10000)) / total) / 100,
+  }
+}
+
+function formatTime(timestamp: number): string {
+  return new Date(timestamp * 1000).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })
+}
+
+/**
+ * YES/NO implied probability over time, from the backend odds history
+ * New bets pushed by the live feed are appended without refetching.
+ */
+export default function OddsChart({ market, height = 220 }: OddsChartProps) {
+  const [points, setPoints] = useState<OddsPoint[]>([])
+  const [isComplete, setIsComplete] = useState(true)
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+
+    fetchOddsHistory(market.marketId)
+      .then((history) => {
+        if (cancelled) return
+        setPoints(history.points)
+        setIsComplete(history.complete)
+        setError(null)
+      })
+      .catch((err) => {
+        console.error('Failed to load odds history:', err)
+        if (!cancelled) setError('Odds history unavailable')
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [market.marketId])
+
+  useMarketUpdates((update) => {
+    if (update.type !== 'bet') return
+    const [yesPool, noPool] = update.market.optionPools
+    setPoints((current) => [...current, toPoint(update.timestamp, yesPool, noPool)])
+  }, market.marketId)
+
+  if (isLoading) {
+    return <div className="animate-shimmer rounded-lg" style={{ height }} />
+  }
+
+  if (error || points.length < 2) {
+    return (
+      <div className="flex flex-col items-center justify-center text-gray-500 text-sm" style={{ height }}>
+        <LineChartIcon className="w-8 h-8 mb-2" />
+        {error || 'No bets yet'}
+      </div>
+    )
+  }
+
+  const data = points.map((point) => ({
+    time: point.timestamp,
+    yes: point.yesProbability,
+    no: Math.round((100 - point.yesProbability) * 100) / 100,
+    yesPool: point.yesPool,
+    noPool: point.noPool,
+  }))
+
+  return (
+    <div>
+      <ResponsiveContainer width="100%" height={height}>
+        <AreaChart data={data} margin={{ top: 8, right: 8, bottom: 0, left: -16 }}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+          <XAxis
+            dataKey="time"
+            type="number"
+            domain={['dataMin', 'dataMax']}
+            tickFormatter={formatTime}
+            stroke="#9ca3af"
+            fontSize={11}
+          />
+          <YAxis domain={[0, 100]} tickFormatter={(value) => `${value}%`} stroke="#9ca3af" fontSize={11} />
+          <Tooltip
+            contentStyle={{ backgroundColor: '#1f2937', border: '1px solid #374151', borderRadius: 8 }}
+            labelFormatter={(value) => formatTime(Number(value))}
+            formatter={(value, name, item) => {
+              const pool = name === 'YES' ? item.payload.yesPool : item.payload.noPool
+              return [`${formatPercentage(Number(value))} (${formatTokenAmount(pool)} SOMI)`, name]
+            }}
+          />
+          <Area type="stepAfter" dataKey="yes" name="YES" stroke="#4ade80" fill="#4ade80" fillOpacity={0.15} />
+          <Area type="stepAfter" dataKey="no" name="NO" stroke="#f87171" fill="#f87171" fillOpacity={0.15} />
+        </AreaChart>
+      </ResponsiveContainer>
+      {!isComplete && (
+        <p className="text-xs text-gray-500 mt-2">Some earlier bets are not indexed yet.</p>
+      )}
+    </div>
+  )
+}
@@ -8,7 +8,12 @@ import {
   getSchemaForMarketType,
   getSchemaName,
   ZERO_BYTES32
-} from '@/lib/dataStreams'
+} from '@predex/shared/dataStreams'
+import { BACKEND_URL } from '@/lib/api'
+import { createHttpStreamsClient, createSdkStreamsClient, type StreamsClient } from '@predex/shared/streamsClient'
+
+// sdk talks to Somnia; mock uses the backend's local stand-in (backend DATA_STREAMS_MODE=mock)
+const DATA_STREAMS_MODE = process.env.NEXT_PUBLIC_DATA_STREAMS_MODE === 'mock' ? 'mock' : 'sdk'
 
 /**
  * Hook for managing Somnia Data Streams schemas
@@ -16,13 +21,20 @@ import {
 export function useDataStreams() {
   const publicClient = usePublicClient()
   const { data: walletClient } = useWalletClient()
-  const [sdk, setSDK] = useState<SDK | null>(null)
+  const [streams, setStreams] = useState<StreamsClient | null>(null)
   const [isInitialized, setIsInitialized] = useState(false)
 
-  // Initialize SDK when wallet is connected
+  // Initialize Data Streams when wallet is connected
   useEffect(() => {
     if (walletClient && publicClient) {
       try {
+        if (DATA_STREAMS_MODE === 'mock') {
+          console.log('Using local Data Streams mock:', `${BACKEND_URL}/api/data-streams`)
+          setStreams(createHttpStreamsClient(`${BACKEND_URL}/api/data-streams`, walletClient.account.address))
+          setIsInitialized(true)
+          return
+        }
+
         // WebSocket URL for Data Streams subscriptions
         const wsUrl = 'wss://dream-rpc.somnia.network/ws'
         console.log('Initializing Data Streams SDK with WebSocket:', wsUrl)
@@ -32,7 +44,7 @@ export function useDataStreams() {
           wallet: walletClient as any,
         })
 
-        setSDK(dataStreamsSDK)
+        setStreams(createSdkStreamsClient(dataStreamsSDK))
         setIsInitialized(true)
       } catch (error) {
         console.error('Failed to initialize Data Streams SDK:', error)
@@ -44,14 +56,14 @@ export function useDataStreams() {
    * Compute the schema ID for a given market type
    */
   const computeSchemaId = async (marketType: MarketType): Promise<`0x${string}` | null> => {
-    if (!sdk) {
-      console.error('SDK not initialized')
+    if (!streams) {
+      console.error('Data Streams not initialized')
       return null
     }
 
     try {
       const schema = getSchemaForMarketType(marketType)
-      const schemaId = await sdk.streams.computeSchemaId(schema)
+      const schemaId = await streams.computeSchemaId(schema)
       console.log(`Computed schema ID for ${getSchemaName(marketType)}:`, schemaId)
       return schemaId as `0x${string}`
     } catch (error) {
@@ -64,11 +76,10 @@ export function useDataStreams() {
    * Check if a schema is already registered
    */
   const isSchemaRegistered = async (schemaId: `0x${string}`): Promise<boolean> => {
-    if (!sdk) return false
+    if (!streams) return false
 
     try {
-      const registered = await sdk.streams.isDataSchemaRegistered(schemaId)
-      return registered ?? false
+      return await streams.isDataSchemaRegistered(schemaId)
     } catch (error) {
       console.error('Failed to check schema registration:', error)
       return false
@@ -79,23 +90,18 @@ export function useDataStreams() {
    * Register a schema on-chain
    */
   const registerSchema = async (marketType: MarketType): Promise<`0x${string}` | null> => {
-    if (!sdk) {
-      console.error('SDK not initialized')
+    if (!streams) {
+      console.error('Data Streams not initialized')
       return null
     }
 
     try {
       const schema = getSchemaForMarketType(marketType)
       const schemaName = getSchemaName(marketType)
-      const schemaId = await sdk.streams.computeSchemaId(schema)
-
-      if (!schemaId) {
-        console.error('Failed to compute schema ID')
-        return null
-      }
+      const schemaId = await streams.computeSchemaId(schema)
 
       // Check if already registered
-      const registered = await sdk.streams.isDataSchemaRegistered(schemaId)
+      const registered = await streams.isDataSchemaRegistered(schemaId)
       if (registered) {
         console.log(`Schema ${schemaName} already registered with ID:`, schemaId)
         return schemaId as `0x${string}`
@@ -104,7 +110,7 @@ export function useDataStreams() {
       console.log(`Registering schema ${schemaName}...`)
 
       // Register the schema
-      const txHash = await sdk.streams.registerDataSchemas(
+      const txHash = await streams.registerDataSchemas(
         [
           {
             id: schemaName,
@@ -115,26 +121,16 @@ export function useDataStreams() {
         true // ignoreAlreadyRegistered
       )
 
-      if (!txHash || txHash instanceof Error) {
-        console.error('Failed to get transaction hash for schema registration')
-        return null
-      }
-
       console.log(`Schema registration tx:`, txHash)
 
-      // Wait for confirmation
-      if (publicClient) {
+      // Wait for confirmation (the local mock registers immediately)
+      if (streams.onChain && publicClient) {
         await publicClient.waitForTransactionReceipt({ hash: txHash })
         console.log(`✅ Schema ${schemaName} registered successfully!`)
       }
 
       // Return the computed schema ID
-      const finalSchemaId = await sdk.streams.computeSchemaId(schema)
-      if (!finalSchemaId) {
-        console.error('Failed to get final schema ID after registration')
-        return null
-      }
-      return finalSchemaId as `0x${string}`
+      return await streams.computeSchemaId(schema)
     } catch (error) {
       console.error(`Failed to register schema for ${getSchemaName(marketType)}:`, error)
       return null
@@ -146,8 +142,8 @@ export function useDataStreams() {
    * This ensures the schema is registered before creating a market
    */
   const getOrRegisterSchemaId = async (marketType: MarketType): Promise<`0x${string}` | null> => {
-    if (!sdk) {
-      console.error('SDK not initialized')
+    if (!streams) {
+      console.error('Data Streams not initialized')
       return null
     }
 
@@ -173,7 +169,7 @@ export function useDataStreams() {
   }
 
   return {
-    sdk,
+    streams,
     isInitialized,
     computeSchemaId,
     isSchemaRegistered,
@@ -0,0 +1,57 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import { subscribeToMarketFeed, type MarketUpdate } from '@/lib/marketFeed'
+import { MarketStatus, type Market } from '@/lib/types'
+
+/**
+ * Call `onUpdate` for every live market update pushed by the backend
+ * Pass a marketId to only receive updates for that market.
+ */
+export function useMarketUpdates(onUpdate: (update: MarketUpdate) => void, marketId?: string) {
+  // Keep the latest callback without resubscribing on every render
+  const callback = useRef(onUpdate)
+  useEffect(() => {
+    callback.current = onUpdate
+  })
+
+  useEffect(() => {
+    return subscribeToMarketFeed((update) => {
+      if (marketId && update.marketId.toLowerCase() !== marketId.toLowerCase()) return
+      callback.current(update)
+    })
+  }, [marketId])
+}
+
+/**
+ * A market kept up to date with pushed pools, odds and status
+ * Falls back to the given market until the first update arrives.
+ */
+export function useLiveMarket(market: Market): Market {
+  const [live, setLive] = useState<{ source: Market; market: Market } | null>(null)
+
+  useMarketUpdates((update) => {
+    // Betting is closed once resolutionTime passes, even before resolution
+    const status = update.type === 'locked' && update.market.status === MarketStatus.ACTIVE
+      ? MarketStatus.LOCKED
+      : update.market.status
+    setLive({ source: market, market: { ...update.market, status } })
+  }, market.marketId)
+
+  // A newer market prop (e.g. after a reload) replaces stale pushed state
+  return live && live.source === market ? live.market : market
+}
+
+/**
+ * Current time in milliseconds, re-rendering every `intervalMs`
+ */
+export function useNow(intervalMs: number = 1000): number {
+  const [now, setNow] = useState(() => Date.now())
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), intervalMs)
+    return () => clearInterval(timer)
+  }, [intervalMs])
+
+  return now
+}
@@ -0,0 +1,31 @@
+'use client'
+
+import { useChainId } from 'wagmi'
+import { getAppNetwork } from '@/lib/chains'
+import type { NetworkConfig } from '@predex/shared/networks'
+
+export interface Contracts {
+  market: `0x${string}`
+  somiToken: `0x${string}`
+  game: `0x${string}`
+}
+
+/**
+ * The network the app is on: the connected wallet's chain, or the one picked
+ * in the network switcher while disconnected
+ */
+export function useAppNetwork(): NetworkConfig {
+  return getAppNetwork(useChainId())
+}
+
+/**
+ * Contract addresses on the current network
+ */
+export function useContracts(): Contracts {
+  const { contracts } = useAppNetwork()
+  return {
+    market: contracts.market as `0x${string}`,
+    somiToken: contracts.somiToken as `0x${string}`,
+    game: contracts.game as `0x${string}`,
+  }
+}
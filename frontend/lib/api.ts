@@ -0,0 +1,163 @@
+// Client for the backend read API
+import type { Address, Hex } from "viem";
+import type { Bet, Market, OddsPoint } from "./types";
+
+export const BACKEND_URL = process.env.NEXT_PUBLIC_BACKEND_URL || "http://localhost:3001";
+
+// Market as serialized by the backend API: amounts are decimal strings
+export interface SerializedMarket {
+  marketId: Hex;
+  marketType: number;
+  question: string;
+  creator: Hex;
+  createdAt: number;
+  resolutionTime: number;
+  status: number;
+  winningOption: number | null;
+  totalPool: string;
+  pools: { yes: string; no: string };
+  odds: { yes: string; no: string }; // Basis points
+  dataSourceId: Hex;
+  threshold: string;
+  thresholdToken: Hex;
+  comparator: number;
+  metric: number;
+  aggregation: number;
+}
+
+export interface SerializedBet {
+  bettor: Hex;
+  option: number;
+  amount: string;
+  timestamp: number;
+  claimed: boolean;
+}
+
+export function parseMarket(raw: SerializedMarket): Market {
+  return {
+    marketId: raw.marketId,
+    marketType: raw.marketType,
+    question: raw.question,
+    creator: raw.creator,
+    createdAt: BigInt(raw.createdAt),
+    resolutionTime: BigInt(raw.resolutionTime),
+    status: raw.status,
+    winningOption: raw.winningOption ?? 0,
+    totalPool: BigInt(raw.totalPool),
+    optionPools: [BigInt(raw.pools.yes), BigInt(raw.pools.no)],
+    dataSourceId: raw.dataSourceId,
+    threshold: BigInt(raw.threshold),
+    thresholdToken: raw.thresholdToken,
+    comparator: raw.comparator,
+    metric: raw.metric,
+    aggregation: raw.aggregation,
+  };
+}
+
+export function parseBet(raw: SerializedBet): Omit<Bet, "marketId"> {
+  return {
+    bettor: raw.bettor,
+    option: raw.option,
+    amount: BigInt(raw.amount),
+    timestamp: BigInt(raw.timestamp),
+    claimed: raw.claimed,
+  };
+}
+
+async function getJson<T>(path: string): Promise<T> {
+  const response = await fetch(`${BACKEND_URL}/api${path}`);
+  if (!response.ok) {
+    throw new Error(`GET ${path} failed with ${response.status}`);
+  }
+  return response.json() as Promise<T>;
+}
+
+/**
+ * Pool sizes and implied probability after every bet on a market
+ * `complete` is false while the backend has not indexed every bet yet.
+ */
+export async function fetchOddsHistory(marketId: Hex): Promise<{ complete: boolean; points: OddsPoint[] }> {
+  const raw = await getJson<{
+    complete: boolean;
+    points: { timestamp: number; pools: { yes: string; no: string }; yesProbability: number }[];
+  }>(`/markets/${marketId}/odds`);
+
+  return {
+    complete: raw.complete,
+    points: raw.points.map((point) => ({
+      timestamp: point.timestamp,
+      yesPool: BigInt(point.pools.yes),
+      noPool: BigInt(point.pools.no),
+      yesProbability: point.yesProbability,
+    })),
+  };
+}
+
+// How a settled market was decided, from /markets/:id/resolution
+export interface MarketResolution {
+  status: number;
+  winningOption: number | null;
+  // MarketResolved or MarketCancelled event; null until the backend has indexed it
+  settlement: { event: string; txHash: Hex; blockNumber: number; timestamp: number } | null;
+  resolver: {
+    resolutionAttempt: { winningOption: number; status: string; txHash: Hex | null; error: string | null } | null;
+  };
+  decidingObservations: {
+    source: "block" | "transfer" | "game" | "stream";
+    observation: Record<string, string>; // Metric name to decimal value
+    observedAt: number;
+    blockNumber: number | null;
+    txHash: Hex | null;
+  }[];
+}
+
+export async function fetchMarketResolution(marketId: Hex): Promise<MarketResolution> {
+  return getJson<MarketResolution>(`/markets/${marketId}/resolution`);
+}
+
+// Latest setResolver call per address, from /resolvers
+export interface ResolverUpdate {
+  address: Address;
+  authorized: boolean;
+  txHash: Hex;
+  blockNumber: number;
+  timestamp: number;
+}
+
+export async function fetchResolverUpdates(): Promise<ResolverUpdate[]> {
+  const { resolvers } = await getJson<{ resolvers: ResolverUpdate[] }>("/resolvers");
+  return resolvers;
+}
+
+// A market the user has bet on, from /users/:address/bets
+export interface UserPosition {
+  market: Market;
+  bets: Omit<Bet, "marketId">[]; // Oldest first
+  claimable: { kind: "winnings" | "refund" | null; amount: bigint };
+}
+
+/**
+ * Every market an address has bet on, with its bets and what it can still claim
+ * Positions come newest market first; platformFee is in basis points.
+ */
+export async function fetchUserPositions(address: Address): Promise<{ positions: UserPosition[]; platformFee: bigint }> {
+  const raw = await getJson<{
+    platformFee: string;
+    markets: {
+      market: SerializedMarket;
+      bets: SerializedBet[];
+      claimable: { kind: "winnings" | "refund" | null; amount: string };
+    }[];
+  }>(`/users/${address}/bets`);
+
+  const positions = raw.markets.map((entry) => ({
+    market: parseMarket(entry.market),
+    bets: entry.bets.map(parseBet),
+    claimable: { kind: entry.claimable.kind, amount: BigInt(entry.claimable.amount) },
+  }));
+
+  return {
+    positions: positions.sort((a, b) => Number(b.market.createdAt - a.market.createdAt)),
+    platformFee: BigInt(raw.platformFee),
+  };
+}
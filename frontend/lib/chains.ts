@@ -1,27 +1,64 @@
-import { defineChain } from "viem";
-
-export const somniaTestnet = defineChain({
-  id: 50312,
-  name: "Somnia Testnet",
-  network: "somnia-testnet",
-  nativeCurrency: {
-    decimals: 18,
-    name: "Somnia Token",
-    symbol: "SOMI",
-  },
-  rpcUrls: {
-    default: {
-      http: ["https://dream-rpc.somnia.network"],
-    },
-    public: {
-      http: ["https://dream-rpc.somnia.network"],
-    },
-  },
-  blockExplorers: {
-    default: {
-      name: "Somnia Explorer",
-      url: "https://explorer.somnia.network",
-    },
-  },
-  testnet: true,
-});
+// Networks the app can switch between, with contract addresses resolved per network
+import {
+  DEFAULT_NETWORK,
+  NETWORKS,
+  NETWORK_NAMES,
+  getNetworkByChainId,
+  isNetworkName,
+  mergeContracts,
+  parseDeployment,
+  type NetworkConfig,
+  type NetworkContracts,
+  type NetworkName,
+} from "@predex/shared/networks";
+
+// <deployment>-latest.json files keyed by hardhat network name, injected by next.config.ts
+const DEPLOYMENTS: Record<string, unknown> = JSON.parse(process.env.NEXT_PUBLIC_DEPLOYMENTS || "{}");
+
+const configuredDefault = process.env.NEXT_PUBLIC_DEFAULT_NETWORK || "";
+
+/**
+ * Network selected before a wallet connects; the NEXT_PUBLIC_*_CONTRACT
+ * address overrides apply to this network only
+ */
+export const DEFAULT_APP_NETWORK: NetworkName = isNetworkName(configuredDefault) ? configuredDefault : DEFAULT_NETWORK;
+
+function resolveContracts(config: NetworkConfig): NetworkContracts {
+  const deployment = DEPLOYMENTS[config.deployment];
+  const overrides: NetworkContracts = config.name === DEFAULT_APP_NETWORK
+    ? {
+        market: process.env.NEXT_PUBLIC_MARKET_CONTRACT as `0x${string}` | undefined,
+        somiToken: process.env.NEXT_PUBLIC_SOMI_TOKEN as `0x${string}` | undefined,
+        game: process.env.NEXT_PUBLIC_GAME_CONTRACT as `0x${string}` | undefined,
+      }
+    : {};
+
+  return mergeContracts(config.contracts, deployment ? parseDeployment(deployment) : {}, overrides);
+}
+
+function isEnabled(network: NetworkConfig): boolean {
+  if (network.name === DEFAULT_APP_NETWORK) return true;
+  const listed = process.env.NEXT_PUBLIC_NETWORKS;
+  if (listed) {
+    return listed.split(",").map((name) => name.trim()).includes(network.name);
+  }
+  return Boolean(network.contracts.market);
+}
+
+/**
+ * Networks offered in the wallet modal and the network switcher, default first
+ * NEXT_PUBLIC_NETWORKS (e.g. "local,testnet") picks them explicitly; otherwise every
+ * network with a known PredictionMarket address is offered. The default is always included.
+ */
+export const APP_NETWORKS: NetworkConfig[] = NETWORK_NAMES
+  .map((name) => ({ ...NETWORKS[name], contracts: resolveContracts(NETWORKS[name]) }))
+  .filter(isEnabled)
+  .sort((a, b) => Number(b.name === DEFAULT_APP_NETWORK) - Number(a.name === DEFAULT_APP_NETWORK));
+
+/**
+ * App network for a chain id, falling back to the default network for chains the app does not offer
+ */
+export function getAppNetwork(chainId?: number): NetworkConfig {
+  const known = chainId === undefined ? undefined : getNetworkByChainId(chainId);
+  return APP_NETWORKS.find((network) => network.name === known?.name) ?? APP_NETWORKS[0];
+}
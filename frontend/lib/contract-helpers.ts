@@ -1,20 +1,21 @@
 // Helper functions for interacting with deployed contracts
 import { createPublicClient, createWalletClient, http, type Address, type Hex } from "viem";
-import { somniaTestnet } from "./chains";
+import { getAppNetwork } from "./chains";
 import { ABIS } from "@/abis";
 
 /**
- * Get contract address for a given contract name
+ * Get contract address for a given contract name on a chain (the default network if omitted)
  */
-export function getContractAddress(contractName: keyof typeof ABIS): Address {
-  const envMap: Record<string, string> = {
-    PredictionMarket: process.env.NEXT_PUBLIC_MARKET_CONTRACT || '',
-    BossBattleGame: process.env.NEXT_PUBLIC_GAME_CONTRACT || '',
+export function getContractAddress(contractName: keyof typeof ABIS, chainId?: number): Address {
+  const network = getAppNetwork(chainId);
+  const addressMap: Record<string, string | undefined> = {
+    PredictionMarket: network.contracts.market,
+    BossBattleGame: network.contracts.game,
   };
   
-  const address = envMap[contractName];
+  const address = addressMap[contractName];
   if (!address) {
-    throw new Error(`Contract address not found for ${contractName}. Please set the appropriate environment variable.`);
+    throw new Error(`Contract address not found for ${contractName} on ${network.label}. Deploy it or set the appropriate environment variable.`);
   }
   return address as Address;
 }
@@ -31,7 +32,7 @@ export function getContractABI(contractName: keyof typeof ABIS) {
  * Example usage:
  * 
  * const publicClient = createPublicClient({
- *   chain: somniaTestnet,
+ *   chain: getAppNetwork().chain,
  *   transport: http(rpcUrl),
  * });
  * 
@@ -0,0 +1,58 @@
+// Client for the backend's live market feed (Server-Sent Events at /api/stream)
+import type { Hex } from "viem";
+import type { Bet, Market } from "./types";
+import { BACKEND_URL, parseBet, parseMarket } from "./api";
+
+export type MarketUpdateType = "created" | "bet" | "locked" | "resolved" | "cancelled";
+
+export interface MarketUpdate {
+  type: MarketUpdateType;
+  marketId: Hex;
+  market: Market; // Market state after the event
+  bet?: Omit<Bet, "marketId">; // Set for 'bet' updates
+  timestamp: number; // Block timestamp of the event, or lock time for 'locked'
+}
+
+type MarketUpdateListener = (update: MarketUpdate) => void;
+
+const UPDATE_TYPES: MarketUpdateType[] = ["created", "bet", "locked", "resolved", "cancelled"];
+
+// One EventSource per tab, shared by every subscriber
+const listeners = new Set<MarketUpdateListener>();
+let source: EventSource | null = null;
+
+function connect() {
+  source = new EventSource(`${BACKEND_URL}/api/stream`);
+
+  for (const type of UPDATE_TYPES) {
+    source.addEventListener(type, (message) => {
+      const raw = JSON.parse((message as MessageEvent<string>).data);
+      const update: MarketUpdate = {
+        type: raw.type,
+        marketId: raw.marketId,
+        market: parseMarket(raw.market),
+        bet: raw.bet ? parseBet(raw.bet) : undefined,
+        timestamp: raw.timestamp,
+      };
+      listeners.forEach((listener) => listener(update));
+    });
+  }
+  // EventSource reconnects by itself after errors
+}
+
+/**
+ * Subscribe to live market updates
+ * Opens the stream on the first subscriber and closes it after the last one leaves.
+ */
+export function subscribeToMarketFeed(listener: MarketUpdateListener): () => void {
+  listeners.add(listener);
+  if (!source && typeof EventSource !== "undefined") connect();
+
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0 && source) {
+      source.close();
+      source = null;
+    }
+  };
+}
@@ -4,10 +4,14 @@ import { createAppKit } from '@reown/appkit/react'
 import { WagmiAdapter } from '@reown/appkit-adapter-wagmi'
 import { WagmiProvider } from 'wagmi'
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query'
-import { somniaTestnet } from '@/lib/chains'
+import type { AppKitNetwork } from '@reown/appkit/networks'
+import { APP_NETWORKS } from '@/lib/chains'
 
 const queryClient = new QueryClient()
 
+// Default network first; AppKit starts on it until the wallet picks another
+const networks = APP_NETWORKS.map((network) => network.chain) as [AppKitNetwork, ...AppKitNetwork[]]
+
 const projectId = process.env.NEXT_PUBLIC_WALLETCONNECT_PROJECT_ID || 'YOUR_PROJECT_ID'
 
 const metadata = {
@@ -18,14 +22,15 @@ const metadata = {
 }
 
 const wagmiAdapter = new WagmiAdapter({
-  networks: [somniaTestnet as any],
+  networks,
   projectId,
   ssr: true,
 })
 
 createAppKit({
   adapters: [wagmiAdapter],
-  networks: [somniaTestnet as any],
+  networks,
+  defaultNetwork: networks[0],
   projectId,
   metadata,
   features: {
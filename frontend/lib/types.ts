@@ -1,42 +1,9 @@
 import type { Hex } from "viem";
+import type { Aggregation, Comparator, MarketType, Metric } from "@predex/shared/types";
 
-export enum MarketType {
-  BLOCK = 0,
-  TRANSFER = 1,
-  GAME = 2,
-}
-
-export enum MarketStatus {
-  ACTIVE = 0,
-  LOCKED = 1,
-  RESOLVED = 2,
-  CANCELLED = 3,
-}
-
-export interface Market {
-  marketId: Hex;
-  marketType: MarketType;
-  question: string;
-  creator: Hex;
-  createdAt: bigint;
-  resolutionTime: bigint;
-  status: MarketStatus;
-  winningOption: number;
-  totalPool: bigint;
-  optionPools: [bigint, bigint];
-  dataSourceId: Hex;
-  threshold: bigint;
-  thresholdToken: Hex;
-}
-
-export interface Bet {
-  bettor: Hex;
-  marketId: Hex;
-  option: number; // 0 = YES, 1 = NO
-  amount: bigint;
-  timestamp: bigint;
-  claimed: boolean;
-}
+// Contract enums and structs, shared with the backend
+export { Aggregation, Comparator, MarketStatus, MarketType, Metric } from "@predex/shared/types";
+export type { Bet, Market } from "@predex/shared/types";
 
 export interface Odds {
   yes: number;
@@ -45,6 +12,14 @@ export interface Odds {
   noProb: number;
 }
 
+// Pools after one bet, as served by the backend odds history
+export interface OddsPoint {
+  timestamp: number; // Unix seconds
+  yesPool: bigint;
+  noPool: bigint;
+  yesProbability: number; // 0-100
+}
+
 export interface GameSession {
   sessionId: Hex;
   player: Hex;
@@ -82,6 +57,9 @@ export interface MarketFormData {
   question: string;
   duration: number; // in seconds
   threshold?: number; // for block/transfer markets
+  comparator: Comparator;
+  metric: Metric;
+  aggregation: Aggregation;
 }
 
 export interface BetFormData {
@@ -1,7 +1,33 @@
 import type { NextConfig } from "next";
+import fs from "fs";
+import path from "path";
+
+// Deployment JSON files written by smart-contracts/scripts/deploy.ts, keyed by
+// hardhat network name and exposed to lib/chains.ts as NEXT_PUBLIC_DEPLOYMENTS
+const DEPLOYMENTS_DIR = process.env.DEPLOYMENTS_DIR || path.join(process.cwd(), "..", "smart-contracts", "deployments");
+
+function loadDeployments(): Record<string, unknown> {
+  if (!fs.existsSync(DEPLOYMENTS_DIR)) return {};
+
+  const deployments: Record<string, unknown> = {};
+  for (const file of fs.readdirSync(DEPLOYMENTS_DIR)) {
+    const match = file.match(/^(.+)-latest\.json$/);
+    if (!match) continue;
+    try {
+      deployments[match[1]] = JSON.parse(fs.readFileSync(path.join(DEPLOYMENTS_DIR, file), "utf8"));
+    } catch (error) {
+      console.warn(`Ignoring unreadable deployment file ${file}:`, error);
+    }
+  }
+  return deployments;
+}
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // Workspace package (../shared) consumed as TypeScript source
+  transpilePackages: ["@predex/shared"],
+  env: {
+    NEXT_PUBLIC_DEPLOYMENTS: JSON.stringify(loadDeployments()),
+  },
 };
 
 export default nextConfig;
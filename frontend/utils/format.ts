@@ -1,4 +1,6 @@
 import { type Hex } from 'viem';
+import { BASIS_POINTS, calculateOdds } from '@predex/shared/payouts';
+import type { Market, Odds } from '@/lib/types';
 
 /**
  * Format wallet address  
@@ -56,6 +58,8 @@ export const parseTokenAmount = (amount: string, decimals: number = 18): bigint
  * Format odds multiplier  
  */
 export const formatOdds = (odds: number): string => {
+  // A side nobody has bet on has no payout yet
+  if (odds === 0) return '—';
   return `${odds.toFixed(2)}x`;
 };
 
@@ -97,17 +101,6 @@ export const isMarketResolved = (status: number): boolean => {
   return status === 2;
 };
 
-/**
- * Calculate potential winnings  
- */
-export const calculatePotentialWinnings = (
-  betAmount: bigint,
-  odds: number
-): bigint => {
-  const winnings = Number(betAmount) * odds;
-  return BigInt(Math.floor(winnings));
-};
-
 /**
  * Get market type label  
  */
@@ -137,4 +130,55 @@ export const formatRelativeTime = (timestamp: bigint): string => {
   if (seconds < 86400) return `${Math.floor(seconds / 3600)}h ago`;
   
   return `${Math.floor(seconds / 86400)}d ago`;
-};
\ No newline at end of file
+};
+
+/**
+ * Get comparator symbol  
+ */
+export const getComparatorSymbol = (comparator: number): string => {
+  const symbols = ['>', '≥', '<', '≤', '='];
+  return symbols[comparator] || '?';
+};
+
+/**
+ * Get metric label  
+ */
+export const getMetricLabel = (metric: number): string => {
+  const labels = ['Transaction count', 'Transfer amount (SOMI)', 'Time taken (seconds)', 'Total damage'];
+  return labels[metric] || 'Unknown';
+};
+
+/**
+ * Get aggregation label  
+ */
+export const getAggregationLabel = (aggregation: number): string => {
+  const labels = ['First event after lock', 'Any event in window', 'Max in window', 'Min in window', 'Sum over window', 'Event count in window'];
+  return labels[aggregation] || 'Unknown';
+};
+
+/**
+ * Convert a basis-point multiplier from the contract (20000 = 2.0x)
+ */
+export const bpsToMultiplier = (bps: bigint): number => {
+  return Number(bps) / Number(BASIS_POINTS);
+};
+
+/**
+ * Odds shown for a market, from the same bigint math as PredictionMarket.getOdds
+ * With no bets both sides show 2.0x; an empty side reads 0, like the contract.
+ */
+export const calculateMarketOdds = (market: Pick<Market, 'totalPool' | 'optionPools'>): Odds => {
+  const { yes, no } = calculateOdds(market);
+  // Each side's share of the pool in basis points, split evenly while the market is empty
+  const yesShare = market.totalPool === BigInt(0)
+    ? BASIS_POINTS / BigInt(2)
+    : (market.optionPools[0] * BASIS_POINTS) / market.totalPool;
+  const yesProb = bpsToMultiplier(yesShare) * 100;
+
+  return {
+    yes: bpsToMultiplier(yes),
+    no: bpsToMultiplier(no),
+    yesProb,
+    noProb: 100 - yesProb,
+  };
+};
@@ -5,6 +5,8 @@
  * for different market types (BLOCK, TRANSFER, GAME)
  */
 
+import { MarketType } from './types'
+
 export const ZERO_BYTES32 = '0x0000000000000000000000000000000000000000000000000000000000000000' as `0x${string}`
 
 // Schema for BLOCK markets
@@ -19,14 +21,11 @@ export const TRANSFER_MARKET_SCHEMA = 'address from, address to, uint256 value,
 // Tracks game session data: player, sessionId, timeTaken, totalDamage, timestamp
 export const GAME_MARKET_SCHEMA = 'address player, bytes32 sessionId, uint256 timeTaken, uint256 totalDamage, uint256 timestamp, bytes32 marketId'
 
-/**
- * Market type enum matching the contract
- */
-export enum MarketType {
-  BLOCK = 0,
-  TRANSFER = 1,
-  GAME = 2,
-}
+// Schema for resolution evidence, published by the resolver under the market id once a resolution confirms
+// Tracks the criteria, the compared value, the first source event and a hash of the full evidence record
+export const RESOLUTION_EVIDENCE_SCHEMA = 'bytes32 marketId, uint8 winningOption, uint8 comparator, uint8 metric, uint8 aggregation, uint256 threshold, uint256 observedValue, bytes32 sourceTxHash, uint32 sourceLogIndex, uint64 sourceBlockNumber, uint32 sourceCount, bytes32 evidenceHash, bytes32 resolutionTxHash, uint256 timestamp'
+
+export { MarketType }
 
 /**
  * Get the schema string for a given market type
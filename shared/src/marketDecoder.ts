@@ -0,0 +1,140 @@
+/**
+ * Typed Market Decoding for PredEx
+ *
+ * Maps the getMarket tuple onto the Market interface by the ABI's component
+ * names and validates every field at runtime. If a contract upgrade changes
+ * the Market struct, decoding throws a MarketSchemaError instead of silently
+ * reading the wrong fields.
+ */
+
+import type { Abi } from 'viem'
+import type { Market } from './types'
+
+// Every Market struct field with its ABI type, in declaration order
+export const MARKET_FIELDS: readonly (readonly [keyof Market, string])[] = [
+  ['marketId', 'bytes32'],
+  ['marketType', 'uint8'],
+  ['question', 'string'],
+  ['creator', 'address'],
+  ['createdAt', 'uint256'],
+  ['resolutionTime', 'uint256'],
+  ['status', 'uint8'],
+  ['winningOption', 'uint8'],
+  ['totalPool', 'uint256'],
+  ['optionPools', 'uint256[2]'],
+  ['dataSourceId', 'bytes32'],
+  ['threshold', 'uint256'],
+  ['thresholdToken', 'address'],
+  ['comparator', 'uint8'],
+  ['metric', 'uint8'],
+  ['aggregation', 'uint8'],
+]
+
+// Highest valid value of each enum field; a larger value means the contract added a member
+const ENUM_MAX: Partial<Record<keyof Market, number>> = {
+  marketType: 2,
+  status: 3,
+  comparator: 4,
+  metric: 3,
+  aggregation: 5,
+}
+
+/**
+ * Thrown when the contract's Market struct no longer matches the Market interface
+ */
+export class MarketSchemaError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'MarketSchemaError'
+  }
+}
+
+interface AbiComponent {
+  name: string
+  type: string
+}
+
+// ABIs whose getMarket output has already been checked
+const checkedAbis = new WeakSet<object>()
+
+/**
+ * Check that the ABI's getMarket output has exactly the expected fields
+ * Returns the tuple components in declaration order.
+ */
+export function assertMarketAbi(abi: Abi | readonly unknown[]): AbiComponent[] {
+  type AbiItem = { type?: string; name?: string; outputs?: { type: string; components?: unknown }[] }
+  const fn = (abi as readonly AbiItem[]).find(item => item.type === 'function' && item.name === 'getMarket')
+  const output = fn?.outputs?.[0]
+  if (!output || output.type !== 'tuple' || !Array.isArray(output.components)) {
+    throw new MarketSchemaError('ABI has no getMarket function returning the Market tuple')
+  }
+
+  const components = output.components as AbiComponent[]
+  if (checkedAbis.has(abi)) return components
+
+  const expected = MARKET_FIELDS.map(([name, type]) => `${name}:${type}`).join(', ')
+  const actual = components.map(c => `${c.name}:${c.type}`).join(', ')
+  if (expected !== actual) {
+    throw new MarketSchemaError(`Market struct changed.\n  Expected: ${expected}\n  Actual:   ${actual}`)
+  }
+
+  checkedAbis.add(abi)
+  return components
+}
+
+function isHex(value: unknown, bytes: number): boolean {
+  return typeof value === 'string' && new RegExp(`^0x[0-9a-fA-F]{${bytes * 2}}$`).test(value)
+}
+
+function isValid(value: unknown, type: string): boolean {
+  switch (type) {
+    case 'bytes32':
+      return isHex(value, 32)
+    case 'address':
+      return isHex(value, 20)
+    case 'string':
+      return typeof value === 'string'
+    case 'uint8':
+      return typeof value === 'number' && Number.isInteger(value) && value >= 0 && value <= 255
+    case 'uint256':
+      return typeof value === 'bigint' && value >= BigInt(0)
+    case 'uint256[2]':
+      return Array.isArray(value) && value.length === 2 && value.every(v => isValid(v, 'uint256'))
+    default:
+      return false
+  }
+}
+
+/**
+ * Decode a getMarket result into a Market
+ * Accepts the named object viem returns as well as a positional tuple, which is
+ * mapped by the ABI's component names. Throws MarketSchemaError on any field
+ * that is missing, has the wrong type or holds an unknown enum value.
+ */
+export function decodeMarket(abi: Abi | readonly unknown[], raw: unknown): Market {
+  const components = assertMarketAbi(abi)
+
+  if (raw === null || typeof raw !== 'object') {
+    throw new MarketSchemaError(`Expected a Market tuple, got ${typeof raw}`)
+  }
+
+  const values: Record<string, unknown> = {}
+  components.forEach((component, i) => {
+    values[component.name] = Array.isArray(raw) ? raw[i] : (raw as Record<string, unknown>)[component.name]
+  })
+
+  for (const [name, type] of MARKET_FIELDS) {
+    const value = values[name]
+    if (!isValid(value, type)) {
+      throw new MarketSchemaError(`Market field ${name} is not a valid ${type}: ${String(value)}`)
+    }
+
+    const max = ENUM_MAX[name]
+    if (max !== undefined && (value as number) > max) {
+      throw new MarketSchemaError(`Market field ${name} has unknown enum value ${value}`)
+    }
+  }
+
+  const optionPools = values.optionPools as readonly bigint[]
+  return { ...values, optionPools: [optionPools[0], optionPools[1]] } as Market
+}
@@ -0,0 +1,106 @@
+/**
+ * Batched Market Loading for PredEx
+ *
+ * Reads many markets through Multicall3 instead of one readContract round-trip
+ * per market. Calls are split into chunks so a single eth_call stays within RPC
+ * limits, and every result is decoded through the contract ABI by
+ * decodeMarket, so nothing depends on positional indices.
+ */
+
+import type { Abi, PublicClient } from 'viem'
+import type { Market } from './types'
+import { decodeMarket } from './marketDecoder'
+
+// Calls per multicall request
+export const DEFAULT_MARKET_CHUNK_SIZE = 100
+
+export interface FetchMarketsOptions {
+  address: `0x${string}`
+  abi: Abi | readonly unknown[]
+  chunkSize?: number
+}
+
+export interface FetchMarketsResult {
+  markets: Market[] // In the order of the requested ids
+  failed: `0x${string}`[] // Ids whose call reverted or that do not exist
+}
+
+export interface ContractRead {
+  address: `0x${string}`
+  abi: Abi | readonly unknown[]
+  functionName: string
+  args?: readonly unknown[]
+}
+
+export type ReadResult =
+  | { status: 'success'; result: unknown }
+  | { status: 'failure'; error: unknown }
+
+/**
+ * Run read calls in chunks, through Multicall3 when the chain has one
+ * Chains without a Multicall3 deployment (e.g. a fresh local node) fall back
+ * to parallel readContract calls per chunk. Results keep the order of `reads`.
+ */
+export async function batchReadContracts(
+  client: PublicClient,
+  reads: readonly ContractRead[],
+  chunkSize: number = DEFAULT_MARKET_CHUNK_SIZE
+): Promise<ReadResult[]> {
+  const size = chunkSize > 0 ? chunkSize : DEFAULT_MARKET_CHUNK_SIZE
+  const hasMulticall = Boolean(client.chain?.contracts?.multicall3)
+  const results: ReadResult[] = []
+
+  for (let start = 0; start < reads.length; start += size) {
+    const contracts = reads.slice(start, start + size).map(read => ({ ...read, abi: read.abi as Abi }))
+
+    const chunkResults: ReadResult[] = hasMulticall
+      ? await client.multicall({ contracts, allowFailure: true })
+      : await Promise.all(contracts.map(contract =>
+          client.readContract(contract)
+            .then(result => ({ status: 'success' as const, result }))
+            .catch(error => ({ status: 'failure' as const, error }))
+        ))
+
+    results.push(...chunkResults)
+  }
+
+  return results
+}
+
+/**
+ * Load markets by id with chunked multicall batching
+ * A result that does not match the Market schema throws a MarketSchemaError
+ * rather than being skipped.
+ */
+export async function fetchMarkets(
+  client: PublicClient,
+  marketIds: readonly `0x${string}`[],
+  options: FetchMarketsOptions
+): Promise<FetchMarketsResult> {
+  const { address, abi } = options
+  const results = await batchReadContracts(
+    client,
+    marketIds.map(marketId => ({ address, abi, functionName: 'getMarket', args: [marketId] })),
+    options.chunkSize
+  )
+
+  const markets: Market[] = []
+  const failed: `0x${string}`[] = []
+
+  results.forEach((entry, i) => {
+    if (entry.status !== 'success' || !entry.result) {
+      failed.push(marketIds[i])
+      return
+    }
+
+    const market = decodeMarket(abi, entry.result)
+    // Unknown ids decode to an empty struct instead of reverting
+    if (market.marketId.toLowerCase() !== marketIds[i].toLowerCase()) {
+      failed.push(marketIds[i])
+      return
+    }
+    markets.push(market)
+  })
+
+  return { markets, failed }
+}
@@ -0,0 +1,189 @@
+/**
+ * Network Registry for PredEx
+ *
+ * Chains and known contract addresses for every network the app can run
+ * against. Addresses from a deployment JSON written by
+ * smart-contracts/scripts/deploy.ts are layered on top with parseDeployment
+ * and mergeContracts.
+ */
+
+import { defineChain, type Chain } from 'viem'
+
+export type NetworkName = 'local' | 'testnet' | 'mainnet'
+
+export const NETWORK_NAMES: readonly NetworkName[] = ['local', 'testnet', 'mainnet']
+
+export const DEFAULT_NETWORK: NetworkName = 'testnet'
+
+export interface NetworkContracts {
+  market?: `0x${string}`
+  somiToken?: `0x${string}`
+  game?: `0x${string}`
+  startBlock?: bigint // Earliest deployment block, where event indexing can begin
+}
+
+export interface NetworkConfig {
+  name: NetworkName
+  label: string
+  chain: Chain
+  deployment: string // Hardhat network name; the deploy script writes <deployment>-latest.json
+  contracts: NetworkContracts
+}
+
+// Local anvil / hardhat node; no Multicall3, so batched reads fall back to parallel calls
+export const localDevnet = defineChain({
+  id: 31337,
+  name: 'Local Devnet',
+  nativeCurrency: {
+    decimals: 18,
+    name: 'Ether',
+    symbol: 'ETH',
+  },
+  rpcUrls: {
+    default: {
+      http: ['http://127.0.0.1:8545'],
+    },
+  },
+  testnet: true,
+})
+
+// Somnia Testnet chain, with the Multicall3 deployment used for batched reads
+export const somniaTestnet = defineChain({
+  id: 50312,
+  name: 'Somnia Testnet',
+  nativeCurrency: {
+    decimals: 18,
+    name: 'SOMI',
+    symbol: 'SOMI',
+  },
+  rpcUrls: {
+    default: {
+      http: ['https://dream-rpc.somnia.network'],
+    },
+  },
+  blockExplorers: {
+    default: {
+      name: 'Somnia Explorer',
+      url: 'https://shannon-explorer.somnia.network',
+    },
+  },
+  contracts: {
+    multicall3: {
+      address: '0x841b8199E6d3Db3C6f264f6C2bd8848b3cA64223',
+      blockCreated: 71314235,
+    },
+  },
+  testnet: true,
+})
+
+export const somniaMainnet = defineChain({
+  id: 5031,
+  name: 'Somnia Mainnet',
+  nativeCurrency: {
+    decimals: 18,
+    name: 'SOMI',
+    symbol: 'SOMI',
+  },
+  rpcUrls: {
+    default: {
+      http: ['https://api.infra.mainnet.somnia.network'],
+    },
+  },
+  blockExplorers: {
+    default: {
+      name: 'Somnia Explorer',
+      url: 'https://explorer.somnia.network',
+    },
+  },
+})
+
+export const NETWORKS: Record<NetworkName, NetworkConfig> = {
+  local: {
+    name: 'local',
+    label: 'Local',
+    chain: localDevnet,
+    deployment: 'localhost',
+    contracts: {},
+  },
+  testnet: {
+    name: 'testnet',
+    label: 'Testnet',
+    chain: somniaTestnet,
+    deployment: 'somniaTestnet',
+    // Deployed contracts must match the current ABI, so addresses only come from a deployment JSON or env
+    contracts: {},
+  },
+  mainnet: {
+    name: 'mainnet',
+    label: 'Mainnet',
+    chain: somniaMainnet,
+    deployment: 'somniaMainnet',
+    contracts: {},
+  },
+}
+
+export function isNetworkName(value: string): value is NetworkName {
+  return (NETWORK_NAMES as readonly string[]).includes(value)
+}
+
+export function getNetworkByChainId(chainId: number): NetworkConfig | undefined {
+  return Object.values(NETWORKS).find(network => network.chain.id === chainId)
+}
+
+function asAddress(value: unknown): `0x${string}` | undefined {
+  return typeof value === 'string' && /^0x[0-9a-fA-F]{40}$/.test(value) ? value as `0x${string}` : undefined
+}
+
+/**
+ * Read contract addresses from a deployment JSON
+ * Contracts are either `{ address, blockNumber }` objects (deploy.ts) or bare
+ * address strings (older deploy scripts). Unknown or malformed entries are ignored.
+ */
+export function parseDeployment(json: unknown): NetworkContracts {
+  const contracts = (json as { contracts?: Record<string, unknown> } | null)?.contracts ?? {}
+
+  const entry = (name: string) => {
+    const value = contracts[name]
+    if (typeof value === 'string') return { address: asAddress(value), blockNumber: undefined }
+    const record = (value ?? {}) as { address?: unknown; blockNumber?: unknown }
+    const blockNumber = typeof record.blockNumber === 'number' || typeof record.blockNumber === 'string'
+      ? BigInt(record.blockNumber)
+      : undefined
+    return { address: asAddress(record.address), blockNumber }
+  }
+
+  const market = entry('PredictionMarket')
+  const somiToken = entry('SomiToken')
+  const game = entry('BossBattleGame')
+
+  const blocks = [market, somiToken, game]
+    .map(contract => contract.blockNumber)
+    .filter((block): block is bigint => block !== undefined)
+
+  return {
+    market: market.address,
+    somiToken: somiToken.address,
+    game: game.address,
+    startBlock: blocks.length > 0 ? blocks.reduce((min, block) => block < min ? block : min) : undefined,
+  }
+}
+
+/**
+ * Layer contract addresses; later sources win, undefined values never override
+ */
+export function mergeContracts(...sources: NetworkContracts[]): NetworkContracts {
+  const merged: NetworkContracts = {}
+  for (const source of sources) {
+    for (const [key, value] of Object.entries(source) as [keyof NetworkContracts, never][]) {
+      if (value !== undefined) merged[key] = value
+    }
+  }
+  return merged
+}
+
+/**
+ * The chain with its default RPC endpoint replaced
+ */
+export function withRpcUrl(chain: Chain, rpcUrl: string): Chain {
+  return { ...chain, rpcUrls: { ...chain.rpcUrls, default: { ...chain.rpcUrls.default, http: [rpcUrl] } } }
+}
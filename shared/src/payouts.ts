@@ -0,0 +1,118 @@
+/**
+ * Payout Math for PredEx
+ *
+ * Mirrors the contract's getOdds, claimWinnings and refundBets arithmetic in
+ * bigint, so the API and the frontend show what the contract will pay out to
+ * the wei. Constants are built with BigInt() since the frontend targets ES2017.
+ */
+
+import { MarketStatus, type Bet, type Market } from './types'
+
+export const BASIS_POINTS = BigInt(10000)
+const ZERO = BigInt(0)
+
+type Pools = readonly [bigint, bigint]
+type BetAmounts = Pick<Bet, 'option' | 'amount' | 'claimed'>
+
+export interface Odds {
+  yes: bigint // Payout multiplier in basis points (20000 = 2.0x)
+  no: bigint
+}
+
+/**
+ * Current odds, computed like PredictionMarket.getOdds
+ * An empty market is 2.0x on both sides; an empty side reads 0.
+ */
+export function calculateOdds(market: Pick<Market, 'totalPool' | 'optionPools'>): Odds {
+  if (market.totalPool === ZERO) {
+    return { yes: BigInt(2) * BASIS_POINTS, no: BigInt(2) * BASIS_POINTS }
+  }
+
+  const [yesPool, noPool] = market.optionPools
+  return {
+    yes: yesPool > ZERO ? (market.totalPool * BASIS_POINTS) / yesPool : ZERO,
+    no: noPool > ZERO ? (market.totalPool * BASIS_POINTS) / noPool : ZERO,
+  }
+}
+
+/**
+ * What one winning bet pays out: stake plus its share of the losing pool, minus the fee on that share
+ */
+export function calculateWinnings(amount: bigint, pools: Pools, winningOption: number, platformFee: bigint): bigint {
+  const winningPool = pools[winningOption]
+  const losingPool = pools[winningOption === 0 ? 1 : 0]
+  if (winningPool === ZERO) return ZERO
+
+  const share = (amount * losingPool) / winningPool
+  const fee = (share * platformFee) / BASIS_POINTS
+  return amount + share - fee
+}
+
+/**
+ * Total paid to a set of bets if `outcome` wins with the given pools, claimed or not
+ * Each bet is rounded on its own, as claimWinnings does.
+ */
+export function calculatePayoutIfWins(bets: BetAmounts[], pools: Pools, outcome: number, platformFee: bigint): bigint {
+  return bets
+    .filter(bet => bet.option === outcome)
+    .reduce((sum, bet) => sum + calculateWinnings(bet.amount, pools, outcome, platformFee), ZERO)
+}
+
+/**
+ * Amount a bettor can still claim from a market
+ * Resolved markets pay unclaimed winning bets as in claimWinnings; cancelled
+ * markets refund every unclaimed bet as in refundBets.
+ */
+export function calculateClaimable(
+  market: Pick<Market, 'status' | 'winningOption' | 'optionPools'>,
+  bets: BetAmounts[],
+  platformFee: bigint
+): { kind: 'winnings' | 'refund' | null; amount: bigint } {
+  const unclaimed = bets.filter(bet => !bet.claimed)
+
+  if (market.status === MarketStatus.CANCELLED) {
+    return { kind: 'refund', amount: unclaimed.reduce((sum, bet) => sum + bet.amount, ZERO) }
+  }
+  if (market.status !== MarketStatus.RESOLVED) {
+    return { kind: null, amount: ZERO }
+  }
+
+  return {
+    kind: 'winnings',
+    amount: calculatePayoutIfWins(unclaimed, market.optionPools, market.winningOption, platformFee),
+  }
+}
+
+export interface BetSimulation {
+  poolsAfter: [bigint, bigint]
+  payout: bigint // Claimed if the option wins and no one else bets, after fees
+  profit: bigint // payout - amount
+  fee: bigint // Platform fee taken from the share of the losing pool
+  effectiveOdds: bigint // payout / amount, in basis points
+  oddsAfter: Odds // getOdds once the bet is in the pool
+  breakEvenProbability: bigint // Win probability at which the bet has zero expected profit, in basis points
+}
+
+/**
+ * Simulate placing a bet: the stake joins its pool first, then the payout is
+ * computed exactly as claimWinnings would if the market resolved right away
+ */
+export function simulateBet(pools: Pools, option: number, amount: bigint, platformFee: bigint): BetSimulation {
+  const poolsAfter: [bigint, bigint] = [pools[0], pools[1]]
+  poolsAfter[option] += amount
+
+  const losingPool = poolsAfter[option === 0 ? 1 : 0]
+  const share = amount > ZERO ? (amount * losingPool) / poolsAfter[option] : ZERO
+  const fee = (share * platformFee) / BASIS_POINTS
+  const payout = amount + share - fee
+
+  return {
+    poolsAfter,
+    payout,
+    profit: payout - amount,
+    fee,
+    effectiveOdds: amount > ZERO ? (payout * BASIS_POINTS) / amount : ZERO,
+    oddsAfter: calculateOdds({ totalPool: poolsAfter[0] + poolsAfter[1], optionPools: poolsAfter }),
+    breakEvenProbability: payout > ZERO ? (amount * BASIS_POINTS) / payout : ZERO,
+  }
+}
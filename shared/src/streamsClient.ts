@@ -0,0 +1,354 @@
+/**
+ * Somnia Data Streams Client for PredEx
+ *
+ * The Data Streams operations PredEx uses, behind one interface with three
+ * implementations: the @somnia-chain/streams SDK on the live network, an
+ * in-process mock, and an HTTP client for that mock as served by the backend
+ * (/api/data-streams). The mocks let the resolver and the frontend run offline.
+ *
+ * Every method throws on failure; the SDK's `Error` and `null` results are
+ * turned into exceptions by the SDK adapter.
+ */
+
+import { keccak256, toBytes, type Address, type Hex } from 'viem'
+import { SchemaEncoder, type SDK } from '@somnia-chain/streams'
+
+export interface DataStream {
+  id: Hex // Key the data is stored under
+  schemaId: Hex
+  data: Hex // ABI-encoded with the schema
+}
+
+export interface EventStream {
+  id: string // Registered event id
+  argumentTopics: Hex[]
+  data: Hex
+}
+
+export interface DataSchemaRegistration {
+  id: string // Human readable schema name
+  schema: string
+  parentSchemaId?: Hex
+}
+
+export type DecodedStreamItem = ReturnType<SchemaEncoder['decodeData']>[number]
+
+// Raw data, or decoded items when the schema is registered
+export type StreamData = Hex[] | DecodedStreamItem[][]
+
+export interface StreamEvent {
+  eventId: string
+  argumentTopics: Hex[]
+  data: Hex
+  publisher?: Address // Not known for events delivered by the SDK
+  dataStreams: DataStream[] // Data written in the same setAndEmitEvents call (mocks only)
+}
+
+export interface SubscribeParams {
+  eventId: string
+  argumentTopics?: Hex[] // Only deliver events whose leading topics match
+  onData: (event: StreamEvent) => void
+  onError?: (error: Error) => void
+}
+
+export interface StreamSubscription {
+  unsubscribe: () => void
+}
+
+export interface StreamsClient {
+  // Whether returned hashes are chain transactions that can be awaited
+  onChain: boolean
+  computeSchemaId: (schema: string) => Promise<Hex>
+  isDataSchemaRegistered: (schemaId: Hex) => Promise<boolean>
+  registerDataSchemas: (registrations: DataSchemaRegistration[], ignoreAlreadyRegistered?: boolean) => Promise<Hex>
+  setAndEmitEvents: (dataStreams: DataStream[], eventStreams: EventStream[]) => Promise<Hex>
+  subscribe: (params: SubscribeParams) => Promise<StreamSubscription>
+  getByKey: (schemaId: Hex, publisher: Address, key: Hex) => Promise<StreamData | null>
+  getAllPublisherDataForSchema: (schemaId: Hex, publisher: Address) => Promise<StreamData>
+  getLastPublishedDataForSchema: (schemaId: Hex, publisher: Address) => Promise<StreamData | null>
+  totalPublisherDataForSchema: (schemaId: Hex, publisher: Address) => Promise<bigint>
+}
+
+function unwrap<T>(result: T | Error | null | undefined, operation: string): T {
+  if (result instanceof Error) throw result
+  if (result === null || result === undefined) throw new Error(`Data Streams ${operation} failed`)
+  return result
+}
+
+function matchesTopics(topics: readonly Hex[], filter: readonly Hex[]): boolean {
+  return filter.every((topic, i) => topics[i]?.toLowerCase() === topic.toLowerCase())
+}
+
+function decodeData(schema: string | null | undefined, data: Hex[]): StreamData {
+  if (!schema) return data
+  const encoder = new SchemaEncoder(schema)
+  return data.map(item => encoder.decodeData(item))
+}
+
+// ===== SDK =====
+
+/**
+ * Data Streams on the live network through the @somnia-chain/streams SDK
+ */
+export function createSdkStreamsClient(sdk: SDK): StreamsClient {
+  const { streams } = sdk
+
+  return {
+    onChain: true,
+    computeSchemaId: async (schema) => unwrap(await streams.computeSchemaId(schema), 'computeSchemaId'),
+    isDataSchemaRegistered: async (schemaId) =>
+      unwrap(await streams.isDataSchemaRegistered(schemaId), 'isDataSchemaRegistered'),
+    registerDataSchemas: async (registrations, ignoreAlreadyRegistered = true) =>
+      unwrap(await streams.registerDataSchemas(registrations, ignoreAlreadyRegistered), 'registerDataSchemas'),
+    setAndEmitEvents: async (dataStreams, eventStreams) =>
+      unwrap(await streams.setAndEmitEvents(dataStreams, eventStreams), 'setAndEmitEvents'),
+    subscribe: async ({ eventId, argumentTopics = [], onData, onError }) => {
+      const subscription = await streams.subscribe({
+        somniaStreamsEventId: eventId,
+        ethCalls: [],
+        onlyPushChanges: false,
+        onData: (payload: { result: { topics: Hex[]; data: Hex } }) => {
+          // topics[0] is the event signature
+          const topics = payload.result.topics.slice(1)
+          if (!matchesTopics(topics, argumentTopics)) return
+          onData({ eventId, argumentTopics: topics, data: payload.result.data, dataStreams: [] })
+        },
+        onError,
+      })
+      return unwrap(subscription, 'subscribe')
+    },
+    getByKey: (schemaId, publisher, key) => streams.getByKey(schemaId, publisher, key),
+    getAllPublisherDataForSchema: async (schemaId, publisher) =>
+      (await streams.getAllPublisherDataForSchema(schemaId, publisher)) ?? [],
+    getLastPublishedDataForSchema: (schemaId, publisher) => streams.getLastPublishedDataForSchema(schemaId, publisher),
+    totalPublisherDataForSchema: async (schemaId, publisher) =>
+      (await streams.totalPublisherDataForSchema(schemaId, publisher)) ?? BigInt(0),
+  }
+}
+
+// ===== IN-PROCESS MOCK =====
+
+export interface MockStreamEvent extends StreamEvent {
+  sequence: number // Increases by one per event, used as the polling cursor
+  publisher: Address
+}
+
+export interface MockStreamRecord {
+  id: Hex
+  data: Hex
+}
+
+/**
+ * Shared state behind the mock clients and the backend's mock HTTP routes
+ */
+export interface MemoryStreamsStore {
+  getSchema: (schemaId: Hex) => DataSchemaRegistration | null
+  registerSchemas: (registrations: DataSchemaRegistration[], ignoreAlreadyRegistered: boolean) => Hex
+  publish: (publisher: Address, dataStreams: DataStream[], eventStreams: EventStream[]) => Hex
+  // Records of one publisher under a schema, oldest first; a key written twice keeps its latest data
+  getRecords: (schemaId: Hex, publisher: Address) => MockStreamRecord[]
+  // Events after a cursor (all retained events for -1), and the latest cursor
+  getEvents: (after: number) => { events: MockStreamEvent[]; latest: number }
+  onEvent: (listener: (event: MockStreamEvent) => void) => () => void
+}
+
+// Events kept for pollers; older ones are dropped
+const MOCK_EVENT_RETENTION = 1000
+
+/**
+ * Schema id used by the mocks (keccak256 of the schema string)
+ */
+export function computeMockSchemaId(schema: string): Hex {
+  return keccak256(toBytes(schema))
+}
+
+export function createMemoryStreamsStore(): MemoryStreamsStore {
+  const schemas = new Map<string, DataSchemaRegistration>()
+  const records = new Map<string, MockStreamRecord[]>()
+  const events: MockStreamEvent[] = []
+  const listeners = new Set<(event: MockStreamEvent) => void>()
+  let sequence = 0
+  let transactions = 0
+
+  const recordKey = (schemaId: Hex, publisher: Address) => `${schemaId.toLowerCase()}:${publisher.toLowerCase()}`
+  const nextHash = () => keccak256(toBytes(`predex-mock-streams-${++transactions}`))
+
+  return {
+    getSchema: (schemaId) => schemas.get(schemaId.toLowerCase()) ?? null,
+
+    registerSchemas: (registrations, ignoreAlreadyRegistered) => {
+      for (const registration of registrations) {
+        const schemaId = computeMockSchemaId(registration.schema)
+        if (schemas.has(schemaId) && !ignoreAlreadyRegistered) {
+          throw new Error(`Schema ${registration.id} is already registered`)
+        }
+      }
+      for (const registration of registrations) {
+        schemas.set(computeMockSchemaId(registration.schema), registration)
+      }
+      return nextHash()
+    },
+
+    // Data under unregistered schemas is accepted and read back undecoded
+    publish: (publisher, dataStreams, eventStreams) => {
+      for (const stream of dataStreams) {
+        const key = recordKey(stream.schemaId, publisher)
+        const list = (records.get(key) ?? []).filter(record => record.id.toLowerCase() !== stream.id.toLowerCase())
+        list.push({ id: stream.id, data: stream.data })
+        records.set(key, list)
+      }
+
+      const emitted = eventStreams.map(event => ({
+        eventId: event.id,
+        argumentTopics: event.argumentTopics,
+        data: event.data,
+        publisher,
+        dataStreams,
+        sequence: ++sequence,
+      }))
+      events.push(...emitted)
+      if (events.length > MOCK_EVENT_RETENTION) events.splice(0, events.length - MOCK_EVENT_RETENTION)
+
+      for (const event of emitted) {
+        listeners.forEach(listener => listener(event))
+      }
+      return nextHash()
+    },
+
+    getRecords: (schemaId, publisher) => records.get(recordKey(schemaId, publisher)) ?? [],
+
+    getEvents: (after) => ({ events: events.filter(event => event.sequence > after), latest: sequence }),
+
+    onEvent: (listener) => {
+      listeners.add(listener)
+      return () => { listeners.delete(listener) }
+    },
+  }
+}
+
+function readRecords(schema: string | null, records: MockStreamRecord[]) {
+  return {
+    all: () => decodeData(schema, records.map(record => record.data)),
+    byKey: (key: Hex) => {
+      const record = records.find(r => r.id.toLowerCase() === key.toLowerCase())
+      return record ? decodeData(schema, [record.data]) : null
+    },
+    last: () => (records.length > 0 ? decodeData(schema, [records[records.length - 1].data]) : null),
+    total: () => BigInt(records.length),
+  }
+}
+
+/**
+ * Mock client publishing as `publisher` into a store shared with other clients
+ */
+export function createMemoryStreamsClient(store: MemoryStreamsStore, publisher: Address): StreamsClient {
+  const read = (schemaId: Hex, owner: Address) =>
+    readRecords(store.getSchema(schemaId)?.schema ?? null, store.getRecords(schemaId, owner))
+
+  return {
+    onChain: false,
+    computeSchemaId: async (schema) => computeMockSchemaId(schema),
+    isDataSchemaRegistered: async (schemaId) => store.getSchema(schemaId) !== null,
+    registerDataSchemas: async (registrations, ignoreAlreadyRegistered = true) =>
+      store.registerSchemas(registrations, ignoreAlreadyRegistered),
+    setAndEmitEvents: async (dataStreams, eventStreams) => store.publish(publisher, dataStreams, eventStreams),
+    subscribe: async ({ eventId, argumentTopics = [], onData, onError }) => {
+      const unsubscribe = store.onEvent((event) => {
+        if (event.eventId !== eventId || !matchesTopics(event.argumentTopics, argumentTopics)) return
+        // Delivered asynchronously, like a network subscription
+        setTimeout(() => {
+          try {
+            onData(event)
+          } catch (error) {
+            onError?.(error instanceof Error ? error : new Error(String(error)))
+          }
+        }, 0)
+      })
+      return { unsubscribe }
+    },
+    getByKey: async (schemaId, owner, key) => read(schemaId, owner).byKey(key),
+    getAllPublisherDataForSchema: async (schemaId, owner) => read(schemaId, owner).all(),
+    getLastPublishedDataForSchema: async (schemaId, owner) => read(schemaId, owner).last(),
+    totalPublisherDataForSchema: async (schemaId, owner) => read(schemaId, owner).total(),
+  }
+}
+
+// ===== HTTP MOCK CLIENT =====
+
+export interface HttpStreamsClientOptions {
+  pollIntervalMs?: number // How often subscriptions poll for new events
+}
+
+/**
+ * Client for the mock served over HTTP (the backend mounts it at /api/data-streams)
+ * `publisher` is only needed to write; the mock trusts it as given.
+ */
+export function createHttpStreamsClient(
+  baseUrl: string,
+  publisher?: Address,
+  options: HttpStreamsClientOptions = {}
+): StreamsClient {
+  const pollIntervalMs = options.pollIntervalMs ?? 1000
+  const root = baseUrl.replace(/\/$/, '')
+
+  async function request<T>(path: string, body?: unknown): Promise<T> {
+    const response = await fetch(`${root}${path}`, body === undefined ? undefined : {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    })
+    const json = await response.json().catch(() => ({})) as T & { error?: string }
+    if (!response.ok) throw new Error(json.error || `Data Streams mock request failed: ${response.status}`)
+    return json
+  }
+
+  const writer = () => {
+    if (!publisher) throw new Error('A publisher address is required to write to the Data Streams mock')
+    return publisher
+  }
+
+  const read = async (schemaId: Hex, owner: Address) => {
+    const { schema, records } = await request<{ schema: string | null; records: MockStreamRecord[] }>(
+      `/data/${schemaId}/${owner}`
+    )
+    return readRecords(schema, records)
+  }
+
+  return {
+    onChain: false,
+    computeSchemaId: async (schema) => computeMockSchemaId(schema),
+    isDataSchemaRegistered: async (schemaId) =>
+      (await request<{ registered: boolean }>(`/schemas/${schemaId}`)).registered,
+    registerDataSchemas: async (registrations, ignoreAlreadyRegistered = true) =>
+      (await request<{ txHash: Hex }>('/schemas', { registrations, ignoreAlreadyRegistered })).txHash,
+    setAndEmitEvents: async (dataStreams, eventStreams) =>
+      (await request<{ txHash: Hex }>('/publish', { publisher: writer(), dataStreams, eventStreams })).txHash,
+    subscribe: async ({ eventId, argumentTopics = [], onData, onError }) => {
+      // Only events published after subscribing are delivered
+      let cursor = (await request<{ latest: number }>('/events')).latest
+      let polling = false
+
+      const timer = setInterval(async () => {
+        if (polling) return
+        polling = true
+        try {
+          const { events, latest } = await request<{ events: MockStreamEvent[]; latest: number }>(`/events?after=${cursor}`)
+          cursor = latest
+          for (const event of events) {
+            if (event.eventId === eventId && matchesTopics(event.argumentTopics, argumentTopics)) onData(event)
+          }
+        } catch (error) {
+          onError?.(error instanceof Error ? error : new Error(String(error)))
+        } finally {
+          polling = false
+        }
+      }, pollIntervalMs)
+
+      return { unsubscribe: () => clearInterval(timer) }
+    },
+    getByKey: async (schemaId, owner, key) => (await read(schemaId, owner)).byKey(key),
+    getAllPublisherDataForSchema: async (schemaId, owner) => (await read(schemaId, owner)).all(),
+    getLastPublishedDataForSchema: async (schemaId, owner) => (await read(schemaId, owner)).last(),
+    totalPublisherDataForSchema: async (schemaId, owner) => (await read(schemaId, owner)).total(),
+  }
+}
@@ -0,0 +1,89 @@
+/**
+ * Shared On-Chain Types for PredEx
+ *
+ * Mirrors the Market and Bet structs of the PredictionMarket contract and the
+ * enums stored in them. The backend and the frontend both import these, so a
+ * decoded Market means the same thing on either side.
+ */
+
+/**
+ * Market type enum matching the contract
+ */
+export enum MarketType {
+  BLOCK = 0,
+  TRANSFER = 1,
+  GAME = 2,
+}
+
+/**
+ * Market status enum matching the contract
+ */
+export enum MarketStatus {
+  ACTIVE = 0,
+  LOCKED = 1,
+  RESOLVED = 2,
+  CANCELLED = 3,
+}
+
+/**
+ * Comparator enum matching the contract
+ * YES wins when `metric <comparator> threshold` holds
+ */
+export enum Comparator {
+  GT = 0,
+  GTE = 1,
+  LT = 2,
+  LTE = 3,
+  EQ = 4,
+}
+
+/**
+ * Metric enum matching the contract
+ */
+export enum Metric {
+  TX_COUNT = 0,
+  TRANSFER_VALUE = 1,
+  TIME_TAKEN = 2,
+  TOTAL_DAMAGE = 3,
+}
+
+/**
+ * Aggregation enum matching the contract
+ * Which events count: the first one after resolutionTime, or all of [createdAt, resolutionTime)
+ */
+export enum Aggregation {
+  FIRST_AFTER_LOCK = 0,
+  ANY = 1,
+  MAX = 2,
+  MIN = 3,
+  SUM = 4,
+  COUNT = 5,
+}
+
+export interface Market {
+  marketId: `0x${string}`
+  marketType: MarketType
+  question: string
+  creator: `0x${string}`
+  createdAt: bigint
+  resolutionTime: bigint
+  status: MarketStatus
+  winningOption: number
+  totalPool: bigint
+  optionPools: [bigint, bigint]
+  dataSourceId: `0x${string}`
+  threshold: bigint
+  thresholdToken: `0x${string}`
+  comparator: Comparator
+  metric: Metric
+  aggregation: Aggregation
+}
+
+export interface Bet {
+  bettor: `0x${string}`
+  marketId: `0x${string}`
+  option: number // 0 = YES, 1 = NO
+  amount: bigint
+  timestamp: bigint
+  claimed: boolean
+}
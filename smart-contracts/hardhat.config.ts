@@ -21,6 +21,18 @@ const config: HardhatUserConfig = {
       gasPrice: 12000000000, // 12 gwei
       type: "http",
     },
+    somniaMainnet: {
+      url: process.env.SOMNIA_MAINNET_RPC_URL || "https://api.infra.mainnet.somnia.network",
+      chainId: 5031,
+      accounts: process.env.PRIVATE_KEY ? [process.env.PRIVATE_KEY] : [],
+      type: "http",
+    },
+    // Local anvil or `hardhat node`; uses the node's unlocked accounts
+    localhost: {
+      url: process.env.LOCAL_RPC_URL || "http://127.0.0.1:8545",
+      chainId: 31337,
+      type: "http",
+    },
   },
   paths: {
     sources: "./contracts",
@@ -1,4 +1,4 @@
-import { ethers } from "hardhat";
+import { ethers, network as hardhatNetwork } from "hardhat";
 import fs from "fs";
 import path from "path";
 import { fileURLToPath } from 'url';
@@ -9,7 +9,7 @@ const __dirname = dirname(__filename);
 
 async function main() {
   console.log("\n========================================");
-  console.log("  PREDEX - SOMNIA TESTNET DEPLOYMENT");
+  console.log(`  PREDEX - ${hardhatNetwork.name.toUpperCase()} DEPLOYMENT`);
   console.log("========================================\n");
 
   // Get deployer
@@ -22,32 +22,47 @@ async function main() {
   console.log("Chain ID:", network.chainId);
   console.log("========================================\n");
 
+  // Deploy SomiToken
+  console.log("[1/3] Deploying SomiToken...");
+  const SomiToken = await ethers.getContractFactory("SomiToken");
+  const somiToken = await SomiToken.deploy();
+  const somiTokenReceipt = await somiToken.deployTransaction.wait();
+  console.log("      SomiToken deployed at:", somiToken.address, "\n");
+
   // Deploy PredictionMarket
-  console.log("[1/2] Deploying PredictionMarket...");
+  console.log("[2/3] Deploying PredictionMarket...");
   const PredictionMarket = await ethers.getContractFactory("PredictionMarket");
-  const predictionMarket = await PredictionMarket.deploy();
-  await predictionMarket.deployed();
+  const predictionMarket = await PredictionMarket.deploy(somiToken.address);
+  const predictionMarketReceipt = await predictionMarket.deployTransaction.wait();
   console.log("      PredictionMarket deployed at:", predictionMarket.address, "\n");
 
   // Deploy BossBattleGame
-  console.log("[2/2] Deploying BossBattleGame...");
+  console.log("[3/3] Deploying BossBattleGame...");
   const BossBattleGame = await ethers.getContractFactory("BossBattleGame");
   const bossBattleGame = await BossBattleGame.deploy();
-  await bossBattleGame.deployed();
+  const bossBattleGameReceipt = await bossBattleGame.deployTransaction.wait();
   console.log("      BossBattleGame deployed at:", bossBattleGame.address, "\n");
 
   // Save deployment info
+  // Read by the network registry in backend/src/networks.ts and frontend/lib/networks.ts;
+  // blockNumber is where the backend starts indexing events
   const deploymentInfo = {
-    network: network.name,
+    network: hardhatNetwork.name,
     chainId: network.chainId.toString(),
     deployer: deployer.address,
     timestamp: new Date().toISOString(),
     contracts: {
+      SomiToken: {
+        address: somiToken.address,
+        blockNumber: somiTokenReceipt.blockNumber,
+      },
       PredictionMarket: {
         address: predictionMarket.address,
+        blockNumber: predictionMarketReceipt.blockNumber,
       },
       BossBattleGame: {
         address: bossBattleGame.address,
+        blockNumber: bossBattleGameReceipt.blockNumber,
       },
     },
   };
@@ -60,12 +75,12 @@ async function main() {
 
   const deploymentFile = path.join(
     deploymentsDir,
-    `somnia-testnet-${Date.now()}.json`
+    `${hardhatNetwork.name}-${Date.now()}.json`
   );
   fs.writeFileSync(deploymentFile, JSON.stringify(deploymentInfo, null, 2));
 
   // Also save latest deployment
-  const latestFile = path.join(deploymentsDir, `somnia-testnet-latest.json`);
+  const latestFile = path.join(deploymentsDir, `${hardhatNetwork.name}-latest.json`);
   fs.writeFileSync(latestFile, JSON.stringify(deploymentInfo, null, 2));
 
   console.log("💾 Deployment info saved to:", deploymentFile);
@@ -77,13 +92,14 @@ async function main() {
   console.log("========================================\n");
 
   console.log("==> Contract Addresses:");
+  console.log("SOMI_TOKEN_ADDRESS=", somiToken.address);
   console.log("PREDICTION_MARKET_ADDRESS=", predictionMarket.address);
   console.log("BOSS_BATTLE_GAME_ADDRESS=", bossBattleGame.address);
 
   console.log("\n========================================");
   console.log("  NEXT STEPS:");
   console.log("========================================");
-  console.log("1. Update frontend .env with contract addresses");
+  console.log(`1. Restart the backend with --network and the frontend; both read ${hardhatNetwork.name}-latest.json`);
   console.log("2. Verify contracts on Somnia Explorer");
   console.log("3. Test contract interactions");
   console.log("\nExplorer: https://shannon-explorer.somnia.network/");